@@ -0,0 +1,256 @@
+/**
+ * Authentication Tests.
+ *
+ * Covers bearer token signing and verification, the hashed API key store,
+ * and 401/403 responses from the mounted database and coordination routes.
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import express from 'express';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { ApiKeyStore, TokenSigner } from '../infrastructure/auth';
+import {
+  DatabaseController,
+  setDatabaseController,
+} from '../infrastructure/database/database.controller';
+import { configureAuth } from '../infrastructure/middleware/auth';
+import { errorHandler } from '../infrastructure/middleware/errors';
+import { setRateLimitStore } from '../infrastructure/middleware/rate-limit';
+import { MemoryRateLimitStore } from '../infrastructure/middleware/rate-limit.store';
+import { createCoordinationRoutes } from '../services/api/coordination';
+import { createDatabaseRoutes } from '../services/api/database';
+
+const SECRET = 'test-signing-secret';
+
+class FakeDatabaseController extends DatabaseController {
+  override async executeQuery() {
+    return {
+      success: true,
+      data: { rows: [{ ok: 1 }], rowCount: 1 },
+      metadata: { executionTime: 0, timestamp: new Date().toISOString() },
+    };
+  }
+}
+
+describe('TokenSigner', () => {
+  const signer = new TokenSigner(SECRET);
+
+  it('verifies tokens it signed', () => {
+    const token = signer.sign('user-1', { roles: ['viewer'], name: 'Ada' });
+    const result = signer.verify(token);
+
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(result.claims.sub).toBe('user-1');
+      expect(result.claims.roles).toEqual(['viewer']);
+      expect(result.claims.iss).toBe('claude-zen');
+    }
+  });
+
+  it('rejects tampered claims', () => {
+    const [header, , signature] = signer
+      .sign('user-1', { roles: ['viewer'] })
+      .split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ sub: 'user-1', roles: ['admin'], iss: 'claude-zen', iat: 0, exp: 9e9 })
+    ).toString('base64url');
+
+    expect(signer.verify(`${header}.${forged}.${signature}`)).toEqual({
+      valid: false,
+      reason: 'invalid signature',
+    });
+  });
+
+  it('rejects tokens signed with another secret', () => {
+    const token = new TokenSigner('other-secret').sign('user-1', { roles: ['admin'] });
+    expect(signer.verify(token)).toEqual({ valid: false, reason: 'invalid signature' });
+  });
+
+  it('rejects expired and malformed tokens', () => {
+    const expired = signer.sign('user-1', { roles: ['viewer'], ttlSeconds: -120 });
+
+    expect(signer.verify(expired)).toEqual({ valid: false, reason: 'token expired' });
+    expect(signer.verify('not-a-token')).toEqual({ valid: false, reason: 'malformed token' });
+  });
+});
+
+describe('ApiKeyStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'api-keys-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('creates keys that verify and persists only the hash', () => {
+    const store = new ApiKeyStore(directory);
+    const { key, record } = store.create('ci', ['developer']);
+
+    expect(key).toMatch(/^czk_[\da-f]{12}_[\w-]{43}$/);
+    expect(store.verify(key)?.id).toBe(record.id);
+
+    const persisted = readFileSync(join(directory, 'api-keys.json'), 'utf8');
+    expect(persisted).toContain(record.hash);
+    expect(persisted).not.toContain(key.split('_')[2]);
+  });
+
+  it('rejects unknown roles', () => {
+    const store = new ApiKeyStore(directory);
+    expect(() => store.create('ci', ['superuser'])).toThrow('Unknown role(s): superuser');
+  });
+
+  it('stops accepting a key once revoked, across store instances', () => {
+    const store = new ApiKeyStore(directory);
+    const { key, record } = store.create('ci', ['viewer']);
+    const otherProcess = new ApiKeyStore(directory);
+    expect(otherProcess.verify(key)).toBeDefined();
+
+    expect(store.revoke(record.id)).toBe(true);
+
+    expect(store.verify(key)).toBeUndefined();
+    expect(store.list()[0]?.revokedAt).toBeDefined();
+    expect(store.revoke('000000000000')).toBe(false);
+  });
+
+  it('rejects expired and wrong keys', () => {
+    const store = new ApiKeyStore(directory);
+    const { key } = store.create('old', ['viewer'], new Date(Date.now() - 1000));
+    const { key: valid } = store.create('new', ['viewer']);
+
+    expect(store.verify(key)).toBeUndefined();
+    expect(store.verify(`${valid.slice(0, -1)}${valid.endsWith('A') ? 'B' : 'A'}`)).toBeUndefined();
+    expect(store.verify('czk_nope')).toBeUndefined();
+  });
+});
+
+describe('route authentication', () => {
+  let directory: string;
+  let server: Server;
+  let baseUrl: string;
+  let apiKeys: ApiKeyStore;
+  const signer = new TokenSigner(SECRET);
+
+  const request = (path: string, init: RequestInit = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+    });
+  const bearer = (roles: string[]) => ({
+    Authorization: `Bearer ${signer.sign('user-1', { roles })}`,
+  });
+
+  beforeAll(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'route-auth-'));
+    apiKeys = new ApiKeyStore(directory);
+    configureAuth({ apiKeys, tokens: signer });
+    setRateLimitStore(new MemoryRateLimitStore());
+    setDatabaseController(new FakeDatabaseController());
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/v1/database', createDatabaseRoutes());
+    app.use('/api/v1/coordination', createCoordinationRoutes());
+    app.use('/api', errorHandler);
+
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('answers 401 without credentials', async () => {
+    const response = await request('/api/v1/coordination/agents');
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toContain('Bearer');
+    expect((await response.json()).error.status).toBe('UNAUTHENTICATED');
+  });
+
+  it('answers 401 for invalid bearer tokens and unsupported schemes', async () => {
+    const forged = new TokenSigner('other-secret').sign('user-1', { roles: ['admin'] });
+
+    const invalid = await request('/api/v1/coordination/agents', {
+      headers: { Authorization: `Bearer ${forged}` },
+    });
+    const basic = await request('/api/v1/coordination/agents', {
+      headers: { Authorization: 'Basic dXNlcjpwYXNz' },
+    });
+
+    expect(invalid.status).toBe(401);
+    expect((await invalid.json()).error.message).toContain('invalid signature');
+    expect(basic.status).toBe(401);
+  });
+
+  it('answers 403 when the role lacks the permission', async () => {
+    const read = await request('/api/v1/coordination/agents', { headers: bearer(['viewer']) });
+    const write = await request('/api/v1/coordination/agents', {
+      method: 'POST',
+      headers: bearer(['viewer']),
+      body: JSON.stringify({ type: 'coder' }),
+    });
+
+    expect(read.status).toBe(200);
+    expect(write.status).toBe(403);
+    expect((await write.json()).error).toMatchObject({
+      status: 'PERMISSION_DENIED',
+      message: 'Permission denied: requires coordination:write',
+    });
+  });
+
+  it('accepts API keys until they are revoked', async () => {
+    const { key, record } = apiKeys.create('deploy-bot', ['developer']);
+    const create = () =>
+      request('/api/v1/coordination/agents', {
+        method: 'POST',
+        headers: { 'X-API-Key': key },
+        body: JSON.stringify({ type: 'coder' }),
+      });
+
+    expect((await create()).status).toBe(201);
+    apiKeys.revoke(record.id);
+    expect((await create()).status).toBe(401);
+  });
+
+  it('guards database routes by permission level', async () => {
+    const query = await request('/api/v1/database/query', {
+      method: 'POST',
+      headers: bearer(['viewer']),
+      body: JSON.stringify({ sql: 'SELECT 1 AS ok' }),
+    });
+    const migrate = await request('/api/v1/database/migrate', {
+      method: 'POST',
+      headers: bearer(['developer']),
+      body: JSON.stringify({ statements: ['SELECT 1'], version: '1' }),
+    });
+    const anonymousStatus = await request('/api/v1/database/status');
+
+    expect(query.status).toBe(200);
+    expect((await query.json()).data.rowCount).toBe(1);
+    expect(migrate.status).toBe(403);
+    expect(anonymousStatus.status).toBe(403);
+  });
+
+  it('renders validation errors as 400', async () => {
+    const response = await request('/api/v1/database/query', {
+      method: 'POST',
+      headers: bearer(['viewer']),
+      body: JSON.stringify({}),
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.status).toBe('INVALID_ARGUMENT');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Database Controller Tests.
+ *
+ * Covers queries refusing to write through the read-only connection, both
+ * on the controller and through the `/query` route, and batches running
+ * in a transaction only when asked to.
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import express from 'express';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { TokenSigner } from '../infrastructure/auth';
+import {
+  DatabaseController,
+  setDatabaseController,
+} from '../infrastructure/database/database.controller';
+import { configureAuth } from '../infrastructure/middleware/auth';
+import { errorHandler } from '../infrastructure/middleware/errors';
+import { setRateLimitStore } from '../infrastructure/middleware/rate-limit';
+import { MemoryRateLimitStore } from '../infrastructure/middleware/rate-limit.store';
+import { createDatabaseRoutes } from '../services/api/database';
+
+describe('DatabaseController', () => {
+  let directory: string;
+  let controller: DatabaseController;
+
+  const rows = async () =>
+    (await controller.executeQuery({ sql: 'SELECT id FROM notes ORDER BY id' })).data;
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'database-controller-'));
+    process.env['ZEN_DATABASE_PATH'] = join(directory, 'server.db');
+    controller = new DatabaseController();
+    await controller.executeCommand({ sql: 'CREATE TABLE notes (id INTEGER PRIMARY KEY)' });
+    await controller.executeCommand({ sql: 'INSERT INTO notes (id) VALUES (1), (2)' });
+  });
+
+  afterEach(async () => {
+    await controller.close();
+    delete process.env['ZEN_DATABASE_PATH'];
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('refuses queries that write', async () => {
+    const deleted = await controller.executeQuery({
+      sql: 'DELETE FROM notes WHERE id = ? RETURNING id',
+      params: [1],
+    });
+    const updated = await controller.executeQuery({
+      sql: 'UPDATE notes SET id = 3 RETURNING id',
+    });
+
+    expect(deleted).toMatchObject({ success: false, error: expect.stringMatching(/readonly/) });
+    expect(updated.success).toBe(false);
+    expect(await rows()).toEqual({ rows: [{ id: 1 }, { id: 2 }], rowCount: 2 });
+  });
+
+  it('sees writes committed on the writable connection', async () => {
+    await controller.executeCommand({ sql: 'INSERT INTO notes (id) VALUES (?)', params: [3] });
+
+    expect((await rows())).toMatchObject({ rowCount: 3 });
+  });
+
+  it('serves no queries for an injected adapter without a read connection', async () => {
+    const injected = new DatabaseController({} as never);
+
+    expect(await injected.executeQuery({ sql: 'SELECT 1' })).toMatchObject({
+      success: false,
+      error: 'No read-only database connection configured for queries',
+    });
+  });
+
+  it('runs batches in a transaction only when asked to', async () => {
+    const operations = [
+      { type: 'execute' as const, sql: 'INSERT INTO notes (id) VALUES (3)' },
+      { type: 'execute' as const, sql: 'INSERT INTO notes (id) VALUES (1)' },
+    ];
+
+    const atomic = await controller.executeTransaction({ operations, useTransaction: true });
+    expect(atomic.success).toBe(false);
+    expect(await rows()).toMatchObject({ rowCount: 2 });
+
+    const partial = await controller.executeTransaction({ operations, continueOnError: true });
+    expect(partial.data).toMatchObject({
+      committed: false,
+      results: [{ index: 0, success: true }, { index: 1, success: false }],
+    });
+    expect(await rows()).toMatchObject({ rowCount: 3 });
+  });
+});
+
+describe('POST /api/v1/database/query', () => {
+  let directory: string;
+  let controller: DatabaseController;
+  let server: Server;
+  let baseUrl: string;
+  const signer = new TokenSigner('test-signing-secret');
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'database-routes-'));
+    process.env['ZEN_DATABASE_PATH'] = join(directory, 'server.db');
+    controller = new DatabaseController();
+    await controller.executeCommand({ sql: 'CREATE TABLE notes (id INTEGER PRIMARY KEY)' });
+    await controller.executeCommand({ sql: 'INSERT INTO notes (id) VALUES (1)' });
+    setDatabaseController(controller);
+    configureAuth({ tokens: signer });
+    setRateLimitStore(new MemoryRateLimitStore());
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/v1/database', createDatabaseRoutes());
+    app.use('/api', errorHandler);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await controller.close();
+    delete process.env['ZEN_DATABASE_PATH'];
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('does not let a reader delete rows', async () => {
+    const query = (sql: string) =>
+      fetch(`${baseUrl}/api/v1/database/query`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${signer.sign('reader', { roles: ['viewer'] })}`,
+        },
+        body: JSON.stringify({ sql }),
+      }).then((response) => response.json());
+
+    expect(await query('DELETE FROM notes RETURNING id')).toMatchObject({ success: false });
+    expect(await query('SELECT id FROM notes')).toMatchObject({
+      success: true,
+      data: { rows: [{ id: 1 }], rowCount: 1 },
+    });
+  });
+});
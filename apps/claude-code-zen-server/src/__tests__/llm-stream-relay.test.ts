@@ -0,0 +1,315 @@
+/**
+ * LLM Stream Relay Tests.
+ *
+ * Covers buffering chunks until the first client joins a stream room,
+ * joining the requesting socket up front, restricting cancellation to the
+ * socket that requested the stream, and streams started through
+ * `POST /api/v1/llm/streams`.
+ */
+
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import express from 'express';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { logger, chatStream } = vi.hoisted(() => {
+  const logger = { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} };
+  (globalThis as Record<string, unknown>).foundation = {
+    getLogger: () => logger,
+    getVersion: () => 'test',
+  };
+  return { logger, chatStream: vi.fn() };
+});
+
+vi.mock('@claude-zen/foundation', () => ({
+  getLogger: () => logger,
+  getLogEntries: () => [],
+  setLogBroadcaster: () => {},
+}));
+vi.mock('@claude-zen/event-system', () => ({
+  uel: { on: () => {}, off: () => {} },
+}));
+vi.mock('@claude-zen/llm-providers', () => ({
+  getGlobalLLM: () => ({ chatStream }),
+}));
+
+import { TokenSigner } from '../infrastructure/auth';
+import { configureAuth } from '../infrastructure/middleware/auth';
+import { setRateLimitStore } from '../infrastructure/middleware/rate-limit';
+import { MemoryRateLimitStore } from '../infrastructure/middleware/rate-limit.store';
+import {
+  type LLMStreamChunk,
+  WebSocketManager,
+} from '../infrastructure/websocket/socket.manager';
+import { createLLMRoutes } from '../services/api/llm';
+
+type Handler = (...args: unknown[]) => void;
+
+/** Minimal in-memory stand-in for the parts of Socket.IO the manager uses */
+class FakeServer {
+  rooms = new Map<string, Set<string>>();
+  sockets = new Map<string, FakeSocket>();
+  received: Array<{ to: string; event: string; data: { data: unknown } }> = [];
+  private connection?: Handler;
+
+  get asIO() {
+    return {
+      on: (_event: string, handler: Handler) => {
+        this.connection = handler;
+      },
+      emit: (event: string, data: { data: unknown }) => {
+        this.received.push({ to: '*', event, data });
+      },
+      to: (room: string) => ({
+        emit: (event: string, data: { data: unknown }) => {
+          for (const id of this.rooms.get(room) ?? []) {
+            this.received.push({ to: id, event, data });
+          }
+        },
+      }),
+      sockets: { sockets: this.sockets, adapter: { rooms: this.rooms } },
+      close: () => {},
+    } as never;
+  }
+
+  connect(id: string): FakeSocket {
+    const socket = new FakeSocket(id, this);
+    this.sockets.set(id, socket);
+    this.connection?.(socket);
+    return socket;
+  }
+
+  deltasFor(id: string): string[] {
+    return this.received
+      .filter((entry) => entry.to === id && entry.event === 'llm-stream:chunk')
+      .map((entry) => (entry.data.data as { delta: string }).delta);
+  }
+}
+
+class FakeSocket {
+  handshake = { headers: {} };
+  private handlers = new Map<string, Handler>();
+
+  constructor(
+    readonly id: string,
+    private server: FakeServer
+  ) {}
+
+  on(event: string, handler: Handler) {
+    this.handlers.set(event, handler);
+  }
+
+  emit() {}
+
+  join(room: string) {
+    const members = this.server.rooms.get(room) ?? new Set<string>();
+    members.add(this.id);
+    this.server.rooms.set(room, members);
+  }
+
+  leave(room: string) {
+    this.server.rooms.get(room)?.delete(this.id);
+  }
+
+  send(event: string, ...args: unknown[]) {
+    this.handlers.get(event)?.(...args);
+  }
+}
+
+async function* chunks(...deltas: string[]): AsyncIterable<LLMStreamChunk> {
+  for (const delta of deltas) yield { delta, done: false };
+  yield { delta: '', done: true };
+}
+
+describe('WebSocketManager.relayLLMStream', () => {
+  let server: FakeServer;
+  let manager: WebSocketManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    server = new FakeServer();
+    manager = new WebSocketManager(server.asIO, { realTime: true }, {
+      getSystemStatus: async () => ({}),
+      getSwarms: async () => [],
+      getTasks: async () => [],
+      getServiceStats: () => ({}),
+    });
+    manager.setupWebSocket();
+  });
+
+  afterEach(() => {
+    manager.shutdown();
+    vi.useRealTimers();
+  });
+
+  it('holds chunks until the first client joins the stream room', async () => {
+    const viewer = server.connect('viewer');
+
+    await manager.relayLLMStream('s1', chunks('Hel', 'lo'));
+    expect(server.deltasFor('viewer')).toEqual([]);
+
+    viewer.send('subscribe', 'llm-stream:s1');
+    expect(server.deltasFor('viewer')).toEqual(['Hel', 'lo']);
+    expect(server.received.at(-1)).toMatchObject({ to: 'viewer', event: 'llm-stream:end' });
+  });
+
+  it('joins the requesting socket before the first chunk', async () => {
+    server.connect('requester');
+
+    await manager.relayLLMStream('s2', chunks('a', 'b'), { requesterSocketId: 'requester' });
+
+    expect(server.deltasFor('requester')).toEqual(['a', 'b']);
+  });
+
+  it('only lets the requesting socket cancel the stream', async () => {
+    const requester = server.connect('requester');
+    const other = server.connect('other');
+    const controller = new AbortController();
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    async function* slow(): AsyncIterable<LLMStreamChunk> {
+      yield { delta: 'first', done: false };
+      await gate;
+      if (controller.signal.aborted) throw new Error('aborted');
+      yield { delta: '', done: true };
+    }
+
+    const relay = manager.relayLLMStream('s3', slow(), {
+      controller,
+      requesterSocketId: 'requester',
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    other.send('llm-stream:cancel', 's3');
+    expect(controller.signal.aborted).toBe(false);
+
+    requester.send('llm-stream:cancel', 's3');
+    expect(controller.signal.aborted).toBe(true);
+
+    release();
+    await relay;
+    expect(server.received.at(-1)).toMatchObject({
+      to: 'requester',
+      event: 'llm-stream:error',
+      data: { data: { cancelled: true } },
+    });
+  });
+});
+
+describe('POST /api/v1/llm/streams', () => {
+  let io: FakeServer;
+  let manager: WebSocketManager;
+  let server: Server;
+  let baseUrl: string;
+  let relayed: Promise<void>[];
+  const signer = new TokenSigner('test-signing-secret');
+
+  const start = (body: Record<string, unknown>, roles = ['developer']) =>
+    fetch(`${baseUrl}/api/v1/llm/streams`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${signer.sign('dev', { roles })}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(async () => {
+    chatStream.mockReset();
+    configureAuth({ tokens: signer });
+    setRateLimitStore(new MemoryRateLimitStore());
+    io = new FakeServer();
+    manager = new WebSocketManager(io.asIO, { realTime: true }, {
+      getSystemStatus: async () => ({}),
+      getSwarms: async () => [],
+      getTasks: async () => [],
+      getServiceStats: () => ({}),
+    });
+    manager.setupWebSocket();
+    relayed = [];
+
+    const app = express();
+    app.use(express.json());
+    app.use(
+      '/api/v1/llm',
+      createLLMRoutes((streamId, stream, options) => {
+        const relay = manager.relayLLMStream(streamId, stream, options);
+        relayed.push(relay);
+        return relay;
+      })
+    );
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    manager.shutdown();
+  });
+
+  it("relays the provider's stream to the requesting socket", async () => {
+    io.connect('requester');
+    chatStream.mockResolvedValue({ isErr: () => false, value: chunks('Hel', 'lo') });
+
+    const response = await start({ prompt: 'Say hello', socketId: 'requester' });
+    const { streamId, room } = await response.json();
+    await Promise.all(relayed);
+
+    expect(response.status).toBe(202);
+    expect(room).toBe(`llm-stream:${streamId}`);
+    expect(chatStream).toHaveBeenCalledWith(
+      expect.objectContaining({ messages: [{ role: 'user', content: 'Say hello' }] }),
+      { signal: expect.any(AbortSignal) }
+    );
+    expect(io.deltasFor('requester')).toEqual(['Hel', 'lo']);
+    expect(io.received.at(-1)).toMatchObject({
+      to: 'requester',
+      event: 'llm-stream:end',
+      data: { data: { streamId, chunks: 2 } },
+    });
+  });
+
+  it("aborts the provider's stream when the requester cancels", async () => {
+    const requester = io.connect('requester');
+    let signal!: AbortSignal;
+    async function* untilAborted(): AsyncIterable<LLMStreamChunk> {
+      yield { delta: 'first', done: false };
+      await new Promise((resolve) => signal.addEventListener('abort', resolve));
+      throw new Error('aborted');
+    }
+    chatStream.mockImplementation(async (_request, options: { signal: AbortSignal }) => {
+      signal = options.signal;
+      return { isErr: () => false, value: untilAborted() };
+    });
+
+    const { streamId } = await (await start({ prompt: 'Go on', socketId: 'requester' })).json();
+    requester.send('llm-stream:cancel', streamId);
+    await Promise.all(relayed);
+
+    expect(signal.aborted).toBe(true);
+    expect(io.received.at(-1)).toMatchObject({
+      event: 'llm-stream:error',
+      data: { data: { streamId, cancelled: true } },
+    });
+  });
+
+  it('rejects callers without llm:stream, empty requests and failed starts', async () => {
+    chatStream.mockResolvedValue({
+      isErr: () => true,
+      error: { code: 'TIMEOUT_ERROR', message: 'LLM stream timeout' },
+    });
+
+    expect((await start({ prompt: 'hi' }, ['viewer'])).status).toBe(403);
+    expect((await start({ messages: [{ role: 'tool', content: 'x' }] })).status).toBe(400);
+    expect(chatStream).not.toHaveBeenCalled();
+
+    const failed = await start({ prompt: 'hi' });
+    expect(failed.status).toBe(502);
+    expect(await failed.json()).toMatchObject({ error: { message: 'LLM stream timeout' } });
+    expect(relayed).toEqual([]);
+  });
+});
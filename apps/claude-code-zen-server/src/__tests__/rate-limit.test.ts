@@ -0,0 +1,143 @@
+/**
+ * Rate Limiting Tests.
+ *
+ * Covers the token-bucket arithmetic, the SQLite store shared between
+ * processes, and 429 responses from the mounted API routes.
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import express from 'express';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import { TokenSigner } from '../infrastructure/auth';
+import {
+  DatabaseController,
+  setDatabaseController,
+} from '../infrastructure/database/database.controller';
+import { configureAuth } from '../infrastructure/middleware/auth';
+import { TIER_POLICIES, setRateLimitStore } from '../infrastructure/middleware/rate-limit';
+import {
+  MemoryRateLimitStore,
+  SqliteRateLimitStore,
+  takeTokens,
+} from '../infrastructure/middleware/rate-limit.store';
+import { createCoordinationRoutes } from '../services/api/coordination';
+import { createDatabaseRoutes } from '../services/api/database';
+
+const policy = { limit: 2, windowMs: 1000 };
+
+class FakeDatabaseController extends DatabaseController {
+  override async executeMigration() {
+    return {
+      success: true,
+      data: { applied: true },
+      metadata: { executionTime: 0, timestamp: new Date().toISOString() },
+    };
+  }
+}
+
+describe('takeTokens', () => {
+  it('drains the bucket and refills it over the window', () => {
+    let state;
+    const decisions = [0, 0, 0].map(() => {
+      const result = takeTokens(state, policy, 1, 0);
+      state = result.state;
+      return result.decision;
+    });
+
+    expect(decisions.map((decision) => decision.allowed)).toEqual([true, true, false]);
+    expect(decisions[2]).toMatchObject({ remaining: 0, resetMs: 500 });
+    expect(takeTokens(state, policy, 1, 500).decision.allowed).toBe(true);
+  });
+});
+
+describe('SqliteRateLimitStore', () => {
+  it('shares buckets between store instances', () => {
+    const directory = mkdtempSync(join(tmpdir(), 'rate-limit-'));
+    const databasePath = join(directory, 'buckets.db');
+    const first = new SqliteRateLimitStore(databasePath);
+    const second = new SqliteRateLimitStore(databasePath);
+
+    try {
+      expect(first.consume('user:1', policy).allowed).toBe(true);
+      expect(second.consume('user:1', policy).allowed).toBe(true);
+      expect(first.consume('user:1', policy).allowed).toBe(false);
+
+      second.reset('user:1');
+      expect(first.consume('user:1', policy).allowed).toBe(true);
+    } finally {
+      first.close();
+      second.close();
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('mounted route limits', () => {
+  const signer = new TokenSigner('rate-limit-secret');
+  const store = new MemoryRateLimitStore();
+  let server: Server;
+  let baseUrl: string;
+
+  const migrate = (subject: string) =>
+    fetch(`${baseUrl}/api/v1/database/migrate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${signer.sign(subject, { roles: ['admin'] })}`,
+      },
+      body: JSON.stringify({ statements: ['SELECT 1'], version: '1' }),
+    });
+
+  beforeAll(async () => {
+    configureAuth({ tokens: signer });
+    setRateLimitStore(store);
+    setDatabaseController(new FakeDatabaseController());
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/v1/database', createDatabaseRoutes());
+    app.use('/api/v1/coordination', createCoordinationRoutes());
+
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    store.close();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('answers 429 with Retry-After once the tier limit is exceeded', async () => {
+    const { limit } = TIER_POLICIES.admin;
+    for (let i = 0; i < limit; i++) {
+      expect((await migrate('operator-1')).status).toBe(200);
+    }
+
+    const limited = await migrate('operator-1');
+
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(limited.headers.get('ratelimit-remaining')).toBe('0');
+    expect(limited.headers.get('ratelimit-limit')).toBe(String(limit));
+    expect((await limited.json()).error.status).toBe('RESOURCE_EXHAUSTED');
+  });
+
+  it('keeps a separate bucket per authenticated caller', async () => {
+    expect((await migrate('operator-2')).status).toBe(200);
+  });
+
+  it('limits coordination routes too', async () => {
+    const response = await fetch(`${baseUrl}/api/v1/coordination/health`);
+
+    expect(response.headers.get('ratelimit-limit')).toBe(
+      String(TIER_POLICIES.light.limit)
+    );
+  });
+});
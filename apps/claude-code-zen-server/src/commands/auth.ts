@@ -16,6 +16,8 @@ import { createInterface } from 'readline';
 
 import { getLogger } from '@claude-zen/foundation';
 
+import { ApiKeyStore, TokenSigner } from '../infrastructure/auth';
+
 const logger = getLogger('claude-zen-auth');
 
 interface DeviceFlowResponse {
@@ -413,6 +415,74 @@ export async function authLogout(): Promise<void> {
   }
 }
 
+/**
+ * Create a server API key. The plaintext key is printed once and only its
+ * hash is stored under the `.claude-zen` directory.
+ *
+ * @param name
+ * @param roles
+ */
+export function apiKeyCreate(name: string, roles: string[]): void {
+  try {
+    const { record, key } = new ApiKeyStore().create(name, roles);
+    console.log('\n🔑 API key created');
+    console.log('═'.repeat(30));
+    console.log(`🆔 Id: ${record.id}`);
+    console.log(`👥 Roles: ${record.roles.join(', ')}`);
+    console.log(`\n${key}\n`);
+    console.log('⚠️  Store this key now - it cannot be shown again.');
+  } catch (error) {
+    logger.error('Failed to create API key:', error);
+    process.exit(1);
+  }
+}
+
+export function apiKeyList(): void {
+  const keys = new ApiKeyStore().list();
+  if (keys.length === 0) {
+    console.log('\n💡 No API keys found');
+    return;
+  }
+  console.log('\n🔑 API keys');
+  console.log('═'.repeat(30));
+  for (const key of keys) {
+    const status = key.revokedAt ? `revoked ${key.revokedAt}` : 'active';
+    console.log(`${key.id}  ${key.name}  [${key.roles.join(', ')}]  ${status}`);
+  }
+}
+
+export function apiKeyRevoke(id: string): void {
+  if (new ApiKeyStore().revoke(id)) {
+    console.log(`\n✅ API key ${id} revoked`);
+  } else {
+    console.log(`\n❌ API key ${id} not found`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Issue a signed bearer token for the server API.
+ *
+ * @param subject
+ * @param roles
+ * @param ttlSeconds
+ */
+export function tokenIssue(subject: string, roles: string[], ttlSeconds?: number): void {
+  const token = new TokenSigner().sign(subject, { roles, ttlSeconds });
+  console.log(token);
+}
+
+/**
+ * Read a `--flag value` pair from CLI arguments.
+ *
+ * @param args
+ * @param flag
+ */
+function readFlag(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+}
+
 // CLI interface
 async function main() {
   const args = process.argv.slice(2);
@@ -428,6 +498,29 @@ async function main() {
     case 'logout':
       await authLogout();
       break;
+    case 'api-key': {
+      const [, action, target] = args;
+      const roles = (readFlag(args, '--roles') ?? 'viewer').split(',');
+      if (action === 'create' && target) apiKeyCreate(target, roles);
+      else if (action === 'list') apiKeyList();
+      else if (action === 'revoke' && target) apiKeyRevoke(target);
+      else console.log('Usage: claude-zen auth api-key <create <name> [--roles a,b]|list|revoke <id>>');
+      break;
+    }
+    case 'token': {
+      const subject = args[1];
+      if (!subject) {
+        console.log('Usage: claude-zen auth token <subject> [--roles a,b] [--ttl seconds]');
+        break;
+      }
+      const ttl = readFlag(args, '--ttl');
+      tokenIssue(
+        subject,
+        (readFlag(args, '--roles') ?? 'viewer').split(','),
+        ttl ? Number.parseInt(ttl, 10) : undefined
+      );
+      break;
+    }
     default:
       console.log(`
 Claude Code Zen Authentication
@@ -435,14 +528,21 @@ Claude Code Zen Authentication
 Usage: claude-zen auth <command>
 
 Commands:
-  login   Authenticate with GitHub Copilot
-  status  Check authentication status
-  logout  Remove authentication token
+  login    Authenticate with GitHub Copilot
+  status   Check authentication status
+  logout   Remove authentication token
+  api-key  Create, list or revoke server API keys
+  token    Issue a signed bearer token for the server API
+
+Roles: admin, operator, developer, viewer
 
 Examples:
   claude-zen auth login   # Start authentication flow
   claude-zen auth status  # Check if authenticated
   claude-zen auth logout  # Remove token
+  claude-zen auth api-key create ci-bot --roles developer
+  claude-zen auth api-key revoke 3f9a1c2b7d4e
+  claude-zen auth token alice --roles operator --ttl 3600
 `);
       break;
   }
@@ -0,0 +1,164 @@
+/**
+ * API Key Store - hashed API keys under the `.claude-zen` directory.
+ *
+ * Keys have the form `czk_<id>_<secret>`. Only a SHA-256 hash of the
+ * secret is persisted (`api-keys.json`), so the plaintext key is shown
+ * exactly once at creation time. The file is re-read when it changes on
+ * disk, so keys created or revoked through the CLI apply without a restart.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { existsSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+
+import { getLogger } from '@claude-zen/foundation';
+
+import { getAuthStorageDir, writeSecretFile } from './auth-storage';
+import { isRole } from './roles';
+
+const logger = getLogger('api-key-store');
+
+const API_KEYS_FILENAME = 'api-keys.json';
+const KEY_PREFIX = 'czk';
+const KEY_PATTERN = /^czk_([\da-f]{12})_([\w-]{43})$/;
+
+export interface ApiKeyRecord {
+  readonly id: string;
+  readonly name: string;
+  readonly roles: readonly string[];
+  readonly hash: string;
+  readonly createdAt: string;
+  readonly expiresAt?: string;
+  readonly revokedAt?: string;
+}
+
+export interface CreatedApiKey {
+  readonly record: ApiKeyRecord;
+  /** Plaintext key - returned once, never persisted. */
+  readonly key: string;
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+export class ApiKeyStore {
+  private readonly filePath: string;
+  private records = new Map<string, ApiKeyRecord>();
+  private loadedMtimeMs = -1;
+
+  constructor(storageDir: string = getAuthStorageDir()) {
+    this.filePath = join(storageDir, API_KEYS_FILENAME);
+  }
+
+  /**
+   * Create a new API key for the given roles.
+   *
+   * @param name
+   * @param roles
+   * @param expiresAt
+   */
+  create(name: string, roles: readonly string[], expiresAt?: Date): CreatedApiKey {
+    const unknownRoles = roles.filter((role) => !isRole(role));
+    if (unknownRoles.length > 0) {
+      throw new Error(`Unknown role(s): ${unknownRoles.join(', ')}`);
+    }
+
+    this.reload();
+    const id = randomBytes(6).toString('hex');
+    const secret = randomBytes(32).toString('base64url');
+    const record: ApiKeyRecord = {
+      id,
+      name,
+      roles: [...roles],
+      hash: hashSecret(secret),
+      createdAt: new Date().toISOString(),
+      expiresAt: expiresAt?.toISOString(),
+    };
+
+    this.records.set(id, record);
+    this.persist();
+    logger.info(`API key created: ${id} (${name})`, { roles });
+
+    return { record, key: `${KEY_PREFIX}_${id}_${secret}` };
+  }
+
+  /**
+   * List all stored keys (hashes included, plaintext never available).
+   */
+  list(): ApiKeyRecord[] {
+    this.reload();
+    return [...this.records.values()];
+  }
+
+  /**
+   * Revoke a key by id. Returns false when the key does not exist.
+   *
+   * @param id
+   */
+  revoke(id: string): boolean {
+    this.reload();
+    const record = this.records.get(id);
+    if (!record) return false;
+
+    this.records.set(id, { ...record, revokedAt: new Date().toISOString() });
+    this.persist();
+    logger.info(`API key revoked: ${id}`);
+    return true;
+  }
+
+  /**
+   * Verify a presented key. Returns the matching record when the key is
+   * well-formed, known, not revoked and not expired.
+   *
+   * @param key
+   */
+  verify(key: string): ApiKeyRecord | undefined {
+    const match = KEY_PATTERN.exec(key);
+    if (!match) return undefined;
+
+    this.reload();
+    const [, id, secret] = match;
+    const record = this.records.get(id);
+    if (!record || record.revokedAt) return undefined;
+    if (record.expiresAt && Date.parse(record.expiresAt) <= Date.now()) {
+      return undefined;
+    }
+
+    const expected = Buffer.from(record.hash, 'hex');
+    const actual = Buffer.from(hashSecret(secret), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual)
+      ? record
+      : undefined;
+  }
+
+  private reload(): void {
+    if (!existsSync(this.filePath)) {
+      this.records.clear();
+      this.loadedMtimeMs = -1;
+      return;
+    }
+
+    const { mtimeMs } = statSync(this.filePath);
+    if (mtimeMs === this.loadedMtimeMs) return;
+
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, 'utf8')) as {
+        keys?: ApiKeyRecord[];
+      };
+      this.records = new Map((data.keys ?? []).map((record) => [record.id, record]));
+      this.loadedMtimeMs = mtimeMs;
+    } catch (error) {
+      logger.error(`Failed to read ${this.filePath}:`, error);
+      this.records.clear();
+    }
+  }
+
+  private persist(): void {
+    writeSecretFile(
+      this.filePath,
+      JSON.stringify({ version: 1, keys: [...this.records.values()] }, null, 2)
+    );
+    this.loadedMtimeMs = statSync(this.filePath).mtimeMs;
+  }
+}
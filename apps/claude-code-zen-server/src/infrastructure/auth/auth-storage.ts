@@ -0,0 +1,68 @@
+/**
+ * Auth Storage - Location of server credentials.
+ *
+ * Resolves the `.claude-zen` directory that holds hashed API keys and the
+ * bearer token signing secret, using the same precedence as the auth CLI:
+ * project-local when `auth.useProjectConfig` is set, user home otherwise.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+
+const CONFIG_PATH = '.claude-zen';
+
+/**
+ * Read the `auth` section of a `.claude-zen/config.json`, if present.
+ *
+ * @param baseDir
+ */
+function readAuthConfig(baseDir: string): { useProjectConfig?: boolean } | undefined {
+  try {
+    const config = JSON.parse(
+      readFileSync(join(baseDir, CONFIG_PATH, 'config.json'), 'utf8')
+    );
+    return config.auth || {};
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the directory holding auth credentials, creating it when missing.
+ *
+ * `ZEN_AUTH_DIR` overrides the lookup (useful for tests and containers).
+ */
+export function getAuthStorageDir(): string {
+  const override = process.env['ZEN_AUTH_DIR'];
+  const authConfig =
+    readAuthConfig(process.cwd()) ?? readAuthConfig(homedir()) ?? {};
+  const dir =
+    override ||
+    (authConfig.useProjectConfig
+      ? join(process.cwd(), CONFIG_PATH)
+      : join(homedir(), CONFIG_PATH));
+
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true, mode: 0o700 });
+  }
+  return dir;
+}
+
+/**
+ * Write a credentials file atomically with owner-only permissions.
+ *
+ * @param filePath
+ * @param content
+ */
+export function writeSecretFile(filePath: string, content: string): void {
+  const tempPath = join(dirname(filePath), `.${Date.now()}.${process.pid}.tmp`);
+  writeFileSync(tempPath, content, { mode: 0o600 });
+  renameSync(tempPath, filePath);
+}
@@ -0,0 +1,17 @@
+/**
+ * Server authentication primitives: API key store, token signer and RBAC.
+ */
+
+export { getAuthStorageDir } from './auth-storage';
+export { ApiKeyStore } from './api-key.store';
+export type { ApiKeyRecord, CreatedApiKey } from './api-key.store';
+export {
+  ADMIN_PERMISSION,
+  ROLE_PERMISSIONS,
+  isRole,
+  permissionGranted,
+  resolvePermissions,
+} from './roles';
+export type { Role } from './roles';
+export { TokenSigner } from './token.signer';
+export type { TokenClaims, TokenVerification } from './token.signer';
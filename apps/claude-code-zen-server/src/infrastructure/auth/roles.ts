@@ -0,0 +1,77 @@
+/**
+ * Role-Based Access Control - role to permission mapping.
+ *
+ * Permissions follow `<domain>:<action>` (e.g. `database:write`).
+ * A `<domain>:*` grant covers every action in that domain and the
+ * `admin` permission covers everything.
+ */
+
+export type Role = 'admin' | 'operator' | 'developer' | 'viewer' | 'public';
+
+export const ADMIN_PERMISSION = 'admin';
+
+export const ROLE_PERMISSIONS: Readonly<Record<Role, readonly string[]>> = {
+  admin: [ADMIN_PERMISSION],
+  operator: [
+    'database:*',
+    'workspace:*',
+    'coordination:*',
+    'events:*',
+    'llm:*',
+  ],
+  developer: [
+    'database:read',
+    'workspace:read',
+    'workspace:write',
+    'coordination:read',
+    'coordination:write',
+    'events:read',
+    'llm:stream',
+  ],
+  viewer: ['database:read', 'workspace:read', 'coordination:read', 'events:read'],
+  public: [],
+};
+
+/**
+ * Check whether a role name is known to the permission map.
+ *
+ * @param role
+ */
+export function isRole(role: string): role is Role {
+  return Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, role);
+}
+
+/**
+ * Expand a set of roles into the de-duplicated permissions they grant.
+ * Unknown roles grant nothing.
+ *
+ * @param roles
+ */
+export function resolvePermissions(roles: readonly string[]): string[] {
+  const permissions = new Set<string>();
+  for (const role of roles) {
+    if (!isRole(role)) continue;
+    for (const permission of ROLE_PERMISSIONS[role]) {
+      permissions.add(permission);
+    }
+  }
+  return [...permissions];
+}
+
+/**
+ * Check a granted permission list against a required permission,
+ * honouring `admin` and `<domain>:*` wildcards.
+ *
+ * @param granted
+ * @param required
+ */
+export function permissionGranted(
+  granted: readonly string[],
+  required: string
+): boolean {
+  if (granted.includes(ADMIN_PERMISSION) || granted.includes(required)) {
+    return true;
+  }
+  const [domain] = required.split(':');
+  return granted.includes(`${domain}:*`);
+}
@@ -0,0 +1,154 @@
+/**
+ * Token Signer - offline-verifiable bearer tokens.
+ *
+ * Issues and verifies compact HS256 JWTs. Verification needs only the
+ * shared secret, taken from `ZEN_AUTH_TOKEN_SECRET` or generated once into
+ * `.claude-zen/auth-secret` (owner-only permissions).
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+import { getAuthStorageDir, writeSecretFile } from './auth-storage';
+
+const SECRET_FILENAME = 'auth-secret';
+const TOKEN_ISSUER = 'claude-zen';
+const DEFAULT_TTL_SECONDS = 60 * 60 * 12;
+const CLOCK_SKEW_SECONDS = 30;
+
+export interface TokenClaims {
+  readonly sub: string;
+  readonly roles: readonly string[];
+  readonly name?: string;
+  readonly email?: string;
+  readonly iss: string;
+  readonly iat: number;
+  readonly exp: number;
+}
+
+export type TokenVerification =
+  | { valid: true; claims: TokenClaims }
+  | { valid: false; reason: string };
+
+function base64UrlJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Load the signing secret, generating and persisting one on first use.
+ *
+ * @param storageDir
+ */
+function loadSecret(storageDir?: string): Buffer {
+  const fromEnv = process.env['ZEN_AUTH_TOKEN_SECRET'];
+  if (fromEnv) {
+    return Buffer.from(fromEnv);
+  }
+
+  const secretPath = join(storageDir ?? getAuthStorageDir(), SECRET_FILENAME);
+  if (existsSync(secretPath)) {
+    return Buffer.from(readFileSync(secretPath, 'utf8').trim(), 'base64');
+  }
+
+  const secret = randomBytes(48);
+  writeSecretFile(secretPath, secret.toString('base64'));
+  return secret;
+}
+
+export class TokenSigner {
+  private readonly secret: Buffer;
+
+  constructor(secret?: string | Buffer, storageDir?: string) {
+    this.secret =
+      secret === undefined
+        ? loadSecret(storageDir)
+        : Buffer.isBuffer(secret)
+          ? secret
+          : Buffer.from(secret);
+  }
+
+  /**
+   * Issue a signed token for a subject.
+   *
+   * @param subject
+   * @param options
+   * @param options.roles
+   * @param options.name
+   * @param options.email
+   * @param options.ttlSeconds
+   */
+  sign(
+    subject: string,
+    options: {
+      roles: readonly string[];
+      name?: string;
+      email?: string;
+      ttlSeconds?: number;
+    }
+  ): string {
+    const now = Math.floor(Date.now() / 1000);
+    const claims: TokenClaims = {
+      sub: subject,
+      roles: [...options.roles],
+      name: options.name,
+      email: options.email,
+      iss: TOKEN_ISSUER,
+      iat: now,
+      exp: now + (options.ttlSeconds ?? DEFAULT_TTL_SECONDS),
+    };
+
+    const unsigned = `${base64UrlJson({ alg: 'HS256', typ: 'JWT' })}.${base64UrlJson(claims)}`;
+    return `${unsigned}.${this.signature(unsigned).toString('base64url')}`;
+  }
+
+  /**
+   * Verify signature, issuer and validity window of a token.
+   *
+   * @param token
+   */
+  verify(token: string): TokenVerification {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      return { valid: false, reason: 'malformed token' };
+    }
+
+    const [header, payload, signature] = parts;
+    const expected = this.signature(`${header}.${payload}`);
+    const actual = Buffer.from(signature, 'base64url');
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return { valid: false, reason: 'invalid signature' };
+    }
+
+    let claims: TokenClaims;
+    try {
+      const decodedHeader = JSON.parse(Buffer.from(header, 'base64url').toString());
+      if (decodedHeader.alg !== 'HS256') {
+        return { valid: false, reason: 'unsupported algorithm' };
+      }
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    } catch {
+      return { valid: false, reason: 'malformed token' };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (claims.iss !== TOKEN_ISSUER) {
+      return { valid: false, reason: 'invalid issuer' };
+    }
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS <= now) {
+      return { valid: false, reason: 'token expired' };
+    }
+    if (typeof claims.iat === 'number' && claims.iat - CLOCK_SKEW_SECONDS > now) {
+      return { valid: false, reason: 'token issued in the future' };
+    }
+    if (typeof claims.sub !== 'string' || !Array.isArray(claims.roles)) {
+      return { valid: false, reason: 'missing claims' };
+    }
+
+    return { valid: true, claims };
+  }
+
+  private signature(data: string): Buffer {
+    return createHmac('sha256', this.secret).update(data).digest();
+  }
+}
@@ -0,0 +1,356 @@
+/**
+ * @file Database controller behind the `/api/v1/database` routes.
+ * Runs queries, commands, transactions and migrations against the server's
+ * SQLite database through the `@claude-zen/database` adapter, and keeps
+ * simple operation counters for the analytics endpoint. Queries go through
+ * a second, read-only connection, since reading is all their permission
+ * allows.
+ */
+
+import { join } from 'path';
+
+import type { DatabaseAdapter } from '@claude-zen/database';
+import { getLogger } from '@claude-zen/foundation';
+
+const logger = getLogger('database-controller');
+
+const MIGRATIONS_TABLE = 'schema_migrations';
+
+/**
+ * Client-supplied statement options, passed along as given.
+ */
+export type StatementOptions = Record<string, unknown>;
+
+export interface QueryRequest {
+  sql: string;
+  params?: unknown[];
+  options?: StatementOptions;
+}
+
+export interface CommandRequest {
+  sql: string;
+  params?: unknown[];
+  options?: StatementOptions;
+}
+
+export interface BatchRequest {
+  operations: Array<{
+    type: 'query' | 'execute';
+    sql: string;
+    params?: unknown[];
+  }>;
+  useTransaction?: boolean;
+  continueOnError?: boolean;
+}
+
+export interface MigrationRequest {
+  statements: string[];
+  version: string;
+  description?: string;
+  dryRun?: boolean;
+}
+
+export interface DatabaseResponse<T = unknown> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  metadata: {
+    executionTime: number;
+    timestamp: string;
+  };
+}
+
+export interface DatabaseStatus {
+  status: string;
+  healthy: boolean;
+  connections: unknown;
+}
+
+export interface DatabaseHealth {
+  status: 'healthy' | 'unhealthy';
+  connected: boolean;
+  details?: Record<string, unknown>;
+  error?: string;
+}
+
+interface OperationStats {
+  queries: number;
+  commands: number;
+  transactions: number;
+  migrations: number;
+  errors: number;
+  totalTime: number;
+}
+
+type CountedOperation = 'queries' | 'commands' | 'transactions' | 'migrations';
+
+export class DatabaseController {
+  private adapter: DatabaseAdapter | undefined;
+  private readAdapter: DatabaseAdapter | undefined;
+  private readonly ownsConnections: boolean;
+  private pending: Promise<unknown> = Promise.resolve();
+  private readonly stats: OperationStats = {
+    queries: 0,
+    commands: 0,
+    transactions: 0,
+    migrations: 0,
+    errors: 0,
+    totalTime: 0,
+  };
+
+  /**
+   * @param adapter - Defaults to a SQLite adapter on `ZEN_DATABASE_PATH`
+   *   (or `.claude-zen/server.db`), created on first use.
+   * @param readAdapter - Connection for queries, which must refuse writes.
+   *   Defaults to a read-only connection on the same file when `adapter`
+   *   is defaulted too; without it an injected adapter serves no queries.
+   */
+  constructor(adapter?: DatabaseAdapter, readAdapter?: DatabaseAdapter) {
+    this.adapter = adapter;
+    this.readAdapter = readAdapter;
+    this.ownsConnections = !adapter;
+  }
+
+  async getDatabaseStatus(): Promise<DatabaseResponse<DatabaseStatus>> {
+    return this.run('read', async (adapter) => {
+      const health = await adapter.health();
+      const connections = await adapter.getConnectionStats();
+      return { status: health.status, healthy: health.healthy, connections };
+    });
+  }
+
+  /**
+   * Run a query on the read-only connection, so statements that write,
+   * such as `DELETE … RETURNING`, fail instead of changing rows.
+   */
+  async executeQuery(request: QueryRequest): Promise<DatabaseResponse> {
+    return this.run(
+      'queries',
+      async (reader) => {
+        const result = await reader.query(request.sql, request.params);
+        return { rows: result.rows, rowCount: result.rowCount };
+      },
+      () => this.getReadAdapter()
+    );
+  }
+
+  async executeCommand(request: CommandRequest): Promise<DatabaseResponse> {
+    return this.run('commands', (adapter) =>
+      this.exclusive(() => adapter.execute(request.sql, request.params))
+    );
+  }
+
+  /**
+   * Run a batch of operations. With `useTransaction` the batch commits as
+   * a whole or rolls back on the first failure; otherwise `continueOnError`
+   * decides whether to keep going.
+   */
+  async executeTransaction(request: BatchRequest): Promise<DatabaseResponse> {
+    return this.run('transactions', (adapter) =>
+      this.exclusive(async () => {
+        const useTransaction = Boolean(request.useTransaction);
+        const results: Array<{ index: number; success: boolean; result?: unknown; error?: string }> = [];
+
+        if (useTransaction) await adapter.execute('BEGIN');
+        try {
+          for (const [index, operation] of request.operations.entries()) {
+            try {
+              const result =
+                operation.type === 'query'
+                  ? await adapter.query(operation.sql, operation.params)
+                  : await adapter.execute(operation.sql, operation.params);
+              results.push({ index, success: true, result });
+            } catch (error) {
+              if (useTransaction || !request.continueOnError) throw error;
+              results.push({ index, success: false, error: errorMessage(error) });
+            }
+          }
+          if (useTransaction) await adapter.execute('COMMIT');
+        } catch (error) {
+          if (useTransaction) await adapter.execute('ROLLBACK');
+          throw error;
+        }
+
+        return { committed: useTransaction, results };
+      })
+    );
+  }
+
+  async getDatabaseSchema(): Promise<DatabaseResponse> {
+    return this.run('read', (adapter) => adapter.getSchema());
+  }
+
+  /**
+   * Apply migration statements once per version, recorded in
+   * `schema_migrations`. A dry run only reports what would run.
+   */
+  async executeMigration(request: MigrationRequest): Promise<DatabaseResponse> {
+    return this.run('migrations', (adapter) =>
+      this.exclusive(async () => {
+        await adapter.execute(
+          `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+            version TEXT PRIMARY KEY,
+            description TEXT,
+            applied_at TEXT NOT NULL
+          )`
+        );
+
+        const existing = await adapter.query(
+          `SELECT version FROM ${MIGRATIONS_TABLE} WHERE version = ?`,
+          [request.version]
+        );
+        if (existing.rowCount > 0) {
+          return { version: request.version, applied: false, reason: 'already applied' };
+        }
+        if (request.dryRun) {
+          return { version: request.version, applied: false, dryRun: true, statements: request.statements };
+        }
+
+        await adapter.execute('BEGIN');
+        try {
+          for (const statement of request.statements) {
+            await adapter.execute(statement);
+          }
+          await adapter.execute(
+            `INSERT INTO ${MIGRATIONS_TABLE} (version, description, applied_at) VALUES (?, ?, ?)`,
+            [request.version, request.description ?? null, new Date().toISOString()]
+          );
+          await adapter.execute('COMMIT');
+        } catch (error) {
+          await adapter.execute('ROLLBACK');
+          throw error;
+        }
+
+        logger.info(`Applied database migration ${request.version}`);
+        return { version: request.version, applied: true, statements: request.statements.length };
+      })
+    );
+  }
+
+  async getDatabaseAnalytics(): Promise<DatabaseResponse> {
+    return this.run('read', async (adapter) => {
+      const operations =
+        this.stats.queries + this.stats.commands + this.stats.transactions + this.stats.migrations;
+      return {
+        operations: { ...this.stats },
+        averageExecutionTime: operations > 0 ? this.stats.totalTime / operations : 0,
+        errorRate: operations > 0 ? this.stats.errors / operations : 0,
+        connections: await adapter.getConnectionStats(),
+      };
+    });
+  }
+
+  async checkHealth(): Promise<DatabaseHealth> {
+    try {
+      const adapter = await this.getAdapter();
+      const health = await adapter.health();
+      return {
+        status: health.healthy ? 'healthy' : 'unhealthy',
+        connected: adapter.isConnected(),
+        details: health.details,
+      };
+    } catch (error) {
+      return { status: 'unhealthy', connected: false, error: errorMessage(error) };
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.readAdapter?.disconnect();
+    await this.adapter?.disconnect();
+  }
+
+  private async getAdapter(): Promise<DatabaseAdapter> {
+    if (!this.adapter) {
+      const { SQLiteAdapter } = await import('@claude-zen/database');
+      this.adapter = new SQLiteAdapter({ type: 'sqlite', database: databasePath() });
+    }
+    if (!this.adapter.isConnected()) {
+      await this.adapter.connect();
+    }
+    return this.adapter;
+  }
+
+  private async getReadAdapter(): Promise<DatabaseAdapter> {
+    if (!this.readAdapter) {
+      if (!this.ownsConnections) {
+        throw new Error('No read-only database connection configured for queries');
+      }
+      // The writable connection creates the file and its tables first
+      await this.getAdapter();
+      const { SQLiteAdapter } = await import('@claude-zen/database');
+      this.readAdapter = new SQLiteAdapter({
+        type: 'sqlite',
+        database: databasePath(),
+        options: { readonly: true, fileMustExist: true },
+      });
+    }
+    if (!this.readAdapter.isConnected()) {
+      await this.readAdapter.connect();
+    }
+    return this.readAdapter;
+  }
+
+  // Statements share one connection, so writes must not interleave with
+  // an open BEGIN from another request
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const next = this.pending.then(fn, fn);
+    this.pending = next.catch(() => undefined);
+    return next;
+  }
+
+  private async run<T>(
+    operation: CountedOperation | 'read',
+    fn: (adapter: DatabaseAdapter) => Promise<T>,
+    connect: () => Promise<DatabaseAdapter> = () => this.getAdapter()
+  ): Promise<DatabaseResponse<T>> {
+    const startTime = Date.now();
+    const metadata = () => ({
+      executionTime: Date.now() - startTime,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const data = await fn(await connect());
+      if (operation !== 'read') {
+        this.stats[operation]++;
+        this.stats.totalTime += Date.now() - startTime;
+      }
+      return { success: true, data, metadata: metadata() };
+    } catch (error) {
+      this.stats.errors++;
+      logger.warn(`Database ${operation} failed:`, error);
+      return { success: false, error: errorMessage(error), metadata: metadata() };
+    }
+  }
+}
+
+const databasePath = (): string =>
+  process.env['ZEN_DATABASE_PATH'] ?? join(process.cwd(), '.claude-zen', 'server.db');
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+let controller: DatabaseController | undefined;
+
+/**
+ * Get the controller shared by the database routes.
+ */
+export const getDatabaseController = (): DatabaseController => {
+  controller ??= new DatabaseController();
+  return controller;
+};
+
+/**
+ * Replace the shared controller (tests, embedded servers).
+ *
+ * @param replacement
+ */
+export const setDatabaseController = (replacement: DatabaseController): void => {
+  controller = replacement;
+};
+
+/**
+ * Health of the shared database connection.
+ */
+export const checkDatabaseHealth = (): Promise<DatabaseHealth> =>
+  getDatabaseController().checkHealth();
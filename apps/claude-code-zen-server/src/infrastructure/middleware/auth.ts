@@ -1,11 +1,19 @@
 /**
  * @file Authentication middleware and utilities for HTTP API.
- * Provides no-op authentication for development with structure for future implementation.
+ * Validates signed bearer tokens and hashed API keys and enforces
+ * role-based permissions.
  */
 
 import { getLogger } from '@claude-zen/foundation';
 import type { NextFunction, Request, Response } from 'express';
 
+import {
+  ApiKeyStore,
+  TokenSigner,
+  permissionGranted,
+  resolvePermissions,
+} from '../auth';
+
 const logger = getLogger('auth-middleware');
 
 // Constants
@@ -14,7 +22,7 @@ const ANONYMOUS_USER_ID = 'anonymous';
 const ANONYMOUS_USER_NAME = 'Anonymous User';
 
 /**
- * User information interface (for future use)
+ * User information interface.
  * Following Google Identity standards structure.
  */
 export interface User {
@@ -27,7 +35,7 @@ export interface User {
 }
 
 /**
- * Authentication context (for future use).
+ * Authentication context attached to every request as `req.auth`.
  */
 export interface AuthContext {
   readonly user?: User;
@@ -36,43 +44,186 @@ export interface AuthContext {
   readonly isAuthenticated: boolean;
 }
 
+type AuthenticatedRequest = Request & { auth?: AuthContext };
+
+type CredentialResult =
+  | { status: 'none' }
+  | { status: 'invalid'; reason: string }
+  | { status: 'valid'; context: AuthContext };
+
+let apiKeyStore: ApiKeyStore | undefined;
+let tokenSigner: TokenSigner | undefined;
+
+function getApiKeyStore(): ApiKeyStore {
+  apiKeyStore ??= new ApiKeyStore();
+  return apiKeyStore;
+}
+
+function getTokenSigner(): TokenSigner {
+  tokenSigner ??= new TokenSigner();
+  return tokenSigner;
+}
+
 /**
- * No-Op Authentication Middleware.
+ * Replace the credential backends (tests, embedded servers).
  *
- * Currently allows all requests without authentication.
- * Provides structure for future authentication implementation.
+ * @param backends
+ * @param backends.apiKeys
+ * @param backends.tokens
  */
-export const authMiddleware = (
-  req: Request & { auth?: AuthContext },
-  res: Response,
-  next: NextFunction
-): void => {
-  // Create anonymous user context
-  const authContext: AuthContext = {
+export const configureAuth = (backends: {
+  apiKeys?: ApiKeyStore;
+  tokens?: TokenSigner;
+}): void => {
+  apiKeyStore = backends.apiKeys ?? apiKeyStore;
+  tokenSigner = backends.tokens ?? tokenSigner;
+};
+
+/**
+ * Authentication can only be switched off outside production, for local
+ * development on a single-user machine.
+ */
+const isAuthDisabled = (): boolean =>
+  process.env['ZEN_AUTH_DISABLED'] === 'true' &&
+  process.env.NODE_ENV !== 'production';
+
+const anonymousContext = (): AuthContext => {
+  const roles = isAuthDisabled() ? ['admin'] : ['public'];
+  return {
     user: {
       id: ANONYMOUS_USER_ID,
       name: ANONYMOUS_USER_NAME,
-      roles: ['public'],
-      permissions: ['read', 'write'],
-      // Allow all operations for now
+      roles,
+      permissions: resolvePermissions(roles),
       isAuthenticated: false,
     },
     isAuthenticated: false,
   };
+};
 
-  // Attach auth context to request for use in route handlers
-  req.auth = authContext;
+/**
+ * Resolve credentials from the `Authorization: Bearer` or `X-API-Key`
+ * header. Bearer tokens are verified offline against the signing secret;
+ * API keys are checked against the hashed key store.
+ *
+ * @param req
+ */
+const resolveCredentials = (req: Request): CredentialResult => {
+  const authHeader = req.headers['authorization'] as string | undefined;
+  const apiKey = req.headers['x-api-key'] as string | undefined;
 
-  // Log authentication status (only in development)
-  if (process.env.NODE_ENV === 'development') {
-    logger.debug('Authentication: No auth required - allowing request', {
-      authStatus: 'no_auth_required',
-      userType: 'anonymous',
-      permissions: authContext.user?.permissions,
+  if (authHeader) {
+    if (!authHeader.startsWith(BEARER_PREFIX)) {
+      return { status: 'invalid', reason: 'unsupported authorization scheme' };
+    }
+    const token = authHeader.slice(BEARER_PREFIX.length).trim();
+    const verification = getTokenSigner().verify(token);
+    if (verification.valid === false) {
+      return { status: 'invalid', reason: verification.reason };
+    }
+
+    const { claims } = verification;
+    return {
+      status: 'valid',
+      context: {
+        user: {
+          id: claims.sub,
+          name: claims.name,
+          email: claims.email,
+          roles: claims.roles,
+          permissions: resolvePermissions(claims.roles),
+          isAuthenticated: true,
+        },
+        token,
+        tokenType: 'bearer',
+        isAuthenticated: true,
+      },
+    };
+  }
+
+  if (apiKey) {
+    const record = getApiKeyStore().verify(apiKey);
+    if (!record) {
+      return { status: 'invalid', reason: 'invalid API key' };
+    }
+
+    return {
+      status: 'valid',
+      context: {
+        user: {
+          id: `api-key:${record.id}`,
+          name: record.name,
+          roles: record.roles,
+          permissions: resolvePermissions(record.roles),
+          isAuthenticated: true,
+        },
+        token: apiKey,
+        tokenType: 'api_key',
+        isAuthenticated: true,
+      },
+    };
+  }
+
+  return { status: 'none' };
+};
+
+const sendAuthError = (
+  res: Response,
+  code: 401 | 403,
+  message: string
+): void => {
+  if (code === 401) {
+    res.setHeader('WWW-Authenticate', 'Bearer realm="claude-zen"');
+  }
+  res.status(code).json({
+    error: {
+      code,
+      message,
+      status: code === 401 ? 'UNAUTHENTICATED' : 'PERMISSION_DENIED',
+    },
+  });
+};
+
+/**
+ * Authentication Middleware.
+ *
+ * Requires a valid bearer token or API key and rejects the request with
+ * 401 otherwise. When `ZEN_AUTH_DISABLED=true` (never in production) every
+ * request is treated as an anonymous admin.
+ */
+export const authMiddleware = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (isAuthDisabled()) {
+    req.auth = anonymousContext();
+    next();
+    return;
+  }
+
+  const result = resolveCredentials(req);
+  if (result.status !== 'valid') {
+    const reason =
+      result.status === 'none' ? 'authentication required' : result.reason;
+    logger.warn('Authentication rejected', {
+      path: req.path,
+      method: req.method,
+      ip: req.ip,
+      reason,
     });
+    sendAuthError(res, 401, `Unauthenticated: ${reason}`);
+    return;
   }
 
-  // Continue to next middleware
+  req.auth = result.context;
+  if (process.env.NODE_ENV === 'development') {
+    logger.debug('Authentication succeeded', {
+      userId: result.context.user?.id,
+      tokenType: result.context.tokenType,
+      roles: result.context.user?.roles,
+    });
+  }
   next();
 };
 
@@ -80,95 +231,83 @@ export const authMiddleware = (
  * Optional Authentication Middleware.
  *
  * For routes that might have authentication but don't require it.
- * Checks for auth tokens but doesn't reject if missing.
+ * Missing credentials yield an anonymous `public` user; credentials that
+ * are present but invalid are still rejected.
  */
 export const optionalAuthMiddleware = (
-  req: Request & { auth?: AuthContext },
+  req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ): void => {
-  // Check for auth headers (but don't enforce)
-  const authHeader = req.headers['authorization'] as string | undefined;
-  const apiKey = req.headers['x-api-key'] as string | undefined;
-  let authContext: AuthContext;
-
-  if (authHeader || apiKey) {
-    // Some auth provided - could be validated here in future
-    authContext = {
-      user: {
-        id: ANONYMOUS_USER_ID,
-        name: ANONYMOUS_USER_NAME,
-        roles: ['public'],
-        permissions: ['read', 'write'],
-        isAuthenticated: false,
-        // Still false since we're not actually validating
-      },
-      token: authHeader?.replace(BEARER_PREFIX, '') || apiKey,
-      tokenType: authHeader ? 'bearer' : 'api_key',
-      isAuthenticated: false,
-    };
+  const result = resolveCredentials(req);
 
-    if (process.env.NODE_ENV === 'development') {
-      logger.debug('Optional auth: Token provided but not validated', {
-        hasAuthHeader: !!authHeader,
-        hasApiKey: !!apiKey,
-        tokenType: authContext.tokenType,
-      });
-    }
-  } else {
-    // No auth provided
-    authContext = {
-      user: {
-        id: ANONYMOUS_USER_ID,
-        name: ANONYMOUS_USER_NAME,
-        roles: ['public'],
-        permissions: ['read', 'write'],
-        isAuthenticated: false,
-      },
-      isAuthenticated: false,
-    };
+  if (result.status === 'invalid') {
+    sendAuthError(res, 401, `Unauthenticated: ${result.reason}`);
+    return;
   }
 
-  req.auth = authContext;
+  req.auth = result.status === 'valid' ? result.context : anonymousContext();
   next();
 };
 
 /**
  * Permission Check Helper.
  *
- * Utility function to check if current user has required permission.
- * Currently always returns true since no auth is required.
+ * Utility function to check if current user has required permission,
+ * honouring `admin` and `<domain>:*` grants. Requests without an auth
+ * context are denied.
  */
 export const hasPermission = (
-  req: Request & { auth?: AuthContext },
+  req: AuthenticatedRequest,
   permission: string
 ): boolean => {
   const authContext = req.auth;
 
   if (!authContext?.user) {
-    return true; // Allow all since no auth required
+    return false;
   }
 
-  return (
-    authContext.user.permissions.includes(permission) ||
-    authContext.user.permissions.includes('admin')
-  );
+  return permissionGranted(authContext.user.permissions, permission);
 };
 
+/**
+ * Permission Guard Middleware.
+ *
+ * Must run after `authMiddleware` or `optionalAuthMiddleware`.
+ * Responds 403 when the current user lacks the permission.
+ *
+ * @param permission
+ */
+export const requirePermission =
+  (permission: string) =>
+  (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (hasPermission(req, permission)) {
+      next();
+      return;
+    }
+
+    logger.warn('Permission denied', {
+      path: req.path,
+      method: req.method,
+      userId: req.auth?.user?.id,
+      permission,
+    });
+    sendAuthError(res, 403, `Permission denied: requires ${permission}`);
+  };
+
 /**
  * Role Check Helper.
  *
  * Utility function to check if current user has required role.
- * Currently always returns true since no auth is required.
  */
 export const hasRole = (
-  req: Request & { auth?: AuthContext },
+  req: AuthenticatedRequest,
   role: string
 ): boolean => {
   const authContext = req.auth;
 
   if (!authContext?.user) {
-    return true; // Allow all since no auth required
+    return false;
   }
 
   return (
@@ -181,49 +320,19 @@ export const hasRole = (
  * Admin Check Helper.
  *
  * Utility function to check if current user is admin.
- * Currently always returns true since no auth is required.
  */
-export const isAdmin = (/* req: Request */): boolean => 
-   true // Allow all admin operations since no auth required
-;
+export const isAdmin = (req: AuthenticatedRequest): boolean =>
+  hasPermission(req, 'admin');
 
 /**
  * Get Current User Helper.
  *
- * Utility function to get current authenticated user.
- * Returns anonymous user since no auth is required.
+ * Utility function to get current user (anonymous when unauthenticated).
  */
 export const getCurrentUser = (
   req: Request & { auth?: AuthContext }
 ): User | undefined => req.auth?.user;
 
-/**
- * Future Authentication Implementation Guide.
- *
- * When authentication is needed, replace the middleware with:
- *
- * 1. JWT Token Validation:
- * - Verify JWT signature
- * - Check expiration
- * - Extract user claims
- *
- * 2. API Key Validation:
- * - Validate API key against database
- * - Check key permissions and rate limits
- *
- * 3. OAuth Integration:
- * - Support Google OAuth, GitHub OAuth, etc.
- * - Validate OAuth tokens with provider
- *
- * 4. Role-Based Access Control:
- * - Implement proper permission checking
- * - Support hierarchical roles
- *
- * 5. Rate Limiting by User:
- * - Different limits for authenticated vs anonymous
- * - Per-user rate limiting
- */
-
 // Extend Express Request interface to include auth context
 declare global {
   namespace Express {
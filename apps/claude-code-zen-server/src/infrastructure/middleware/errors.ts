@@ -8,6 +8,7 @@
  */
 
 import { getLogger } from '@claude-zen/foundation';
+import type { NextFunction, Request, Response } from 'express';
 
 const logger = getLogger('interfaces-api-http-middleware-errors');
 
@@ -31,3 +32,94 @@ export interface ApiError {
 export function logError(error: unknown, context?: string): void {
   logger.error(`${context || 'API'} error:`, error);
 }
+
+/**
+ * Error carrying an HTTP status and Google API status string.
+ * Thrown from route handlers and rendered by {@link errorHandler}.
+ */
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly code: number,
+    public readonly status: string,
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+
+  toJSON(): ApiError {
+    return {
+      error: { code: this.code, message: this.message, status: this.status },
+    };
+  }
+}
+
+/**
+ * 400 INVALID_ARGUMENT for a rejected request field.
+ *
+ * @param field
+ * @param value
+ * @param message
+ */
+export const createValidationError = (
+  field: string,
+  value: unknown,
+  message: string
+): ApiRequestError =>
+  new ApiRequestError(`${field}: ${message}`, 400, 'INVALID_ARGUMENT', {
+    field,
+    value,
+  });
+
+/**
+ * 500 INTERNAL for failures the caller cannot fix.
+ *
+ * @param message
+ */
+export const createInternalError = (message: string): ApiRequestError =>
+  new ApiRequestError(message, 500, 'INTERNAL');
+
+/**
+ * Wrap an async route handler so rejections reach the error middleware.
+ *
+ * @param fn
+ */
+export const asyncHandler =
+  (fn: (req: Request, res: Response, next: NextFunction) => Promise<unknown>) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    Promise.resolve(fn(req, res, next)).catch(next);
+  };
+
+/**
+ * Render errors as {@link ApiError} responses. Mount after the API routes.
+ *
+ * @param error
+ * @param req
+ * @param res
+ * @param next
+ */
+export const errorHandler = (
+  error: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
+  if (error instanceof ApiRequestError) {
+    if (error.code >= 500) {
+      logError(error, `${req.method} ${req.path}`);
+    }
+    res.status(error.code).json(error.toJSON());
+    return;
+  }
+
+  logError(error, `${req.method} ${req.path}`);
+  res.status(500).json({
+    error: { code: 500, message: 'Internal server error', status: 'INTERNAL' },
+  } satisfies ApiError);
+};
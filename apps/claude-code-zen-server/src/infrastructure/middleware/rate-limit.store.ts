@@ -0,0 +1,187 @@
+/**
+ * Rate Limit Stores - token bucket state backends.
+ *
+ * Buckets hold `limit` tokens and refill continuously at `limit / windowMs`.
+ * The in-memory store is per process; the SQLite store shares buckets
+ * between cluster workers and keeps them across restarts.
+ */
+
+import Database from 'better-sqlite3';
+import { existsSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+
+import { getLogger } from '@claude-zen/foundation';
+
+const logger = getLogger('rate-limit-store');
+
+export interface RateLimitPolicy {
+  /** Bucket capacity - requests allowed per window. */
+  readonly limit: number;
+  readonly windowMs: number;
+}
+
+export interface RateLimitDecision {
+  readonly allowed: boolean;
+  readonly limit: number;
+  /** Whole tokens left after this request. */
+  readonly remaining: number;
+  /** Milliseconds until the bucket is full again (or, when blocked, until the next token). */
+  readonly resetMs: number;
+}
+
+export interface RateLimitStore {
+  consume(
+    key: string,
+    policy: RateLimitPolicy,
+    cost?: number
+  ): RateLimitDecision | Promise<RateLimitDecision>;
+  reset(key: string): void | Promise<void>;
+  close?(): void | Promise<void>;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Apply refill and consumption to a bucket. Pure so both stores share it.
+ *
+ * @param state
+ * @param policy
+ * @param cost
+ * @param now
+ */
+export function takeTokens(
+  state: BucketState | undefined,
+  policy: RateLimitPolicy,
+  cost: number,
+  now: number
+): { state: BucketState; decision: RateLimitDecision } {
+  const refillPerMs = policy.limit / policy.windowMs;
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const available = state
+    ? Math.min(policy.limit, state.tokens + elapsed * refillPerMs)
+    : policy.limit;
+
+  const allowed = available >= cost;
+  const tokens = allowed ? available - cost : available;
+  const resetMs = allowed
+    ? Math.ceil((policy.limit - tokens) / refillPerMs)
+    : Math.ceil((cost - tokens) / refillPerMs);
+
+  return {
+    state: { tokens, updatedAt: now },
+    decision: {
+      allowed,
+      limit: policy.limit,
+      remaining: Math.floor(tokens),
+      resetMs,
+    },
+  };
+}
+
+/**
+ * Process-local store. Idle buckets are swept once they would be full again.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, BucketState & { expiresAt: number }>();
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(sweepIntervalMs = 60_000) {
+    this.sweepTimer = setInterval(() => this.sweep(), sweepIntervalMs);
+    this.sweepTimer.unref();
+  }
+
+  consume(key: string, policy: RateLimitPolicy, cost = 1): RateLimitDecision {
+    const now = Date.now();
+    const { state, decision } = takeTokens(this.buckets.get(key), policy, cost, now);
+    this.buckets.set(key, { ...state, expiresAt: now + decision.resetMs });
+    return decision;
+  }
+
+  reset(key: string): void {
+    this.buckets.delete(key);
+  }
+
+  close(): void {
+    clearInterval(this.sweepTimer);
+    this.buckets.clear();
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.expiresAt <= now) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * SQLite-backed store. Each consume runs in an IMMEDIATE transaction, so
+ * concurrent workers sharing the database file serialise on the bucket.
+ */
+export class SqliteRateLimitStore implements RateLimitStore {
+  private db: Database.Database;
+  private consumeTx: (key: string, policy: RateLimitPolicy, cost: number) => RateLimitDecision;
+
+  constructor(databasePath: string) {
+    const dbDir = dirname(databasePath);
+    if (!existsSync(dbDir)) {
+      mkdirSync(dbDir, { recursive: true });
+    }
+
+    this.db = new Database(databasePath, { timeout: 5000 });
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+        key TEXT PRIMARY KEY,
+        tokens REAL NOT NULL,
+        updated_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      )
+    `);
+
+    const select = this.db.prepare(
+      'SELECT tokens, updated_at AS updatedAt FROM rate_limit_buckets WHERE key = ?'
+    );
+    const upsert = this.db.prepare(`
+      INSERT INTO rate_limit_buckets (key, tokens, updated_at, expires_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET
+        tokens = excluded.tokens,
+        updated_at = excluded.updated_at,
+        expires_at = excluded.expires_at
+    `);
+
+    const run = this.db.transaction(
+      (key: string, policy: RateLimitPolicy, cost: number) => {
+        const now = Date.now();
+        const current = select.get(key) as BucketState | undefined;
+        const { state, decision } = takeTokens(current, policy, cost, now);
+        upsert.run(key, state.tokens, state.updatedAt, now + decision.resetMs);
+        return decision;
+      }
+    );
+    this.consumeTx = (key, policy, cost) => run.immediate(key, policy, cost);
+
+    this.db
+      .prepare('DELETE FROM rate_limit_buckets WHERE expires_at <= ?')
+      .run(Date.now());
+    logger.info(`Rate limit buckets stored in ${databasePath}`);
+  }
+
+  consume(key: string, policy: RateLimitPolicy, cost = 1): RateLimitDecision {
+    return this.consumeTx(key, policy, cost);
+  }
+
+  reset(key: string): void {
+    this.db.prepare('DELETE FROM rate_limit_buckets WHERE key = ?').run(key);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
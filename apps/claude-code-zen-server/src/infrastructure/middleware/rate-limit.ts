@@ -1,3 +1,24 @@
+/**
+ * @file Rate limiting middleware for the HTTP API.
+ * Token-bucket limiters per operation tier, keyed by the authenticated
+ * caller (falling back to the client IP), reporting the standard
+ * `RateLimit-*` headers.
+ */
+
+import { join } from 'path';
+
+import { getLogger } from '@claude-zen/foundation';
+import type { NextFunction, Request, Response } from 'express';
+
+import {
+  MemoryRateLimitStore,
+  type RateLimitPolicy,
+  type RateLimitStore,
+  SqliteRateLimitStore,
+} from './rate-limit.store';
+
+const logger = getLogger('rate-limit-middleware');
+
 interface RateLimitConfig {
   windowMs: number;
   max: number;
@@ -15,3 +36,157 @@ export const config: RateLimitConfig = {
   standardHeaders: true, // Return rate limit info in headers
   legacyHeaders: false, // Disable legacy X-RateLimit-* headers
 };
+
+export type RateLimitTier = 'light' | 'medium' | 'heavy' | 'admin';
+
+/**
+ * Requests per window for each operation tier.
+ */
+export const TIER_POLICIES: Readonly<Record<RateLimitTier, RateLimitPolicy>> = {
+  light: { limit: 300, windowMs: config.windowMs },
+  medium: { limit: config.max, windowMs: config.windowMs },
+  heavy: { limit: 20, windowMs: config.windowMs },
+  admin: { limit: 10, windowMs: config.windowMs },
+};
+
+export interface RateLimiterOptions {
+  readonly name: string;
+  readonly policy: RateLimitPolicy;
+  /** Defaults to the shared store from {@link getRateLimitStore}. */
+  readonly store?: RateLimitStore;
+  readonly keyGenerator?: (req: Request) => string;
+}
+
+let sharedStore: RateLimitStore | undefined;
+
+/**
+ * Get the store shared by the tier limiters.
+ *
+ * `ZEN_RATE_LIMIT_STORE=sqlite|memory` selects the backend (SQLite by default
+ * in production); `ZEN_RATE_LIMIT_DB` overrides the SQLite file location.
+ */
+export const getRateLimitStore = (): RateLimitStore => {
+  if (sharedStore) return sharedStore;
+
+  const backend =
+    process.env['ZEN_RATE_LIMIT_STORE'] ??
+    (process.env.NODE_ENV === 'production' ? 'sqlite' : 'memory');
+
+  if (backend === 'sqlite') {
+    try {
+      sharedStore = new SqliteRateLimitStore(
+        process.env['ZEN_RATE_LIMIT_DB'] ??
+          join(process.cwd(), '.claude-zen', 'rate-limits.db')
+      );
+      return sharedStore;
+    } catch (error) {
+      logger.error('SQLite rate limit store unavailable, using memory:', error);
+    }
+  }
+
+  sharedStore = new MemoryRateLimitStore();
+  return sharedStore;
+};
+
+/**
+ * Replace the shared store (tests, custom backends).
+ *
+ * @param store
+ */
+export const setRateLimitStore = (store: RateLimitStore): void => {
+  sharedStore = store;
+};
+
+/**
+ * Identify the caller: authenticated user id when available, client IP otherwise.
+ *
+ * @param req
+ */
+export const rateLimitKey = (req: Request): string => {
+  const user = req.auth?.isAuthenticated ? req.auth.user : undefined;
+  return user ? `user:${user.id}` : `ip:${req.ip ?? req.socket.remoteAddress ?? 'unknown'}`;
+};
+
+const formatPolicy = (policy: RateLimitPolicy): string =>
+  `${policy.limit};w=${Math.ceil(policy.windowMs / 1000)}`;
+
+/**
+ * Create a token-bucket limiter middleware.
+ *
+ * Sets `RateLimit-Policy`, `RateLimit-Limit`, `RateLimit-Remaining` and
+ * `RateLimit-Reset` (seconds), and answers 429 with `Retry-After` when the
+ * bucket is empty. Store failures are logged and the request is let through.
+ *
+ * @param options
+ */
+export const createRateLimiter = (options: RateLimiterOptions) => {
+  const keyGenerator = options.keyGenerator ?? rateLimitKey;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const store = options.store ?? getRateLimitStore();
+    const key = `${options.name}:${keyGenerator(req)}`;
+
+    let decision;
+    try {
+      decision = await store.consume(key, options.policy);
+    } catch (error) {
+      logger.error(`Rate limit store failed for ${options.name}:`, error);
+      next();
+      return;
+    }
+
+    const resetSeconds = Math.ceil(decision.resetMs / 1000);
+    res.setHeader('RateLimit-Policy', formatPolicy(options.policy));
+    res.setHeader('RateLimit-Limit', String(decision.limit));
+    res.setHeader('RateLimit-Remaining', String(decision.remaining));
+    res.setHeader('RateLimit-Reset', String(resetSeconds));
+
+    if (decision.allowed) {
+      next();
+      return;
+    }
+
+    logger.warn('Rate limit exceeded', {
+      limiter: options.name,
+      key,
+      path: req.path,
+      method: req.method,
+    });
+    res.setHeader('Retry-After', String(resetSeconds));
+    res.status(config.statusCode).json({
+      error: {
+        code: config.statusCode,
+        message: `${config.message}, retry in ${resetSeconds}s`,
+        status: 'RESOURCE_EXHAUSTED',
+      },
+    });
+  };
+};
+
+const tierLimiter = (tier: RateLimitTier) =>
+  createRateLimiter({ name: tier, policy: TIER_POLICIES[tier] });
+
+/** Cheap reads: status, schema, analytics. */
+export const lightOperationsLimiter = tierLimiter('light');
+/** Queries and single commands. */
+export const mediumOperationsLimiter = tierLimiter('medium');
+/** Transactions and batch work. */
+export const heavyOperationsLimiter = tierLimiter('heavy');
+/** Migrations and other administrative changes. */
+export const adminOperationsLimiter = tierLimiter('admin');
+
+/**
+ * Advertise every tier policy on responses that no limiter annotates
+ * (a tier limiter later in the chain overwrites `RateLimit-Policy`).
+ */
+export const rateLimitInfoMiddleware = (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  res.setHeader(
+    'RateLimit-Policy',
+    Object.values(TIER_POLICIES).map(formatPolicy).join(', ')
+  );
+  next();
+};
@@ -20,6 +20,64 @@ export interface WebConfig {
   realTime?: boolean;
 }
 
+/**
+ * Chunk of a streamed LLM response (structurally a `CLIStreamChunk` from
+ * `@claude-zen/llm-providers`).
+ */
+export interface LLMStreamChunk {
+  delta: string;
+  done: boolean;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  metadata?: Record<string, unknown>;
+}
+
+export interface LLMStreamRelayOptions {
+  /** Aborted when the requesting client sends `llm-stream:cancel` */
+  controller?: AbortController;
+  /**
+   * Socket that asked for the stream. It joins the stream room before the
+   * first chunk and is the only client allowed to cancel.
+   */
+  requesterSocketId?: string;
+  /** Extra fields for the `llm-stream:started` announcement, e.g. agentId */
+  metadata?: Record<string, unknown>;
+}
+
+/** Room clients join (via `subscribe`) to receive a stream's chunks */
+export const LLM_STREAM_ROOM_PREFIX = 'llm-stream:';
+
+/** Events held for a stream nobody has joined yet (oldest dropped first) */
+const MAX_PENDING_STREAM_EVENTS = 1000;
+
+/** How long a finished stream's unsent events wait for a first subscriber */
+const PENDING_STREAM_TTL_MS = 30_000;
+
+interface ActiveLLMStream {
+  controller?: AbortController;
+  ownerSocketId?: string;
+  finished?: boolean;
+  /** Events buffered until the first client joins the room */
+  pending?: Array<{ event: string; data: unknown }>;
+}
+
+/**
+ * LLM budget topics relayed from the event bus to the `budgets` room
+ * (mirrors `BUDGET_EVENTS` from `@claude-zen/llm-routing`).
+ */
+export const LLM_BUDGET_EVENTS = [
+  'llm:budget:warning',
+  'llm:budget:exceeded',
+  'llm:budget:downgraded',
+  'llm:budget:rejected',
+  'llm:budget:reset',
+] as const;
+
+const MAX_RECENT_BUDGET_EVENTS = 50;
+
 export interface WebDataService {
   getSystemStatus(): Promise<Record<string, unknown>>;
   getSwarms(): Promise<unknown[]>;
@@ -33,6 +91,9 @@ export class WebSocketManager {
   private config: WebConfig;
   private dataService: WebDataService;
   private broadcastIntervals: NodeJS.Timeout[] = [];
+  private activeStreams = new Map<string, ActiveLLMStream>();
+  private recentBudgetEvents: BroadcastData[] = [];
+  private budgetEventCleanup: Array<() => void> = [];
 
   constructor(
     io: SocketIOServer,
@@ -55,6 +116,7 @@ export class WebSocketManager {
 
     // Set up log broadcaster for real-time log updates
     this.setupLogBroadcaster();
+    this.setupBudgetEventRelay();
 
     this.io.on('connection', (socket) => {
       this.logger.debug(`Client connected: ${socket.id}`);
@@ -70,7 +132,11 @@ export class WebSocketManager {
       socket.on('subscribe', (channel: string) => {
         socket.join(channel);
         this.logger.debug(`Client ${socket.id} subscribed to ${channel}`);
-        
+
+        if (channel.startsWith(LLM_STREAM_ROOM_PREFIX)) {
+          this.flushLLMStream(channel.slice(LLM_STREAM_ROOM_PREFIX.length));
+        }
+
         // Send initial data for the subscribed channel
         this.sendChannelData(socket, channel);
       });
@@ -80,6 +146,18 @@ export class WebSocketManager {
         this.logger.debug(`Client ${socket.id} unsubscribed from ${channel}`);
       });
 
+      // Stop a relayed LLM stream on behalf of the client that requested it
+      socket.on('llm-stream:cancel', (streamId: string) => {
+        const stream = this.activeStreams.get(streamId);
+        if (!stream?.controller || stream.finished) return;
+        if (stream.ownerSocketId !== socket.id) {
+          this.logger.warn(`Client ${socket.id} tried to cancel LLM stream ${streamId} it does not own`);
+          return;
+        }
+        this.logger.info(`Client ${socket.id} cancelled LLM stream ${streamId}`);
+        stream.controller.abort();
+      });
+
       // Handle ping for connection keep-alive
       socket.on('ping', () => {
         socket.emit('pong', { timestamp: new Date().toISOString() });
@@ -143,8 +221,18 @@ export class WebSocketManager {
           }
           break;
         }
+        case 'budgets': {
+          socket.emit('budgets:initial', {
+            data: this.recentBudgetEvents,
+            timestamp: new Date().toISOString()
+          });
+          break;
+        }
         default:
-          this.logger.warn(`Unknown channel subscription: ${channel}`);
+          // LLM stream rooms have no initial data; chunks follow live
+          if (!channel.startsWith(LLM_STREAM_ROOM_PREFIX)) {
+            this.logger.warn(`Unknown channel subscription: ${channel}`);
+          }
       }
     } catch (error) {
       this.logger.error(`Failed to send initial data for channel ${channel}:`, error);
@@ -243,6 +331,109 @@ export class WebSocketManager {
     this.logger.debug(`Broadcasted event: ${event} to room: ${room}`);
   }
 
+  /**
+   * Relay a streamed LLM response to the dashboard.
+   *
+   * Announces `llm-stream:started` to all clients, then sends
+   * `llm-stream:chunk` events to the `llm-stream:<streamId>` room and
+   * finishes with `llm-stream:end` (usage attached) or `llm-stream:error`.
+   * Events are buffered until someone is in the room, so clients that join
+   * in response to the announcement still see the first chunks. Only the
+   * requesting socket can abort `options.controller` via `llm-stream:cancel`.
+   */
+  async relayLLMStream(
+    streamId: string,
+    stream: AsyncIterable<LLMStreamChunk>,
+    options: LLMStreamRelayOptions = {}
+  ): Promise<void> {
+    const room = `${LLM_STREAM_ROOM_PREFIX}${streamId}`;
+    const active: ActiveLLMStream = {
+      controller: options.controller,
+      ownerSocketId: options.requesterSocketId,
+    };
+    if (options.requesterSocketId) {
+      this.io.sockets.sockets.get(options.requesterSocketId)?.join(room);
+    }
+    if (!this.io.sockets.adapter.rooms.get(room)?.size) {
+      active.pending = [];
+    }
+    this.activeStreams.set(streamId, active);
+
+    this.broadcast('llm-stream:started', { streamId, room, ...options.metadata });
+
+    const send = (event: string, data: unknown) => {
+      if (!active.pending) {
+        this.broadcastToRoom(room, event, data);
+        return;
+      }
+      active.pending.push({ event, data });
+      if (active.pending.length > MAX_PENDING_STREAM_EVENTS) {
+        active.pending.shift();
+      }
+    };
+
+    let index = 0;
+    try {
+      for await (const chunk of stream) {
+        if (chunk.delta) {
+          send('llm-stream:chunk', {
+            streamId,
+            index: index++,
+            delta: chunk.delta,
+          });
+        }
+        if (chunk.done) {
+          send('llm-stream:end', {
+            streamId,
+            chunks: index,
+            usage: chunk.usage,
+            metadata: chunk.metadata,
+          });
+          return;
+        }
+      }
+      send('llm-stream:end', { streamId, chunks: index });
+    } catch (error) {
+      const cancelled = options.controller?.signal.aborted ?? false;
+      this.logger.warn(`LLM stream ${streamId} ${cancelled ? 'cancelled' : 'failed'}:`, error);
+      send('llm-stream:error', {
+        streamId,
+        cancelled,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      active.finished = true;
+      if (active.pending) {
+        // Give late subscribers a chance to receive the finished stream
+        setTimeout(() => {
+          if (this.activeStreams.get(streamId) === active) {
+            this.activeStreams.delete(streamId);
+          }
+        }, PENDING_STREAM_TTL_MS).unref();
+      } else {
+        this.activeStreams.delete(streamId);
+      }
+    }
+  }
+
+  /**
+   * Send events buffered for a stream once its first client has joined.
+   */
+  private flushLLMStream(streamId: string): void {
+    const stream = this.activeStreams.get(streamId);
+    if (!stream?.pending) return;
+
+    const pending = stream.pending;
+    stream.pending = undefined;
+    const room = `${LLM_STREAM_ROOM_PREFIX}${streamId}`;
+    for (const { event, data } of pending) {
+      this.broadcastToRoom(room, event, data);
+    }
+    if (stream.finished) {
+      this.activeStreams.delete(streamId);
+    }
+  }
+
   /**
    * Get connected client statistics.
    */
@@ -297,11 +488,43 @@ export class WebSocketManager {
     }
   }
 
+  /**
+   * Relay LLM budget events from the event bus to the budgets room.
+   */
+  private setupBudgetEventRelay(): void {
+    import('@claude-zen/event-system')
+      .then(({ uel }) => {
+        for (const event of LLM_BUDGET_EVENTS) {
+          const listener = (data: unknown) => {
+            this.recentBudgetEvents.push({
+              event,
+              data,
+              timestamp: new Date().toISOString()
+            });
+            if (this.recentBudgetEvents.length > MAX_RECENT_BUDGET_EVENTS) {
+              this.recentBudgetEvents.shift();
+            }
+            this.broadcastToRoom('budgets', event, data);
+          };
+          uel.on(event, listener);
+          this.budgetEventCleanup.push(() => uel.off(event, listener));
+        }
+        this.logger.debug('Budget event relay configured');
+      })
+      .catch((error) => {
+        this.logger.warn('Failed to setup budget event relay:', error);
+      });
+  }
+
   /**
    * Shutdown WebSocket manager.
    */
   shutdown(): void {
     this.stopBroadcasting();
+    for (const cleanup of this.budgetEventCleanup) cleanup();
+    this.budgetEventCleanup = [];
+    for (const stream of this.activeStreams.values()) stream.controller?.abort();
+    this.activeStreams.clear();
     this.io?.close();
     this.logger.info('WebSocket manager shutdown complete');
   }
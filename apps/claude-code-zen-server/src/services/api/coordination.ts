@@ -11,6 +11,17 @@
 import { getLogger } from '@claude-zen/foundation';
 import { type Request, type Response, Router } from 'express';
 
+import {
+  authMiddleware,
+  requirePermission,
+} from '../../infrastructure/middleware/auth';
+import {
+  heavyOperationsLimiter,
+  lightOperationsLimiter,
+  mediumOperationsLimiter,
+  rateLimitInfoMiddleware,
+} from '../../infrastructure/middleware/rate-limit';
+
 // Mock API for now - would be replaced with actual coordination API
 const logger = getLogger('interfaces-api-http-v1-coordination');
 
@@ -172,10 +183,16 @@ const CoordinationAPI = {
 /**
  * Create coordination routes.
  * All coordination endpoints under /api/v1/coordination.
+ * Every route except `/health` requires authentication; reads need
+ * `coordination:read` and mutations `coordination:write`.
  */
 export const createCoordinationRoutes = (): Router => {
   const router = Router();
 
+  // Reads are light operations, writes medium and swarm initialization
+  // heavy; limiters run after auth so buckets are per caller.
+  router.use(rateLimitInfoMiddleware);
+
   // ===== AGENT MANAGEMENT =====
 
   /**
@@ -184,6 +201,9 @@ export const createCoordinationRoutes = (): Router => {
    */
   router.get(
     '/agents',
+    authMiddleware,
+    lightOperationsLimiter,
+    requirePermission('coordination:read'),
     asyncHandler(async (req: Request, res: Response) => {
       log(LogLevel.DEBUG, 'Listing agents', req, {
         query: req.query,
@@ -210,6 +230,9 @@ export const createCoordinationRoutes = (): Router => {
    */
   router.post(
     '/agents',
+    authMiddleware,
+    mediumOperationsLimiter,
+    requirePermission('coordination:write'),
     asyncHandler(async (req: Request, res: Response) => {
       log(LogLevel.INFO, 'Creating new agent', req, {
         agenType: req.body.type,
@@ -233,6 +256,9 @@ export const createCoordinationRoutes = (): Router => {
    */
   router.get(
     '/agents/:agentId',
+    authMiddleware,
+    lightOperationsLimiter,
+    requirePermission('coordination:read'),
     asyncHandler(async (req: Request, res: Response) => {
       const {agentId} = req.params;
 
@@ -251,6 +277,9 @@ export const createCoordinationRoutes = (): Router => {
    */
   router.delete(
     '/agents/:agentId',
+    authMiddleware,
+    mediumOperationsLimiter,
+    requirePermission('coordination:write'),
     asyncHandler(async (req: Request, res: Response) => {
       const {agentId} = req.params;
 
@@ -276,6 +305,9 @@ export const createCoordinationRoutes = (): Router => {
    */
   router.post(
     '/tasks',
+    authMiddleware,
+    mediumOperationsLimiter,
+    requirePermission('coordination:write'),
     asyncHandler(async (req: Request, res: Response) => {
       log(LogLevel.INFO, 'Creating new task', req, {
         tasType: req.body.type,
@@ -299,6 +331,9 @@ export const createCoordinationRoutes = (): Router => {
    */
   router.get(
     '/tasks/:taskId',
+    authMiddleware,
+    lightOperationsLimiter,
+    requirePermission('coordination:read'),
     asyncHandler(async (req: Request, res: Response) => {
       const {taskId} = req.params;
 
@@ -319,6 +354,9 @@ export const createCoordinationRoutes = (): Router => {
    */
   router.get(
     '/swarm/config',
+    authMiddleware,
+    lightOperationsLimiter,
+    requirePermission('coordination:read'),
     asyncHandler(async (req: Request, res: Response) => {
       log(LogLevel.DEBUG, 'Getting swarm configuration', req);
 
@@ -333,6 +371,9 @@ export const createCoordinationRoutes = (): Router => {
    */
   router.put(
     '/swarm/config',
+    authMiddleware,
+    mediumOperationsLimiter,
+    requirePermission('coordination:write'),
     asyncHandler(async (req: Request, res: Response) => {
       log(LogLevel.INFO, 'Updating swarm configuration', req, {
         cofigKeys: Object.keys(req.body),
@@ -357,6 +398,7 @@ export const createCoordinationRoutes = (): Router => {
    */
   router.get(
     '/health',
+    lightOperationsLimiter,
     asyncHandler(async (_req: Request, res: Response) => {
       const result = await CoordinationAPI.health.getHealth();
 
@@ -372,6 +414,9 @@ export const createCoordinationRoutes = (): Router => {
    */
   router.get(
     '/metrics',
+    authMiddleware,
+    lightOperationsLimiter,
+    requirePermission('coordination:read'),
     asyncHandler(async (req: Request, res: Response) => {
       const timeRange = (req.query.timeRange as string) || undefined;
 
@@ -392,6 +437,9 @@ export const createCoordinationRoutes = (): Router => {
    */
   router.post(
     '/swarm/initialize',
+    authMiddleware,
+    heavyOperationsLimiter,
+    requirePermission('coordination:write'),
     asyncHandler(async (req: Request, res: Response) => {
       log(LogLevel.INFO, 'Initializing swarm', req, {
         topology: req.body.topology,
@@ -430,6 +478,9 @@ export const createCoordinationRoutes = (): Router => {
    */
   router.get(
     '/agents/:agentId/tasks',
+    authMiddleware,
+    lightOperationsLimiter,
+    requirePermission('coordination:read'),
     asyncHandler(async (req: Request, res: Response) => {
       const {agentId} = req.params;
 
@@ -460,6 +511,9 @@ export const createCoordinationRoutes = (): Router => {
    */
   router.post(
     '/tasks/:taskId/assign',
+    authMiddleware,
+    mediumOperationsLimiter,
+    requirePermission('coordination:write'),
     asyncHandler(async (req: Request, res: Response) => {
       const {taskId} = req.params;
       const {agentId} = req.body;
@@ -495,6 +549,9 @@ export const createCoordinationRoutes = (): Router => {
    */
   router.post(
     '/agents/:agentId/heartbeat',
+    authMiddleware,
+    mediumOperationsLimiter,
+    requirePermission('coordination:write'),
     asyncHandler(async (req: Request, res: Response) => {
       const {agentId} = req.params;
 
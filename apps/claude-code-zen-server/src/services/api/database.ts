@@ -1,11 +1,11 @@
 /**
- * Database API v1 Routes - Enhanced with Full DI Integration.
+ * Database API v1 Routes.
  *
- * REST API routes for database operations using full DI-enabled DatabaseController.
- * Features authentication, rate limiting, and complete dependency injection.
+ * REST API routes for database operations through the shared DatabaseController.
+ * Features authentication, role-based permissions and rate limiting.
  * Following Google API Design Guide standards.
  *
- * @file Enhanced Database REST API routes with full DI integration.
+ * @file Database REST API routes.
  */
 
 import {
@@ -16,73 +16,39 @@ import {
 } from 'express';
 
 import {
-  checkDatabaseContainerHealth,
+  type BatchRequest,
+  checkDatabaseHealth,
+  type CommandRequest,
   getDatabaseController,
-} from '../di/database-container';
+  type MigrationRequest,
+  type QueryRequest,
+  type StatementOptions,
+} from '../../infrastructure/database/database.controller';
 import {
   authMiddleware,
-  hasPermission,
   optionalAuthMiddleware,
-} from '../middleware/auth';
+  requirePermission,
+} from '../../infrastructure/middleware/auth';
 import {
   asyncHandler,
   createInternalError,
   createValidationError,
-} from '../middleware/errors';
-import { LogLevel, log, logPerformance } from '../middleware/logging';
+} from '../../infrastructure/middleware/errors';
+import {
+  LogLevel,
+  log,
+  logPerformance,
+} from '../../infrastructure/middleware/logging';
 import {
   adminOperationsLimiter,
   heavyOperationsLimiter,
   lightOperationsLimiter,
   mediumOperationsLimiter,
   rateLimitInfoMiddleware,
-} from '../middleware/rate-limit';
-
-// Type definitions for request/response interfaces
-interface QueryRequest {
-  sql: string;
-  params?: any[];
-  options?: any;
-}
-
-interface CommandRequest {
-  sql: string;
-  params?: any[];
-  options?: any;
-}
-
-interface BatchRequest {
-  operations: Array<{
-    type: 'query' | 'execute';
-    sql: string;
-    params?: any[];
-  }>;
-  useTransaction?: boolean;
-  continueOnError?: boolean;
-}
-
-interface MigrationRequest {
-  statements: string[];
-  version: string;
-  description?: string;
-  dryRun?: boolean;
-}
-
-// Extend Express Request to include auth property
-declare global {
-  namespace Express {
-    interface Request {
-      auth?: {
-        user?: {
-          id: string;
-        };
-      };
-    }
-  }
-}
+} from '../../infrastructure/middleware/rate-limit';
 
 /**
- * Get DI-enabled database controller instance.
+ * Get the shared database controller instance.
  *
  * @example
  */
@@ -96,6 +62,11 @@ function getDatabaseControllerInstance() {
   }
 }
 
+const statementOptions = (options: unknown): StatementOptions =>
+  typeof options === 'object' && options !== null && !Array.isArray(options)
+    ? (options as StatementOptions)
+    : {};
+
 /**
  * Input validation middleware.
  *
@@ -114,7 +85,7 @@ function validateQueryRequest(req: Request): QueryRequest {
   return {
     sql: sql?.trim(),
     params: Array.isArray(params) ? params : [],
-    options: options || {},
+    options: statementOptions(options),
   };
 }
 
@@ -130,7 +101,7 @@ function validateCommandRequest(req: Request): CommandRequest {
   return {
     sql: sql?.trim(),
     params: Array.isArray(params) ? params : [],
-    options: options || {},
+    options: statementOptions(options),
   };
 }
 
@@ -191,32 +162,6 @@ function validateMigrationRequest(req: Request): MigrationRequest {
   };
 }
 
-/**
- * Permission check for database operations.
- *
- * @param req
- * @param operation
- * @example
- */
-function checkDatabasePermission(
-  req: Request,
-  operation: 'read' | 'write' | 'admin'
-): void {
-  const permissionMap = {
-    read: 'database:read',
-    write: 'database:write',
-    admin: 'database:admin',
-  };
-  const requiredPermission = permissionMap[operation];
-  if (!hasPermission(req, requiredPermission)) {
-    throw createValidationError(
-      'permission',
-      operation,
-      `Insufficient permissions for ${  operation  } operations`
-    );
-  }
-}
-
 /**
  * Create database management routes with enhanced features.
  * All database endpoints under /api/v1/database with authentication and rate limiting.
@@ -224,7 +169,8 @@ function checkDatabasePermission(
 export const createDatabaseRoutes = (): Router => {
   const router = Router();
 
-  // Add rate limit info to all responses
+  // Add rate limit info to all responses. Auth runs before each tier
+  // limiter so buckets are keyed by caller identity rather than IP.
   router.use(rateLimitInfoMiddleware);
 
   // ===== ENHANCED DATABASE REST API ENDPOINTS =====
@@ -236,14 +182,14 @@ export const createDatabaseRoutes = (): Router => {
    */
   router.get(
     '/status',
+    optionalAuthMiddleware, // Optional auth for monitoring
     lightOperationsLimiter,
     // Light rate limiting
-    optionalAuthMiddleware, // Optional auth for monitoring
+    requirePermission('database:read'),
     asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
       log(LogLevel.DEBUG, 'Getting database status', req);
       const startTime = Date.now();
       try {
-        checkDatabasePermission(req, 'read');
         const controller = getDatabaseControllerInstance();
         const result = await controller?.getDatabaseStatus();
         const duration = Date.now() - startTime;
@@ -261,20 +207,21 @@ export const createDatabaseRoutes = (): Router => {
 
   /**
    * POST /api/v1/database/query
-   * Execute database SELECT queries with parameters.
+   * Execute database SELECT queries with parameters. Queries run on a
+   * read-only connection, so statements that write are refused.
    * Rate limited as medium operation, requires read permission.
    */
   router.post(
     '/query',
+    authMiddleware, // Require authentication for data access
     mediumOperationsLimiter,
     // Medium rate limiting for queries
-    authMiddleware, // Require authentication for data access
+    requirePermission('database:read'),
     asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
       log(LogLevel.INFO, 'Executing database query', req);
+      const queryRequest = validateQueryRequest(req);
       const startTime = Date.now();
       try {
-        checkDatabasePermission(req, 'read');
-        const queryRequest = validateQueryRequest(req);
         const controller = getDatabaseControllerInstance();
         const result = await controller.executeQuery(queryRequest);
         const duration = Date.now() - startTime;
@@ -295,14 +242,14 @@ export const createDatabaseRoutes = (): Router => {
    */
   router.post(
     '/execute',
-    mediumOperationsLimiter, // Medium rate limiting for commands
     authMiddleware, // Require authentication for data modification
+    mediumOperationsLimiter, // Medium rate limiting for commands
+    requirePermission('database:write'),
     asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
       log(LogLevel.INFO, 'Executing database command', req);
+      const commandRequest = validateCommandRequest(req);
       const startTime = Date.now();
       try {
-        checkDatabasePermission(req, 'write');
-        const commandRequest = validateCommandRequest(req);
         const controller = getDatabaseControllerInstance();
         const result = await controller.executeCommand(commandRequest);
         const duration = Date.now() - startTime;
@@ -323,15 +270,15 @@ export const createDatabaseRoutes = (): Router => {
    */
   router.post(
     '/transaction',
+    authMiddleware, // Require authentication for transactions
     heavyOperationsLimiter,
     // Heavy rate limiting for transactions
-    authMiddleware, // Require authentication for transactions
+    requirePermission('database:write'),
     asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
       log(LogLevel.INFO, 'Executing database transaction', req);
+      const batchRequest = validateBatchRequest(req);
       const startTime = Date.now();
       try {
-        checkDatabasePermission(req, 'write');
-        const batchRequest = validateBatchRequest(req);
         const controller = getDatabaseControllerInstance();
         const result = await controller.executeTransaction(batchRequest);
         const duration = Date.now() - startTime;
@@ -352,14 +299,14 @@ export const createDatabaseRoutes = (): Router => {
    */
   router.get(
     '/schema',
+    authMiddleware, // Require authentication for schema access
     lightOperationsLimiter,
     // Light rate limiting for schema access
-    authMiddleware, // Require authentication for schema access
+    requirePermission('database:read'),
     asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
       log(LogLevel.DEBUG, 'Getting database schema', req);
       const startTime = Date.now();
       try {
-        checkDatabasePermission(req, 'read');
         const controller = getDatabaseControllerInstance();
         const result = await controller?.getDatabaseSchema();
         const duration = Date.now() - startTime;
@@ -380,15 +327,15 @@ export const createDatabaseRoutes = (): Router => {
    */
   router.post(
     '/migrate',
+    authMiddleware, // Require authentication for migrations
     adminOperationsLimiter,
     // Admin rate limiting for migrations
-    authMiddleware, // Require authentication for migrations
+    requirePermission('database:admin'),
     asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
       log(LogLevel.INFO, 'Executing database migration', req);
+      const migrationRequest = validateMigrationRequest(req);
       const startTime = Date.now();
       try {
-        checkDatabasePermission(req, 'admin');
-        const migrationRequest = validateMigrationRequest(req);
         const controller = getDatabaseControllerInstance();
         const result = await controller.executeMigration(migrationRequest);
         const duration = Date.now() - startTime;
@@ -409,14 +356,14 @@ export const createDatabaseRoutes = (): Router => {
    */
   router.get(
     '/analytics',
+    authMiddleware, // Require authentication for analytics
     lightOperationsLimiter,
     // Light rate limiting for analytics
-    authMiddleware, // Require authentication for analytics
+    requirePermission('database:read'),
     asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
       log(LogLevel.DEBUG, 'Getting database analytics', req);
       const startTime = Date.now();
       try {
-        checkDatabasePermission(req, 'read');
         const controller = getDatabaseControllerInstance();
         const result = await controller?.getDatabaseAnalytics();
         const duration = Date.now() - startTime;
@@ -436,7 +383,7 @@ export const createDatabaseRoutes = (): Router => {
 
   /**
    * GET /api/v1/database/health
-   * Database health check for the DI container and controller.
+   * Database health check for the connection and controller.
    */
   router.get(
     '/health',
@@ -445,13 +392,13 @@ export const createDatabaseRoutes = (): Router => {
       log(LogLevel.DEBUG, 'Checking database health', req);
       const startTime = Date.now();
       try {
-        const containerHealth = await checkDatabaseContainerHealth();
+        const connectionHealth = await checkDatabaseHealth();
         const controller = getDatabaseControllerInstance();
         const controllerHealth = await controller?.getDatabaseStatus();
         const duration = Date.now() - startTime;
 
         const overallStatus =
-          containerHealth.status === 'healthy' && controllerHealth.success
+          connectionHealth.status === 'healthy' && controllerHealth.success
             ? 'healthy'
             : 'unhealthy';
         const statusCode = overallStatus === 'healthy' ? 200 : 503;
@@ -460,10 +407,10 @@ export const createDatabaseRoutes = (): Router => {
           status: overallStatus,
           timestamp: new Date().toISOString(),
           responseTime: duration,
-          container: containerHealth,
+          connection: connectionHealth,
           database: controllerHealth.data,
           services: {
-            di_container: containerHealth.status,
+            database_connection: connectionHealth.status,
             database_controller: controllerHealth.success
               ? 'healthy'
               : 'unhealthy',
@@ -482,7 +429,7 @@ export const createDatabaseRoutes = (): Router => {
           responseTime: duration,
           error: error.message,
           services: {
-            di_container: 'unknown',
+            database_connection: 'unknown',
             database_controller: 'unknown',
             database_adapter: 'unknown',
           },
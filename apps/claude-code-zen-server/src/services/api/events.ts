@@ -0,0 +1,290 @@
+/**
+ * Event System API v1 Routes.
+ *
+ * Operator endpoints for the event system's dead-letter queues: events
+ * whose subscribers kept failing after their retries were exhausted.
+ * Following Google API Design Guide standards.
+ *
+ * @file Event system API routes.
+ */
+
+import {
+  EventManagerTypes,
+  getDeadLetterQueue,
+  getDeadLetterQueues,
+  type DeadLetterQuery,
+  type EventManagerType,
+} from '@claude-zen/event-system';
+import { getLogger } from '@claude-zen/foundation';
+import {
+  type NextFunction,
+  type Request,
+  type Response,
+  Router,
+} from 'express';
+
+import {
+  authMiddleware,
+  requirePermission,
+} from '../../infrastructure/middleware/auth';
+
+const logger = getLogger('interfaces-api-http-v1-events');
+
+const MANAGER_TYPES = Object.values(EventManagerTypes) as EventManagerType[];
+const MAX_PAGE_SIZE = 500;
+
+const asyncHandler =
+  (fn: (req: Request, res: Response) => Promise<unknown>) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    Promise.resolve(fn(req, res)).catch(next);
+  };
+
+const sendError = (
+  res: Response,
+  code: number,
+  status: string,
+  message: string
+): void => {
+  res.status(code).json({ error: { code, message, status } });
+};
+
+/**
+ * Resolve the `:managerType` path segment, answering 404 for unknown types.
+ *
+ * @param req
+ * @param res
+ */
+const resolveManagerType = (
+  req: Request,
+  res: Response
+): EventManagerType | undefined => {
+  const managerType = req.params.managerType as EventManagerType;
+  if (!MANAGER_TYPES.includes(managerType)) {
+    sendError(res, 404, 'NOT_FOUND', `Unknown event manager type: ${managerType}`);
+    return undefined;
+  }
+  return managerType;
+};
+
+const stringParam = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.length > 0 ? value : undefined;
+
+/**
+ * Build a dead-letter query from query-string or body fields, answering
+ * 400 when `since` is not a valid date.
+ *
+ * @param source
+ * @param res
+ */
+const parseQuery = (
+  source: Record<string, unknown>,
+  res: Response
+): DeadLetterQuery | undefined => {
+  const since = stringParam(source.since);
+  const sinceDate = since ? new Date(since) : undefined;
+  if (sinceDate && Number.isNaN(sinceDate.getTime())) {
+    sendError(res, 400, 'INVALID_ARGUMENT', `Invalid since date: ${since}`);
+    return undefined;
+  }
+
+  const ids = Array.isArray(source.ids)
+    ? source.ids.filter((id): id is string => typeof id === 'string')
+    : undefined;
+
+  return {
+    ids,
+    managerName: stringParam(source.managerName),
+    subscriptionId: stringParam(source.subscriptionId),
+    eventType: stringParam(source.eventType),
+    since: sinceDate,
+  };
+};
+
+/**
+ * Create event system routes.
+ * All event system endpoints under /api/v1/events.
+ * Reads need `events:read`; requeue and purge need `events:write`.
+ */
+export const createEventRoutes = (): Router => {
+  const router = Router();
+
+  router.use(authMiddleware);
+
+  // ===== DEAD-LETTER QUEUES =====
+
+  /**
+   * GET /api/v1/events/dead-letters.
+   * Failure counts for every manager type that has dead-lettered events.
+   */
+  router.get(
+    '/dead-letters',
+    requirePermission('events:read'),
+    asyncHandler(async (_req: Request, res: Response) => {
+      const queues = [...getDeadLetterQueues().values()].map((queue) =>
+        queue.stats()
+      );
+
+      res.json({
+        queues,
+        total: queues.reduce((sum, stats) => sum + stats.total, 0),
+      });
+    })
+  );
+
+  /**
+   * GET /api/v1/events/dead-letters/:managerType.
+   * List entries, newest failure first. Filters: managerName,
+   * subscriptionId, eventType (trailing `*` allowed), since; paging with
+   * offset and limit.
+   */
+  router.get(
+    '/dead-letters/:managerType',
+    requirePermission('events:read'),
+    asyncHandler(async (req: Request, res: Response) => {
+      const managerType = resolveManagerType(req, res);
+      if (!managerType) return;
+
+      const offset = Number.parseInt(String(req.query.offset ?? '0'), 10) || 0;
+      const limit = Math.min(
+        MAX_PAGE_SIZE,
+        Number.parseInt(String(req.query.limit ?? '50'), 10) || 50
+      );
+
+      const query = parseQuery(req.query, res);
+      if (!query) return;
+
+      const queue = getDeadLetterQueue(managerType);
+      const page = queue.list({ ...query, offset, limit });
+
+      res.json({
+        ...page,
+        offset,
+        limit,
+        stats: queue.stats(),
+      });
+    })
+  );
+
+  /**
+   * GET /api/v1/events/dead-letters/:managerType/:entryId.
+   * Peek at one entry including its full payload and error stack.
+   */
+  router.get(
+    '/dead-letters/:managerType/:entryId',
+    requirePermission('events:read'),
+    asyncHandler(async (req: Request, res: Response) => {
+      const managerType = resolveManagerType(req, res);
+      if (!managerType) return;
+
+      const entry = getDeadLetterQueue(managerType).peek(req.params.entryId);
+      if (!entry) {
+        sendError(res, 404, 'NOT_FOUND', `Dead letter not found: ${req.params.entryId}`);
+        return;
+      }
+      res.json(entry);
+    })
+  );
+
+  /**
+   * POST /api/v1/events/dead-letters/:managerType/requeue.
+   * Requeue every entry matching the filters in the request body.
+   */
+  router.post(
+    '/dead-letters/:managerType/requeue',
+    requirePermission('events:write'),
+    asyncHandler(async (req: Request, res: Response) => {
+      const managerType = resolveManagerType(req, res);
+      if (!managerType) return;
+
+      const query = parseQuery(req.body ?? {}, res);
+      if (!query) return;
+
+      const results = await getDeadLetterQueue(managerType).requeueMatching(query);
+
+      logger.info(`Requeued ${results.length} dead letters for ${managerType}`, {
+        delivered: results.filter((result) => result.status === 'delivered').length,
+        user: req.auth?.user?.id,
+      });
+      res.json({ results });
+    })
+  );
+
+  /**
+   * POST /api/v1/events/dead-letters/:managerType/:entryId/requeue.
+   * Redeliver one entry to its original subscription.
+   */
+  router.post(
+    '/dead-letters/:managerType/:entryId/requeue',
+    requirePermission('events:write'),
+    asyncHandler(async (req: Request, res: Response) => {
+      const managerType = resolveManagerType(req, res);
+      if (!managerType) return;
+
+      const result = await getDeadLetterQueue(managerType).requeue(
+        req.params.entryId
+      );
+      if (!result) {
+        sendError(res, 404, 'NOT_FOUND', `Dead letter not found: ${req.params.entryId}`);
+        return;
+      }
+
+      logger.info(`Requeued dead letter ${result.id}: ${result.status}`, {
+        user: req.auth?.user?.id,
+      });
+      res.status(result.status === 'unavailable' ? 409 : 200).json(result);
+    })
+  );
+
+  /**
+   * DELETE /api/v1/events/dead-letters/:managerType/:entryId.
+   * Discard one entry.
+   */
+  router.delete(
+    '/dead-letters/:managerType/:entryId',
+    requirePermission('events:write'),
+    asyncHandler(async (req: Request, res: Response) => {
+      const managerType = resolveManagerType(req, res);
+      if (!managerType) return;
+
+      const removed = getDeadLetterQueue(managerType).purge({
+        ids: [req.params.entryId],
+      });
+      if (removed === 0) {
+        sendError(res, 404, 'NOT_FOUND', `Dead letter not found: ${req.params.entryId}`);
+        return;
+      }
+      res.json({ purged: removed });
+    })
+  );
+
+  /**
+   * DELETE /api/v1/events/dead-letters/:managerType.
+   * Purge entries matching the query filters (all entries when none given).
+   */
+  router.delete(
+    '/dead-letters/:managerType',
+    requirePermission('events:write'),
+    asyncHandler(async (req: Request, res: Response) => {
+      const managerType = resolveManagerType(req, res);
+      if (!managerType) return;
+
+      const query = parseQuery(req.query, res);
+      if (!query) return;
+
+      const purged = getDeadLetterQueue(managerType).purge(query);
+
+      logger.warn(`Purged ${purged} dead letters for ${managerType}`, {
+        query: req.query,
+        user: req.auth?.user?.id,
+      });
+      res.json({ purged });
+    })
+  );
+
+  return router;
+};
+
+/**
+ * Default export for the event system routes.
+ */
+export default createEventRoutes;
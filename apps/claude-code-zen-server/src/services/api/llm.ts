@@ -0,0 +1,172 @@
+/**
+ * LLM API v1 Routes.
+ *
+ * Starts streamed chats on the global LLM provider and relays their chunks
+ * to dashboard clients over Socket.IO (`llm-stream:*` events in the
+ * `llm-stream:<streamId>` room).
+ * Following Google API Design Guide standards.
+ *
+ * @file LLM API routes.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import { getLogger } from '@claude-zen/foundation';
+import {
+  type NextFunction,
+  type Request,
+  type Response,
+  Router,
+} from 'express';
+
+import {
+  authMiddleware,
+  requirePermission,
+} from '../../infrastructure/middleware/auth';
+import { heavyOperationsLimiter } from '../../infrastructure/middleware/rate-limit';
+import {
+  LLM_STREAM_ROOM_PREFIX,
+  type LLMStreamChunk,
+  type LLMStreamRelayOptions,
+} from '../../infrastructure/websocket/socket.manager';
+
+const logger = getLogger('interfaces-api-http-v1-llm');
+
+const MESSAGE_ROLES = ['system', 'user', 'assistant'] as const;
+
+/**
+ * Relays a stream to dashboard clients, e.g. `WebSocketManager.relayLLMStream`.
+ */
+export type LLMStreamRelay = (
+  streamId: string,
+  stream: AsyncIterable<LLMStreamChunk>,
+  options: LLMStreamRelayOptions
+) => Promise<void>;
+
+interface ChatMessage {
+  role: (typeof MESSAGE_ROLES)[number];
+  content: string;
+}
+
+const asyncHandler =
+  (fn: (req: Request, res: Response) => Promise<unknown>) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    Promise.resolve(fn(req, res)).catch(next);
+  };
+
+const sendError = (
+  res: Response,
+  code: number,
+  status: string,
+  message: string
+): void => {
+  res.status(code).json({ error: { code, message, status } });
+};
+
+const isChatMessage = (value: unknown): value is ChatMessage => {
+  const message = value as Partial<ChatMessage> | null;
+  return (
+    typeof message?.content === 'string' &&
+    MESSAGE_ROLES.includes(message.role as ChatMessage['role'])
+  );
+};
+
+/**
+ * Read the conversation from `messages`, or a single user `prompt`.
+ *
+ * @param body
+ */
+const parseMessages = (body: Record<string, unknown>): ChatMessage[] | undefined => {
+  if (typeof body.prompt === 'string' && body.prompt.length > 0) {
+    return [{ role: 'user', content: body.prompt }];
+  }
+  if (
+    Array.isArray(body.messages) &&
+    body.messages.length > 0 &&
+    body.messages.every(isChatMessage)
+  ) {
+    return body.messages;
+  }
+  return undefined;
+};
+
+const numberParam = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+/**
+ * Create LLM routes. All LLM endpoints under /api/v1/llm; starting a
+ * stream needs `llm:stream`.
+ *
+ * @param relay Sends the started stream to dashboard clients
+ */
+export const createLLMRoutes = (relay: LLMStreamRelay): Router => {
+  const router = Router();
+
+  router.use(authMiddleware);
+
+  /**
+   * POST /api/v1/llm/streams.
+   * Start a streamed chat from `prompt` or `messages` (plus optional
+   * `model`, `temperature`, `maxTokens`). Answers 202 with the stream id
+   * once the first chunk has arrived; the chunks follow over Socket.IO.
+   * Pass the caller's `socketId` to join its socket to the stream room up
+   * front and let it cancel with `llm-stream:cancel`.
+   */
+  router.post(
+    '/streams',
+    heavyOperationsLimiter,
+    requirePermission('llm:stream'),
+    asyncHandler(async (req: Request, res: Response) => {
+      const body = (req.body ?? {}) as Record<string, unknown>;
+      const messages = parseMessages(body);
+      if (!messages) {
+        sendError(
+          res,
+          400,
+          'INVALID_ARGUMENT',
+          'Provide a prompt or a non-empty messages array of { role, content }'
+        );
+        return;
+      }
+
+      const { getGlobalLLM } = await import('@claude-zen/llm-providers');
+      const controller = new AbortController();
+      const result = await getGlobalLLM().chatStream(
+        {
+          messages,
+          model: typeof body.model === 'string' ? body.model : undefined,
+          temperature: numberParam(body.temperature),
+          maxTokens: numberParam(body.maxTokens),
+        },
+        { signal: controller.signal }
+      );
+      if (result.isErr()) {
+        logger.warn(`LLM stream failed to start: ${result.error.message}`, {
+          code: result.error.code,
+          user: req.auth?.user?.id,
+        });
+        sendError(res, 502, 'UNAVAILABLE', result.error.message);
+        return;
+      }
+
+      const streamId = randomUUID();
+      relay(streamId, result.value, {
+        controller,
+        requesterSocketId:
+          typeof body.socketId === 'string' ? body.socketId : undefined,
+        metadata: { userId: req.auth?.user?.id },
+      }).catch((error) => {
+        logger.error(`Failed to relay LLM stream ${streamId}:`, error);
+      });
+
+      res.status(202).json({
+        streamId,
+        room: `${LLM_STREAM_ROOM_PREFIX}${streamId}`,
+      });
+    })
+  );
+
+  return router;
+};
+
+export default createLLMRoutes;
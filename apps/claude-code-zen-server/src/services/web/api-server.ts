@@ -27,6 +27,10 @@ import statusMonitor from 'express-status-monitor';
 
 import { ControlApiRoutes } from './control-api-routes';
 import { SystemCapabilityRoutes } from './system-capability-routes';
+import { errorHandler } from '../../infrastructure/middleware/errors';
+import { createCoordinationRoutes } from '../api/coordination';
+import { createDatabaseRoutes } from '../api/database';
+import { createEventRoutes } from '../api/events';
 import { createTaskMasterRoutes } from '../api/taskmaster';
 
 const { getVersion } = (global as any).claudeZenFoundation || {
@@ -106,6 +110,7 @@ export class ApiServer {
       allowedHeaders: [
         'Content-Type',
         'Authorization',
+        'X-API-Key',
         'X-Requested-With',
         'X-Session-D',
       ],
@@ -140,6 +145,9 @@ export class ApiServer {
     this.setupSystemRoutes();
     this.setupSystemCapabilityRoutes();
     this.setupTaskMasterRoutes();
+    this.setupEventRoutes();
+    this.setupDatabaseRoutes();
+    this.setupCoordinationRoutes();
     this.setupWorkspaceRoutes();
     this.setupControlRoutes();
     this.setupSvelteStaticFiles();
@@ -170,6 +178,38 @@ export class ApiServer {
     this.logger.info('✅ TaskMaster SAFe routes configured');
   }
 
+  /**
+   * Set up event system routes (dead-letter queue inspection)
+   */
+  private setupEventRoutes(): void {
+    this.logger.info('📨 Setting up event system routes...');
+    // Mount event system routes under /api/v1/events
+    this.app.use('/api/v1/events', createEventRoutes());
+    this.logger.info('✅ Event system routes configured');
+  }
+
+  /**
+   * Set up database routes. Each route authenticates and checks its
+   * `database:*` permission before the tier rate limiter runs.
+   */
+  private setupDatabaseRoutes(): void {
+    this.logger.info('🗃️ Setting up database routes...');
+    // Mount database routes under /api/v1/database
+    this.app.use('/api/v1/database', createDatabaseRoutes());
+    this.logger.info('✅ Database routes configured');
+  }
+
+  /**
+   * Set up coordination routes (agents, tasks, swarm configuration),
+   * guarded by authentication and `coordination:*` permissions
+   */
+  private setupCoordinationRoutes(): void {
+    this.logger.info('🐝 Setting up coordination routes...');
+    // Mount coordination routes under /api/v1/coordination
+    this.app.use('/api/v1/coordination', createCoordinationRoutes());
+    this.logger.info('✅ Coordination routes configured');
+  }
+
   /**
    * Set up comprehensive control API routes
    */
@@ -545,9 +585,13 @@ export class ApiServer {
           '/api/workspace/files',
           '/api/v1/control/* (comprehensive control APIs)',
           '/api/v1/taskmaster/* (SAFe workflow management)',
+          '/api/v1/database/* (database operations)',
+          '/api/v1/coordination/* (agents, tasks and swarm)',
         ],
       });
     });
+    // Render errors thrown by API route handlers as JSON
+    this.app.use('/api', errorHandler);
   }
 
   async start(): Promise<void> {
@@ -24,6 +24,7 @@ import {
   createSvelteHealthCheck,
   type SvelteProxyConfig
 } from './svelte-proxy-route';
+import { createLLMRoutes } from '../api/llm';
 
 // Types from consolidated system
 import type { 
@@ -37,6 +38,10 @@ import type {
   WebHtmlGenerator,
   WebProcessManager
 } from '../../types';
+import type {
+  LLMStreamChunk,
+  LLMStreamRelayOptions
+} from '../../infrastructure/websocket/socket.manager';
 
 const { getVersion } = (global as any).foundation;
 
@@ -205,6 +210,19 @@ export class WebInterface {
       this.logger.warn('⚠️ API routes setup failed, continuing...', error.message);
     }
 
+    try {
+      // Streamed LLM chats, relayed to clients by the WebSocket manager
+      app.use(
+        '/api/v1/llm',
+        createLLMRoutes((streamId, stream, options) =>
+          this.relayLLMStream(streamId, stream, options)
+        )
+      );
+      this.logger.debug('✅ LLM routes setup complete');
+    } catch (error) {
+      this.logger.warn('⚠️ LLM routes setup failed, continuing...', error.message);
+    }
+
     try {
       // Setup WebSocket communication
       this.webSocketManager?.setupWebSocket(app);
@@ -357,6 +375,22 @@ export class WebInterface {
     this.webSocketManager.broadcast(event, data);
   }
 
+  /**
+   * Relay a streamed LLM response (e.g. from `LLMProvider.chatStream`) to
+   * dashboard clients subscribed to `llm-stream:<streamId>`.
+   *
+   * @param streamId Identifier clients subscribe and cancel with
+   * @param stream Chunks to relay
+   * @param options Cancellation controller and announcement metadata
+   */
+  relayLLMStream(
+    streamId: string,
+    stream: AsyncIterable<LLMStreamChunk>,
+    options?: LLMStreamRelayOptions
+  ): Promise<void> {
+    return this.webSocketManager.relayLLMStream(streamId, stream, options);
+  }
+
   /**
    * Get web interface capabilities (static method).
    */
@@ -16,6 +16,11 @@ import type {
 } from 'express';
 import * as fs from 'fs-extra';
 
+import {
+  authMiddleware,
+  requirePermission,
+} from '../../infrastructure/middleware/auth';
+
 export class WorkspaceApiRoutes {
   private logger = getLogger('WorkspaceAPI');
   private workspaceRoot: string;
@@ -25,36 +30,41 @@ export class WorkspaceApiRoutes {
   }
 
   /**
-   * Setup workspace API routes
+   * Setup workspace API routes.
+   * Reads need `workspace:read`, file changes `workspace:write` and
+   * command execution `workspace:execute`.
    */
   setupRoutes(app: Express): void {
     const prefix = '/api/workspace';
+    const canRead = [authMiddleware, requirePermission('workspace:read')];
+    const canWrite = [authMiddleware, requirePermission('workspace:write')];
+    const canExecute = [authMiddleware, requirePermission('workspace:execute')];
 
     // File system operations
-    app.get(`${prefix}/files`, this.listFiles.bind(this));
-    app.get(`${prefix}/files/content`, this.getFileContent.bind(this));
-    app.post(`${prefix}/files`, this.createFile.bind(this));
-    app.put(`${prefix}/files`, this.updateFile.bind(this));
-    app.delete(`${prefix}/files`, this.deleteFile.bind(this));
+    app.get(`${prefix}/files`, ...canRead, this.listFiles.bind(this));
+    app.get(`${prefix}/files/content`, ...canRead, this.getFileContent.bind(this));
+    app.post(`${prefix}/files`, ...canWrite, this.createFile.bind(this));
+    app.put(`${prefix}/files`, ...canWrite, this.updateFile.bind(this));
+    app.delete(`${prefix}/files`, ...canWrite, this.deleteFile.bind(this));
 
     // Directory operations
-    app.post(`${prefix}/directories`, this.createDirectory.bind(this));
+    app.post(`${prefix}/directories`, ...canWrite, this.createDirectory.bind(this));
     // app.delete(`${prefix}/directories`, this.deleteDirectory.bind(this)); // TODO: Implement deleteDirectory
 
     // Project operations
-    app.get(`${prefix}/project/info`, this.getProjectInfo.bind(this));
-    app.post(`${prefix}/project/commands`, this.executeProjectCommand.bind(this));
+    app.get(`${prefix}/project/info`, ...canRead, this.getProjectInfo.bind(this));
+    app.post(`${prefix}/project/commands`, ...canExecute, this.executeProjectCommand.bind(this));
 
     // Search operations
-    app.get(`${prefix}/search/files`, this.searchFiles.bind(this));
-    app.get(`${prefix}/search/content`, this.searchContent.bind(this));
+    app.get(`${prefix}/search/files`, ...canRead, this.searchFiles.bind(this));
+    app.get(`${prefix}/search/content`, ...canRead, this.searchContent.bind(this));
 
     // Git operations
-    app.get(`${prefix}/git/status`, this.getGitStatus.bind(this));
-    app.post(`${prefix}/git/commands`, this.executeGitCommand.bind(this));
+    app.get(`${prefix}/git/status`, ...canRead, this.getGitStatus.bind(this));
+    app.post(`${prefix}/git/commands`, ...canExecute, this.executeGitCommand.bind(this));
 
     // Recent files
-    app.get(`${prefix}/recent`, this.getRecentFiles.bind(this));
+    app.get(`${prefix}/recent`, ...canRead, this.getRecentFiles.bind(this));
 
     this.logger.info('Workspace API routes registered');
   }
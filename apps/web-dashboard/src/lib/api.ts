@@ -70,6 +70,63 @@ interface Project {
   lastActivity?: string;
 }
 
+interface DeadLetterError {
+  name: string;
+  message: string;
+  code?: string;
+  stack?: string;
+}
+
+interface DeadLetterEntry {
+  id: string;
+  managerType: string;
+  managerName: string;
+  subscriptionId: string;
+  subscriptionEventTypes: string[];
+  event: {
+    id: string;
+    type: string;
+    source: string;
+    timestamp: string;
+    payload?: unknown;
+  };
+  error: DeadLetterError;
+  attempts: number;
+  requeueCount: number;
+  firstFailedAt: string;
+  lastFailedAt: string;
+}
+
+interface DeadLetterQueueStats {
+  managerType: string;
+  total: number;
+  byManager: Record<string, number>;
+  bySubscription: Record<string, number>;
+  byEventType: Record<string, number>;
+  byError: Record<string, number>;
+  oldestFailure?: string;
+  newestFailure?: string;
+}
+
+interface DeadLetterSummary {
+  queues: DeadLetterQueueStats[];
+  total: number;
+}
+
+interface DeadLetterPage {
+  entries: DeadLetterEntry[];
+  total: number;
+  offset: number;
+  limit: number;
+  stats: DeadLetterQueueStats;
+}
+
+interface DeadLetterRequeueResult {
+  id: string;
+  status: 'delivered' | 'failed' | 'unavailable';
+  error?: DeadLetterError;
+}
+
 class ApiClient {
   private baseUrl: string;
   public currentProjectId: string | null = null;
@@ -603,6 +660,77 @@ class ApiClient {
     return await this.request('/v1/facades/dependencies');
   }
 
+  // ===== EVENT SYSTEM DEAD-LETTER API =====
+
+  async getDeadLetterSummary(): Promise<DeadLetterSummary> {
+    return await this.request('/v1/events/dead-letters');
+  }
+
+  async getDeadLetters(
+    managerType: string,
+    filters: {
+      managerName?: string;
+      subscriptionId?: string;
+      eventType?: string;
+      offset?: number;
+      limit?: number;
+    } = {}
+  ): Promise<DeadLetterPage> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    }
+    const query = params.toString();
+    return await this.request(
+      `/v1/events/dead-letters/${managerType}${query ? `?${query}` : ''}`
+    );
+  }
+
+  async getDeadLetter(
+    managerType: string,
+    entryId: string
+  ): Promise<DeadLetterEntry> {
+    return await this.request(
+      `/v1/events/dead-letters/${managerType}/${encodeURIComponent(entryId)}`
+    );
+  }
+
+  async requeueDeadLetter(
+    managerType: string,
+    entryId: string
+  ): Promise<DeadLetterRequeueResult> {
+    return await this.request(
+      `/v1/events/dead-letters/${managerType}/${encodeURIComponent(entryId)}/requeue`,
+      { method: 'POST' }
+    );
+  }
+
+  async requeueDeadLetters(
+    managerType: string,
+    filters: { subscriptionId?: string; eventType?: string } = {}
+  ): Promise<{ results: DeadLetterRequeueResult[] }> {
+    return await this.request(`/v1/events/dead-letters/${managerType}/requeue`, {
+      method: 'POST',
+      body: JSON.stringify(filters),
+    });
+  }
+
+  async purgeDeadLetter(
+    managerType: string,
+    entryId: string
+  ): Promise<{ purged: number }> {
+    return await this.request(
+      `/v1/events/dead-letters/${managerType}/${encodeURIComponent(entryId)}`,
+      { method: 'DELETE' }
+    );
+  }
+
+  async purgeDeadLetters(managerType: string): Promise<{ purged: number }> {
+    return await this.request(`/v1/events/dead-letters/${managerType}`, {
+      method: 'DELETE',
+    });
+  }
+
   // ===== TASKMASTER SAFE WORKFLOW API =====
 
   async getTaskMasterMetrics(): Promise<any> {
@@ -691,4 +819,9 @@ export type {
   PerformanceMetrics,
   Project,
   ApiResponse,
+  DeadLetterEntry,
+  DeadLetterPage,
+  DeadLetterQueueStats,
+  DeadLetterRequeueResult,
+  DeadLetterSummary,
 };
@@ -13,6 +13,37 @@ interface WebSocketData {
   timestamp: string;
 }
 
+export interface LLMStreamState {
+  streamId: string;
+  content: string;
+  done: boolean;
+  cancelled?: boolean;
+  error?: string;
+  usage?: { promptTokens: number; completionTokens: number; totalTokens: number };
+  metadata?: Record<string, unknown>;
+}
+
+export interface LLMBudgetEvent {
+  event: string;
+  type: 'warning' | 'exceeded' | 'downgraded' | 'rejected' | 'reset';
+  policyId: string;
+  scope: 'project' | 'agent' | 'swarm';
+  key: string;
+  window: 'daily' | 'weekly' | 'total';
+  usage: { tokens: number; costUsd: number; requests: number };
+  limits: { maxTokens?: number; maxCostUsd?: number; maxRequests?: number };
+  timestamp: string;
+}
+
+const LLM_BUDGET_EVENTS = [
+  'llm:budget:warning',
+  'llm:budget:exceeded',
+  'llm:budget:downgraded',
+  'llm:budget:rejected',
+  'llm:budget:reset'
+];
+const MAX_BUDGET_EVENTS = 50;
+
 interface ConnectionState {
   connected: boolean;
   connecting: boolean;
@@ -48,6 +79,12 @@ export class WebSocketManager {
   public features = writable<any[]>([]);
   public teams = writable<any[]>([]);
   public safeMetrics = writable<any>(null);
+
+  // Live agent output relayed from LLM streams, keyed by stream id
+  public llmStreams = writable<Record<string, LLMStreamState>>({});
+
+  // Recent LLM budget warnings, rejections and downgrades, newest last
+  public llmBudgetEvents = writable<LLMBudgetEvent[]>([]);
   
   constructor(private serverUrl: string ='http://localhost:3000') {}
 
@@ -195,6 +232,7 @@ export class WebSocketManager {
 
     // Data channel events
     this.setupDataChannelHandlers();
+    this.setupBudgetHandlers();
   }
 
   /**
@@ -308,6 +346,79 @@ export class WebSocketManager {
       console.log('📊 SAFe LPM metrics update:', data.data);
       this.safeMetrics.set(data.data);
     });
+
+    // LLM output streams: join each announced stream's room to receive chunks
+    this.socket.on('llm-stream:started', (data: WebSocketData) => {
+      const { streamId, room, ...metadata } = data.data;
+      this.updateLLMStream(streamId, () => ({ streamId, content: '', done: false, metadata }));
+      this.subscribe(room);
+    });
+
+    this.socket.on('llm-stream:chunk', (data: WebSocketData) => {
+      const { streamId, delta } = data.data;
+      this.updateLLMStream(streamId, (stream) => ({ ...stream, content: stream.content + delta }));
+    });
+
+    this.socket.on('llm-stream:end', (data: WebSocketData) => {
+      const { streamId, usage } = data.data;
+      this.updateLLMStream(streamId, (stream) => ({ ...stream, done: true, usage }));
+      this.unsubscribe(`llm-stream:${streamId}`);
+    });
+
+    this.socket.on('llm-stream:error', (data: WebSocketData) => {
+      const { streamId, error, cancelled } = data.data;
+      this.updateLLMStream(streamId, (stream) => ({ ...stream, done: true, error, cancelled }));
+      this.unsubscribe(`llm-stream:${streamId}`);
+    });
+  }
+
+  private setupBudgetHandlers(): void {
+    if (!this.socket) return;
+
+    this.socket.on('budgets:initial', (data: WebSocketData) => {
+      const events: WebSocketData[] = data.data || [];
+      this.llmBudgetEvents.set(events.map((e) => this.toBudgetEvent(e)));
+    });
+
+    for (const event of LLM_BUDGET_EVENTS) {
+      this.socket.on(event, (data: WebSocketData) => {
+        const budgetEvent = this.toBudgetEvent(data);
+        this.llmBudgetEvents.update((events) =>
+          [...events, budgetEvent].slice(-MAX_BUDGET_EVENTS)
+        );
+
+        if (budgetEvent.type === 'exceeded') {
+          toast.push(`💸 Budget ${budgetEvent.policyId} exhausted for ${budgetEvent.scope} ${budgetEvent.key}`, {
+            theme: {
+              '--toastBackground': '#ed8936',
+              '--toastColor': 'white',
+            }
+          });
+        }
+      });
+    }
+  }
+
+  private toBudgetEvent(data: WebSocketData): LLMBudgetEvent {
+    return { ...data.data, event: data.event, timestamp: data.timestamp };
+  }
+
+  private updateLLMStream(
+    streamId: string,
+    update: (stream: LLMStreamState) => LLMStreamState
+  ): void {
+    this.llmStreams.update((streams) => ({
+      ...streams,
+      [streamId]: update(streams[streamId] || { streamId, content: '', done: false })
+    }));
+  }
+
+  /**
+   * Ask the server to cancel a running LLM stream
+   */
+  cancelLLMStream(streamId: string): void {
+    if (!this.socket?.connected) return;
+    this.socket.emit('llm-stream:cancel', streamId);
   }
 
   /**
@@ -372,7 +483,7 @@ export class WebSocketManager {
    * Subscribe to multiple channels at once
    */
   subscribeToAll(): void {
-    const channels = ['system', 'agents', 'tasks', 'performance', 'logs', 'stories', 'epics', 'features', 'teams', 'safe-metrics'];
+    const channels = ['system', 'agents', 'tasks', 'performance', 'logs', 'stories', 'epics', 'features', 'teams', 'safe-metrics', 'budgets'];
     for (const channel of channels) this.subscribe(channel);
   }
 
@@ -411,6 +411,41 @@ export type {
 // ✅ MAIN ENTRY POINT - Use this for everything!
 export { ChaosEngineering as default, ChaosEngineering } from "./src/main";
 
+// Fault injection proxies for LLM providers and database adapters
+export {
+	createFaultProxyInjectors,
+	DATABASE_FAULT_OPERATIONS,
+	FaultSwitchboard,
+	InjectedFaultError,
+	wrapCLIProvider,
+	wrapDatabaseAdapter,
+} from "./src/fault-proxies";
+export type {
+	DatabaseAdapterKind,
+	FaultProfile,
+	FaultStats,
+} from "./src/fault-proxies";
+
+// Declarative experiment files (YAML/JSON game days)
+export {
+	ExperimentDefinitionSchema,
+	loadExperimentFile,
+	parseExperimentFile,
+	validateExperimentDefinition,
+	writeExperimentJournal,
+} from "./src/experiment-files";
+export type {
+	ExperimentDefinition,
+	ExperimentDefinitionInput,
+	ExperimentJournal,
+	ExperimentMethodAction,
+	ExperimentProbe,
+	ExperimentRollback,
+	HypothesisResult,
+	JournalEntry,
+	ProbeResult,
+} from "./src/experiment-files";
+
 // Advanced interfaces (for power users) - File not found
 // export type {
 //   ChaosOrchestrator,
@@ -0,0 +1,256 @@
+/**
+ * Experiment File Tests.
+ *
+ * Covers parse errors with line and column, validating inline
+ * definitions, steady-state probes, aborting when the system is not in
+ * steady state, rollback ordering, and runs taking part in concurrency
+ * limits and emergency stops.
+ */
+
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// One experiment at a time, whatever the shared configuration says
+vi.mock("@claude-zen/foundation", async (importOriginal) => ({
+	...(await importOriginal<typeof import("@claude-zen/foundation")>()),
+	getConfig: () => ({
+		get: (key: string, fallback: unknown) =>
+			key === "chaos.maxConcurrentExperiments" ? 1 : fallback,
+	}),
+}));
+
+import {
+	type ExperimentDefinitionInput,
+	parseExperimentFile,
+} from "../experiment-files";
+import { ChaosEngineering } from "../main";
+
+const definition = (
+	overrides: Partial<ExperimentDefinitionInput> = {},
+): ExperimentDefinitionInput => ({
+	title: "Swarm survives a failing injector",
+	method: [{ injector: "first" }],
+	...overrides,
+});
+
+describe("parseExperimentFile", () => {
+	it("reports YAML syntax errors with line and column", () => {
+		const source = ["title: Broken", "method:", "  - injector: [unclosed"].join(
+			"\n",
+		);
+
+		expect(() => parseExperimentFile(source, "broken.yaml")).toThrow(
+			/^broken\.yaml:3:\d+: /,
+		);
+	});
+
+	it("reports schema errors at the offending node", () => {
+		const source = [
+			"title: Bad probe",
+			"steadyStateHypothesis:",
+			"  title: Up",
+			"  probes:",
+			"    - { name: api, type: http, url: not-a-url }",
+			"method:",
+			"  - injector: first",
+			"    pauseAfter: -1",
+		].join("\n");
+
+		let message = "";
+		try {
+			parseExperimentFile(source, "bad.yaml");
+		} catch (error) {
+			message = (error as Error).message;
+		}
+
+		expect(message.split("\n")).toEqual([
+			expect.stringMatching(
+				/^bad\.yaml:5:37: .* \(at steadyStateHypothesis\.probes\.0\.url\)$/,
+			),
+			expect.stringMatching(/^bad\.yaml:8:17: .* \(at method\.0\.pauseAfter\)$/),
+		]);
+	});
+});
+
+describe("ChaosEngineering.runExperimentFile", () => {
+	let chaos: ChaosEngineering;
+	let calls: string[];
+	let server: Server | undefined;
+	let health: string;
+
+	const registerInjector = (name: string) => {
+		chaos.registerFailureInjector(name, {
+			inject: async () => {
+				calls.push(`inject:${name}`);
+				return { type: name, duration: 0 };
+			},
+			cleanup: async () => {
+				calls.push(`cleanup:${name}`);
+			},
+		});
+	};
+
+	beforeEach(() => {
+		calls = [];
+		health = "healthy";
+		chaos = new ChaosEngineering({ enableChaos: true, safetyEnabled: false });
+		chaos.setHealthMonitor({
+			getHealthStatus: () => ({ status: health }),
+			getMetrics: () => ({ queue: { depth: 3 } }),
+		} as never);
+		chaos.setRecoveryWorkflows({
+			executeRecovery: async (scenario: string) => {
+				calls.push(`recover:${scenario}`);
+				return true;
+			},
+		} as never);
+		registerInjector("first");
+		registerInjector("second");
+	});
+
+	afterEach(async () => {
+		await chaos.shutdown();
+		await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+		server = undefined;
+	});
+
+	it("rejects inline definitions that do not match the schema", async () => {
+		await expect(
+			chaos.runExperimentFile(definition({ method: [] })),
+		).rejects.toThrow(/^<inline>: .* \(at method\)$/);
+		expect(calls).toEqual([]);
+	});
+
+	it("records every probe of the hypothesis before and after the method", async () => {
+		server = createServer((req, res) => {
+			res.statusCode = req.url === "/health" ? 200 : 503;
+			res.end("swarm ok");
+		});
+		await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+		const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+		const journal = await chaos.runExperimentFile(
+			definition({
+				steadyStateHypothesis: {
+					title: "Swarm is up",
+					probes: [
+						{ name: "health", type: "health" },
+						{ name: "api", type: "http", url: `${url}/health`, bodyContains: "ok" },
+						{
+							name: "queue",
+							type: "metric",
+							metric: "queue.depth",
+							operator: "<",
+							threshold: 10,
+						},
+					],
+				},
+			}),
+		);
+
+		expect(journal.status).toBe("passed");
+		expect(journal.steadyStateBefore?.probes).toEqual([
+			expect.objectContaining({ name: "health", ok: true, value: "healthy" }),
+			expect.objectContaining({ name: "api", ok: true, value: 200 }),
+			expect.objectContaining({ name: "queue", ok: true, value: 3 }),
+		]);
+		expect(journal.steadyStateAfter?.met).toBe(true);
+	});
+
+	it("aborts without injecting or rolling back when steady state is not met", async () => {
+		health = "degraded";
+
+		const journal = await chaos.runExperimentFile(
+			definition({
+				steadyStateHypothesis: {
+					title: "Swarm is healthy",
+					probes: [{ name: "health", type: "health" }],
+				},
+				rollbacks: [{ name: "recover", type: "recovery", scenario: "swarm" }],
+			}),
+		);
+
+		expect(journal).toMatchObject({
+			status: "aborted",
+			error: "Steady state not met before the method",
+			run: [],
+			rollbacks: [],
+		});
+		expect(journal.steadyStateBefore?.probes[0]).toMatchObject({
+			ok: false,
+			value: "degraded",
+		});
+		expect(calls).toEqual([]);
+	});
+
+	it("undoes injections newest first, then runs the file's rollbacks", async () => {
+		const journal = await chaos.runExperimentFile(
+			definition({
+				method: [
+					{ injector: "first" },
+					{ injector: "second" },
+					{ injector: "missing" },
+					{ name: "never", injector: "first" },
+				],
+				rollbacks: [
+					{ name: "recover-swarm", type: "recovery", scenario: "swarm" },
+					{ name: "recover-db", type: "recovery", scenario: "db" },
+				],
+			}),
+		);
+
+		expect(journal.status).toBe("failed");
+		expect(journal.run.map(({ name, status }) => [name, status])).toEqual([
+			["first", "succeeded"],
+			["second", "succeeded"],
+			["missing", "failed"],
+			["never", "skipped"],
+		]);
+		expect(journal.rollbacks.map(({ name }) => name)).toEqual([
+			"cleanup:second",
+			"cleanup:first",
+			"recover-swarm",
+			"recover-db",
+		]);
+		expect(calls).toEqual([
+			"inject:first",
+			"inject:second",
+			"cleanup:second",
+			"cleanup:first",
+			"recover:swarm",
+			"recover:db",
+		]);
+	});
+
+	it("counts as an active experiment and stops pausing on an emergency stop", async () => {
+		const run = chaos.runExperimentFile(
+			definition({
+				method: [
+					{ injector: "first", pauseAfter: 60_000 },
+					{ injector: "second" },
+				],
+			}),
+		);
+		await vi.waitFor(() => expect(calls).toEqual(["inject:first"]));
+
+		expect(chaos.getExperimentStatus()).toEqual([
+			expect.objectContaining({ experimentName: definition().title }),
+		]);
+		await expect(chaos.runExperimentFile(definition())).rejects.toThrow(
+			/Maximum concurrent experiments reached/,
+		);
+
+		await chaos.emergencyStopExperiments("Pager went off");
+		const journal = await run;
+
+		expect(journal).toMatchObject({
+			status: "failed",
+			error: "Method interrupted: Emergency stop",
+		});
+		expect(journal.run.map(({ status }) => status)).toEqual(["succeeded", "skipped"]);
+		expect(calls).toEqual(["inject:first", "cleanup:first"]);
+		expect(chaos.getExperimentStatus()).toEqual([]);
+	});
+});
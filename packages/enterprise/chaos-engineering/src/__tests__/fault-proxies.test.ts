@@ -0,0 +1,284 @@
+/**
+ * Fault Proxy Tests.
+ *
+ * Covers resolving faults by target and wildcard, rate-limit windows,
+ * clearing only the fault an experiment set, injected delays ending when
+ * their fault is cleared, and the provider and database proxies.
+ */
+
+import { ok } from "@claude-zen/foundation";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+	FaultSwitchboard,
+	InjectedFaultError,
+	wrapCLIProvider,
+	wrapDatabaseAdapter,
+} from "../fault-proxies";
+
+interface Chunk {
+	delta: string;
+	done: boolean;
+	metadata?: Record<string, unknown>;
+}
+
+const provider = (deltas = ["Hello", ", ", "world"]) => ({
+	id: "claude",
+	execute: vi.fn(async (_request: unknown, _options?: unknown) =>
+		ok({ content: deltas.join(""), metadata: { model: "sonnet" } }),
+	),
+	executeStream: vi.fn(async function* (
+		_request: unknown,
+		_options?: unknown,
+	): AsyncGenerator<Chunk> {
+		for (const delta of deltas) {
+			yield { delta, done: false };
+		}
+		yield { delta: "", done: true, metadata: { model: "sonnet" } };
+	}),
+});
+
+const collect = async (stream: AsyncIterable<Chunk>) => {
+	const chunks: Chunk[] = [];
+	for await (const chunk of stream) {
+		chunks.push(chunk);
+	}
+	return chunks;
+};
+
+describe("FaultSwitchboard", () => {
+	let switchboard: FaultSwitchboard;
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		switchboard = new FaultSwitchboard();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("prefers a target's own fault over wildcards", () => {
+		switchboard.setFault("*", { latencyMs: 1 });
+		switchboard.setFault("llm:*", { latencyMs: 2 });
+		switchboard.setFault("llm:claude", { latencyMs: 3 });
+
+		expect(switchboard.decide("llm:claude", "execute").delayMs).toBe(3);
+		expect(switchboard.decide("llm:gemini", "execute").delayMs).toBe(2);
+		expect(switchboard.decide("database:sqlite", "query").delayMs).toBe(1);
+	});
+
+	it("only affects the listed operations", () => {
+		switchboard.setFault("database:*", { errorRate: 1, operations: ["execute"] });
+
+		expect(switchboard.decide("database:sqlite", "query")).toEqual({ delayMs: 0 });
+		expect(switchboard.decide("database:sqlite", "execute").failure).toBe("error");
+		expect(switchboard.getStats()).toEqual({
+			"database:sqlite": {
+				calls: 1,
+				delayed: 0,
+				failed: 1,
+				truncated: 0,
+				rateLimited: 0,
+			},
+		});
+	});
+
+	it("rate-limits calls beyond the window's allowance until the window ends", () => {
+		switchboard.setFault("llm:*", { rateLimit: { requests: 2, windowMs: 1000 } });
+
+		expect(switchboard.decide("llm:claude", "execute").failure).toBeUndefined();
+		expect(switchboard.decide("llm:gemini", "execute").failure).toBeUndefined();
+		vi.advanceTimersByTime(400);
+		expect(switchboard.decide("llm:claude", "execute")).toMatchObject({
+			failure: "rate_limit",
+			retryAfterMs: 600,
+		});
+
+		vi.advanceTimersByTime(600);
+		expect(switchboard.decide("llm:claude", "execute").failure).toBeUndefined();
+	});
+
+	it("clears a fault with a profile only while that profile is active", () => {
+		const first = { latencyMs: 100 };
+		const second = { latencyMs: 200 };
+		switchboard.setFault("llm:claude", first);
+		switchboard.setFault("llm:claude", second);
+
+		expect(switchboard.clearFault("llm:claude", first)).toBe(false);
+		expect(switchboard.getActiveFaults()).toEqual({ "llm:claude": second });
+		expect(switchboard.clearFault("llm:claude", second)).toBe(true);
+		expect(switchboard.clearFault("llm:claude")).toBe(false);
+	});
+
+	it("ends injected delays when their fault is cleared", async () => {
+		const profile = { latencyMs: 60_000, errorRate: 1 };
+		switchboard.setFault("llm:claude", profile);
+		switchboard.setFault("database:sqlite", { latencyMs: 60_000 });
+		const cleared = switchboard.delay(switchboard.decide("llm:claude", "execute"));
+		const stopped = switchboard.delay(switchboard.decide("database:sqlite", "query"));
+		let settled = 0;
+		void cleared.then(() => settled++);
+		void stopped.then(() => settled++);
+
+		switchboard.clearFault("llm:claude", profile);
+		await expect(cleared).resolves.toEqual({ delayMs: 0 });
+		expect(settled).toBe(1);
+
+		switchboard.clearAll();
+		await expect(stopped).resolves.toEqual({ delayMs: 0 });
+		expect(vi.getTimerCount()).toBe(0);
+	});
+
+	it("keeps the decision of a delay that ran its course", async () => {
+		switchboard.setFault("llm:claude", { latencyMs: 1000, errorRate: 1 });
+		const delayed = switchboard.delay(switchboard.decide("llm:claude", "execute"));
+
+		await vi.advanceTimersByTimeAsync(1000);
+
+		await expect(delayed).resolves.toMatchObject({ delayMs: 1000, failure: "error" });
+	});
+});
+
+describe("wrapCLIProvider", () => {
+	let switchboard: FaultSwitchboard;
+
+	beforeEach(() => {
+		switchboard = new FaultSwitchboard();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("passes calls and their options straight through without a fault", async () => {
+		const wrapped = provider();
+		const proxy = wrapCLIProvider(wrapped, switchboard);
+		const options = { signal: new AbortController().signal };
+
+		const result = await proxy.execute({ prompt: "hi" }, options);
+		const chunks = await collect(proxy.executeStream({ prompt: "hi" }, options));
+
+		expect(result.isOk() && result.value.content).toBe("Hello, world");
+		expect(wrapped.execute).toHaveBeenCalledWith({ prompt: "hi" }, options);
+		expect(wrapped.executeStream).toHaveBeenCalledWith({ prompt: "hi" }, options);
+		expect(chunks.map(({ delta }) => delta).join("")).toBe("Hello, world");
+	});
+
+	it("returns injected failures as provider errors", async () => {
+		switchboard.setFault("llm:claude", { errorRate: 1, errorCode: "TIMEOUT_ERROR" });
+		const wrapped = provider();
+
+		const result = await wrapCLIProvider(wrapped, switchboard).execute({});
+
+		expect(result.isErr() && result.error).toMatchObject({
+			code: "TIMEOUT_ERROR",
+			details: { target: "llm:claude", injected: true },
+		});
+		expect(wrapped.execute).not.toHaveBeenCalled();
+	});
+
+	it("delays a stream before its first chunk", async () => {
+		vi.useFakeTimers();
+		switchboard.setFault("llm:claude", { latencyMs: 5000 });
+		const wrapped = provider();
+		const stream = wrapCLIProvider(wrapped, switchboard).executeStream({});
+
+		const first = stream[Symbol.asyncIterator]().next();
+		await vi.advanceTimersByTimeAsync(4999);
+		expect(wrapped.executeStream).not.toHaveBeenCalled();
+
+		await vi.advanceTimersByTimeAsync(1);
+		await expect(first).resolves.toEqual({
+			value: { delta: "Hello", done: false },
+			done: false,
+		});
+	});
+
+	it("fails a stream before it starts", async () => {
+		switchboard.setFault("llm:*", { rateLimit: { requests: 0, windowMs: 1000 } });
+		const wrapped = provider();
+
+		const failure = collect(wrapCLIProvider(wrapped, switchboard).executeStream({}));
+
+		await expect(failure).rejects.toBeInstanceOf(InjectedFaultError);
+		await expect(failure).rejects.toMatchObject({
+			code: "RATE_LIMIT_ERROR",
+			target: "llm:claude",
+			operation: "executeStream",
+		});
+		expect(wrapped.executeStream).not.toHaveBeenCalled();
+	});
+
+	it("cuts streams short and ends them with a truncated final chunk", async () => {
+		switchboard.setFault("llm:claude", { truncateRate: 1, truncateRatio: 0.5 });
+
+		const chunks = await collect(
+			wrapCLIProvider(provider(), switchboard).executeStream({}),
+		);
+
+		expect(chunks).toEqual([
+			{ delta: "Hello", done: false },
+			{ delta: ",", done: false },
+			{
+				delta: "",
+				done: true,
+				metadata: { model: "sonnet", truncated: true, injected: true },
+			},
+		]);
+	});
+
+	it("only exposes executeStream when the provider streams", () => {
+		const { executeStream: _, ...batchOnly } = provider();
+
+		const proxy = wrapCLIProvider(batchOnly, switchboard) as {
+			executeStream?: unknown;
+		};
+
+		expect(proxy.executeStream).toBeUndefined();
+	});
+});
+
+describe("wrapDatabaseAdapter", () => {
+	const adapter = () => ({
+		query: vi.fn(async (_sql: string) => ({
+			rows: [{ id: 1 }, { id: 2 }, { id: 3 }, { id: 4 }],
+			rowCount: 4,
+		})),
+		transaction: vi.fn(async (work: () => Promise<unknown>) => work()),
+		close: vi.fn(async () => undefined),
+	});
+
+	it("fails SQLite calls as a locked database", async () => {
+		const switchboard = new FaultSwitchboard();
+		switchboard.setFault("database:sqlite", { errorRate: 1 });
+		const wrapped = adapter();
+		const proxy = wrapDatabaseAdapter(wrapped, switchboard, "sqlite");
+
+		const failure = proxy.query("SELECT 1");
+
+		await expect(failure).rejects.toBeInstanceOf(InjectedFaultError);
+		await expect(failure).rejects.toMatchObject({
+			message: "SQLITE_BUSY: database is locked",
+			code: "SQLITE_BUSY",
+			target: "database:sqlite",
+			operation: "query",
+		});
+		expect(wrapped.query).not.toHaveBeenCalled();
+		await expect(proxy.close()).resolves.toBeUndefined();
+	});
+
+	it("truncates query rows but not transaction results", async () => {
+		const switchboard = new FaultSwitchboard();
+		switchboard.setFault("database:*", { truncateRate: 1, truncateRatio: 0.5 });
+		const proxy = wrapDatabaseAdapter(adapter(), switchboard, "sqlite");
+
+		await expect(proxy.query("SELECT id")).resolves.toEqual({
+			rows: [{ id: 1 }, { id: 2 }],
+			rowCount: 2,
+		});
+		await expect(proxy.transaction(async () => [1, 2, 3, 4])).resolves.toEqual([
+			1, 2, 3, 4,
+		]);
+	});
+});
@@ -0,0 +1,275 @@
+/**
+ * @fileoverview Declarative Chaos Experiment Files
+ *
+ * Loads chaos experiments from `.yaml`, `.yml` and `.json` files so game
+ * days can be reviewed and repeated like any other change:
+ *
+ * ```yaml
+ * title: Swarm survives coordinator memory pressure
+ * safetyChecks: [memory_available]
+ * steadyStateHypothesis:
+ *   title: Swarm is healthy and responsive
+ *   probes:
+ *     - { name: health, type: health }
+ *     - { name: api-up, type: http, url: http://localhost:3000/health }
+ *     - { name: memory, type: metric, metric: resources.memory, operator: "<", threshold: 0.8 }
+ * method:
+ *   - injector: memory_pressure
+ *     parameters: { size: 104857600, duration: 30000 }
+ *     pauseAfter: 10000
+ * rollbacks:
+ *   - { name: restart-coordinator, type: recovery, scenario: system.memory }
+ * ```
+ *
+ * `ChaosEngineering.runExperimentFile` verifies the hypothesis, runs the
+ * method with registered `FailureInjector`s, verifies the hypothesis again,
+ * rolls back and returns an `ExperimentJournal`.
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+
+import { z } from "@claude-zen/foundation";
+import { LineCounter, parseDocument, type Document } from "yaml";
+
+import { ValidationError } from "./main.js";
+
+const HttpRequestSchema = z.object({
+	url: z.string().url(),
+	method: z.string().default("GET"),
+	headers: z.record(z.string()).optional(),
+	body: z.unknown().optional(),
+	timeoutMs: z.number().int().positive().default(5000),
+});
+
+const ProbeSchema = z.discriminatedUnion("type", [
+	z.object({
+		name: z.string().min(1),
+		type: z.literal("health"),
+		/** Acceptable `HealthMonitor` statuses */
+		expect: z.array(z.string()).default(["healthy"]),
+	}),
+	HttpRequestSchema.extend({
+		name: z.string().min(1),
+		type: z.literal("http"),
+		/** Accepted response codes; any 2xx when omitted */
+		expectStatus: z.array(z.number().int()).optional(),
+		bodyContains: z.string().optional(),
+	}),
+	z.object({
+		name: z.string().min(1),
+		type: z.literal("metric"),
+		/** Dot path into `HealthMonitor` metrics, or `resources.memory|cpu` */
+		metric: z.string().min(1),
+		operator: z.enum(["<", "<=", ">", ">=", "==", "!="]),
+		threshold: z.number(),
+	}),
+]);
+
+const MethodActionSchema = z.object({
+	name: z.string().optional(),
+	/** Name of a registered `FailureInjector` */
+	injector: z.string().min(1),
+	parameters: z.record(z.unknown()).default({}),
+	/** Wait after injecting, in milliseconds */
+	pauseAfter: z.number().int().nonnegative().default(0),
+});
+
+const RollbackSchema = z.discriminatedUnion("type", [
+	z.object({
+		name: z.string().min(1),
+		type: z.literal("recovery"),
+		/** Passed to `RecoveryWorkflows.executeRecovery` */
+		scenario: z.string().min(1),
+	}),
+	HttpRequestSchema.extend({
+		name: z.string().min(1),
+		type: z.literal("http"),
+	}),
+]);
+
+export const ExperimentDefinitionSchema = z.object({
+	title: z.string().min(1),
+	description: z.string().default(""),
+	tags: z.array(z.string()).default([]),
+	blastRadius: z.number().min(0).max(1).default(0.1),
+	/** Names of safety checks registered with `ChaosEngineering` */
+	safetyChecks: z.array(z.string()).default([]),
+	steadyStateHypothesis: z
+		.object({
+			title: z.string().min(1),
+			probes: z.array(ProbeSchema).min(1),
+		})
+		.optional(),
+	method: z.array(MethodActionSchema).min(1),
+	rollbacks: z.array(RollbackSchema).default([]),
+});
+
+export type ExperimentDefinition = z.infer<typeof ExperimentDefinitionSchema>;
+/** Definition as written, before defaults are filled in */
+export type ExperimentDefinitionInput = z.input<typeof ExperimentDefinitionSchema>;
+export type ExperimentProbe = z.infer<typeof ProbeSchema>;
+export type ExperimentMethodAction = z.infer<typeof MethodActionSchema>;
+export type ExperimentRollback = z.infer<typeof RollbackSchema>;
+
+export interface ProbeResult {
+	name: string;
+	type: ExperimentProbe["type"];
+	ok: boolean;
+	/** Observed status, response code or metric value */
+	value?: unknown;
+	error?: string;
+	duration: number;
+}
+
+export interface HypothesisResult {
+	title: string;
+	met: boolean;
+	probes: ProbeResult[];
+}
+
+export interface JournalEntry {
+	name: string;
+	status: "succeeded" | "failed" | "skipped";
+	startTime: Date;
+	endTime: Date;
+	output?: unknown;
+	error?: string;
+}
+
+/**
+ * Record of one run of an experiment file.
+ *
+ * - `passed`: the hypothesis held before and after, and every action ran
+ * - `failed`: an action failed or the system deviated from steady state
+ * - `aborted`: the system was not in steady state, so nothing was injected
+ */
+export interface ExperimentJournal {
+	id: string;
+	title: string;
+	source: string;
+	status: "passed" | "failed" | "aborted";
+	/** The hypothesis did not hold after the method */
+	deviated: boolean;
+	startTime: Date;
+	endTime: Date;
+	duration: number;
+	steadyStateBefore?: HypothesisResult;
+	steadyStateAfter?: HypothesisResult;
+	run: JournalEntry[];
+	rollbacks: JournalEntry[];
+	error?: string;
+	definition: ExperimentDefinition;
+}
+
+const EXPERIMENT_FILE_EXTENSIONS = [".yaml", ".yml", ".json"];
+
+/**
+ * Parse and validate an experiment document.
+ *
+ * @param source - YAML or JSON text; JSON goes through the YAML parser too.
+ * @param file - Name used in error messages.
+ * @throws {ValidationError} Listing every problem as `file:line:column: message`.
+ */
+export function parseExperimentFile(
+	source: string,
+	file = "<inline>",
+): ExperimentDefinition {
+	const lineCounter = new LineCounter();
+	const document = parseDocument(source, { lineCounter, prettyErrors: false });
+
+	if (document.errors.length > 0) {
+		throw new ValidationError(
+			document.errors
+				.map((error) => {
+					const { line, col } = lineCounter.linePos(error.pos[0]);
+					return `${file}:${line}:${col}: ${error.message}`;
+				})
+				.join("\n"),
+		);
+	}
+
+	return validate(document.toJS(), file, (path) =>
+		positionOf(document, lineCounter, path),
+	);
+}
+
+/**
+ * Validate a definition built in code and fill in its defaults.
+ *
+ * @param definition
+ * @param source - Name used in error messages.
+ * @throws {ValidationError} Listing every problem as `source: message (at path)`.
+ */
+export function validateExperimentDefinition(
+	definition: unknown,
+	source = "<inline>",
+): ExperimentDefinition {
+	return validate(definition, source, () => "");
+}
+
+/**
+ * Read and validate an experiment file.
+ *
+ * @param path
+ */
+export async function loadExperimentFile(
+	path: string,
+): Promise<ExperimentDefinition> {
+	if (!EXPERIMENT_FILE_EXTENSIONS.some((extension) => path.endsWith(extension))) {
+		throw new ValidationError(
+			`Unsupported experiment file ${path}; expected ${EXPERIMENT_FILE_EXTENSIONS.join(", ")}`,
+		);
+	}
+	return parseExperimentFile(await readFile(path, "utf8"), path);
+}
+
+/**
+ * Write a journal as pretty-printed JSON for review.
+ *
+ * @param path
+ * @param journal
+ */
+export async function writeExperimentJournal(
+	path: string,
+	journal: ExperimentJournal,
+): Promise<void> {
+	await writeFile(path, `${JSON.stringify(journal, null, 2)}\n`, "utf8");
+}
+
+function validate(
+	value: unknown,
+	source: string,
+	positionAt: (path: PropertyKey[]) => string,
+): ExperimentDefinition {
+	const result = ExperimentDefinitionSchema.safeParse(value);
+	if (!result.success) {
+		throw new ValidationError(
+			result.error.issues
+				.map((issue) => {
+					const where = issue.path.length > 0 ? ` (at ${issue.path.join(".")})` : "";
+					return `${source}${positionAt(issue.path)}: ${issue.message}${where}`;
+				})
+				.join("\n"),
+		);
+	}
+
+	return result.data;
+}
+
+// Line and column of the node at `path`, or of its closest existing ancestor
+function positionOf(
+	document: Document,
+	lineCounter: LineCounter,
+	path: PropertyKey[],
+): string {
+	for (let depth = path.length; depth >= 0; depth--) {
+		const node = document.getIn(path.slice(0, depth), true) as
+			| { range?: [number, number, number] }
+			| undefined;
+		if (node?.range) {
+			const { line, col } = lineCounter.linePos(node.range[0]);
+			return `:${line}:${col}`;
+		}
+	}
+	return "";
+}
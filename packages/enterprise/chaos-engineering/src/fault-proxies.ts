@@ -0,0 +1,627 @@
+/**
+ * @fileoverview Fault Injection Proxies
+ *
+ * Wraps real call paths in proxies that can add latency, fail a share of
+ * calls, truncate responses and simulate rate limits:
+ * - `CLIProvider.execute` from `@claude-zen/llm-providers`; failures come
+ *   back as `err(CLIError)` with the provider's own error codes
+ * - `CLIProvider.executeStream`; delays and failures happen before the
+ *   first chunk, failures are thrown as `InjectedFaultError`
+ * - the `@claude-zen/database` adapters (`SQLiteAdapter`, `KuzuAdapter`,
+ *   `LanceDBAdapter`); failures are thrown like driver errors, SQLite's as
+ *   `SQLITE_BUSY: database is locked`
+ *
+ * Faults are switched at runtime through a `FaultSwitchboard`, which
+ * `ChaosEngineering` experiments drive through the `fault_proxy`,
+ * `llm_slow_response` and `sqlite_locked` injectors. With no fault active
+ * the proxies pass calls straight through. Clearing a fault, e.g. on an
+ * emergency stop, also ends the delays it injected.
+ *
+ * @example
+ * ```typescript
+ * const provider = chaos.wrapCLIProvider(new ClaudeProvider());
+ * const sqlite = chaos.wrapDatabaseAdapter(new SQLiteAdapter(config), 'sqlite');
+ *
+ * chaos.registerExperiment('claude_slow', {
+ *   failureType: 'llm_slow_response',
+ *   parameters: { latencyMs: 30000, duration: 60000 },
+ * });
+ * ```
+ */
+
+import { err, getLogger, ok, type Result } from "@claude-zen/foundation";
+
+import type { FailureInjector, InjectionResult } from "./injectors.js";
+import type { ExperimentParameters } from "./main.js";
+
+const logger = getLogger("FaultProxies");
+
+export interface FaultProfile {
+	/** Delay added to each call */
+	latencyMs?: number;
+	/** Extra random delay of up to this many milliseconds */
+	latencyJitterMs?: number;
+	/** Share of calls that fail, 0-1 */
+	errorRate?: number;
+	/** Error code of failed calls; defaults depend on the wrapped target */
+	errorCode?: string;
+	errorMessage?: string;
+	/** Share of successful responses cut short, 0-1 */
+	truncateRate?: number;
+	/** Share of the response kept when truncating (default 0.5) */
+	truncateRatio?: number;
+	/** Calls allowed per window; the rest fail as rate limited */
+	rateLimit?: { requests: number; windowMs: number };
+	/** Only affect these methods; all wrapped methods when omitted */
+	operations?: string[];
+}
+
+export interface FaultStats {
+	calls: number;
+	delayed: number;
+	failed: number;
+	truncated: number;
+	rateLimited: number;
+}
+
+/**
+ * What to do with one call
+ */
+interface FaultDecision {
+	delayMs: number;
+	failure?: "error" | "rate_limit";
+	retryAfterMs?: number;
+	truncateRatio?: number;
+	profile?: FaultProfile;
+}
+
+/**
+ * Thrown by wrapped database adapters and provider streams for injected
+ * failures
+ */
+export class InjectedFaultError extends Error {
+	constructor(
+		message: string,
+		public readonly code: string,
+		public readonly target: string,
+		public readonly operation: string,
+	) {
+		super(message);
+		this.name = "InjectedFaultError";
+	}
+}
+
+// Structural types so the proxies need neither package at runtime
+interface CLIStreamChunkLike {
+	delta: string;
+	done: boolean;
+	metadata?: Record<string, unknown>;
+}
+
+interface CLIProviderLike {
+	readonly id: string;
+	execute(
+		request: unknown,
+		options?: unknown,
+	): Promise<
+		Result<
+			{ content: string; metadata?: Record<string, unknown> },
+			{ code: string; message: string; details?: Record<string, unknown> }
+		>
+	>;
+	executeStream?(
+		request: unknown,
+		options?: unknown,
+	): AsyncIterable<CLIStreamChunkLike>;
+}
+
+export type DatabaseAdapterKind = "sqlite" | "kuzu" | "lancedb";
+
+/**
+ * Adapter methods that reach the database
+ */
+export const DATABASE_FAULT_OPERATIONS: Record<DatabaseAdapterKind, string[]> = {
+	sqlite: ["query", "execute", "transaction"],
+	kuzu: [
+		"query",
+		"execute",
+		"transaction",
+		"queryGraph",
+		"createNode",
+		"createRelationship",
+		"findNodes",
+		"findRelationships",
+		"getNeighbors",
+		"updateNode",
+		"deleteNode",
+	],
+	lancedb: [
+		"query",
+		"execute",
+		"transaction",
+		"insertVectors",
+		"searchVectors",
+		"vectorSearch",
+		"updateVector",
+		"deleteVector",
+		"countVectors",
+	],
+};
+
+const DATABASE_ERRORS: Record<DatabaseAdapterKind, { code: string; message: string }> = {
+	sqlite: { code: "SQLITE_BUSY", message: "database is locked" },
+	kuzu: { code: "QUERY_ERROR", message: "Kuzu query failed" },
+	lancedb: { code: "QUERY_ERROR", message: "LanceDB operation failed" },
+};
+
+/**
+ * Runtime switch for the faults wrapped targets experience. Targets are
+ * named `llm:<provider id>` and `database:<kind>`; a fault set on
+ * `llm:*`, `database:*` or `*` applies to every matching target without
+ * one of its own.
+ */
+export class FaultSwitchboard {
+	private faults: Map<string, FaultProfile> = new Map();
+	private stats: Map<string, FaultStats> = new Map();
+	private rateWindows: Map<string, { start: number; count: number }> = new Map();
+	private delays: Map<FaultProfile, Set<() => void>> = new Map();
+
+	setFault(target: string, profile: FaultProfile): void {
+		const replaced = this.faults.get(target);
+		this.faults.set(target, profile);
+		this.rateWindows.delete(target);
+		if (replaced) {
+			this.endDelays(replaced);
+		}
+		logger.info(`Fault activated: ${target}`, { profile });
+	}
+
+	/**
+	 * Clear the fault on a target; with `profile`, only if it is still the
+	 * active one, so overlapping experiments don't clear each other's faults
+	 *
+	 * @param target
+	 * @param profile
+	 */
+	clearFault(target: string, profile?: FaultProfile): boolean {
+		const active = this.faults.get(target);
+		if (!active || (profile && active !== profile)) {
+			return false;
+		}
+		this.faults.delete(target);
+		this.endDelays(active);
+		logger.info(`Fault cleared: ${target}`);
+		return true;
+	}
+
+	clearAll(): void {
+		if (this.faults.size > 0) {
+			logger.info("All faults cleared", { targets: [...this.faults.keys()] });
+		}
+		this.faults.clear();
+		this.rateWindows.clear();
+		for (const profile of [...this.delays.keys()]) {
+			this.endDelays(profile);
+		}
+	}
+
+	getActiveFaults(): Record<string, FaultProfile> {
+		return Object.fromEntries(this.faults);
+	}
+
+	getStats(): Record<string, FaultStats> {
+		return Object.fromEntries(
+			[...this.stats].map(([target, stats]) => [target, { ...stats }]),
+		);
+	}
+
+	/**
+	 * Decide the fault for one call to a wrapped method
+	 *
+	 * @param target
+	 * @param operation
+	 */
+	decide(target: string, operation: string): FaultDecision {
+		const key = this.resolve(target);
+		const profile = key ? this.faults.get(key) : undefined;
+		if (
+			!key ||
+			!profile ||
+			(profile.operations && !profile.operations.includes(operation))
+		) {
+			return { delayMs: 0 };
+		}
+
+		const stats = this.statsFor(target);
+		stats.calls++;
+
+		const decision: FaultDecision = {
+			delayMs:
+				(profile.latencyMs ?? 0) +
+				Math.floor(Math.random() * (profile.latencyJitterMs ?? 0)),
+			profile,
+		};
+		if (decision.delayMs > 0) {
+			stats.delayed++;
+		}
+
+		if (profile.rateLimit) {
+			const now = Date.now();
+			let window = this.rateWindows.get(key);
+			if (!window || now - window.start >= profile.rateLimit.windowMs) {
+				window = { start: now, count: 0 };
+				this.rateWindows.set(key, window);
+			}
+			window.count++;
+			if (window.count > profile.rateLimit.requests) {
+				stats.rateLimited++;
+				decision.failure = "rate_limit";
+				decision.retryAfterMs = window.start + profile.rateLimit.windowMs - now;
+				return decision;
+			}
+		}
+
+		if (Math.random() < (profile.errorRate ?? 0)) {
+			stats.failed++;
+			decision.failure = "error";
+		} else if (Math.random() < (profile.truncateRate ?? 0)) {
+			stats.truncated++;
+			decision.truncateRatio = profile.truncateRatio ?? 0.5;
+		}
+
+		return decision;
+	}
+
+	/**
+	 * Wait out the delay of a decision. The wait ends early when its fault
+	 * is cleared, and the call then goes through untouched.
+	 *
+	 * @param decision
+	 */
+	async delay(decision: FaultDecision): Promise<FaultDecision> {
+		const { profile } = decision;
+		if (!profile || decision.delayMs <= 0) {
+			return decision;
+		}
+
+		const waiting = this.delays.get(profile) ?? new Set<() => void>();
+		this.delays.set(profile, waiting);
+		await new Promise<void>((resolve) => {
+			const done = () => {
+				clearTimeout(timer);
+				waiting.delete(done);
+				if (waiting.size === 0 && this.delays.get(profile) === waiting) {
+					this.delays.delete(profile);
+				}
+				resolve();
+			};
+			const timer = setTimeout(done, decision.delayMs);
+			waiting.add(done);
+		});
+
+		return this.isActive(profile) ? decision : { delayMs: 0 };
+	}
+
+	private isActive(profile: FaultProfile): boolean {
+		return [...this.faults.values()].includes(profile);
+	}
+
+	// Release calls waiting on a profile that no target uses any more
+	private endDelays(profile: FaultProfile): void {
+		const waiting = this.delays.get(profile);
+		if (!waiting || this.isActive(profile)) {
+			return;
+		}
+		this.delays.delete(profile);
+		for (const done of [...waiting]) {
+			done();
+		}
+	}
+
+	private resolve(target: string): string | undefined {
+		const wildcard = `${target.split(":")[0]}:*`;
+		return [target, wildcard, "*"].find((key) => this.faults.has(key));
+	}
+
+	private statsFor(target: string): FaultStats {
+		let stats = this.stats.get(target);
+		if (!stats) {
+			stats = { calls: 0, delayed: 0, failed: 0, truncated: 0, rateLimited: 0 };
+			this.stats.set(target, stats);
+		}
+		return stats;
+	}
+}
+
+/**
+ * Wrap a CLI provider so `execute` and `executeStream` go through the
+ * switchboard. Helpers such as `complete` and `executeTask` call `execute`
+ * on the proxy, so they see the faults too. Truncated streams are read to
+ * the end, then replayed cut short.
+ *
+ * @param provider
+ * @param switchboard
+ * @param target
+ */
+export function wrapCLIProvider<T extends CLIProviderLike>(
+	provider: T,
+	switchboard: FaultSwitchboard,
+	target = `llm:${provider.id}`,
+): T {
+	const failure = (fault: FaultDecision) =>
+		fault.failure === "rate_limit"
+			? {
+					code: "RATE_LIMIT_ERROR",
+					message: `Rate limit exceeded (injected by chaos experiment on ${target})`,
+					details: { target, retryAfterMs: fault.retryAfterMs, injected: true },
+				}
+			: {
+					code: fault.profile?.errorCode ?? "NETWORK_ERROR",
+					message:
+						fault.profile?.errorMessage ??
+						`Provider call failed (injected by chaos experiment on ${target})`,
+					details: { target, injected: true },
+				};
+
+	const execute = async (request: unknown, options?: unknown) => {
+		const fault = await switchboard.delay(switchboard.decide(target, "execute"));
+		if (fault.failure) {
+			return err(failure(fault));
+		}
+
+		const result = await provider.execute(request, options);
+		if (fault.truncateRatio === undefined || result.isErr()) {
+			return result;
+		}
+
+		const response = result.value;
+		return ok({
+			...response,
+			content: response.content.slice(
+				0,
+				Math.floor(response.content.length * fault.truncateRatio),
+			),
+			metadata: { ...response.metadata, truncated: true, injected: true },
+		});
+	};
+
+	async function* executeStream(
+		request: unknown,
+		options?: unknown,
+	): AsyncGenerator<CLIStreamChunkLike> {
+		const fault = await switchboard.delay(
+			switchboard.decide(target, "executeStream"),
+		);
+		if (fault.failure) {
+			const { code, message } = failure(fault);
+			throw new InjectedFaultError(message, code, target, "executeStream");
+		}
+
+		const stream = provider.executeStream!(request, options);
+		if (fault.truncateRatio === undefined) {
+			yield* stream;
+			return;
+		}
+
+		const chunks: CLIStreamChunkLike[] = [];
+		for await (const chunk of stream) {
+			chunks.push(chunk);
+		}
+		const content = chunks.map((chunk) => chunk.delta).join("");
+		let remaining = Math.floor(content.length * fault.truncateRatio);
+		for (const chunk of chunks) {
+			if (chunk.done || remaining === 0) {
+				break;
+			}
+			const delta = chunk.delta.slice(0, remaining);
+			remaining -= delta.length;
+			yield { ...chunk, delta };
+		}
+		const last = chunks.at(-1);
+		yield {
+			...(last?.done ? last : {}),
+			delta: "",
+			done: true,
+			metadata: { ...last?.metadata, truncated: true, injected: true },
+		};
+	}
+
+	return new Proxy(provider, {
+		get(object, property, receiver) {
+			if (property === "execute") {
+				return execute;
+			}
+			if (property === "executeStream" && object.executeStream) {
+				return executeStream;
+			}
+			return Reflect.get(object, property, receiver);
+		},
+	});
+}
+
+/**
+ * Wrap a database adapter so its data operations go through the
+ * switchboard. Truncation applies to `rows` of query results and to array
+ * results; other results come back whole.
+ *
+ * @param adapter
+ * @param switchboard
+ * @param kind
+ * @param target
+ */
+export function wrapDatabaseAdapter<T extends object>(
+	adapter: T,
+	switchboard: FaultSwitchboard,
+	kind: DatabaseAdapterKind,
+	target = `database:${kind}`,
+): T {
+	const operations = new Set(DATABASE_FAULT_OPERATIONS[kind]);
+	const wrapped = new Map<PropertyKey, (...args: unknown[]) => Promise<unknown>>();
+
+	return new Proxy(adapter, {
+		get(object, property, receiver) {
+			const value = Reflect.get(object, property, receiver);
+			if (typeof property !== "string" || !operations.has(property)) {
+				return value;
+			}
+			if (typeof value !== "function") {
+				return value;
+			}
+
+			let method = wrapped.get(property);
+			if (!method) {
+				method = async (...args: unknown[]) => {
+					const fault = await switchboard.delay(
+						switchboard.decide(target, property),
+					);
+
+					if (fault.failure) {
+						const defaults = DATABASE_ERRORS[kind];
+						const code =
+							fault.failure === "rate_limit"
+								? "RATE_LIMIT_ERROR"
+								: (fault.profile?.errorCode ?? defaults.code);
+						const message =
+							fault.failure === "rate_limit"
+								? `Rate limit exceeded on ${target}`
+								: (fault.profile?.errorMessage ?? defaults.message);
+						throw new InjectedFaultError(
+							`${code}: ${message}`,
+							code,
+							target,
+							property,
+						);
+					}
+
+					const result = await value.apply(receiver, args);
+					return fault.truncateRatio === undefined || property === "transaction"
+						? result
+						: truncateResult(result, fault.truncateRatio);
+				};
+				wrapped.set(property, method);
+			}
+			return method;
+		},
+	});
+}
+
+/**
+ * Failure injectors that drive the switchboard; each clears its fault on
+ * cleanup or once `duration` has passed.
+ *
+ * @param switchboard
+ */
+export function createFaultProxyInjectors(
+	switchboard: FaultSwitchboard,
+): Record<string, FailureInjector> {
+	const faultInjector = (
+		type: string,
+		defaults: ExperimentParameters,
+	): FailureInjector => ({
+		inject: async (params: ExperimentParameters) => {
+			const options = { ...defaults, ...params };
+			if (typeof options["target"] !== "string") {
+				throw new Error(`${type} needs a target, e.g. llm:* or database:sqlite`);
+			}
+
+			const target = options["target"];
+			const profile = toFaultProfile(options);
+			const duration = options.duration ?? 0;
+			switchboard.setFault(target, profile);
+
+			return {
+				type,
+				target,
+				profile,
+				duration,
+				...(duration > 0
+					? {
+							cleanupTimer: setTimeout(
+								() => switchboard.clearFault(target, profile),
+								duration,
+							),
+						}
+					: {}),
+			};
+		},
+
+		cleanup: async (injectionResult: InjectionResult) => {
+			if (injectionResult["cleanupTimer"]) {
+				clearTimeout(injectionResult["cleanupTimer"] as NodeJS.Timeout);
+			}
+			switchboard.clearFault(
+				injectionResult["target"] as string,
+				injectionResult["profile"] as FaultProfile,
+			);
+		},
+	});
+
+	return {
+		fault_proxy: faultInjector("fault_proxy", {}),
+		llm_slow_response: faultInjector("llm_slow_response", {
+			target: "llm:*",
+			latencyMs: 20000,
+			latencyJitterMs: 5000,
+		}),
+		sqlite_locked: faultInjector("sqlite_locked", {
+			target: "database:sqlite",
+			errorRate: 1,
+			errorCode: "SQLITE_BUSY",
+			errorMessage: "database is locked",
+		}),
+	};
+}
+
+function toFaultProfile(params: ExperimentParameters): FaultProfile {
+	const profile: FaultProfile = {};
+	const number = (key: string) =>
+		typeof params[key] === "number" ? (params[key] as number) : undefined;
+	const string = (key: string) =>
+		typeof params[key] === "string" ? (params[key] as string) : undefined;
+
+	const latencyMs = number("latencyMs");
+	const latencyJitterMs = number("latencyJitterMs");
+	const errorRate = number("errorRate");
+	const errorCode = string("errorCode");
+	const errorMessage = string("errorMessage");
+	const truncateRate = number("truncateRate");
+	const truncateRatio = number("truncateRatio");
+	const rateLimitRequests = number("rateLimitRequests");
+
+	if (latencyMs !== undefined) profile.latencyMs = latencyMs;
+	if (latencyJitterMs !== undefined) profile.latencyJitterMs = latencyJitterMs;
+	if (errorRate !== undefined) profile.errorRate = errorRate;
+	if (errorCode !== undefined) profile.errorCode = errorCode;
+	if (errorMessage !== undefined) profile.errorMessage = errorMessage;
+	if (truncateRate !== undefined) profile.truncateRate = truncateRate;
+	if (truncateRatio !== undefined) profile.truncateRatio = truncateRatio;
+	if (rateLimitRequests !== undefined) {
+		profile.rateLimit = {
+			requests: rateLimitRequests,
+			windowMs: number("rateLimitWindowMs") ?? 60000,
+		};
+	}
+	if (Array.isArray(params["operations"])) {
+		profile.operations = params["operations"].map(String);
+	}
+
+	return profile;
+}
+
+function truncateResult(result: unknown, ratio: number): unknown {
+	const keep = <T>(items: T[]) => items.slice(0, Math.floor(items.length * ratio));
+
+	if (Array.isArray(result)) {
+		return keep(result);
+	}
+	if (
+		result &&
+		typeof result === "object" &&
+		Array.isArray((result as { rows?: unknown }).rows)
+	) {
+		const rows = keep((result as { rows: unknown[] }).rows);
+		return { ...result, rows, rowCount: rows.length };
+	}
+	return result;
+}
+
@@ -24,6 +24,23 @@ import {
 	validateConfig,
 } from "@claude-zen/foundation";
 
+import {
+	createFaultProxyInjectors,
+	type DatabaseAdapterKind,
+	FaultSwitchboard,
+	wrapCLIProvider,
+	wrapDatabaseAdapter,
+} from "./fault-proxies.js";
+import type {
+	ExperimentDefinitionInput,
+	ExperimentJournal,
+	ExperimentProbe,
+	ExperimentRollback,
+	HypothesisResult,
+	JournalEntry,
+	ProbeResult,
+} from "./experiment-files.js";
+
 // Define custom error types for chaos engineering
 export class SystemError extends Error {
 	constructor(
@@ -100,10 +117,74 @@ function generateId(prefix?: string): string {
 	return prefix ? `${prefix}-${id}` : id;
 }
 
+function skippedEntry(name: string): JournalEntry {
+	const now = new Date();
+	return { name, status: "skipped", startTime: now, endTime: now };
+}
+
+// Resolves early when the signal aborts, e.g. on an emergency stop
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		if (signal.aborted) {
+			resolve();
+			return;
+		}
+		const done = () => {
+			clearTimeout(timer);
+			signal.removeEventListener("abort", done);
+			resolve();
+		};
+		const timer = setTimeout(done, ms);
+		signal.addEventListener("abort", done, { once: true });
+	});
+}
+
+function compare(value: number, operator: string, threshold: number): boolean {
+	switch (operator) {
+		case "<":
+			return value < threshold;
+		case "<=":
+			return value <= threshold;
+		case ">":
+			return value > threshold;
+		case ">=":
+			return value >= threshold;
+		case "==":
+			return value === threshold;
+		case "!=":
+			return value !== threshold;
+		default:
+			return false;
+	}
+}
+
+async function sendHttpRequest(request: {
+	url: string;
+	method: string;
+	headers?: Record<string, string> | undefined;
+	body?: unknown;
+	timeoutMs: number;
+}): Promise<Response> {
+	const init: RequestInit = {
+		method: request.method,
+		signal: AbortSignal.timeout(request.timeoutMs),
+	};
+	if (typeof request.body === "string") {
+		init.body = request.body;
+	} else if (request.body !== undefined) {
+		init.body = JSON.stringify(request.body);
+		init.headers = { "content-type": "application/json", ...request.headers };
+	}
+	if (request.headers && !init.headers) {
+		init.headers = request.headers;
+	}
+	return await fetch(request.url, init);
+}
+
 // Type definitions for chaos engineering
 interface ExperimentPhase {
 	name: string;
-	status: "running|completed|failed";
+	status: "running" | "completed" | "failed";
 	startTime: Date;
 	endTime: Date | null;
 	duration: number;
@@ -141,11 +222,11 @@ interface RecoveryExecution {
 	workflowId: string;
 	startTime: Date;
 	endTime: Date;
-	status: "running|completed|failed";
+	status: "running" | "completed" | "failed";
 	steps: Array<{ name: string; status: string }>;
 }
 
-interface ExperimentParameters {
+export interface ExperimentParameters {
 	size?: number;
 	duration?: number;
 	intensity?: number;
@@ -158,7 +239,7 @@ export interface ExperimentExecution {
 	id: string;
 	experimentName: string;
 	experimentId: string;
-	status: "running|completed|failed";
+	status: "running" | "completed" | "failed";
 	startTime: Date;
 	endTime: Date | null;
 	duration: number;
@@ -249,6 +330,9 @@ export class ChaosEngineering extends TypedEventBase {
 	private storage: any;
 	private configWatcher: NodeJS.Timeout | null = null;
 	private mcpTools: unknown | null = null;
+	private journals: ExperimentJournal[] = [];
+	private experimentAborts = new Map<string, AbortController>();
+	private faultSwitchboard = new FaultSwitchboard();
 
 	constructor(options: ChaosEngineeringOptions = {}) {
 		super();
@@ -637,7 +721,7 @@ export class ChaosEngineering extends TypedEventBase {
 
 		const phase: ExperimentPhase = {
 			name: phaseName,
-			status: "running" as "running|completed|failed",
+			status: "running",
 			startTime: new Date(phaseStartTime),
 			endTime: null,
 			duration: 0,
@@ -707,8 +791,8 @@ export class ChaosEngineering extends TypedEventBase {
 			throw new Error("High resource usage detected - experiment blocked");
 		}
 
-		// Check concurrent experiments
-		if (this.activeExperiments.size >= this.options.maxConcurrentExperiments) {
+		// Check concurrent experiments; the one being checked is already active
+		if (this.activeExperiments.size > this.options.maxConcurrentExperiments) {
 			throw new Error("Too many concurrent experiments - experiment blocked");
 		}
 
@@ -1052,6 +1136,13 @@ export class ChaosEngineering extends TypedEventBase {
 		// Import and register advanced injectors
 		this.registerAdvancedInjectors();
 
+		// Fault proxies around wrapped providers and database adapters
+		for (const [name, injector] of Object.entries(
+			createFaultProxyInjectors(this.faultSwitchboard),
+		)) {
+			this.registerFailureInjector(name, injector);
+		}
+
 		// Register basic built-in injectors
 		// Memory pressure injector
 		this.registerFailureInjector("memory_pressure", {
@@ -1492,6 +1583,7 @@ export class ChaosEngineering extends TypedEventBase {
 	async emergencyStopExperiments(reason = "Manual emergency stop") {
 		this.logger.warn("EMERGENCY STOP ACTIVATED", { reason });
 		this.emergencyStop = true;
+		this.faultSwitchboard.clearAll();
 
 		// Cancel all active experiments
 		const cancelPromises = Array.from(this.activeExperiments.keys()).map(
@@ -1523,6 +1615,7 @@ export class ChaosEngineering extends TypedEventBase {
 		(execution as any).status = "cancelled";
 		(execution as any).cancellationReason = reason;
 		execution.endTime = new Date();
+		this.experimentAborts.get(executionId)?.abort(reason);
 
 		this.logger.info(
 			`Chaos experiment cancelled: ${execution.experimentName}`,
@@ -1613,6 +1706,44 @@ export class ChaosEngineering extends TypedEventBase {
 		this.logger.info("Connection Manager integration configured");
 	}
 
+	/**
+	 * Wrap a CLI provider so fault experiments can slow down, fail,
+	 * truncate or rate-limit its `execute` and `executeStream` calls.
+	 *
+	 * @param provider
+	 * @param target - Switchboard target, `llm:<provider id>` by default
+	 */
+	wrapCLIProvider<T extends Parameters<typeof wrapCLIProvider>[0]>(
+		provider: T,
+		target?: string,
+	): T {
+		return wrapCLIProvider(provider, this.faultSwitchboard, target);
+	}
+
+	/**
+	 * Wrap a database adapter so fault experiments can slow down, fail or
+	 * truncate its data operations.
+	 *
+	 * @param adapter
+	 * @param kind
+	 * @param target - Switchboard target, `database:<kind>` by default
+	 */
+	wrapDatabaseAdapter<T extends object>(
+		adapter: T,
+		kind: DatabaseAdapterKind,
+		target?: string,
+	): T {
+		return wrapDatabaseAdapter(adapter, this.faultSwitchboard, kind, target);
+	}
+
+	/**
+	 * Switchboard of the wrapped providers and adapters, for toggling faults
+	 * outside of experiments.
+	 */
+	getFaultSwitchboard(): FaultSwitchboard {
+		return this.faultSwitchboard;
+	}
+
 	setMCPTools(mcpTools: unknown) {
 		this.mcpTools = mcpTools;
 		this.logger.info("MCP Tools integration configured", {
@@ -1642,11 +1773,394 @@ export class ChaosEngineering extends TypedEventBase {
 				}),
 			),
 			activeExperiments: Array.from(this.activeExperiments.values()),
+			journals: this.journals,
+			faults: {
+				active: this.faultSwitchboard.getActiveFaults(),
+				stats: this.faultSwitchboard.getStats(),
+			},
 			failureInjectors: Array.from(this.failureInjectors.keys()),
 			safetyChecks: Array.from(this.safetyChecks.keys()),
 		};
 	}
 
+	/**
+	 * Run a declarative experiment file: verify the steady-state hypothesis,
+	 * run the method, verify the hypothesis again and roll back. Injected
+	 * failures are cleaned up whatever the outcome.
+	 *
+	 * @param fileOrDefinition - Path to a `.yaml`/`.yml`/`.json` file, or a definition object
+	 * @param options
+	 * @param options.journalPath - Also write the journal to this path as JSON
+	 */
+	async runExperimentFile(
+		fileOrDefinition: string | ExperimentDefinitionInput,
+		options: { journalPath?: string } = {},
+	): Promise<ExperimentJournal> {
+		if (!this.options.enableChaos) {
+			throw new ConfigurationError("Chaos Engineering is disabled");
+		}
+
+		if (this.emergencyStop) {
+			throw new SystemError(
+				"Emergency stop is active - chaos experiments blocked",
+			);
+		}
+
+		// Dynamic import to avoid circular dependencies
+		const {
+			loadExperimentFile,
+			validateExperimentDefinition,
+			writeExperimentJournal,
+		} = await import("./experiment-files.js");
+		const source =
+			typeof fileOrDefinition === "string" ? fileOrDefinition : "<inline>";
+		const definition =
+			typeof fileOrDefinition === "string"
+				? await loadExperimentFile(fileOrDefinition)
+				: validateExperimentDefinition(fileOrDefinition, source);
+
+		if (definition.blastRadius > this.options.blastRadiusLimit) {
+			throw new ValidationError(
+				`Experiment blast radius (${definition.blastRadius}) exceeds limit (${this.options.blastRadiusLimit})`,
+			);
+		}
+
+		const startTime = new Date();
+		const journal: ExperimentJournal = {
+			id: generateId("journal"),
+			title: definition.title,
+			source,
+			status: "passed",
+			deviated: false,
+			startTime,
+			endTime: startTime,
+			duration: 0,
+			run: [],
+			rollbacks: [],
+			definition,
+		};
+		const injections: Array<{
+			injector: string;
+			result: InjectionResult;
+		}> = [];
+
+		// Check concurrent experiment limit
+		if (this.activeExperiments.size >= this.options.maxConcurrentExperiments) {
+			throw new SystemError(
+				`Maximum concurrent experiments reached (${this.options.maxConcurrentExperiments})`,
+			);
+		}
+
+		// Active like any other experiment, so cancellation and emergency
+		// stops reach the run
+		const execution: ExperimentExecution = {
+			id: journal.id,
+			experimentName: definition.title,
+			experimentId: source,
+			status: "running",
+			startTime,
+			endTime: null,
+			duration: 0,
+			error: null,
+			parameters: {},
+			phases: [],
+			currentPhase: "safety_check",
+			failureInjected: false,
+			recoveryTriggered: false,
+			recoveryCompleted: false,
+			blastRadius: definition.blastRadius,
+			metadata: { source },
+		};
+		const abort = new AbortController();
+		this.activeExperiments.set(execution.id, execution);
+		this.experimentAborts.set(execution.id, abort);
+
+		this.stats.totalExperiments++;
+		this.logger.info(`Starting experiment file: ${definition.title}`, {
+			journalId: journal.id,
+			source,
+		});
+		this.emit("experiment-file:started", { journalId: journal.id, source });
+
+		try {
+			await this.performSafetyChecks({
+				id: journal.id,
+				name: definition.title,
+				description: definition.description,
+				type: "declarative",
+				category: "declarative",
+				parameters: {},
+				duration: 0,
+				blastRadius: definition.blastRadius,
+				safetyChecks: definition.safetyChecks,
+				metadata: { source },
+				enabled: true,
+				expectedRecovery: [],
+				createdAt: startTime,
+			});
+
+			const hypothesis = definition.steadyStateHypothesis;
+			if (hypothesis) {
+				journal.steadyStateBefore = await this.verifySteadyState(hypothesis);
+				if (!journal.steadyStateBefore.met) {
+					journal.status = "aborted";
+					journal.error = "Steady state not met before the method";
+				}
+			}
+
+			if (journal.status !== "aborted") {
+				execution.currentPhase = "method";
+				for (const action of definition.method) {
+					const name = action.name || action.injector;
+					if (abort.signal.aborted || journal.status === "failed") {
+						journal.run.push(skippedEntry(name));
+						continue;
+					}
+
+					const entry = await this.journalStep(name, async () => {
+						const injector = this.failureInjectors.get(action.injector);
+						if (!injector) {
+							throw new Error(`Failure injector not found: ${action.injector}`);
+						}
+						const result = await injector.inject(action.parameters);
+						injections.push({ injector: action.injector, result });
+						execution.failureInjected = true;
+						this.emit("failure:injected", {
+							journalId: journal.id,
+							failureType: action.injector,
+							result,
+						});
+						if (action.pauseAfter > 0) {
+							await delay(action.pauseAfter, abort.signal);
+						}
+						return { type: result.type, duration: result.duration };
+					});
+					journal.run.push(entry);
+
+					if (entry.status === "failed") {
+						journal.status = "failed";
+						journal.error = `Method action ${name} failed: ${entry.error}`;
+					}
+				}
+
+				if (abort.signal.aborted && journal.status !== "failed") {
+					journal.status = "failed";
+					journal.error = `Method interrupted: ${abort.signal.reason}`;
+				}
+
+				if (hypothesis && journal.status !== "failed") {
+					journal.steadyStateAfter = await this.verifySteadyState(hypothesis);
+					if (!journal.steadyStateAfter.met) {
+						journal.status = "failed";
+						journal.deviated = true;
+						journal.error = "Steady state not met after the method";
+					}
+				}
+			}
+		} catch (error) {
+			journal.status = "aborted";
+			journal.error = error instanceof Error ? error.message : String(error);
+		} finally {
+			// Undo injections newest first, then the file's own rollbacks
+			execution.currentPhase = "rollback";
+			for (const { injector, result } of injections.reverse()) {
+				const cleanup = this.failureInjectors.get(injector)?.cleanup;
+				if (cleanup) {
+					journal.rollbacks.push(
+						await this.journalStep(`cleanup:${injector}`, () => cleanup(result)),
+					);
+				}
+			}
+			if (journal.run.length > 0) {
+				for (const rollback of definition.rollbacks) {
+					journal.rollbacks.push(
+						await this.journalStep(rollback.name, () => this.runRollback(rollback)),
+					);
+				}
+			}
+
+			this.activeExperiments.delete(execution.id);
+			this.experimentAborts.delete(execution.id);
+		}
+
+		journal.endTime = new Date();
+		journal.duration = journal.endTime.getTime() - startTime.getTime();
+
+		if (journal.status === "passed") {
+			this.stats.successfulExperiments++;
+		} else {
+			this.stats.failedExperiments++;
+		}
+
+		this.journals.push(journal);
+		// Keep only the last 50 journals
+		if (this.journals.length > 50) {
+			this.journals.splice(0, this.journals.length - 50);
+		}
+
+		this.logger.info(`Experiment file ${journal.status}: ${definition.title}`, {
+			journalId: journal.id,
+			deviated: journal.deviated,
+			duration: journal.duration,
+			error: journal.error,
+		});
+		this.emit("experiment-file:completed", { journalId: journal.id, journal });
+
+		if (options.journalPath) {
+			await writeExperimentJournal(options.journalPath, journal);
+		}
+
+		return journal;
+	}
+
+	/**
+	 * Get journals of recent experiment file runs, oldest first.
+	 */
+	getExperimentJournals(): ExperimentJournal[] {
+		return [...this.journals];
+	}
+
+	/**
+	 * Run every probe of a steady-state hypothesis.
+	 *
+	 * @param hypothesis
+	 * @param hypothesis.title
+	 * @param hypothesis.probes
+	 */
+	private async verifySteadyState(hypothesis: {
+		title: string;
+		probes: ExperimentProbe[];
+	}): Promise<HypothesisResult> {
+		const probes: ProbeResult[] = [];
+		for (const probe of hypothesis.probes) {
+			probes.push(await this.runProbe(probe));
+		}
+
+		return {
+			title: hypothesis.title,
+			met: probes.every((probe) => probe.ok),
+			probes,
+		};
+	}
+
+	private async runProbe(probe: ExperimentProbe): Promise<ProbeResult> {
+		const startTime = Date.now();
+		const result = (ok: boolean, value: unknown, error?: string): ProbeResult => ({
+			name: probe.name,
+			type: probe.type,
+			ok,
+			value,
+			...(error ? { error } : {}),
+			duration: Date.now() - startTime,
+		});
+
+		try {
+			switch (probe.type) {
+				case "health": {
+					if (!this.healthMonitor) {
+						throw new Error("Health Monitor not available");
+					}
+					const health = this.healthMonitor.getHealthStatus();
+					const status = health.overallStatus ?? health.status;
+					return result(probe.expect.includes(status), status);
+				}
+
+				case "http": {
+					const response = await sendHttpRequest(probe);
+					const body = probe.bodyContains ? await response.text() : "";
+					const statusOk = probe.expectStatus
+						? probe.expectStatus.includes(response.status)
+						: response.ok;
+					const bodyOk = !probe.bodyContains || body.includes(probe.bodyContains);
+					return result(
+						statusOk && bodyOk,
+						response.status,
+						bodyOk ? undefined : `Response body does not contain "${probe.bodyContains}"`,
+					);
+				}
+
+				case "metric": {
+					const metrics: Record<string, unknown> = {
+						...this.healthMonitor?.getMetrics(),
+						resources: await this.checkResourceUsage(),
+					};
+					const value = probe.metric
+						.split(".")
+						.reduce<unknown>(
+							(current, key) =>
+								current && typeof current === "object"
+									? (current as Record<string, unknown>)[key]
+									: undefined,
+							metrics,
+						);
+					if (typeof value !== "number") {
+						throw new Error(`Metric ${probe.metric} not found`);
+					}
+					return result(compare(value, probe.operator, probe.threshold), value);
+				}
+			}
+		} catch (error) {
+			return result(
+				false,
+				undefined,
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+	}
+
+	private async runRollback(rollback: ExperimentRollback): Promise<unknown> {
+		switch (rollback.type) {
+			case "recovery": {
+				if (!this.recoveryWorkflows) {
+					throw new Error("Recovery Workflows not available");
+				}
+				const recovered = await this.recoveryWorkflows.executeRecovery(
+					rollback.scenario,
+				);
+				if (!recovered) {
+					throw new Error(`Recovery scenario ${rollback.scenario} did not succeed`);
+				}
+				return { scenario: rollback.scenario, recovered };
+			}
+
+			case "http": {
+				const response = await sendHttpRequest(rollback);
+				if (!response.ok) {
+					throw new Error(`${rollback.method} ${rollback.url} returned ${response.status}`);
+				}
+				return { status: response.status };
+			}
+		}
+	}
+
+	private async journalStep(
+		name: string,
+		step: () => Promise<unknown>,
+	): Promise<JournalEntry> {
+		const startTime = new Date();
+		try {
+			const output = await step();
+			return {
+				name,
+				status: "succeeded",
+				startTime,
+				endTime: new Date(),
+				...(output === undefined ? {} : { output }),
+			};
+		} catch (error) {
+			this.logger.warn(`Experiment step failed: ${name}`, {
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return {
+				name,
+				status: "failed",
+				startTime,
+				endTime: new Date(),
+				error: error instanceof Error ? error.message : String(error),
+			};
+		}
+	}
+
 	/**
 	 * Cleanup and shutdown.
 	 */
@@ -1706,6 +2220,7 @@ export class ChaosEngineering extends TypedEventBase {
 		this.experimentHistory.clear();
 		this.failureInjectors.clear();
 		this.safetyChecks.clear();
+		this.faultSwitchboard.clearAll();
 
 		this.emit("chaos:shutdown", { timestamp: new Date() });
 	}
@@ -0,0 +1,235 @@
+/**
+ * Dead-Letter Queue Tests.
+ *
+ * Covers parking failed deliveries, inspection filters, requeue through the
+ * owning manager, purge, batched file writes and recovery from corrupt
+ * files.
+ */
+
+import { existsSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { BaseEventManager } from '../core/base-event-manager';
+import {
+  configureDeadLetterQueues,
+  DeadLetterQueue,
+  getDeadLetterQueue,
+  SAVE_DELAY_MS,
+} from '../core/dead-letter-queue';
+import { EventRetryExhaustedError } from '../core/interfaces';
+import type { SystemEvent } from '../core/interfaces';
+
+class CoordinationManager extends BaseEventManager {}
+
+const silentLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+const createEvent = (index: number, type = 'agent:spawned'): SystemEvent => ({
+  id: `evt-${index}`,
+  type,
+  source: 'dlq-test',
+  timestamp: new Date(),
+  payload: { index },
+});
+
+const park = (
+  queue: DeadLetterQueue,
+  index: number,
+  options: { type?: string; subscriptionId?: string; error?: unknown } = {}
+) =>
+  queue.add({
+    managerType: 'coordination',
+    managerName: 'coordinator',
+    subscriptionId: options.subscriptionId ?? 'sub-1',
+    subscriptionEventTypes: ['agent:*'],
+    event: createEvent(index, options.type),
+    error: options.error ?? new Error(`malformed payload ${index}`),
+    attempts: 3,
+  });
+
+describe('DeadLetterQueue', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'dead-letter-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('records the listener error behind a retry-exhausted wrapper', () => {
+    const queue = new DeadLetterQueue('coordination');
+    const entry = park(queue, 0, {
+      error: new EventRetryExhaustedError(
+        'coordinator',
+        3,
+        'evt-0',
+        new TypeError('agentId is required')
+      ),
+    });
+
+    expect(entry.error).toMatchObject({
+      name: 'TypeError',
+      message: 'agentId is required',
+      code: 'RETRY_EXHAUSTED',
+    });
+    expect(queue.peek(entry.id)?.event.payload).toEqual({ index: 0 });
+  });
+
+  it('filters, pages and evicts the oldest entries', () => {
+    const queue = new DeadLetterQueue('coordination', { maxEntries: 3 });
+    park(queue, 0);
+    park(queue, 1, { type: 'task:assigned', subscriptionId: 'sub-2' });
+    park(queue, 2);
+    park(queue, 3);
+
+    expect(queue.size).toBe(3);
+    expect(queue.list({ eventType: 'agent:*' }).total).toBe(2);
+    expect(queue.list({ subscriptionId: 'sub-2' }).entries[0]?.event.id).toBe('evt-1');
+    expect(queue.list({ limit: 1 }).entries).toHaveLength(1);
+    expect(queue.stats()).toMatchObject({
+      total: 3,
+      byEventType: { 'agent:spawned': 2, 'task:assigned': 1 },
+    });
+  });
+
+  it('removes entries that requeue successfully and keeps failing ones', async () => {
+    const queue = new DeadLetterQueue('coordination');
+    const recovered = park(queue, 0);
+    const poison = park(queue, 1);
+
+    queue.attach(
+      'coordinator',
+      vi.fn(async (entry) => {
+        if (entry.id === poison.id) {
+          throw new EventRetryExhaustedError('coordinator', 2, entry.event.id);
+        }
+        return 'delivered' as const;
+      })
+    );
+
+    const results = await queue.requeueMatching();
+
+    expect(results.map((result) => result.status).sort()).toEqual([
+      'delivered',
+      'failed',
+    ]);
+    expect(queue.peek(recovered.id)).toBeUndefined();
+    expect(queue.peek(poison.id)).toMatchObject({ attempts: 5, requeueCount: 1 });
+  });
+
+  it('reports entries without an attached manager as unavailable', async () => {
+    const queue = new DeadLetterQueue('coordination');
+    const entry = park(queue, 0);
+
+    expect(await queue.requeue(entry.id)).toEqual({
+      id: entry.id,
+      status: 'unavailable',
+    });
+    expect(await queue.requeue('missing')).toBeUndefined();
+    expect(queue.size).toBe(1);
+  });
+
+  it('purges matching entries and persists across instances', async () => {
+    const filePath = join(directory, 'coordination.json');
+    const queue = new DeadLetterQueue('coordination', { filePath });
+    park(queue, 0);
+    park(queue, 1, { subscriptionId: 'sub-2' });
+
+    expect(queue.purge({ subscriptionId: 'sub-2' })).toBe(1);
+    await queue.flush();
+
+    const reloaded = new DeadLetterQueue('coordination', { filePath });
+    const [entry] = reloaded.list().entries;
+    expect(reloaded.size).toBe(1);
+    expect(entry?.lastFailedAt).toBeInstanceOf(Date);
+    expect(entry?.event.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('moves an unreadable file aside and starts empty', async () => {
+    const filePath = join(directory, 'coordination.json');
+    writeFileSync(filePath, '[{"id":"dlq-coordination-1","event":');
+
+    const queue = new DeadLetterQueue('coordination', { filePath });
+
+    expect(queue.size).toBe(0);
+    expect(existsSync(filePath)).toBe(false);
+    expect(readdirSync(directory)).toEqual([
+      expect.stringMatching(/^coordination\.json\.corrupt-\d+$/),
+    ]);
+
+    park(queue, 0);
+    await queue.flush();
+    expect(new DeadLetterQueue('coordination', { filePath }).size).toBe(1);
+  });
+
+  it('writes a burst of failures once, after the save delay', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    try {
+      const filePath = join(directory, 'coordination.json');
+      const queue = new DeadLetterQueue('coordination', { filePath });
+      for (let index = 0; index < 50; index++) {
+        park(queue, index);
+      }
+
+      expect(existsSync(filePath)).toBe(false);
+      expect(vi.getTimerCount()).toBe(1);
+
+      await vi.advanceTimersByTimeAsync(SAVE_DELAY_MS);
+      await queue.flush();
+
+      expect(vi.getTimerCount()).toBe(0);
+      expect(new DeadLetterQueue('coordination', { filePath }).size).toBe(50);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('matches nothing for an invalid since date', () => {
+    const queue = new DeadLetterQueue('coordination');
+    park(queue, 0);
+
+    expect(queue.purge({ since: new Date('yesterday') })).toBe(0);
+    expect(queue.list({ since: new Date(0) }).total).toBe(1);
+    expect(queue.size).toBe(1);
+  });
+
+  it('requeues persisted entries to the matching subscription after a restart', async () => {
+    const filePath = join(directory, 'coordination.json');
+    const previous = new DeadLetterQueue('coordination', { filePath });
+    const entry = park(previous, 0, {
+      subscriptionId: 'sub-from-previous-process',
+    });
+    await previous.flush();
+
+    configureDeadLetterQueues({ directory });
+    const manager = new CoordinationManager(
+      { name: 'coordinator', type: 'coordination' } as never,
+      silentLogger as never
+    );
+    const listener = vi.fn();
+    const subscriptionId = manager.subscribe(['agent:*'], listener);
+    manager.subscribe(['task:*'], vi.fn());
+    await manager.start();
+
+    try {
+      const result = await getDeadLetterQueue('coordination').requeue(entry.id);
+
+      expect(result).toEqual({ id: entry.id, status: 'delivered' });
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'evt-0' })
+      );
+      expect(subscriptionId).not.toBe('sub-from-previous-process');
+    } finally {
+      await manager.stop();
+    }
+  });
+});
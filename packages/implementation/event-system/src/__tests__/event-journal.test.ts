@@ -0,0 +1,230 @@
+/**
+ * Durable Event Journal Tests.
+ *
+ * Covers segment roll-over, offset and timestamp reads, consumer-group
+ * checkpoints, overlapping checkpoint commits, recovery from a torn
+ * trailing write and managers journaling through `enablePersistence`.
+ */
+
+import { appendFileSync, mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { BaseEventManager } from '../core/base-event-manager';
+import { getDeadLetterQueue } from '../core/dead-letter-queue';
+import {
+  FileEventJournal,
+  matchesEventType,
+  replayJournal,
+} from '../core/event-journal';
+import type { SystemEvent } from '../core/interfaces';
+
+class CoordinationManager extends BaseEventManager {}
+
+const silentLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+const createEvent = (index: number, type = 'coordination:task'): SystemEvent => ({
+  id: `evt-${index}`,
+  type,
+  source: 'journal-test',
+  timestamp: new Date(),
+  payload: { index },
+});
+
+describe('FileEventJournal', () => {
+  let directory: string;
+  let journal: FileEventJournal;
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'event-journal-'));
+    journal = new FileEventJournal({ directory, maxSegmentEvents: 3 });
+    await journal.open();
+  });
+
+  afterEach(async () => {
+    await journal.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('assigns gap-free offsets and rolls segments', async () => {
+    const entries = await Promise.all(
+      [0, 1, 2, 3, 4, 5, 6].map((index) =>
+        journal.append('coordination', 'coordinator', createEvent(index))
+      )
+    );
+
+    expect(entries.map((entry) => entry.offset)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(readdirSync(join(directory, 'segments'))).toHaveLength(3);
+    expect(journal.getNextOffset()).toBe(7);
+  });
+
+  it('reads from an offset across segments and revives dates', async () => {
+    for (let index = 0; index < 7; index++) {
+      await journal.append('workflow', 'workflows', createEvent(index));
+    }
+
+    const offsets: number[] = [];
+    for await (const entry of journal.read({ fromOffset: 4 })) {
+      offsets.push(entry.offset);
+      expect(entry.event.timestamp).toBeInstanceOf(Date);
+    }
+    expect(offsets).toEqual([4, 5, 6]);
+  });
+
+  it('filters by manager type and event type pattern', async () => {
+    await journal.append('coordination', 'coordinator', createEvent(0, 'agent:spawned'));
+    await journal.append('workflow', 'workflows', createEvent(1, 'workflow:started'));
+    await journal.append('coordination', 'coordinator', createEvent(2, 'agent:failed'));
+
+    const ids: string[] = [];
+    for await (const entry of journal.read({
+      managerTypes: ['coordination'],
+      eventTypes: ['agent:*'],
+    })) {
+      ids.push(entry.event.id);
+    }
+    expect(ids).toEqual(['evt-0', 'evt-2']);
+  });
+
+  it('resumes a consumer group after its checkpoint', async () => {
+    for (let index = 0; index < 5; index++) {
+      await journal.append('system', 'system', createEvent(index));
+    }
+
+    const first = await replayJournal(journal, () => undefined, {
+      consumerGroup: 'projector',
+      checkpointInterval: 2,
+    });
+    expect(first).toEqual({ delivered: 5, lastOffset: 4 });
+    expect(await journal.getCheckpoint('projector')).toBe(4);
+
+    await journal.append('system', 'system', createEvent(5));
+    const seen: number[] = [];
+    await replayJournal(journal, (entry) => void seen.push(entry.offset), {
+      consumerGroup: 'projector',
+    });
+    expect(seen).toEqual([5]);
+  });
+
+  it('checkpoints the last delivered entry when the listener fails', async () => {
+    for (let index = 0; index < 4; index++) {
+      await journal.append('system', 'system', createEvent(index));
+    }
+
+    await expect(
+      replayJournal(
+        journal,
+        (entry) => {
+          if (entry.offset === 2) throw new Error('poison');
+        },
+        { consumerGroup: 'fragile', checkpointInterval: 10 }
+      )
+    ).rejects.toThrow('poison');
+    expect(await journal.getCheckpoint('fragile')).toBe(1);
+  });
+
+  it('recovers offsets and checkpoints after reopening with a torn write', async () => {
+    for (let index = 0; index < 4; index++) {
+      await journal.append('memory', 'memory', createEvent(index));
+    }
+    await journal.commitCheckpoint('reader', 2);
+    await journal.close();
+
+    const segments = readdirSync(join(directory, 'segments')).sort();
+    appendFileSync(join(directory, 'segments', segments.at(-1)!), '{"offset":4,"man');
+
+    journal = new FileEventJournal({ directory, maxSegmentEvents: 3 });
+    await journal.open();
+
+    expect(journal.getNextOffset()).toBe(4);
+    expect(await journal.getCheckpoint('reader')).toBe(2);
+    const entry = await journal.append('memory', 'memory', createEvent(4));
+    expect(entry.offset).toBe(4);
+  });
+
+  it('keeps every checkpoint when commits overlap', async () => {
+    const groups = ['projector', 'indexer', 'auditor', 'notifier', 'archiver'];
+
+    await Promise.all(
+      groups.map((group, offset) => journal.commitCheckpoint(group, offset))
+    );
+    await journal.close();
+    journal = new FileEventJournal({ directory, maxSegmentEvents: 3 });
+    await journal.open();
+
+    for (const [offset, group] of groups.entries()) {
+      expect(await journal.getCheckpoint(group)).toBe(offset);
+    }
+  });
+
+  it('reads from a timestamp', async () => {
+    await journal.append('system', 'system', createEvent(0));
+    const cutoff = new Date(Date.now() + 5);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await journal.append('system', 'system', createEvent(1));
+
+    const ids: string[] = [];
+    for await (const entry of journal.read({ fromTimestamp: cutoff })) {
+      ids.push(entry.event.id);
+    }
+    expect(ids).toEqual(['evt-1']);
+  });
+});
+
+describe('EventManagerConfig.enablePersistence', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'event-persistence-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(directory);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('journals events and checkpoints durable subscribers of concurrent emits', async () => {
+    const manager = new CoordinationManager(
+      { name: 'coordinator', type: 'coordination', enablePersistence: true } as never,
+      silentLogger as never
+    );
+    await manager.start();
+
+    try {
+      const seen: number[] = [];
+      await manager.subscribeDurable(
+        'agent:*',
+        (event) => void seen.push((event.payload as { index: number }).index),
+        { consumerGroup: 'projector' }
+      );
+
+      await Promise.all(
+        [0, 1, 2, 3, 4].map((index) => manager.emit(createEvent(index, 'agent:spawned')))
+      );
+
+      expect(seen.sort()).toEqual([0, 1, 2, 3, 4]);
+      expect(getDeadLetterQueue('coordination').size).toBe(0);
+      expect(
+        readdirSync(join(directory, '.claude-zen', 'events', 'coordinator', 'segments'))
+      ).toHaveLength(1);
+    } finally {
+      await manager.stop();
+    }
+  });
+});
+
+describe('matchesEventType', () => {
+  it('supports exact and wildcard patterns', () => {
+    expect(matchesEventType('task:moved', 'task:moved')).toBe(true);
+    expect(matchesEventType('task:moved', 'task:*')).toBe(true);
+    expect(matchesEventType('task.moved', 'task:*')).toBe(false);
+  });
+});
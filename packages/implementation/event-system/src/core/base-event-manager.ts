@@ -26,9 +26,26 @@ import { EventEmitter, EnhancedError } from '@claude-zen/foundation';
  * @since 1.0.0
  */
 
+import { join } from 'node:path';
+
 import type { Logger } from '@claude-zen/foundation';
+
+import {
+  getDeadLetterQueue,
+  type DeadLetterEntry,
+  type DeadLetterQueue,
+} from './dead-letter-queue';
+import {
+  FileEventJournal,
+  replayJournal,
+  type EventJournal,
+  type JournalReplayResult,
+} from './event-journal';
+import { EventError, EventRetryExhaustedError } from './interfaces';
 import type {
+  DurableSubscriptionOptions,
   EventFilter,
+  EventReplayOptions,
   EventManagerConfig,
   EventManagerMetrics,
   EventManagerStatus,
@@ -120,6 +137,7 @@ export abstract class BaseEventManager implements EventManager {
     startTime: new Date(),
     errorCount: 0,
     retryCount: 0,
+    deadLettered: 0,
   };
 
   public readonly config: EventManagerConfig;
@@ -145,6 +163,10 @@ export abstract class BaseEventManager implements EventManager {
   protected eventHistory?: SystemEvent[];
   protected lifecycleEmitter?: EventEmitter;
 
+  // Durable journal (config.persistence or config.enablePersistence)
+  protected journal?: EventJournal;
+  private ownsJournal = false;
+
   constructor(config: EventManagerConfig, logger: Logger) {
     this.config = config;
     this.logger = logger;
@@ -166,6 +188,14 @@ export abstract class BaseEventManager implements EventManager {
       return;
     }
 
+    await this.openJournal();
+
+    if (this.config.deadLetter?.enabled !== false) {
+      this.getDeadLetterQueue().attach(this.name, (entry) =>
+        this.redeliverDeadLetter(entry)
+      );
+    }
+
     this._isRunning = true;
     this.metrics.startTime = new Date();
 
@@ -219,6 +249,15 @@ export abstract class BaseEventManager implements EventManager {
       await this.processEventQueue();
     }
 
+    this.getDeadLetterQueue().detach(this.name);
+    await this.getDeadLetterQueue().flush();
+
+    if (this.journal && this.ownsJournal) {
+      await this.journal.close();
+      this.journal = undefined;
+      this.ownsJournal = false;
+    }
+
     this.logger.info(`Event manager stopped: ${this.name}`);
     
     // Emit lifecycle event
@@ -283,6 +322,12 @@ export abstract class BaseEventManager implements EventManager {
         },
       } as SystemEvent;
 
+      // Journal before delivery so a crash never loses a delivered event
+      if (this.journal) {
+        const entry = await this.journal.append(this.type, this.name, enrichedEvent);
+        enrichedEvent.sequence = entry.offset;
+      }
+
       // Process based on strategy
       switch (this.processingStrategy) {
         case 'immediate':
@@ -924,6 +969,116 @@ export abstract class BaseEventManager implements EventManager {
     }
   }
 
+  /**
+   * Replay journaled events into a listener. Defaults to the events this
+   * manager wrote unless manager names or types are given.
+   */
+  async replay(
+    listener: (event: SystemEvent) => void|Promise<void>,
+    options: EventReplayOptions = {}
+  ): Promise<JournalReplayResult> {
+    const journal = this.requireJournal();
+
+    return replayJournal(
+      journal,
+      (entry) => listener({ ...entry.event, sequence: entry.offset }),
+      {
+        ...options,
+        managerNames:
+          options.managerNames ?? (options.managerTypes ? undefined : [this.name]),
+      }
+    );
+  }
+
+  /**
+   * Subscribe with catch-up from the journal.
+   *
+   * Live events arriving while the backlog is replayed are buffered and
+   * delivered afterwards, de-duplicated by journal offset. The consumer
+   * group checkpoint advances after every successfully handled event.
+   */
+  async subscribeDurable<T extends SystemEvent>(
+    eventTypes: string|string[],
+    listener: (event: T) => void|Promise<void>,
+    options: DurableSubscriptionOptions
+  ): Promise<string> {
+    const journal = this.requireJournal();
+    const types = Array.isArray(eventTypes) ? eventTypes : [eventTypes];
+    const { consumerGroup } = options;
+
+    let lastDelivered: number|undefined;
+    let catchingUp = true;
+    const pending: SystemEvent[] = [];
+
+    const deliver = async (event: SystemEvent): Promise<void> => {
+      if (
+        event.sequence !== undefined &&
+        lastDelivered !== undefined &&
+        event.sequence <= lastDelivered
+      ) {
+        return;
+      }
+      await listener(event as T);
+      if (event.sequence !== undefined) {
+        lastDelivered = event.sequence;
+        await journal.commitCheckpoint(consumerGroup, event.sequence);
+      }
+    };
+
+    // Register first so nothing emitted during catch-up is missed
+    const subscriptionId = this.subscribe(
+      types,
+      async (event: SystemEvent) => {
+        if (catchingUp) {
+          pending.push(event);
+          return;
+        }
+        await deliver(event);
+      },
+      { filter: options.filter }
+    );
+
+    let fromOffset = options.fromOffset;
+    if (fromOffset === undefined && !options.fromTimestamp) {
+      const checkpoint = await journal.getCheckpoint(consumerGroup);
+      fromOffset =
+        checkpoint !== undefined
+          ? checkpoint + 1
+          : options.startFrom === 'earliest'
+            ? 0
+            : journal.getNextOffset();
+    }
+
+    try {
+      for await (const entry of journal.read({
+        fromOffset,
+        fromTimestamp: options.fromTimestamp,
+        toOffset: journal.getNextOffset() - 1,
+        managerNames: [this.name],
+        eventTypes: types,
+      })) {
+        if (options.filter && !this.eventMatchesFilter(entry.event, options.filter)) {
+          continue;
+        }
+        await deliver({ ...entry.event, sequence: entry.offset });
+      }
+
+      while (pending.length > 0) {
+        await deliver(pending.shift()!);
+      }
+    } catch (error) {
+      this.unsubscribe(subscriptionId);
+      throw error;
+    }
+    catchingUp = false;
+
+    this.logger.info(
+      `Durable subscription ${subscriptionId} caught up for group ${consumerGroup}`,
+      { lastDelivered }
+    );
+    return subscriptionId;
+  }
+
   /**
    * Update event manager configuration dynamically.
    */
@@ -1103,18 +1258,165 @@ export abstract class BaseEventManager implements EventManager {
 
     // Notify subscribers in parallel
     const notifications = matchingSubscribers.map(async (subscription) => {
+      subscription.eventCount++;
       try {
-        subscription.eventCount++;
-        await subscription.listener(event);
+        await this.deliverWithRetry(subscription.listener, event);
       } catch (error) {
         this.logger.error(`Subscriber notification failed: ${error}`);
         this.metrics.errorCount++;
+        this.deadLetter(subscription, event, error);
       }
     });
 
     await Promise.allSettled(notifications);
   }
 
+  /**
+   * Invoke a listener, retrying according to `config.retry`.
+   *
+   * @throws {EventRetryExhaustedError} Once every attempt has failed or
+   *   `retryCondition` declines another try; `cause` is the last error.
+   */
+  protected async deliverWithRetry(
+    listener: (event: SystemEvent) => void|Promise<void>,
+    event: SystemEvent
+  ): Promise<void> {
+    const retry = this.config.retry;
+    const maxAttempts = 1 + Math.max(0, retry?.attempts ?? 0);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await listener(event);
+        return;
+      } catch (error) {
+        const retryable =
+          attempt < maxAttempts &&
+          (!retry?.retryCondition || retry.retryCondition(error, event));
+        if (!retryable) {
+          throw new EventRetryExhaustedError(
+            this.name,
+            attempt,
+            event.id,
+            error instanceof Error ? error : new Error(String(error))
+          );
+        }
+
+        this.metrics.retryCount++;
+        await new Promise((resolve) =>
+          setTimeout(resolve, this.retryDelay(attempt))
+        );
+      }
+    }
+  }
+
+  protected retryDelay(attempt: number): number {
+    const retry = this.config.retry;
+    if (!retry) {
+      return 0;
+    }
+
+    const backoff = retry.backoff as string;
+    const delay =
+      backoff === 'exponential'
+        ? retry.delay * 2 ** (attempt - 1)
+        : backoff === 'linear'
+          ? retry.delay * attempt
+          : retry.delay;
+    return Math.min(delay, retry.maxDelay ?? Number.POSITIVE_INFINITY);
+  }
+
+  /**
+   * Dead-letter queue shared by all managers of this manager's type.
+   */
+  getDeadLetterQueue(): DeadLetterQueue {
+    return getDeadLetterQueue(this.type);
+  }
+
+  protected deadLetter(
+    subscription: { eventTypes: string[]; listener: (event: SystemEvent) => void|Promise<void> },
+    event: SystemEvent,
+    error: unknown
+  ): void {
+    if (this.config.deadLetter?.enabled === false) {
+      return;
+    }
+
+    const subscriptionId =
+      [...this.subscribers.entries()].find(
+        ([, candidate]) => candidate.listener === subscription.listener
+      )?.[0] ?? 'unknown';
+
+    const entry = this.getDeadLetterQueue().add({
+      managerType: this.type,
+      managerName: this.name,
+      subscriptionId,
+      subscriptionEventTypes: subscription.eventTypes,
+      event,
+      error,
+      attempts: error instanceof EventRetryExhaustedError ? error.attempts : 1,
+    });
+    this.metrics.deadLettered++;
+
+    this.logger.warn(`Event dead-lettered: ${event.type} (${event.id})`, {
+      deadLetterId: entry.id,
+      subscriptionId,
+      error: entry.error.message,
+    });
+
+    if (this.lifecycleEmitter) {
+      this.lifecycleEmitter.emit('deadLetter', {
+        managerName: this.name,
+        entry,
+      });
+    }
+  }
+
+  /**
+   * Redeliver a dead-lettered event to its original subscription.
+   *
+   * Subscription ids do not survive a restart, so when the recorded id is
+   * gone the entry goes to the subscription listening to the same event
+   * types, or to the only subscription matching the event type.
+   */
+  protected async redeliverDeadLetter(
+    entry: DeadLetterEntry
+  ): Promise<'delivered'|'unavailable'> {
+    const subscriptionId = this.subscribers.has(entry.subscriptionId)
+      ? entry.subscriptionId
+      : this.resolveDeadLetterSubscription(entry);
+    const subscription = subscriptionId
+      ? this.subscribers.get(subscriptionId)
+      : undefined;
+    if (!(subscriptionId && subscription)) {
+      return 'unavailable';
+    }
+    entry.subscriptionId = subscriptionId;
+
+    subscription.eventCount++;
+    await this.deliverWithRetry(subscription.listener, entry.event);
+    return 'delivered';
+  }
+
+  private resolveDeadLetterSubscription(
+    entry: DeadLetterEntry
+  ): string | undefined {
+    const recordedTypes = [...entry.subscriptionEventTypes].sort().join('\n');
+    const sameTypes = [...this.subscribers.entries()].filter(
+      ([, subscription]) =>
+        [...subscription.eventTypes].sort().join('\n') === recordedTypes
+    );
+    if (sameTypes.length === 1) {
+      return sameTypes[0]?.[0];
+    }
+
+    const matching = [...this.subscribers.entries()].filter(([, subscription]) =>
+      subscription.eventTypes.some((type) =>
+        this.eventTypeMatches(entry.event.type, type)
+      )
+    );
+    return matching.length === 1 ? matching[0]?.[0] : undefined;
+  }
+
   protected findMatchingSubscribers(event: SystemEvent): Array<{
     eventTypes: string[];
     listener: (event: SystemEvent) => void|Promise<void>;
@@ -1207,6 +1509,55 @@ export abstract class BaseEventManager implements EventManager {
     return true;
   }
 
+  /**
+   * Attach the journal described by `config.persistence`, if any, or a
+   * file journal of this manager's own for `config.enablePersistence`.
+   */
+  protected async openJournal(): Promise<void> {
+    const persistence =
+      this.config.persistence ??
+      (this.config.enablePersistence
+        ? {
+            enabled: true,
+            directory: join(process.cwd(), '.claude-zen', 'events', this.name),
+          }
+        : undefined);
+    if (!persistence?.enabled || this.journal) {
+      return;
+    }
+
+    if (persistence.journal) {
+      this.journal = persistence.journal;
+    } else if (persistence.directory) {
+      this.journal = new FileEventJournal({
+        directory: persistence.directory,
+        fsync: persistence.fsync,
+      });
+      this.ownsJournal = true;
+    } else {
+      this.logger.warn(
+        `Persistence enabled for ${this.name} without a journal or directory - events will not be journaled`
+      );
+      return;
+    }
+
+    await this.journal.open();
+    this.logger.info(`Event journal attached: ${this.name}`, {
+      nextOffset: this.journal.getNextOffset(),
+    });
+  }
+
+  protected requireJournal(): EventJournal {
+    if (!this.journal) {
+      throw new EventError(
+        `Event persistence is not enabled for manager: ${this.name}`,
+        'PERSISTENCE_DISABLED',
+        this.name
+      );
+    }
+    return this.journal;
+  }
+
   protected generateSubscriptionId(): string {
     return `${this.name}-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
   }
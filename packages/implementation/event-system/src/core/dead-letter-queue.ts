@@ -0,0 +1,488 @@
+/**
+ * @file Dead-Letter Queue
+ *
+ * Events whose subscriber kept failing after the manager's retry policy
+ * was exhausted are parked here instead of being dropped. There is one
+ * queue per event manager type; each entry records which manager and
+ * subscription failed, on which payload, and with what error, so operators
+ * can inspect, requeue or purge them.
+ *
+ * Queues are in-memory by default. When a directory is configured through
+ * {@link configureDeadLetterQueues}, each queue is mirrored to
+ * `<directory>/<managerType>.json` and reloaded on start-up. Changes are
+ * written in the background, at most once per {@link SAVE_DELAY_MS} and
+ * one write at a time, so a burst of failures on the event path costs a
+ * single rewrite; `flush()` writes them immediately. A file that cannot be
+ * read is moved aside as `<file>.corrupt-<timestamp>` and the queue starts
+ * empty.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync } from 'node:fs';
+import { rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { getLogger } from '@claude-zen/foundation';
+
+import type { EventManagerType, SystemEvent } from './interfaces';
+
+const logger = getLogger('DeadLetterQueue');
+
+/**
+ * Error details captured when an event is dead-lettered.
+ */
+export interface DeadLetterError {
+  name: string;
+  message: string;
+  code?: string;
+  stack?: string;
+}
+
+/**
+ * A parked event together with the failing subscription.
+ */
+export interface DeadLetterEntry<T extends SystemEvent = SystemEvent> {
+  id: string;
+  managerType: EventManagerType;
+  managerName: string;
+  subscriptionId: string;
+  /** Event types the failing subscription listens to */
+  subscriptionEventTypes: string[];
+  event: T;
+  error: DeadLetterError;
+  /** Delivery attempts made so far, across requeues */
+  attempts: number;
+  requeueCount: number;
+  firstFailedAt: Date;
+  lastFailedAt: Date;
+}
+
+/**
+ * Data needed to park a failed delivery.
+ */
+export interface DeadLetterInput {
+  managerType: EventManagerType;
+  managerName: string;
+  subscriptionId: string;
+  subscriptionEventTypes: string[];
+  event: SystemEvent;
+  error: unknown;
+  attempts: number;
+}
+
+/**
+ * Selection of dead-letter entries.
+ */
+export interface DeadLetterQuery {
+  ids?: string[];
+  managerName?: string;
+  subscriptionId?: string;
+  /** Event type of the parked event (supports a trailing `*` wildcard) */
+  eventType?: string;
+  /** Only entries that last failed at or after this time */
+  since?: Date;
+}
+
+export interface DeadLetterListOptions extends DeadLetterQuery {
+  offset?: number;
+  /** Maximum entries to return (default 100) */
+  limit?: number;
+}
+
+export interface DeadLetterPage {
+  entries: DeadLetterEntry[];
+  total: number;
+}
+
+/**
+ * Failure counts for one queue, used by the operator dashboard.
+ */
+export interface DeadLetterQueueStats {
+  managerType: EventManagerType;
+  total: number;
+  byManager: Record<string, number>;
+  bySubscription: Record<string, number>;
+  byEventType: Record<string, number>;
+  byError: Record<string, number>;
+  oldestFailure?: Date;
+  newestFailure?: Date;
+}
+
+export type DeadLetterRequeueStatus = 'delivered' | 'failed' | 'unavailable';
+
+export interface DeadLetterRequeueResult {
+  id: string;
+  status: DeadLetterRequeueStatus;
+  /** Present when the redelivery failed again */
+  error?: DeadLetterError;
+}
+
+/**
+ * Redelivers a parked event to its subscription.
+ *
+ * Resolves `'delivered'` on success or `'unavailable'` when the
+ * subscription no longer exists, and rejects with the delivery error
+ * (ideally carrying `attempts`) when it failed again.
+ */
+export type DeadLetterRedeliverer = (
+  entry: DeadLetterEntry
+) => Promise<'delivered' | 'unavailable'>;
+
+export interface DeadLetterQueueConfig {
+  /** Oldest entries are evicted beyond this count (default 10 000) */
+  maxEntries?: number;
+  /** Mirror the queue to this JSON file */
+  filePath?: string;
+}
+
+const DEFAULT_MAX_ENTRIES = 10_000;
+const DEFAULT_PAGE_SIZE = 100;
+/** Delay between a change and writing the queue file */
+export const SAVE_DELAY_MS = 100;
+
+/**
+ * Normalise any thrown value into serialisable error details.
+ *
+ * @param error
+ */
+export function toDeadLetterError(error: unknown): DeadLetterError {
+  if (error instanceof Error) {
+    const cause = (error as Error & { cause?: unknown }).cause;
+    const root = cause instanceof Error ? cause : error;
+    const code =
+      (root as Error & { code?: unknown }).code ??
+      (error as Error & { code?: unknown }).code;
+    return {
+      name: root.name,
+      message: root.message,
+      code: typeof code === 'string' ? code : undefined,
+      stack: root.stack,
+    };
+  }
+  return { name: 'Error', message: String(error) };
+}
+
+const matchesQuery = (entry: DeadLetterEntry, query: DeadLetterQuery): boolean => {
+  if (query.ids && !query.ids.includes(entry.id)) return false;
+  if (query.managerName && entry.managerName !== query.managerName) return false;
+  if (query.subscriptionId && entry.subscriptionId !== query.subscriptionId) {
+    return false;
+  }
+  // Negated so an invalid date matches nothing rather than everything
+  if (query.since && !(entry.lastFailedAt >= query.since)) return false;
+  if (query.eventType) {
+    const pattern = query.eventType;
+    const matched = pattern.endsWith('*')
+      ? entry.event.type.startsWith(pattern.slice(0, -1))
+      : entry.event.type === pattern;
+    if (!matched) return false;
+  }
+  return true;
+};
+
+const increment = (counts: Record<string, number>, key: string): void => {
+  counts[key] = (counts[key] ?? 0) + 1;
+};
+
+/**
+ * Dead-letter queue for one event manager type.
+ */
+export class DeadLetterQueue {
+  private entries = new Map<string, DeadLetterEntry>();
+  private redeliverers = new Map<string, DeadLetterRedeliverer>();
+  private readonly maxEntries: number;
+  private readonly filePath?: string;
+  private sequence = 0;
+  private saveTimer?: NodeJS.Timeout;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(
+    public readonly managerType: EventManagerType,
+    config: DeadLetterQueueConfig = {}
+  ) {
+    this.maxEntries = Math.max(1, config.maxEntries ?? DEFAULT_MAX_ENTRIES);
+    this.filePath = config.filePath;
+    this.load();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Register the manager that can redeliver entries it dead-lettered.
+   *
+   * @param managerName
+   * @param redeliverer
+   */
+  attach(managerName: string, redeliverer: DeadLetterRedeliverer): void {
+    this.redeliverers.set(managerName, redeliverer);
+  }
+
+  detach(managerName: string): void {
+    this.redeliverers.delete(managerName);
+  }
+
+  /**
+   * Park a failed delivery, evicting the oldest entry when full.
+   *
+   * @param input
+   */
+  add(input: DeadLetterInput): DeadLetterEntry {
+    const now = new Date();
+    const entry: DeadLetterEntry = {
+      id: `dlq-${this.managerType}-${now.getTime()}-${(this.sequence++).toString(36)}`,
+      managerType: input.managerType,
+      managerName: input.managerName,
+      subscriptionId: input.subscriptionId,
+      subscriptionEventTypes: [...input.subscriptionEventTypes],
+      event: input.event,
+      error: toDeadLetterError(input.error),
+      attempts: input.attempts,
+      requeueCount: 0,
+      firstFailedAt: now,
+      lastFailedAt: now,
+    };
+
+    this.entries.set(entry.id, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+    this.save();
+    return entry;
+  }
+
+  /**
+   * List entries, newest failure first.
+   *
+   * @param options
+   */
+  list(options: DeadLetterListOptions = {}): DeadLetterPage {
+    const matching = [...this.entries.values()]
+      .filter((entry) => matchesQuery(entry, options))
+      .sort((a, b) => b.lastFailedAt.getTime() - a.lastFailedAt.getTime());
+
+    const offset = Math.max(0, options.offset ?? 0);
+    const limit = Math.max(0, options.limit ?? DEFAULT_PAGE_SIZE);
+    return {
+      entries: matching.slice(offset, offset + limit),
+      total: matching.length,
+    };
+  }
+
+  peek(id: string): DeadLetterEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  /**
+   * Redeliver one entry through the manager that parked it. Delivered
+   * entries are removed; failed ones stay with updated error and counts.
+   *
+   * @param id
+   */
+  async requeue(id: string): Promise<DeadLetterRequeueResult | undefined> {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return undefined;
+    }
+
+    const redeliver = this.redeliverers.get(entry.managerName);
+    if (!redeliver) {
+      return { id, status: 'unavailable' };
+    }
+
+    try {
+      const status = await redeliver(entry);
+      if (status === 'delivered') {
+        this.entries.delete(id);
+        this.save();
+      }
+      return { id, status };
+    } catch (error) {
+      const attempts = (error as { attempts?: unknown }).attempts;
+      entry.attempts += typeof attempts === 'number' ? attempts : 1;
+      entry.requeueCount++;
+      entry.lastFailedAt = new Date();
+      entry.error = toDeadLetterError(error);
+      this.save();
+      return { id, status: 'failed', error: entry.error };
+    }
+  }
+
+  /**
+   * Requeue every matching entry, one at a time in failure order.
+   *
+   * @param query
+   */
+  async requeueMatching(query: DeadLetterQuery = {}): Promise<DeadLetterRequeueResult[]> {
+    const ids = [...this.entries.values()]
+      .filter((entry) => matchesQuery(entry, query))
+      .map((entry) => entry.id);
+
+    const results: DeadLetterRequeueResult[] = [];
+    for (const id of ids) {
+      const result = await this.requeue(id);
+      if (result) results.push(result);
+    }
+    return results;
+  }
+
+  /**
+   * Remove matching entries (all entries when no query is given).
+   *
+   * @param query
+   * @returns Number of entries removed.
+   */
+  purge(query: DeadLetterQuery = {}): number {
+    let removed = 0;
+    for (const entry of [...this.entries.values()]) {
+      if (matchesQuery(entry, query)) {
+        this.entries.delete(entry.id);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      this.save();
+    }
+    return removed;
+  }
+
+  stats(): DeadLetterQueueStats {
+    const stats: DeadLetterQueueStats = {
+      managerType: this.managerType,
+      total: this.entries.size,
+      byManager: {},
+      bySubscription: {},
+      byEventType: {},
+      byError: {},
+    };
+
+    for (const entry of this.entries.values()) {
+      increment(stats.byManager, entry.managerName);
+      increment(stats.bySubscription, entry.subscriptionId);
+      increment(stats.byEventType, entry.event.type);
+      increment(stats.byError, entry.error.message);
+      if (!stats.oldestFailure || entry.firstFailedAt < stats.oldestFailure) {
+        stats.oldestFailure = entry.firstFailedAt;
+      }
+      if (!stats.newestFailure || entry.lastFailedAt > stats.newestFailure) {
+        stats.newestFailure = entry.lastFailedAt;
+      }
+    }
+    return stats;
+  }
+
+  /**
+   * Write pending changes now instead of after the save delay.
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      this.write();
+    }
+    await this.saving;
+  }
+
+  private load(): void {
+    if (!this.filePath || !existsSync(this.filePath)) {
+      return;
+    }
+
+    let stored: DeadLetterEntry[];
+    try {
+      stored = JSON.parse(readFileSync(this.filePath, 'utf8'));
+      if (!Array.isArray(stored)) {
+        throw new TypeError('expected an array of entries');
+      }
+    } catch (error) {
+      const quarantined = `${this.filePath}.corrupt-${Date.now()}`;
+      logger.error(
+        `Unreadable dead-letter file ${this.filePath}, moved to ${quarantined}`,
+        error
+      );
+      renameSync(this.filePath, quarantined);
+      return;
+    }
+
+    for (const entry of stored) {
+      entry.firstFailedAt = new Date(entry.firstFailedAt);
+      entry.lastFailedAt = new Date(entry.lastFailedAt);
+      entry.event.timestamp = new Date(entry.event.timestamp);
+      this.entries.set(entry.id, entry);
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath || this.saveTimer) {
+      return;
+    }
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.write();
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  // Queue a write of the entries as they are when its turn comes
+  private write(): void {
+    const filePath = this.filePath!;
+    this.saving = this.saving.then(async () => {
+      const temporary = `${filePath}.tmp`;
+      try {
+        await writeFile(temporary, JSON.stringify([...this.entries.values()]));
+        await rename(temporary, filePath);
+      } catch (error) {
+        logger.error(`Failed to write dead-letter file ${filePath}`, error);
+      }
+    });
+  }
+}
+
+export interface DeadLetterQueuesConfig {
+  /** Persist queues as `<directory>/<managerType>.json`; in-memory when unset */
+  directory?: string;
+  maxEntries?: number;
+}
+
+let queuesConfig: DeadLetterQueuesConfig = {};
+const queues = new Map<EventManagerType, DeadLetterQueue>();
+
+/**
+ * Set storage for queues created from now on. Call before managers start.
+ *
+ * @param config
+ */
+export function configureDeadLetterQueues(config: DeadLetterQueuesConfig): void {
+  queuesConfig = { ...config };
+  if (config.directory) {
+    mkdirSync(config.directory, { recursive: true });
+  }
+}
+
+/**
+ * Get (creating on first use) the dead-letter queue for a manager type.
+ *
+ * @param managerType
+ */
+export function getDeadLetterQueue(managerType: EventManagerType): DeadLetterQueue {
+  let queue = queues.get(managerType);
+  if (!queue) {
+    queue = new DeadLetterQueue(managerType, {
+      maxEntries: queuesConfig.maxEntries,
+      filePath: queuesConfig.directory
+        ? join(queuesConfig.directory, `${managerType}.json`)
+        : undefined,
+    });
+    queues.set(managerType, queue);
+  }
+  return queue;
+}
+
+/**
+ * All queues created so far, keyed by manager type.
+ */
+export function getDeadLetterQueues(): ReadonlyMap<EventManagerType, DeadLetterQueue> {
+  return queues;
+}
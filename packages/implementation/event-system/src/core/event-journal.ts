@@ -0,0 +1,515 @@
+/**
+ * @file Durable Event Journal
+ *
+ * Append-only, segment-based event log shared by all UEL event managers.
+ * Every journaled event receives a global, monotonically increasing offset.
+ * Consumers can replay from an offset or a timestamp and keep per
+ * consumer-group checkpoints so they resume where they stopped after a crash.
+ *
+ * ## Storage layout
+ *
+ * ```
+ * <directory>/
+ *   segments/00000000000000000000.log   # JSON lines, file name = base offset
+ *   segments/00000000000000010000.log
+ *   checkpoints.json                    # { "<group>": <last processed offset> }
+ * ```
+ *
+ * Segments roll over by size or event count and the oldest segments are
+ * removed once `maxSegments` is exceeded. A torn trailing line left by a
+ * crash is truncated when the journal is reopened.
+ */
+
+import { createReadStream } from 'node:fs';
+import {
+  mkdir,
+  open,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  stat,
+  truncate,
+  writeFile,
+  type FileHandle,
+} from 'node:fs/promises';
+import { join } from 'node:path';
+import { createInterface } from 'node:readline';
+
+import type { EventManagerType, SystemEvent } from './interfaces';
+
+/**
+ * A single journaled event.
+ */
+export interface JournalEntry<T extends SystemEvent = SystemEvent> {
+  /** Global position in the journal (0-based) */
+  offset: number;
+  /** Type of the manager that wrote the event */
+  managerType: EventManagerType;
+  /** Name of the manager that wrote the event */
+  managerName: string;
+  /** When the event was appended to the journal */
+  recordedAt: Date;
+  event: T;
+}
+
+/**
+ * Selection of journal entries to read or replay.
+ */
+export interface JournalReadOptions {
+  /** First offset to include (inclusive) */
+  fromOffset?: number;
+  /** Only entries recorded at or after this time */
+  fromTimestamp?: Date;
+  /** Last offset to include (inclusive) */
+  toOffset?: number;
+  /** Restrict to events written by these manager types */
+  managerTypes?: EventManagerType[];
+  /** Restrict to events written by these managers */
+  managerNames?: string[];
+  /** Restrict to these event types (supports `*` wildcards) */
+  eventTypes?: string[];
+  /** Maximum number of entries to return */
+  limit?: number;
+}
+
+/**
+ * Replay configuration. When `consumerGroup` is set and no explicit start
+ * is given, replay resumes after the group's last checkpoint.
+ */
+export interface JournalReplayOptions extends JournalReadOptions {
+  consumerGroup?: string;
+  /** Commit the group checkpoint every N delivered entries (default 100) */
+  checkpointInterval?: number;
+}
+
+export interface JournalReplayResult {
+  /** Entries delivered to the listener */
+  delivered: number;
+  /** Offset of the last delivered entry, if any */
+  lastOffset?: number;
+}
+
+/**
+ * Storage contract for durable event journals.
+ */
+export interface EventJournal {
+  open(): Promise<void>;
+  close(): Promise<void>;
+  append<T extends SystemEvent>(
+    managerType: EventManagerType,
+    managerName: string,
+    event: T
+  ): Promise<JournalEntry<T>>;
+  read(options?: JournalReadOptions): AsyncIterable<JournalEntry>;
+  /** Offset that the next appended entry will receive */
+  getNextOffset(): number;
+  getCheckpoint(consumerGroup: string): Promise<number | undefined>;
+  commitCheckpoint(consumerGroup: string, offset: number): Promise<void>;
+}
+
+export interface FileEventJournalConfig {
+  directory: string;
+  /** Roll to a new segment beyond this size (default 16 MiB) */
+  maxSegmentBytes?: number;
+  /** Roll to a new segment beyond this many entries (default 10 000) */
+  maxSegmentEvents?: number;
+  /** Oldest segments beyond this count are deleted (default: keep all) */
+  maxSegments?: number;
+  /** fsync after every append (default false) */
+  fsync?: boolean;
+}
+
+interface SerializedEntry {
+  offset: number;
+  managerType: EventManagerType;
+  managerName: string;
+  recordedAt: string;
+  event: Omit<SystemEvent, 'timestamp'> & { timestamp: string };
+}
+
+const SEGMENT_SUFFIX = '.log';
+const OFFSET_WIDTH = 20;
+
+const segmentName = (baseOffset: number): string =>
+  `${String(baseOffset).padStart(OFFSET_WIDTH, '0')}${SEGMENT_SUFFIX}`;
+
+/**
+ * Match an event type against a subscription pattern (`*` wildcards).
+ *
+ * @param eventType
+ * @param pattern
+ */
+export function matchesEventType(eventType: string, pattern: string): boolean {
+  if (!pattern.includes('*')) {
+    return eventType === pattern;
+  }
+  const escaped = pattern
+    .split('*')
+    .map((part) => part.replace(/[$()+.?[\\\]^{|}]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`).test(eventType);
+}
+
+function deserialize(line: string): JournalEntry | undefined {
+  try {
+    const raw = JSON.parse(line) as SerializedEntry;
+    return {
+      offset: raw.offset,
+      managerType: raw.managerType,
+      managerName: raw.managerName,
+      recordedAt: new Date(raw.recordedAt),
+      event: { ...raw.event, timestamp: new Date(raw.event.timestamp) },
+    };
+  } catch {
+    // Torn or corrupted line - skipped by readers
+    return undefined;
+  }
+}
+
+/**
+ * Flat-file implementation of {@link EventJournal}.
+ *
+ * Appends are serialized through a single write chain, so offsets are
+ * gap-free and ordered within the owning process. One process should own
+ * a journal directory at a time.
+ */
+export class FileEventJournal implements EventJournal {
+  private readonly segmentsDir: string;
+  private readonly checkpointsPath: string;
+  private readonly maxSegmentBytes: number;
+  private readonly maxSegmentEvents: number;
+
+  private segments: number[] = [];
+  private activeHandle?: FileHandle;
+  private activeBytes = 0;
+  private activeEvents = 0;
+  private nextOffset = 0;
+  private checkpoints = new Map<string, number>();
+  private writeChain: Promise<unknown> = Promise.resolve();
+  private checkpointWrite: Promise<void> = Promise.resolve();
+  private opened = false;
+
+  constructor(private readonly config: FileEventJournalConfig) {
+    this.segmentsDir = join(config.directory, 'segments');
+    this.checkpointsPath = join(config.directory, 'checkpoints.json');
+    this.maxSegmentBytes = config.maxSegmentBytes ?? 16 * 1024 * 1024;
+    this.maxSegmentEvents = config.maxSegmentEvents ?? 10_000;
+  }
+
+  /**
+   * Open the journal, recovering the next offset from the newest segment.
+   */
+  async open(): Promise<void> {
+    if (this.opened) return;
+
+    await mkdir(this.segmentsDir, { recursive: true });
+    this.segments = (await readdir(this.segmentsDir))
+      .filter((file) => file.endsWith(SEGMENT_SUFFIX))
+      .map((file) => Number.parseInt(file, 10))
+      .filter((base) => Number.isFinite(base))
+      .sort((a, b) => a - b);
+
+    try {
+      const stored = JSON.parse(await readFile(this.checkpointsPath, 'utf8'));
+      this.checkpoints = new Map(Object.entries(stored as Record<string, number>));
+    } catch {
+      this.checkpoints = new Map();
+    }
+
+    if (this.segments.length === 0) {
+      await this.rollSegment(0);
+    } else {
+      await this.recoverActiveSegment(this.segments.at(-1)!);
+    }
+    this.opened = true;
+  }
+
+  async close(): Promise<void> {
+    await this.writeChain;
+    await this.activeHandle?.close();
+    this.activeHandle = undefined;
+    this.opened = false;
+  }
+
+  getNextOffset(): number {
+    return this.nextOffset;
+  }
+
+  /**
+   * Append an event and resolve once it has been written.
+   *
+   * @param managerType
+   * @param managerName
+   * @param event
+   */
+  append<T extends SystemEvent>(
+    managerType: EventManagerType,
+    managerName: string,
+    event: T
+  ): Promise<JournalEntry<T>> {
+    if (!this.opened) {
+      return Promise.reject(new Error('Event journal is not open'));
+    }
+
+    const write = this.writeChain.then(async () => {
+      if (
+        this.activeBytes >= this.maxSegmentBytes ||
+        this.activeEvents >= this.maxSegmentEvents
+      ) {
+        await this.rollSegment(this.nextOffset);
+      }
+
+      const entry: JournalEntry<T> = {
+        offset: this.nextOffset,
+        managerType,
+        managerName,
+        recordedAt: new Date(),
+        event,
+      };
+      const line = `${JSON.stringify(entry)}\n`;
+
+      await this.activeHandle!.appendFile(line, 'utf8');
+      if (this.config.fsync) {
+        await this.activeHandle!.sync();
+      }
+
+      this.nextOffset++;
+      this.activeEvents++;
+      this.activeBytes += Buffer.byteLength(line);
+      return entry;
+    });
+
+    // Keep the chain alive after a failed write
+    this.writeChain = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Stream entries matching the read options in offset order.
+   *
+   * @param options
+   */
+  async *read(options: JournalReadOptions = {}): AsyncIterable<JournalEntry> {
+    // Let pending appends land so readers see a consistent tail
+    await this.writeChain;
+
+    const limit = options.limit ?? Number.POSITIVE_INFINITY;
+    if (limit <= 0) return;
+
+    let delivered = 0;
+    for (const base of await this.segmentsToScan(options)) {
+      const lines = createInterface({
+        input: createReadStream(join(this.segmentsDir, segmentName(base)), {
+          encoding: 'utf8',
+        }),
+        crlfDelay: Number.POSITIVE_INFINITY,
+      });
+
+      for await (const line of lines) {
+        if (!line) continue;
+        const entry = deserialize(line);
+        if (!entry) continue;
+
+        if (options.toOffset !== undefined && entry.offset > options.toOffset) {
+          lines.close();
+          return;
+        }
+        if (!this.matches(entry, options)) continue;
+
+        yield entry;
+        if (++delivered >= limit) {
+          lines.close();
+          return;
+        }
+      }
+    }
+  }
+
+  async getCheckpoint(consumerGroup: string): Promise<number | undefined> {
+    return this.checkpoints.get(consumerGroup);
+  }
+
+  /**
+   * Record the last offset a consumer group has fully processed.
+   * Checkpoints never move backwards.
+   *
+   * @param consumerGroup
+   * @param offset
+   */
+  async commitCheckpoint(consumerGroup: string, offset: number): Promise<void> {
+    const current = this.checkpoints.get(consumerGroup);
+    if (current !== undefined && current >= offset) return;
+
+    this.checkpoints.set(consumerGroup, offset);
+    // Commits share one temp file, so writes take turns; each one writes
+    // the checkpoints as they are when its turn comes
+    const write = this.checkpointWrite.then(() => this.writeCheckpoints());
+    this.checkpointWrite = write.catch(() => undefined);
+    await write;
+  }
+
+  private async writeCheckpoints(): Promise<void> {
+    const tempPath = `${this.checkpointsPath}.${process.pid}.tmp`;
+    await writeFile(
+      tempPath,
+      JSON.stringify(Object.fromEntries(this.checkpoints), null, 2)
+    );
+    await rename(tempPath, this.checkpointsPath);
+  }
+
+  private matches(entry: JournalEntry, options: JournalReadOptions): boolean {
+    if (options.fromOffset !== undefined && entry.offset < options.fromOffset) {
+      return false;
+    }
+    if (options.fromTimestamp && entry.recordedAt < options.fromTimestamp) {
+      return false;
+    }
+    if (options.managerTypes && !options.managerTypes.includes(entry.managerType)) {
+      return false;
+    }
+    if (options.managerNames && !options.managerNames.includes(entry.managerName)) {
+      return false;
+    }
+    if (
+      options.eventTypes &&
+      !options.eventTypes.some((pattern) => matchesEventType(entry.event.type, pattern))
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Skip whole segments that cannot contain the requested start position.
+   *
+   * @param options
+   */
+  private async segmentsToScan(options: JournalReadOptions): Promise<number[]> {
+    let startIndex = 0;
+
+    if (options.fromOffset !== undefined) {
+      for (let index = this.segments.length - 1; index >= 0; index--) {
+        if (this.segments[index] <= options.fromOffset) {
+          startIndex = index;
+          break;
+        }
+      }
+    }
+
+    if (options.fromTimestamp) {
+      // Segments are in time order; start at the last one that began before the timestamp
+      for (let index = this.segments.length - 1; index > startIndex; index--) {
+        const first = await this.firstEntry(this.segments[index]);
+        if (first && first.recordedAt <= options.fromTimestamp) {
+          startIndex = index;
+          break;
+        }
+      }
+    }
+
+    return this.segments.slice(startIndex);
+  }
+
+  private async firstEntry(base: number): Promise<JournalEntry | undefined> {
+    const lines = createInterface({
+      input: createReadStream(join(this.segmentsDir, segmentName(base)), {
+        encoding: 'utf8',
+      }),
+    });
+    for await (const line of lines) {
+      lines.close();
+      return deserialize(line);
+    }
+    return undefined;
+  }
+
+  private async rollSegment(baseOffset: number): Promise<void> {
+    await this.activeHandle?.close();
+
+    if (!this.segments.includes(baseOffset)) {
+      this.segments.push(baseOffset);
+    }
+    this.activeHandle = await open(join(this.segmentsDir, segmentName(baseOffset)), 'a');
+    this.activeBytes = 0;
+    this.activeEvents = 0;
+
+    const { maxSegments } = this.config;
+    while (maxSegments !== undefined && this.segments.length > maxSegments) {
+      const oldest = this.segments.shift()!;
+      await rm(join(this.segmentsDir, segmentName(oldest)), { force: true });
+    }
+  }
+
+  /**
+   * Reopen the newest segment, dropping a torn trailing line and restoring
+   * the append position.
+   *
+   * @param base
+   */
+  private async recoverActiveSegment(base: number): Promise<void> {
+    const path = join(this.segmentsDir, segmentName(base));
+    const content = await readFile(path, 'utf8');
+
+    const lastNewline = content.lastIndexOf('\n');
+    const intact = content.slice(0, lastNewline + 1);
+    if (intact.length !== content.length) {
+      await truncate(path, Buffer.byteLength(intact));
+    }
+
+    const lines = intact.split('\n').filter(Boolean);
+    const last = lines.length > 0 ? deserialize(lines.at(-1)!) : undefined;
+
+    this.nextOffset = last ? last.offset + 1 : base;
+    this.activeHandle = await open(path, 'a');
+    this.activeBytes = (await stat(path)).size;
+    this.activeEvents = lines.length;
+  }
+}
+
+/**
+ * Replay journal entries into a listener, committing consumer-group
+ * checkpoints as entries are delivered. A listener error stops the replay
+ * after the last successfully delivered entry has been checkpointed.
+ *
+ * @param journal
+ * @param listener
+ * @param options
+ */
+export async function replayJournal(
+  journal: EventJournal,
+  listener: (entry: JournalEntry) => void | Promise<void>,
+  options: JournalReplayOptions = {}
+): Promise<JournalReplayResult> {
+  const { consumerGroup } = options;
+  const checkpointInterval = Math.max(1, options.checkpointInterval ?? 100);
+
+  let { fromOffset } = options;
+  if (fromOffset === undefined && !options.fromTimestamp && consumerGroup) {
+    const checkpoint = await journal.getCheckpoint(consumerGroup);
+    fromOffset = checkpoint === undefined ? 0 : checkpoint + 1;
+  }
+
+  let delivered = 0;
+  let lastOffset: number | undefined;
+  let uncommitted = 0;
+
+  try {
+    for await (const entry of journal.read({ ...options, fromOffset })) {
+      await listener(entry);
+      delivered++;
+      lastOffset = entry.offset;
+
+      if (consumerGroup && ++uncommitted >= checkpointInterval) {
+        await journal.commitCheckpoint(consumerGroup, entry.offset);
+        uncommitted = 0;
+      }
+    }
+  } finally {
+    if (consumerGroup && uncommitted > 0 && lastOffset !== undefined) {
+      await journal.commitCheckpoint(consumerGroup, lastOffset);
+    }
+  }
+
+  return { delivered, lastOffset };
+}
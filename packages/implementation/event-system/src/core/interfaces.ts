@@ -1,4 +1,10 @@
 import { EventEmitter } from '@claude-zen/foundation';
+
+import type {
+  EventJournal,
+  JournalReplayOptions,
+  JournalReplayResult,
+} from './event-journal';
 /**
  * @file UEL (Unified Event Layer) Core Interfaces.
  *
@@ -132,12 +138,62 @@ export interface EventMonitoringConfig {
   enableProfiling: boolean;
 }
 
+/**
+ * Durable journaling for an event manager.
+ *
+ * When enabled, every emitted event is appended to an {@link EventJournal}
+ * before delivery and receives its journal offset as `sequence`.
+ */
+export interface EventPersistenceConfig {
+  enabled: boolean;
+  /** Shared journal instance (preferred when several managers journal together) */
+  journal?: EventJournal;
+  /** Directory for a file journal owned by this manager, when no journal is given */
+  directory?: string;
+  /** fsync every append for the owned file journal */
+  fsync?: boolean;
+}
+
+/**
+ * Dead-letter handling for subscriber failures.
+ *
+ * A subscriber that still throws after `retry` is exhausted has the event
+ * parked in the dead-letter queue of the manager's type instead of losing it.
+ * Enabled unless explicitly turned off.
+ */
+export interface EventDeadLetterConfig {
+  enabled: boolean;
+}
+
+/**
+ * Replay request for an event manager's journal.
+ */
+export interface EventReplayOptions extends JournalReplayOptions {
+  /** Event types to deliver (supports `*` wildcards); defaults to all */
+  eventTypes?: string[];
+}
+
+/**
+ * Options for a subscription that first catches up from the journal and
+ * then continues with live events, checkpointing its consumer group.
+ */
+export interface DurableSubscriptionOptions {
+  consumerGroup: string;
+  /** Explicit start offset; overrides the group checkpoint */
+  fromOffset?: number;
+  /** Explicit start time; overrides the group checkpoint */
+  fromTimestamp?: Date;
+  /** Where a group without a checkpoint starts (default `latest`) */
+  startFrom?: 'earliest' | 'latest';
+  filter?: EventFilter;
+}
+
 /**
  * Base event manager configuration.
  *
  * @example
  */
-export interface EventManagerConfig {
+export interface EventManagerConfig extends EventBusConfig {
   name: string;
   type: EventManagerType;
   maxListeners?: number;
@@ -152,6 +208,8 @@ export interface EventManagerConfig {
   monitoring?: EventMonitoringConfig;
   filters?: EventFilter[];
   transforms?: EventTransform[];
+  persistence?: EventPersistenceConfig;
+  deadLetter?: EventDeadLetterConfig;
   metadata?: Record<string, unknown>;
 }
 
@@ -337,7 +395,7 @@ export interface EventQueryOptions {
   limit?: number;
   offset?: number;
   sortBy?: 'timestamp|priority|type|source';
-  sortOrder?: 'asc|desc'';
+  sortOrder?: 'asc' | 'desc';
   includeMetadata?: boolean;
 }
 
@@ -527,6 +585,35 @@ export interface EventManager {
    */
   getEventHistory(eventType: string, limit?: number): Promise<SystemEvent[]>;
 
+  /**
+   * Replay journaled events into a listener.
+   * Available when the manager has persistence enabled.
+   *
+   * @param listener - Function receiving replayed events in offset order.
+   * @param options - Start position, filters and consumer group.
+   * @returns Number of delivered events and the last delivered offset.
+   */
+  replay?(
+    listener: EventListener,
+    options?: EventReplayOptions
+  ): Promise<JournalReplayResult>;
+
+  /**
+   * Subscribe with catch-up: replay the journal from the consumer group's
+   * checkpoint (or an explicit start), then continue with live events.
+   * Available when the manager has persistence enabled.
+   *
+   * @param eventTypes - Single event type or array of event types.
+   * @param listener - Function to handle matching events.
+   * @param options - Consumer group and start position.
+   * @returns Subscription ID usable with unsubscribe().
+   */
+  subscribeDurable?<T extends SystemEvent>(
+    eventTypes: string|string[],
+    listener: EventListener<T>,
+    options: DurableSubscriptionOptions
+  ): Promise<string>;
+
   // Health monitoring
   /**
    * Perform a health check on the event manager.
@@ -992,7 +1079,7 @@ export class EventTimeoutError extends EventError {
 export class EventRetryExhaustedError extends EventError {
   constructor(
     manager: string,
-    attempts: number,
+    public readonly attempts: number,
     eventId?: string,
     cause?: Error
   ) {
@@ -1193,6 +1280,11 @@ export interface EventBusConfig {
   name: string;
   maxListeners?: number;
   enableLogging?: boolean;
+  /**
+   * Journal emitted events in a file journal under
+   * `.claude-zen/events/<name>`; managers take the full
+   * {@link EventPersistenceConfig} as `persistence`, which wins when set
+   */
   enablePersistence?: boolean;
 }
 
@@ -139,6 +139,59 @@ export {
 
 // Export enums (avoiding duplicate exports - these are already exported as types above)
 
+// =============================================================================
+// DURABLE EVENT JOURNAL - Append-only log with replay and checkpoints
+// =============================================================================
+export {
+  FileEventJournal,
+  replayJournal,
+  matchesEventType,
+} from './core/event-journal';
+
+export type {
+  EventJournal,
+  FileEventJournalConfig,
+  JournalEntry,
+  JournalReadOptions,
+  JournalReplayOptions,
+  JournalReplayResult,
+} from './core/event-journal';
+
+export type {
+  EventPersistenceConfig,
+  EventReplayOptions,
+  DurableSubscriptionOptions,
+} from './core/interfaces';
+
+// =============================================================================
+// DEAD-LETTER QUEUES - Events whose subscribers exhausted their retries
+// =============================================================================
+export {
+  DeadLetterQueue,
+  configureDeadLetterQueues,
+  getDeadLetterQueue,
+  getDeadLetterQueues,
+  toDeadLetterError,
+} from './core/dead-letter-queue';
+
+export type {
+  DeadLetterEntry,
+  DeadLetterError,
+  DeadLetterInput,
+  DeadLetterListOptions,
+  DeadLetterPage,
+  DeadLetterQuery,
+  DeadLetterQueueConfig,
+  DeadLetterQueueStats,
+  DeadLetterQueuesConfig,
+  DeadLetterRedeliverer,
+  DeadLetterRequeueResult,
+  DeadLetterRequeueStatus,
+} from './core/dead-letter-queue';
+
+export { EventManagerTypes } from './core/interfaces';
+export type { EventDeadLetterConfig } from './core/interfaces';
+
 // =============================================================================
 // VALIDATION FRAMEWORK
 // =============================================================================
@@ -0,0 +1,134 @@
+/**
+ * Agent Worktree Tests.
+ *
+ * Covers creating worktrees per agent task against a real repository,
+ * picking them up again after a restart, reusing a task's existing branch,
+ * keeping sanitized ids apart, syncing from the configured remote, and
+ * pruning only stale worktrees that hold no unsaved work.
+ */
+
+import { execFileSync } from 'node:child_process';
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { GitOperationsManager } from '../git-operations-manager';
+
+const git = (cwd: string, ...args: string[]) =>
+  execFileSync('git', args, { cwd, encoding: 'utf8' }).trim();
+
+function commit(cwd: string, file: string, message: string) {
+  writeFileSync(join(cwd, file), `${message}\n`);
+  git(cwd, 'add', file);
+  git(cwd, 'commit', '-q', '-m', message);
+}
+
+describe('GitOperationsManager agent worktrees', () => {
+  let directory: string;
+  let repository: string;
+
+  const createManager = (config = {}) =>
+    new GitOperationsManager('test', { automatedMaintenance: false, ...config });
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'agent-worktrees-'));
+    // Worktrees are created under the working directory
+    vi.spyOn(process, 'cwd').mockReturnValue(directory);
+
+    repository = join(directory, 'repo');
+    git(directory, 'init', '-q', '-b', 'main', repository);
+    git(repository, 'config', 'user.name', 'Test');
+    git(repository, 'config', 'user.email', 'test@example.com');
+    commit(repository, 'README.md', 'initial');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('restores worktrees from git after a restart', async () => {
+    const manager = createManager();
+    await manager.registerRepository('zen', repository);
+    const created = await manager.createAgentWorktree('zen', 'agent-1', 'task/42');
+
+    const restarted = createManager();
+    const restored = await restarted.registerRepository('zen', repository);
+
+    expect(restored).toEqual([
+      expect.objectContaining({
+        id: created.id,
+        agentId: 'agent-1',
+        taskId: 'task/42',
+        branch: created.branch,
+        baseBranch: 'main',
+      }),
+    ]);
+    expect(restarted.getAgentWorktree(created.id)?.path).toBe(created.path);
+  });
+
+  it('reuses the branch of a removed worktree for the same task', async () => {
+    const manager = createManager();
+    await manager.registerRepository('zen', repository);
+    const first = await manager.createAgentWorktree('zen', 'agent-1', 'task-1');
+    commit(first.path, 'work.txt', 'agent work');
+    await manager.removeAgentWorktree(first.id);
+
+    const second = await manager.createAgentWorktree('zen', 'agent-1', 'task-1');
+
+    expect(second.branch).toBe(first.branch);
+    expect(existsSync(join(second.path, 'work.txt'))).toBe(true);
+  });
+
+  it('keeps ids apart that only differ in sanitized characters', async () => {
+    const manager = createManager();
+    await manager.registerRepository('zen', repository);
+
+    const slash = await manager.createAgentWorktree('zen', 'agent-1', 'a/b');
+    const dash = await manager.createAgentWorktree('zen', 'agent-1', 'a-b');
+
+    expect(dash.id).toBe('zen--agent-1--a-b');
+    expect(slash.id).not.toBe(dash.id);
+    expect(slash.branch).not.toBe(dash.branch);
+  });
+
+  it('syncs with the base branch of the configured remote', async () => {
+    const remote = join(directory, 'remote.git');
+    git(directory, 'clone', '-q', '--bare', repository, remote);
+    git(repository, 'remote', 'add', 'upstream', remote);
+    const manager = createManager({ remotes: [{ name: 'upstream', url: remote }] });
+    await manager.registerRepository('zen', repository);
+    const worktree = await manager.createAgentWorktree('zen', 'agent-1', 'task-1');
+
+    const other = join(directory, 'other');
+    git(directory, 'clone', '-q', remote, other);
+    git(other, 'config', 'user.name', 'Other');
+    git(other, 'config', 'user.email', 'other@example.com');
+    commit(other, 'upstream.txt', 'upstream change');
+    git(other, 'push', '-q', 'origin', 'main');
+
+    const result = await manager.syncAgentWorktree(worktree.id);
+
+    expect(result).toMatchObject({ success: true, upstream: 'upstream/main' });
+    expect(existsSync(join(worktree.path, 'upstream.txt'))).toBe(true);
+  });
+
+  it('prunes stale worktrees but keeps those with uncommitted or unpushed work', async () => {
+    const manager = createManager();
+    await manager.registerRepository('zen', repository);
+    const clean = await manager.createAgentWorktree('zen', 'agent-1', 'clean');
+    const dirty = await manager.createAgentWorktree('zen', 'agent-1', 'dirty');
+    const unpushed = await manager.createAgentWorktree('zen', 'agent-1', 'unpushed');
+    writeFileSync(join(dirty.path, 'draft.txt'), 'work in progress\n');
+    commit(unpushed.path, 'work.txt', 'agent work');
+
+    const pruned = await manager.pruneStaleWorktrees(-1);
+
+    expect(pruned).toEqual([clean.id]);
+    expect(existsSync(clean.path)).toBe(false);
+    expect(existsSync(join(dirty.path, 'draft.txt'))).toBe(true);
+    expect(manager.getAgentWorktree(unpushed.id)).toBeDefined();
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Conflict Hunk Tests.
+ *
+ * Covers parsing two-way and diff3 conflict markers, deterministic hunk
+ * resolution, writing resolutions back into files, holding back the commit
+ * for conflicts without markers, and ignoring malformed AI suggestions.
+ */
+
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  applyHunkResolutions,
+  autoResolveHunk,
+  hasConflictMarkers,
+  parseConflictHunks,
+  type ConflictHunk,
+  type HunkResolution,
+} from '../conflict-hunks';
+import { GitOperationsManager } from '../git-operations-manager';
+
+const conflict = (ours: string, theirs: string, base?: string) =>
+  [
+    '<<<<<<< HEAD',
+    ours,
+    ...(base === undefined ? [] : ['||||||| base', base]),
+    '=======',
+    theirs,
+    '>>>>>>> feature',
+  ].join('\n');
+
+const hunk = (ours: string, theirs: string, base?: string): ConflictHunk =>
+  parseConflictHunks('app.py', conflict(ours, theirs, base))[0]!;
+
+describe('parseConflictHunks', () => {
+  it('parses two-way and diff3 hunks with their line ranges and labels', () => {
+    const content = ['intro', conflict('a = 1', 'a = 2'), 'middle', conflict('b', 'c', 'base b')].join(
+      '\n'
+    );
+
+    const [first, second] = parseConflictHunks('app.py', content);
+
+    expect(first).toMatchObject({
+      startLine: 2,
+      endLine: 6,
+      ours: 'a = 1',
+      theirs: 'a = 2',
+      base: undefined,
+      oursLabel: 'HEAD',
+      theirsLabel: 'feature',
+    });
+    expect(second).toMatchObject({ startLine: 8, endLine: 14, ours: 'b', base: 'base b', theirs: 'c' });
+    expect(first!.id).toMatch(/^app\.py:[\da-f]{12}:1$/);
+  });
+
+  it('gives repeated identical hunks ids of their own', () => {
+    const content = [conflict('a', 'b'), 'mid', conflict('a', 'b')].join('\n');
+    const [first, second] = parseConflictHunks('app.py', content);
+
+    const result = applyHunkResolutions(
+      'app.py',
+      content,
+      new Map([
+        [first!.id, { hunkId: first!.id, content: 'a', source: 'ours' as const }],
+        [second!.id, { hunkId: second!.id, content: 'b', source: 'theirs' as const }],
+      ])
+    );
+
+    expect(first!.id).not.toBe(second!.id);
+    expect(result.content).toBe('a\nmid\nb');
+  });
+
+  it('ignores unterminated hunks and restarts at a nested start marker', () => {
+    const content = ['<<<<<<< HEAD', 'lost', conflict('x', 'y')].join('\n');
+
+    const hunks = parseConflictHunks('app.py', content);
+
+    expect(hunks).toHaveLength(1);
+    expect(hunks[0]).toMatchObject({ startLine: 3, ours: 'x', theirs: 'y' });
+    expect(parseConflictHunks('app.py', '<<<<<<< HEAD\nno end')).toEqual([]);
+  });
+
+  it('reports conflict markers without throwing on missing content', () => {
+    expect(hasConflictMarkers(conflict('a', 'b'))).toBe(true);
+    expect(hasConflictMarkers('plain text')).toBe(false);
+    expect(hasConflictMarkers(undefined)).toBe(false);
+  });
+});
+
+describe('autoResolveHunk', () => {
+  it('takes the side that changed when the other matches the base', () => {
+    expect(autoResolveHunk(hunk('same', 'same'))?.content).toBe('same');
+    expect(autoResolveHunk(hunk('base', 'theirs', 'base'))?.content).toBe('theirs');
+    expect(autoResolveHunk(hunk('ours', 'base', 'base'))?.content).toBe('ours');
+    expect(autoResolveHunk(hunk('ours', 'theirs', 'base'))).toBeUndefined();
+  });
+
+  it('ignores trailing whitespace only, unless told to ignore all whitespace', () => {
+    expect(autoResolveHunk(hunk('if x:\n    y()  ', 'if x:\n    y()'))?.content).toBe(
+      'if x:\n    y()  '
+    );
+
+    const reindented = hunk('if x:\n    y()\nz()', 'if x:\n    y()\n    z()');
+    expect(autoResolveHunk(reindented)).toBeUndefined();
+    expect(autoResolveHunk(reindented, { ignoreWhitespace: true })).toMatchObject({
+      source: 'auto',
+      confidence: 1,
+    });
+  });
+});
+
+describe('applyHunkResolutions', () => {
+  it('replaces resolved hunks and keeps the markers of the rest', () => {
+    const content = ['top', conflict('a', 'b'), 'mid', conflict('c\nd', 'e'), 'end'].join('\n');
+    const [first, second] = parseConflictHunks('app.py', content);
+    const resolutions = new Map<string, HunkResolution>([
+      [second!.id, { hunkId: second!.id, content: 'c\nd\ne', source: 'both' }],
+    ]);
+
+    const result = applyHunkResolutions('app.py', content, resolutions);
+
+    expect(result.applied).toEqual([second!.id]);
+    expect(result.content).toBe(['top', conflict('a', 'b'), 'mid', 'c\nd\ne', 'end'].join('\n'));
+    expect(parseConflictHunks('app.py', result.content).map((h) => h.id)).toEqual([first!.id]);
+  });
+
+  it('removes a hunk resolved to empty content', () => {
+    const content = ['top', conflict('a', 'b'), 'end'].join('\n');
+    const [only] = parseConflictHunks('app.py', content);
+
+    const result = applyHunkResolutions(
+      'app.py',
+      content,
+      new Map([[only!.id, { hunkId: only!.id, content: '', source: 'custom' as const }]])
+    );
+
+    expect(result.content).toBe('top\nend');
+  });
+});
+
+describe('GitOperationsManager.resolveConflictHunks', () => {
+  let directory: string;
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('does not commit while a conflicted file has no markers to resolve', async () => {
+    directory = mkdtempSync(join(tmpdir(), 'conflict-hunks-'));
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: directory });
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.name', 'Test');
+    git('config', 'user.email', 'test@example.com');
+    writeFileSync(join(directory, 'app.py'), 'base\n');
+    writeFileSync(join(directory, 'gone.py'), 'base\n');
+    git('add', '.');
+    git('commit', '-q', '-m', 'base');
+    git('checkout', '-q', '-b', 'feature');
+    writeFileSync(join(directory, 'app.py'), 'feature\n');
+    git('rm', '-q', 'gone.py');
+    git('commit', '-q', '-am', 'feature change');
+    git('checkout', '-q', 'main');
+    writeFileSync(join(directory, 'app.py'), 'main\n');
+    writeFileSync(join(directory, 'gone.py'), 'main\n');
+    git('commit', '-q', '-am', 'main change');
+    expect(() => git('merge', '-q', 'feature')).toThrow();
+    const manager = new GitOperationsManager('test', { automatedMaintenance: false });
+
+    const files = await manager.getConflictHunks(directory);
+    const [hunkToResolve] = files.find((file) => file.file === 'app.py')!.hunks;
+    const result = await manager.resolveConflictHunks(directory, [
+      { hunkId: hunkToResolve!.id, content: 'merged', source: 'custom' },
+    ]);
+
+    expect(files.find((file) => file.file === 'gone.py')?.hunks).toEqual([]);
+    expect(result).toMatchObject({ remaining: [], unmergedFiles: ['gone.py'], committed: false });
+    expect(result.applied).toHaveLength(1);
+    expect(git('rev-parse', '-q', '--verify', 'MERGE_HEAD').toString()).not.toBe('');
+  });
+});
+
+describe('GitOperationsManager AI hunk suggestions', () => {
+  let directory: string;
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('ignores AI answers without a string resolution and a valid confidence', async () => {
+    directory = mkdtempSync(join(tmpdir(), 'conflict-hunks-'));
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: directory });
+    const commit = (text: string) => {
+      writeFileSync(join(directory, 'app.py'), `${text}\n`);
+      git('commit', '-q', '-am', text);
+    };
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.name', 'Test');
+    git('config', 'user.email', 'test@example.com');
+    writeFileSync(join(directory, 'app.py'), 'base\n');
+    git('add', 'app.py');
+    git('commit', '-q', '-m', 'base');
+    git('checkout', '-q', '-b', 'feature');
+    commit('feature change');
+    git('checkout', '-q', 'main');
+    commit('main change');
+    expect(() => git('merge', '-q', 'feature')).toThrow();
+
+    const answers = [
+      '```json\n{"confidence": 90, "reasoning": "no code"}\n```',
+      '```json\n{"resolution": "merged", "confidence": "high"}\n```',
+      '```json\n{"resolution": "merged", "confidence": 90}\n```',
+    ];
+    const create = vi.fn(async () => ({ content: [{ type: 'text', text: answers.shift() }] }));
+    const manager = new GitOperationsManager(
+      'test',
+      { automatedMaintenance: false },
+      {},
+      { messages: { create } }
+    );
+
+    expect(await manager.suggestConflictResolutions(directory)).toEqual([]);
+    expect(await manager.suggestConflictResolutions(directory)).toEqual([]);
+    expect(await manager.suggestConflictResolutions(directory)).toEqual([
+      expect.objectContaining({ content: 'merged', confidence: 0.9, source: 'ai' }),
+    ]);
+  });
+});
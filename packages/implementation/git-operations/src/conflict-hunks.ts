@@ -0,0 +1,226 @@
+/**
+ * @fileoverview Conflict Hunks - Structured three-way merge conflicts
+ *
+ * Parses git conflict markers into hunks with ours/base/theirs sides
+ * (the base side is present when `merge.conflictStyle` is `diff3` or
+ * `zdiff3`), resolves trivially mergeable hunks deterministically and
+ * writes chosen resolutions back into the file. Used by
+ * GitOperationsManager so only genuinely conflicting hunks reach an agent
+ * or the AI, one hunk at a time.
+ */
+
+import { createHash } from 'crypto';
+
+export interface ConflictHunk {
+  /**
+   * Stable across rewrites of the file: `<file>:<content hash>:<n>`, where
+   * n counts hunks with identical sides so repeated hunks stay apart
+   */
+  id: string;
+  file: string;
+  /** 1-based line of the `<<<<<<<` marker */
+  startLine: number;
+  /** 1-based line of the `>>>>>>>` marker */
+  endLine: number;
+  ours: string;
+  /** Common ancestor, when the conflict style includes it */
+  base?: string;
+  theirs: string;
+  oursLabel: string;
+  theirsLabel: string;
+}
+
+export interface HunkResolution {
+  hunkId: string;
+  content: string;
+  source: 'ours' | 'theirs' | 'both' | 'base' | 'custom' | 'auto' | 'ai';
+  /** 0-1; deterministic resolutions are 1 */
+  confidence?: number;
+  reasoning?: string;
+}
+
+export interface ConflictFile {
+  file: string;
+  content: string;
+  hunks: ConflictHunk[];
+}
+
+export interface AutoResolveOptions {
+  /**
+   * Treat sides that differ in indentation or line wrapping as equal. Off
+   * by default since whitespace is significant in e.g. Python or YAML;
+   * trailing whitespace is always ignored.
+   */
+  ignoreWhitespace?: boolean;
+}
+
+const OURS_MARKER = '<<<<<<<';
+const BASE_MARKER = '|||||||';
+const SEPARATOR = '=======';
+const THEIRS_MARKER = '>>>>>>>';
+
+/**
+ * Parse the conflict hunks of a file. Unterminated hunks are ignored.
+ */
+export function parseConflictHunks(file: string, content: string): ConflictHunk[] {
+  const lines = content.split('\n');
+  const hunks: ConflictHunk[] = [];
+  const occurrences = new Map<string, number>();
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i]!.startsWith(OURS_MARKER)) {
+      continue;
+    }
+
+    const start = i;
+    const sides: Record<'ours' | 'base' | 'theirs', string[] | undefined> = {
+      ours: [],
+      base: undefined,
+      theirs: undefined,
+    };
+    let current: string[] = sides.ours!;
+    let end = -1;
+
+    for (i++; i < lines.length; i++) {
+      const line = lines[i]!;
+      if (line.startsWith(BASE_MARKER) && !sides.theirs) {
+        current = sides.base = [];
+      } else if (line.startsWith(SEPARATOR) && !sides.theirs) {
+        current = sides.theirs = [];
+      } else if (line.startsWith(THEIRS_MARKER) && sides.theirs) {
+        end = i;
+        break;
+      } else if (line.startsWith(OURS_MARKER)) {
+        // A new hunk starts before this one ended
+        i--;
+        break;
+      } else {
+        current.push(line);
+      }
+    }
+
+    if (end < 0) {
+      continue;
+    }
+
+    const ours = sides.ours!.join('\n');
+    const base = sides.base?.join('\n');
+    const theirs = sides.theirs!.join('\n');
+    const hash = hashSides(ours, base, theirs);
+    const occurrence = (occurrences.get(hash) ?? 0) + 1;
+    occurrences.set(hash, occurrence);
+    hunks.push({
+      id: `${file}:${hash}:${occurrence}`,
+      file,
+      startLine: start + 1,
+      endLine: end + 1,
+      ours,
+      base,
+      theirs,
+      oursLabel: lines[start]!.slice(OURS_MARKER.length).trim(),
+      theirsLabel: lines[end]!.slice(THEIRS_MARKER.length).trim(),
+    });
+  }
+
+  return hunks;
+}
+
+export function hasConflictMarkers(content: string | undefined): boolean {
+  return typeof content === 'string' && parseConflictHunks('', content).length > 0;
+}
+
+/**
+ * Resolve a hunk without judgement: identical sides, trailing-whitespace
+ * differences, or (with a base) changes made on one side only.
+ */
+export function autoResolveHunk(
+  hunk: ConflictHunk,
+  options: AutoResolveOptions = {}
+): HunkResolution | undefined {
+  const sameIgnoringWhitespace = options.ignoreWhitespace
+    ? sameIgnoringAllWhitespace
+    : sameIgnoringTrailingWhitespace;
+  const resolve = (content: string, reasoning: string): HunkResolution => ({
+    hunkId: hunk.id,
+    content,
+    source: 'auto',
+    confidence: 1,
+    reasoning,
+  });
+
+  if (hunk.ours === hunk.theirs) {
+    return resolve(hunk.ours, 'Both sides made the same change');
+  }
+
+  if (hunk.base !== undefined) {
+    if (hunk.ours === hunk.base) {
+      return resolve(hunk.theirs, 'Only their side changed');
+    }
+    if (hunk.theirs === hunk.base) {
+      return resolve(hunk.ours, 'Only our side changed');
+    }
+    // One side only changed whitespace: keep the real change
+    if (sameIgnoringWhitespace(hunk.ours, hunk.base)) {
+      return resolve(hunk.theirs, 'Our side only changed whitespace');
+    }
+    if (sameIgnoringWhitespace(hunk.theirs, hunk.base)) {
+      return resolve(hunk.ours, 'Their side only changed whitespace');
+    }
+  }
+
+  if (sameIgnoringWhitespace(hunk.ours, hunk.theirs)) {
+    return resolve(hunk.ours, 'Sides differ only in whitespace');
+  }
+
+  return undefined;
+}
+
+/**
+ * Replace resolved hunks in the file; hunks without a resolution keep
+ * their conflict markers.
+ */
+export function applyHunkResolutions(
+  file: string,
+  content: string,
+  resolutions: ReadonlyMap<string, HunkResolution>
+): { content: string; applied: string[] } {
+  const lines = content.split('\n');
+  const applied: string[] = [];
+
+  // Back to front so earlier line numbers stay valid
+  for (const hunk of parseConflictHunks(file, content).reverse()) {
+    const resolution = resolutions.get(hunk.id);
+    if (!resolution) {
+      continue;
+    }
+    lines.splice(
+      hunk.startLine - 1,
+      hunk.endLine - hunk.startLine + 1,
+      ...(resolution.content === '' ? [] : resolution.content.split('\n'))
+    );
+    applied.push(hunk.id);
+  }
+
+  return { content: lines.join('\n'), applied: applied.reverse() };
+}
+
+function sameIgnoringTrailingWhitespace(a: string, b: string): boolean {
+  const normalize = (text: string) =>
+    text
+      .split('\n')
+      .map((line) => line.trimEnd())
+      .join('\n');
+  return normalize(a) === normalize(b);
+}
+
+function sameIgnoringAllWhitespace(a: string, b: string): boolean {
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+  return normalize(a) === normalize(b);
+}
+
+function hashSides(ours: string, base: string | undefined, theirs: string): string {
+  return createHash('sha1')
+    .update(`${ours}\0${base ?? ''}\0${theirs}`)
+    .digest('hex')
+    .slice(0, 12);
+}
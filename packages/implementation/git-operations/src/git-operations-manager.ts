@@ -12,10 +12,11 @@
  * - Enables DevSecOps pipeline automation
  *
  * Core Features:
- * - 🤖 AI-powered merge conflict resolution
+ * - 🤖 Hunk-level merge conflict resolution: deterministic first, then AI per hunk
  * - 🌳 Intelligent branch lifecycle management
  * - 🔄 Smart rebase operations with conflict handling
  * - 📦 Safe sandbox operations for all git commands
+ * - 🌿 Per-agent worktrees so parallel agents share one repository
  * - 🧹 Automated tree maintenance and cleanup
  * - ⚡ Push/pull coordination with remote repositories
  * - 🎯 Intelligent decision making for git operations
@@ -28,9 +29,20 @@
 
 import { SimpleGit, BranchSummary } from 'simple-git';
 import { getLogger } from '@claude-zen/foundation';
+import { createHash } from 'crypto';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import * as cron from 'node-cron';
+
+import {
+  applyHunkResolutions,
+  autoResolveHunk,
+  hasConflictMarkers,
+  parseConflictHunks,
+  type ConflictFile,
+  type ConflictHunk,
+  type HunkResolution,
+} from './conflict-hunks';
 // Simple replacement for SimpleGitSandbox functionality
 
 // Real implementation of Git sandbox for secure operations
@@ -228,6 +240,92 @@ interface Claude {
 
 const logger = getLogger('git-commander');
 
+// AI hunk resolutions above this confidence are applied without review
+const AI_CONFIDENCE_THRESHOLD = 0.8;
+
+// Keep ids usable in branch names and directory names. Values that had to
+// change get a hash of the original, so `a/b` and `a-b` stay distinct; `--`
+// is collapsed because it separates the parts of a worktree id.
+function sanitizeRefPart(value: string): string {
+  const sanitized =
+    value
+      .replace(/[^\w.-]+/g, '-')
+      .replace(/\.{2,}/g, '.')
+      .replace(/-{2,}/g, '-')
+      .replace(/^[.-]+|[.-]+$/g, '') || 'task';
+  if (sanitized === value) {
+    return sanitized;
+  }
+  return `${sanitized}-${createHash('sha1').update(value).digest('hex').slice(0, 8)}`;
+}
+
+interface WorktreeListEntry {
+  path: string;
+  branch?: string;
+  prunable: boolean;
+}
+
+// Parse `git worktree list --porcelain`: one blank-line separated record
+// per worktree with `worktree <path>`, `branch refs/heads/<name>` and flags
+function parseWorktreeList(output: string): WorktreeListEntry[] {
+  return output
+    .split(/\n\s*\n/)
+    .map((record) => {
+      const entry: WorktreeListEntry = { path: '', prunable: false };
+      for (const line of record.split('\n')) {
+        const [key, ...rest] = line.trim().split(' ');
+        const value = rest.join(' ');
+        if (key === 'worktree') {
+          entry.path = value;
+        } else if (key === 'branch') {
+          entry.branch = value.replace(/^refs\/heads\//, '');
+        } else if (key === 'prunable') {
+          entry.prunable = true;
+        }
+      }
+      return entry;
+    })
+    .filter((entry) => entry.path);
+}
+
+// Written next to each worktree directory, so worktrees can be picked up
+// again after a restart
+type AgentWorktreeRecord = Pick<
+  AgentWorktree,
+  'id' | 'projectId' | 'agentId' | 'taskId' | 'baseBranch'
+> & { createdAt: string };
+
+// The AI's answer for one hunk, or undefined unless it has a string
+// resolution and a 0-100 confidence
+function parseAIHunkResponse(
+  value: unknown
+): { resolution: string; confidence: number; reasoning?: string } | undefined {
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+  const { resolution, confidence, reasoning } = value as Record<string, unknown>;
+  if (
+    typeof resolution !== 'string' ||
+    typeof confidence !== 'number' ||
+    !(confidence >= 0 && confidence <= 100)
+  ) {
+    return undefined;
+  }
+  return {
+    resolution,
+    confidence,
+    reasoning: typeof reasoning === 'string' ? reasoning : undefined,
+  };
+}
+
+// The conflict as it appears in the file, markers included
+function conflictSection(content: string, hunk: ConflictHunk): string {
+  return content
+    .split('\n')
+    .slice(hunk.startLine - 1, hunk.endLine)
+    .join('\n');
+}
+
 export interface GitOperationConfig {
   /** Enable AI-powered conflict resolution */
   aiConflictResolution: boolean;
@@ -241,6 +339,12 @@ export interface GitOperationConfig {
   operationTimeout: number;
   /** Remote repository configurations */
   remotes: RemoteConfig[];
+  /** Agent worktrees unused for longer than this are pruned (hours) */
+  worktreeMaxAgeHours: number;
+  /** Command that must pass before resolved conflicts are committed */
+  conflictTestCommand?: string;
+  /** Auto-resolve conflict hunks whose sides differ only in indentation or line wrapping */
+  ignoreWhitespaceConflicts: boolean;
 }
 
 export interface RemoteConfig {
@@ -284,6 +388,7 @@ export interface ConflictResolution {
 export interface ConflictSuggestion {
   file: string;
   conflicts: Array<{
+    hunkId?: string;
     section: string;
     ourVersion: string;
     theirVersion: string;
@@ -293,6 +398,28 @@ export interface ConflictSuggestion {
   }>;
 }
 
+export interface ConflictHunkResolutionResult {
+  /** Resolutions written to disk, including automatic ones */
+  applied: HunkResolution[];
+  /** Resolutions refused during validation */
+  rejected: Array<{ hunkId: string; reason: string }>;
+  /** Hunks still waiting for a resolution */
+  remaining: ConflictHunk[];
+  /**
+   * Conflicted files without conflict markers, e.g. modify/delete or
+   * binary conflicts, which need resolving by hand
+   */
+  unmergedFiles: string[];
+  /** Test run gating the commit, when a test command is configured */
+  tests?: {
+    command: string;
+    passed: boolean;
+    output: string;
+  };
+  /** Whether the merge, rebase or cherry-pick was continued */
+  committed: boolean;
+}
+
 export interface GitTreeStatus {
   /** Total active trees */
   activeTrees: number;
@@ -324,9 +451,43 @@ export interface GitOperation {
   conflictResolution?: ConflictResolution;
 }
 
+export interface AgentWorktree {
+  /** `<projectId>--<agentId>--<taskId>` */
+  id: string;
+  projectId: string;
+  agentId: string;
+  taskId: string;
+  /** Worktree directory the agent works in */
+  path: string;
+  /** Branch checked out in the worktree */
+  branch: string;
+  /** Branch the worktree was created from and syncs with */
+  baseBranch: string;
+  /** Main checkout the worktree belongs to */
+  repositoryPath: string;
+  createdAt: Date;
+  lastAccess: Date;
+  lastSync?: Date;
+}
+
+export interface WorktreeSyncResult {
+  worktreeId: string;
+  strategy: 'merge' | 'rebase';
+  /** Ref the branch was synced with, e.g. `origin/main` */
+  upstream: string;
+  success: boolean;
+  /** Conflicting files when the sync was aborted */
+  conflicts: string[];
+}
+
 export interface MaintenanceTask {
   id: string;
-  type: 'cleanup-stale' | 'compress-trees' | 'update-remotes' | 'verify-integrity';
+  type:
+    | 'cleanup-stale'
+    | 'compress-trees'
+    | 'update-remotes'
+    | 'verify-integrity'
+    | 'prune-worktrees';
   schedule: string; // cron expression
   lastRun?: Date;
   nextRun: Date;
@@ -367,6 +528,12 @@ export class GitOperationsManager extends Commander {
   private operationHistory: GitOperation[] = [];
   private maintenanceTasks: MaintenanceTask[] = [];
 
+  // Agent worktrees - parallel agents on one repository
+  private projectRepositories = new Map<string, string>();
+  private agentWorktrees = new Map<string, AgentWorktree>();
+  private repositoryLocks = new Map<string, Promise<unknown>>();
+  private worktreeRoot: string;
+
   // Branch and tree management - actively used for intelligent branch management
   private activeBranches = new Map<string, BranchSummary>();
   private treeMetrics = new Map<
@@ -397,6 +564,8 @@ export class GitOperationsManager extends Commander {
       maxConcurrentOps: 10,
       operationTimeout: 300000, // 5 minutes
       remotes: [],
+      worktreeMaxAgeHours: 72,
+      ignoreWhitespaceConflicts: false,
       ...config,
     };
 
@@ -435,6 +604,13 @@ export class GitOperationsManager extends Commander {
       ],
     });
 
+    this.worktreeRoot = path.join(
+      process.cwd(),
+      '.git-commander',
+      this.commanderId,
+      'worktrees'
+    );
+
     this.initializeMaintenanceTasks();
 
     logger.info('🚀 GitCommander initialized', {
@@ -614,6 +790,7 @@ export class GitOperationsManager extends Commander {
         await git.clone(repoUrl, '.', cloneOptions);
       });
 
+      await this.registerRepository(projectId, sandbox.path);
       this.completeOperation(operation, { sandbox: sandbox.id });
 
       logger.info('✅ Repository cloned successfully', {
@@ -1011,11 +1188,588 @@ export class GitOperationsManager extends Commander {
   }
 
   // ====================================================================
-  // AI-POWERED CONFLICT RESOLUTION - Smart merge conflict handling
+  // AGENT WORKTREES - One git worktree and branch per agent task
+  // ====================================================================
+
+  /**
+   * Register the main checkout of a project for agent worktrees and pick up
+   * the worktrees created there before a restart, as listed by
+   * `git worktree list`. Cloned repositories are registered automatically.
+   */
+  async registerRepository(
+    projectId: string,
+    repositoryPath: string
+  ): Promise<AgentWorktree[]> {
+    const resolved = path.resolve(repositoryPath);
+    this.projectRepositories.set(projectId, resolved);
+    return this.restoreAgentWorktrees(projectId, resolved);
+  }
+
+  /**
+   * Create an isolated worktree on its own branch for an agent task, so
+   * several agents can work on one repository at the same time. Returns
+   * the existing worktree if the task already has one.
+   */
+  async createAgentWorktree(
+    projectId: string,
+    agentId: string,
+    taskId: string,
+    options: {
+      baseBranch?: string;
+      repositoryPath?: string;
+    } = {}
+  ): Promise<AgentWorktree> {
+    const worktreeId = [projectId, agentId, taskId].map(sanitizeRefPart).join('--');
+    const existing = this.agentWorktrees.get(worktreeId);
+    if (existing) {
+      existing.lastAccess = new Date();
+      return existing;
+    }
+
+    const repositoryPath =
+      options.repositoryPath ?? this.projectRepositories.get(projectId);
+    if (!repositoryPath) {
+      throw new Error(
+        `No repository registered for project ${projectId}; clone it or call registerRepository() first`
+      );
+    }
+
+    const operation = this.createOperation(
+      'branch',
+      projectId,
+      'worktree-' + worktreeId
+    );
+
+    try {
+      const worktreePath = path.join(
+        this.worktreeRoot,
+        sanitizeRefPart(projectId),
+        `${sanitizeRefPart(agentId)}--${sanitizeRefPart(taskId)}`
+      );
+      const branch = this.formatBranchName(
+        `${sanitizeRefPart(agentId)}/${sanitizeRefPart(taskId)}`
+      );
+      let baseBranch = options.baseBranch;
+
+      await fs.mkdir(path.dirname(worktreePath), { recursive: true });
+      await this.withRepositoryLock(repositoryPath, () =>
+        this.sandbox.executeSafeGitOp(
+          this.repositorySandbox(projectId, repositoryPath),
+          async (git: SimpleGit) => {
+            if (!baseBranch) {
+              baseBranch = await this.getCurrentBranch(git);
+            }
+            const { all: branches } = await git.branchLocal();
+            if (branches.includes(branch)) {
+              // Reuse the branch of an earlier worktree for this task so its
+              // commits are kept; drop records of deleted worktree directories
+              // that would still claim it
+              await git.raw(['worktree', 'prune']);
+              await git.raw(['worktree', 'add', worktreePath, branch]);
+            } else {
+              await git.raw(['worktree', 'add', '-b', branch, worktreePath, baseBranch]);
+            }
+          }
+        )
+      );
+
+      const now = new Date();
+      const worktree: AgentWorktree = {
+        id: worktreeId,
+        projectId,
+        agentId,
+        taskId,
+        path: worktreePath,
+        branch,
+        baseBranch: baseBranch!,
+        repositoryPath,
+        createdAt: now,
+        lastAccess: now,
+      };
+      const record: AgentWorktreeRecord = {
+        id: worktreeId,
+        projectId,
+        agentId,
+        taskId,
+        baseBranch: worktree.baseBranch,
+        createdAt: now.toISOString(),
+      };
+      await fs.writeFile(`${worktreePath}.json`, JSON.stringify(record, null, 2));
+      this.agentWorktrees.set(worktreeId, worktree);
+      this.completeOperation(operation, { worktreeId, branch, path: worktreePath });
+
+      logger.info('🌿 Agent worktree created', {
+        commanderId: this.commanderId,
+        projectId,
+        agentId,
+        taskId,
+        branch,
+        baseBranch,
+      });
+
+      return worktree;
+    } catch (error) {
+      this.failOperation(operation, error);
+      throw error;
+    }
+  }
+
+  /**
+   * List agent worktrees, optionally for one project or agent
+   */
+  listAgentWorktrees(filter: { projectId?: string; agentId?: string } = {}): AgentWorktree[] {
+    return Array.from(this.agentWorktrees.values()).filter(
+      (worktree) =>
+        (!filter.projectId || worktree.projectId === filter.projectId) &&
+        (!filter.agentId || worktree.agentId === filter.agentId)
+    );
+  }
+
+  getAgentWorktree(worktreeId: string): AgentWorktree|undefined {
+    return this.agentWorktrees.get(worktreeId);
+  }
+
+  /**
+   * Bring a worktree's branch up to date with its base branch. Conflicts
+   * abort the sync and are reported so the agent can resolve them.
+   */
+  async syncAgentWorktree(
+    worktreeId: string,
+    options: {
+      strategy?: 'merge' | 'rebase';
+      fetch?: boolean;
+      /** Remote to fetch from (default: the first configured remote) */
+      remote?: string;
+    } = {}
+  ): Promise<WorktreeSyncResult> {
+    const worktree = this.requireAgentWorktree(worktreeId);
+    const strategy =
+      options.strategy ??
+      (this.branchStrategy.defaultMergeStrategy === 'rebase' ? 'rebase' : 'merge');
+    const remote = options.remote ?? this.config.remotes[0]?.name;
+    const fetch = options.fetch ?? remote !== undefined;
+    if (fetch && !remote) {
+      throw new Error(`No remote configured to sync agent worktree ${worktreeId} from`);
+    }
+    const operation = this.createOperation(
+      strategy,
+      worktree.projectId,
+      `sync-${worktreeId}-${Date.now()}`
+    );
+
+    const result: WorktreeSyncResult = {
+      worktreeId,
+      strategy,
+      upstream: fetch ? `${remote}/${worktree.baseBranch}` : worktree.baseBranch,
+      success: true,
+      conflicts: [],
+    };
+
+    try {
+      await this.sandbox.executeSafeGitOp(
+        this.worktreeSandbox(worktree),
+        async (git: SimpleGit) => {
+          if (fetch) {
+            await this.withRepositoryLock(worktree.repositoryPath, () =>
+              git.fetch(remote!, worktree.baseBranch)
+            );
+          }
+
+          try {
+            await (strategy === 'rebase'
+              ? git.rebase([result.upstream])
+              : git.merge([result.upstream]));
+          } catch (syncError) {
+            const status = await git.status();
+            if (status.conflicted.length === 0) {
+              throw syncError;
+            }
+            result.success = false;
+            result.conflicts = status.conflicted;
+            await git.raw([strategy, '--abort']);
+          }
+        }
+      );
+
+      worktree.lastAccess = new Date();
+      if (result.success) {
+        worktree.lastSync = worktree.lastAccess;
+      }
+      this.completeOperation(operation, result);
+
+      logger.info(
+        result.success ? '🔄 Agent worktree synced' : '⚠️ Agent worktree sync hit conflicts',
+        {
+          commanderId: this.commanderId,
+          worktreeId,
+          strategy,
+          upstream: result.upstream,
+          conflicts: result.conflicts.length,
+        }
+      );
+
+      return result;
+    } catch (error) {
+      this.failOperation(operation, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove an agent worktree, optionally deleting its branch too
+   */
+  async removeAgentWorktree(
+    worktreeId: string,
+    options: {
+      force?: boolean;
+      deleteBranch?: boolean;
+    } = {}
+  ): Promise<void> {
+    const worktree = this.requireAgentWorktree(worktreeId);
+    const operation = this.createOperation(
+      'branch',
+      worktree.projectId,
+      'remove-worktree-' + worktreeId
+    );
+
+    try {
+      await this.withRepositoryLock(worktree.repositoryPath, () =>
+        this.sandbox.executeSafeGitOp(
+          this.repositorySandbox(worktree.projectId, worktree.repositoryPath),
+          async (git: SimpleGit) => {
+            await git.raw([
+              'worktree',
+              'remove',
+              ...(options.force ? ['--force'] : []),
+              worktree.path,
+            ]);
+            if (options.deleteBranch) {
+              await git.raw(['branch', options.force ? '-D' : '-d', worktree.branch]);
+            }
+          }
+        )
+      );
+
+      await fs.rm(`${worktree.path}.json`, { force: true });
+      this.agentWorktrees.delete(worktreeId);
+      this.completeOperation(operation, { removed: true, branchDeleted: !!options.deleteBranch });
+
+      logger.info('🧹 Agent worktree removed', {
+        commanderId: this.commanderId,
+        worktreeId,
+        branch: worktree.branch,
+        branchDeleted: !!options.deleteBranch,
+      });
+    } catch (error) {
+      this.failOperation(operation, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove worktrees not used within the configured age and prune git's
+   * records of worktree directories deleted outside the manager. Worktrees
+   * with uncommitted changes or unpushed commits are kept however old they
+   * are, and branches are kept, since they may hold unmerged agent work.
+   */
+  async pruneStaleWorktrees(
+    maxAgeHours = this.config.worktreeMaxAgeHours
+  ): Promise<string[]> {
+    const threshold = Date.now() - maxAgeHours * 60 * 60 * 1000;
+    const pruned: string[] = [];
+
+    for (const worktree of Array.from(this.agentWorktrees.values())) {
+      if (worktree.lastAccess.getTime() >= threshold) {
+        continue;
+      }
+      try {
+        const unsaved = await this.findUnsavedWork(worktree);
+        if (unsaved) {
+          logger.warn(`Keeping stale worktree with ${unsaved}: ${worktree.id}`, {
+            commanderId: this.commanderId,
+            lastAccess: worktree.lastAccess,
+          });
+          continue;
+        }
+        await this.removeAgentWorktree(worktree.id);
+        pruned.push(worktree.id);
+      } catch (error) {
+        logger.warn(`Failed to prune stale worktree: ${worktree.id}`, {
+          commanderId: this.commanderId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    for (const [projectId, repositoryPath] of this.projectRepositories) {
+      try {
+        await this.withRepositoryLock(repositoryPath, () =>
+          this.sandbox.executeSafeGitOp(
+            this.repositorySandbox(projectId, repositoryPath),
+            async (git: SimpleGit) => {
+              await git.raw(['worktree', 'prune']);
+            }
+          )
+        );
+      } catch (error) {
+        logger.warn(`Failed to prune worktree records: ${projectId}`, {
+          commanderId: this.commanderId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    logger.info('🧹 Stale worktree pruning completed', {
+      commanderId: this.commanderId,
+      worktreesPruned: pruned.length,
+      remainingWorktrees: this.agentWorktrees.size,
+    });
+
+    return pruned;
+  }
+
+  /**
+   * What removing a worktree would lose: uncommitted changes, or commits
+   * that neither a remote nor the base branch has
+   */
+  private async findUnsavedWork(worktree: AgentWorktree): Promise<string|undefined> {
+    let unsaved: string|undefined;
+    await this.sandbox.executeSafeGitOp(
+      this.worktreeSandbox(worktree),
+      async (git: SimpleGit) => {
+        const status = await git.raw(['status', '--porcelain']);
+        if (status.trim()) {
+          unsaved = 'uncommitted changes';
+          return;
+        }
+        const unpushed = await git.raw([
+          'rev-list',
+          '--count',
+          'HEAD',
+          '--not',
+          '--remotes',
+          worktree.baseBranch,
+        ]);
+        if (Number(unpushed.trim()) > 0) {
+          unsaved = 'unpushed commits';
+        }
+      }
+    );
+    return unsaved;
+  }
+
+  private async restoreAgentWorktrees(
+    projectId: string,
+    repositoryPath: string
+  ): Promise<AgentWorktree[]> {
+    const projectRoot = await fs
+      .realpath(path.join(this.worktreeRoot, sanitizeRefPart(projectId)))
+      .catch(() => undefined);
+    if (!projectRoot) {
+      return [];
+    }
+
+    let listing = '';
+    await this.sandbox.executeSafeGitOp(
+      this.repositorySandbox(projectId, repositoryPath),
+      async (git: SimpleGit) => {
+        listing = await git.raw(['worktree', 'list', '--porcelain']);
+      }
+    );
+
+    const restored: AgentWorktree[] = [];
+    for (const entry of parseWorktreeList(listing)) {
+      if (entry.prunable || !entry.branch) {
+        continue;
+      }
+      const worktreePath = await fs.realpath(entry.path).catch(() => entry.path);
+      if (path.dirname(worktreePath) !== projectRoot) {
+        continue;
+      }
+
+      let record: AgentWorktreeRecord;
+      try {
+        record = JSON.parse(await fs.readFile(`${entry.path}.json`, 'utf8'));
+      } catch (error) {
+        logger.warn(`Skipping agent worktree without a readable record: ${entry.path}`, {
+          commanderId: this.commanderId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        continue;
+      }
+      if (this.agentWorktrees.has(record.id)) {
+        continue;
+      }
+
+      const createdAt = new Date(record.createdAt);
+      const { mtime } = await fs.stat(entry.path);
+      const worktree: AgentWorktree = {
+        ...record,
+        path: entry.path,
+        branch: entry.branch,
+        repositoryPath,
+        createdAt,
+        lastAccess: mtime > createdAt ? mtime : createdAt,
+      };
+      this.agentWorktrees.set(worktree.id, worktree);
+      restored.push(worktree);
+    }
+
+    if (restored.length > 0) {
+      logger.info('🌿 Agent worktrees restored', {
+        commanderId: this.commanderId,
+        projectId,
+        worktrees: restored.length,
+      });
+    }
+    return restored;
+  }
+
+  private requireAgentWorktree(worktreeId: string): AgentWorktree {
+    const worktree = this.agentWorktrees.get(worktreeId);
+    if (!worktree) {
+      throw new Error(`Unknown agent worktree: ${worktreeId}`);
+    }
+    return worktree;
+  }
+
+  /**
+   * Serialize commands that change a repository's shared git metadata;
+   * concurrent `git worktree add` calls would race for its locks.
+   */
+  private async withRepositoryLock<T>(
+    repositoryPath: string,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const previous = this.repositoryLocks.get(repositoryPath) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(fn);
+    const tail = current.catch(() => undefined);
+    this.repositoryLocks.set(repositoryPath, tail);
+
+    try {
+      return await current;
+    } finally {
+      if (this.repositoryLocks.get(repositoryPath) === tail) {
+        this.repositoryLocks.delete(repositoryPath);
+      }
+    }
+  }
+
+  private repositorySandbox(projectId: string, repositoryPath: string): SandboxEnvironment {
+    return {
+      id: `${projectId}-repository`,
+      path: repositoryPath,
+      projectId,
+      created: new Date(),
+      lastAccess: new Date(),
+    };
+  }
+
+  private worktreeSandbox(worktree: AgentWorktree): SandboxEnvironment {
+    return {
+      id: worktree.id,
+      path: worktree.path,
+      projectId: worktree.projectId,
+      created: worktree.createdAt,
+      lastAccess: worktree.lastAccess,
+    };
+  }
+
+  // ====================================================================
+  // CONFLICT RESOLUTION - Hunk-level three-way merge with AI assistance
   // ====================================================================
 
   /**
-   * Resolve merge conflicts using AI
+   * Conflict hunks of every conflicted file in a working directory, after
+   * trivially mergeable hunks have been set aside. Only the returned hunks
+   * need an agent, a human or the AI. Files conflicted without markers,
+   * e.g. modify/delete or binary conflicts, are listed without hunks.
+   */
+  async getConflictHunks(
+    workingDir: string,
+    options: { includeAutoResolvable?: boolean } = {}
+  ): Promise<ConflictFile[]> {
+    let files: ConflictFile[] = [];
+
+    await this.sandbox.executeSafeGitOp(
+      this.directorySandbox(workingDir),
+      async (git: SimpleGit) => {
+        files = await this.readConflictFiles(git, workingDir);
+      }
+    );
+
+    if (options.includeAutoResolvable) {
+      return files;
+    }
+    return files
+      .map((file) => ({
+        ...file,
+        hunks: file.hunks.filter((hunk) => !this.autoResolve(hunk)),
+      }))
+      .filter((file, index) => file.hunks.length > 0 || files[index]!.hunks.length === 0);
+  }
+
+  /**
+   * Per-hunk AI suggestions for the hunks that cannot be resolved
+   * deterministically. Each suggestion carries its own confidence; none are
+   * applied.
+   */
+  async suggestConflictResolutions(workingDir: string): Promise<HunkResolution[]> {
+    const suggestions: HunkResolution[] = [];
+
+    for (const file of await this.getConflictHunks(workingDir)) {
+      for (const hunk of file.hunks) {
+        const suggestion = await this.getAIHunkSuggestion(hunk);
+        if (suggestion) {
+          suggestions.push(suggestion);
+        }
+      }
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * Apply hunk resolutions and, once no conflicts remain, validate and
+   * continue the merge, rebase or cherry-pick.
+   *
+   * Trivially mergeable hunks are resolved automatically. A resolution is
+   * rejected if it still contains conflict markers or its hunk no longer
+   * exists. When a test command is configured it runs before committing;
+   * if it fails the resolved files get their conflicts back and nothing is
+   * committed. Files conflicted without markers, e.g. modify/delete or
+   * binary conflicts, hold the commit back until resolved by hand.
+   */
+  async resolveConflictHunks(
+    workingDir: string,
+    resolutions: HunkResolution[],
+    options: {
+      conflictType?: ConflictResolution['type'];
+      testCommand?: string;
+      message?: string;
+      commit?: boolean;
+    } = {}
+  ): Promise<ConflictHunkResolutionResult> {
+    let result: ConflictHunkResolutionResult | undefined;
+
+    await this.sandbox.executeSafeGitOp(
+      this.directorySandbox(workingDir),
+      async (git: SimpleGit) => {
+        result = await this.applyConflictHunkResolutions(
+          git,
+          workingDir,
+          resolutions,
+          options
+        );
+      }
+    );
+
+    return result!;
+  }
+
+  /**
+   * Resolve merge conflicts hunk by hunk: deterministic resolutions first,
+   * then AI suggestions that meet the confidence threshold
    */
   private async resolveConflictsWithAI(
     git: SimpleGit,
@@ -1029,9 +1783,8 @@ export class GitOperationsManager extends Commander {
     });
 
     try {
-      // Get status to identify conflicted files
-      const status = await git.status();
-      const conflictFiles = status.conflicted;
+      const files = await this.readConflictFiles(git, workingDir);
+      const conflictFiles = files.map((file) => file.file);
 
       if (conflictFiles.length === 0) {
         return {
@@ -1043,55 +1796,68 @@ export class GitOperationsManager extends Commander {
         };
       }
 
+      const resolutions: HunkResolution[] = [];
       const aiSuggestions: ConflictSuggestion[] = [];
 
-      // Process each conflicted file
-      for (const file of conflictFiles) {
-        const filePath = path.join(workingDir, file);
-        const fileContent = await fs.readFile(filePath, 'utf-8');
+      for (const file of files) {
+        const suggestion: ConflictSuggestion = { file: file.file, conflicts: [] };
 
-        if (this.claude && this.config.aiConflictResolution) {
-          const suggestion = await this.getAIConflictSuggestion(
-            file,
-            fileContent
-          );
-          aiSuggestions.push(suggestion);
+        for (const hunk of file.hunks) {
+          const auto = this.autoResolve(hunk);
+          if (auto) {
+            resolutions.push(auto);
+            continue;
+          }
 
-          // Apply AI suggestion if confidence is high
-          if (suggestion.conflicts.every((c) => c.confidence > 0.8)) {
-            await this.applyAISuggestion(filePath, suggestion);
-            await git.add(file);
+          const aiResolution = await this.getAIHunkSuggestion(hunk);
+          if (!aiResolution) {
+            continue;
+          }
+          suggestion.conflicts.push({
+            hunkId: hunk.id,
+            section: conflictSection(file.content, hunk),
+            ourVersion: hunk.ours,
+            theirVersion: hunk.theirs,
+            aiRecommendation: aiResolution.content,
+            confidence: aiResolution.confidence ?? 0,
+            reasoning: aiResolution.reasoning ?? '',
+          });
+          // Applied per hunk, so one uncertain hunk doesn't hold back the rest
+          if ((aiResolution.confidence ?? 0) > AI_CONFIDENCE_THRESHOLD) {
+            resolutions.push(aiResolution);
           }
         }
+
+        if (suggestion.conflicts.length > 0) {
+          aiSuggestions.push(suggestion);
+        }
       }
 
-      // Check if all conflicts were resolved
-      const newStatus = await git.status();
-      const remainingConflicts = newStatus.conflicted;
+      const outcome = await this.applyConflictHunkResolutions(
+        git,
+        workingDir,
+        resolutions,
+        { conflictType }
+      );
 
       const result: ConflictResolution = {
         type: conflictType,
         conflictFiles,
         aiSuggestions,
-        strategy: 'ai-assisted',
-        result:
-          remainingConflicts.length === 0 ? 'resolved' : 'requires-manual',
+        strategy: outcome.applied.some((resolution) => resolution.source === 'ai')
+          ? 'ai-assisted'
+          : 'auto',
+        result: outcome.committed ? 'resolved' : 'requires-manual',
       };
 
-      // Complete the merge/rebase if all conflicts resolved
-      if (remainingConflicts.length === 0) {
-        if (conflictType === 'merge') {
-          await git.commit('AI-resolved merge conflicts');
-        } else if (conflictType === 'rebase') {
-          await git.raw(['rebase', '--continue']);
-        }
-      }
-
       logger.info('🤖 AI conflict resolution completed', {
         commanderId: this.commanderId,
         conflictType,
         originalConflicts: conflictFiles.length,
-        remainingConflicts: remainingConflicts.length,
+        resolvedHunks: outcome.applied.length,
+        remainingHunks: outcome.remaining.length,
+        unmergedFiles: outcome.unmergedFiles.length,
+        testsPassed: outcome.tests?.passed,
         result: result.result,
       });
 
@@ -1113,50 +1879,243 @@ export class GitOperationsManager extends Commander {
     }
   }
 
+  private async applyConflictHunkResolutions(
+    git: SimpleGit,
+    workingDir: string,
+    resolutions: HunkResolution[],
+    options: {
+      conflictType?: ConflictResolution['type'];
+      testCommand?: string;
+      message?: string;
+      commit?: boolean;
+    }
+  ): Promise<ConflictHunkResolutionResult> {
+    const files = await this.readConflictFiles(git, workingDir);
+    const result: ConflictHunkResolutionResult = {
+      applied: [],
+      rejected: [],
+      remaining: [],
+      unmergedFiles: [],
+      committed: false,
+    };
+
+    const accepted = new Map<string, HunkResolution>();
+    for (const resolution of resolutions) {
+      if (typeof resolution.content !== 'string') {
+        result.rejected.push({
+          hunkId: resolution.hunkId,
+          reason: 'Resolution has no content',
+        });
+      } else if (hasConflictMarkers(resolution.content)) {
+        result.rejected.push({
+          hunkId: resolution.hunkId,
+          reason: 'Resolution still contains conflict markers',
+        });
+      } else {
+        accepted.set(resolution.hunkId, resolution);
+      }
+    }
+    // Hunks nobody resolved explicitly fall back to deterministic resolution
+    for (const hunk of files.flatMap((file) => file.hunks)) {
+      const auto = accepted.has(hunk.id) ? undefined : this.autoResolve(hunk);
+      if (auto) {
+        accepted.set(hunk.id, auto);
+      }
+    }
+
+    const knownHunks = new Set(files.flatMap((file) => file.hunks.map((hunk) => hunk.id)));
+    for (const hunkId of accepted.keys()) {
+      if (!knownHunks.has(hunkId)) {
+        result.rejected.push({ hunkId, reason: 'No such conflict hunk' });
+      }
+    }
+
+    const resolvedFiles: string[] = [];
+    for (const file of files) {
+      if (file.hunks.length === 0) {
+        result.unmergedFiles.push(file.file);
+        continue;
+      }
+
+      const { content, applied } = applyHunkResolutions(file.file, file.content, accepted);
+      if (applied.length === 0) {
+        result.remaining.push(...file.hunks);
+        continue;
+      }
+
+      // Re-parse to make sure exactly the unresolved hunks are left
+      const remaining = parseConflictHunks(file.file, content);
+      if (remaining.length !== file.hunks.length - applied.length) {
+        for (const hunkId of applied) {
+          result.rejected.push({ hunkId, reason: 'Resolved file failed to re-parse' });
+        }
+        result.remaining.push(...file.hunks);
+        continue;
+      }
+
+      await fs.writeFile(path.join(workingDir, file.file), content, 'utf-8');
+      result.applied.push(...applied.map((hunkId) => accepted.get(hunkId)!));
+      result.remaining.push(...remaining);
+      if (remaining.length === 0) {
+        await git.add(file.file);
+        resolvedFiles.push(file.file);
+      }
+    }
+
+    if (
+      result.remaining.length > 0 ||
+      result.unmergedFiles.length > 0 ||
+      options.commit === false
+    ) {
+      return result;
+    }
+
+    const testCommand = options.testCommand ?? this.config.conflictTestCommand;
+    if (testCommand) {
+      const testRun = await this.sandbox.execute(testCommand, {
+        cwd: workingDir,
+        timeout: this.config.operationTimeout,
+      });
+      result.tests = {
+        command: testCommand,
+        passed: testRun.success,
+        output: testRun.success ? testRun.output : testRun.error,
+      };
+
+      if (!testRun.success) {
+        // Resolve-undo information lets checkout recreate the conflicts
+        if (resolvedFiles.length > 0) {
+          await git.raw(['checkout', '--merge', '--', ...resolvedFiles]);
+        }
+        logger.warn('⚠️ Conflict resolution failed project tests', {
+          commanderId: this.commanderId,
+          workingDir,
+          testCommand,
+        });
+        return result;
+      }
+    }
+
+    const conflictType =
+      options.conflictType ?? (await this.detectConflictType(git, workingDir));
+    switch (conflictType) {
+      case 'rebase':
+        await git.raw(['-c', 'core.editor=true', 'rebase', '--continue']);
+        break;
+      case 'cherry-pick':
+        await git.raw(['-c', 'core.editor=true', 'cherry-pick', '--continue']);
+        break;
+      default:
+        await git.commit(options.message ?? 'Resolve merge conflicts');
+    }
+    result.committed = true;
+
+    return result;
+  }
+
   /**
-   * Get AI suggestion for conflict resolution
+   * Read and parse every conflicted file in the working directory
    */
-  private async getAIConflictSuggestion(
-    fileName: string,
-    fileContent: string
-  ): Promise<ConflictSuggestion> {
-    if (!this.claude?.messages) {
-      throw new Error('Claude AI not available for conflict resolution');
+  private async readConflictFiles(
+    git: SimpleGit,
+    workingDir: string
+  ): Promise<ConflictFile[]> {
+    const status = await git.status();
+    const files: ConflictFile[] = [];
+
+    for (const file of status.conflicted) {
+      // Conflicted paths can be missing from the working tree, e.g. after
+      // a rename/delete conflict
+      const content = await fs
+        .readFile(path.join(workingDir, file), 'utf-8')
+        .catch(() => '');
+      files.push({ file, content, hunks: parseConflictHunks(file, content) });
     }
 
-    const conflictMarkers = this.parseConflictMarkers(fileContent);
-    const suggestions: ConflictSuggestion['conflicts'] = [];
+    return files;
+  }
 
-    for (const conflict of conflictMarkers) {
-      try {
-        const response = await this.claude.messages.create({
-          model: 'claude-3-5-sonnet-20241022',
-          max_tokens: 4000,
-          messages: [
-            {
-              role: 'user',
-              content: `
-# Git Merge Conflict Resolution
+  private async detectConflictType(
+    git: SimpleGit,
+    workingDir: string
+  ): Promise<ConflictResolution['type']> {
+    const exists = async (gitPath: string) => {
+      const resolved = (await git.raw(['rev-parse', '--git-path', gitPath])).trim();
+      return fs
+        .access(path.resolve(workingDir, resolved))
+        .then(() => true)
+        .catch(() => false);
+    };
+
+    if ((await exists('rebase-merge')) || (await exists('rebase-apply'))) {
+      return 'rebase';
+    }
+    if (await exists('CHERRY_PICK_HEAD')) {
+      return 'cherry-pick';
+    }
+    return 'merge';
+  }
+
+  private autoResolve(hunk: ConflictHunk): HunkResolution | undefined {
+    return autoResolveHunk(hunk, {
+      ignoreWhitespace: this.config.ignoreWhitespaceConflicts,
+    });
+  }
+
+  private directorySandbox(workingDir: string): SandboxEnvironment {
+    return {
+      id: workingDir,
+      path: workingDir,
+      projectId: '',
+      created: new Date(),
+      lastAccess: new Date(),
+    };
+  }
 
-**File**: ${fileName}
+  /**
+   * Get an AI suggestion for a single conflict hunk
+   */
+  private async getAIHunkSuggestion(
+    hunk: ConflictHunk
+  ): Promise<HunkResolution | undefined> {
+    if (!this.claude?.messages || !this.config.aiConflictResolution) {
+      return undefined;
+    }
 
-**Conflict Section**:
+    const baseSection =
+      hunk.base === undefined
+        ? ''
+        : `
+**Common Ancestor**:
 \`\`\`
-${conflict.section}
+${hunk.base}
 \`\`\`
+`;
+
+    try {
+      const response = await this.claude.messages.create({
+        model: 'claude-3-5-sonnet-20241022',
+        max_tokens: 4000,
+        messages: [
+          {
+            role: 'user',
+            content: `
+# Git Merge Conflict Resolution
+
+**File**: ${hunk.file} (lines ${hunk.startLine}-${hunk.endLine})
 
-**Our Version**:
+**Our Version** (${hunk.oursLabel}):
 \`\`\`
-${conflict.ourVersion}
+${hunk.ours}
 \`\`\`
-
-**Their Version**:
+${baseSection}
+**Their Version** (${hunk.theirsLabel}):
 \`\`\`
-${conflict.theirVersion}
+${hunk.theirs}
 \`\`\`
 
 Please analyze this merge conflict and provide:
-1. **Recommended Resolution**: The best way to combine both changes
+1. **Recommended Resolution**: The code that replaces the whole conflict, combining both changes
 2. **Confidence Level**: 0-100% how confident you are in this resolution
 3. **Reasoning**: Why this resolution is best
 
@@ -1169,130 +2128,40 @@ Respond in JSON format:
 }
 \`\`\`
 `,
-            },
-          ],
-        });
+          },
+        ],
+      });
 
-        const content = response.content[0];
-        if (content.type === 'text') {
-          const jsonMatch = content.text.match(/```json\n([\S\s]*?)\n```/);
-          if (jsonMatch) {
-            const aiResponse = JSON.parse(jsonMatch[1]);
-
-            suggestions.push({
-              section: conflict.section,
-              ourVersion: conflict.ourVersion,
-              theirVersion: conflict.theirVersion,
-              aiRecommendation: aiResponse.resolution,
-              confidence: aiResponse.confidence / 100,
-              reasoning: aiResponse.reasoning,
+      const content = response.content[0];
+      if (content.type === 'text') {
+        const jsonMatch = content.text.match(/```json\n([\S\s]*?)\n```/);
+        if (jsonMatch) {
+          const aiResponse = parseAIHunkResponse(JSON.parse(jsonMatch[1]));
+          if (!aiResponse) {
+            logger.warn(`Ignoring malformed AI suggestion for conflict in ${hunk.file}`, {
+              commanderId: this.commanderId,
+              hunkId: hunk.id,
             });
+            return undefined;
           }
+          return {
+            hunkId: hunk.id,
+            content: aiResponse.resolution,
+            source: 'ai',
+            confidence: aiResponse.confidence / 100,
+            reasoning: aiResponse.reasoning,
+          };
         }
-      } catch (error) {
-        logger.warn(`Failed to get AI suggestion for conflict in ${fileName}`, {
-          commanderId: this.commanderId,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-
-        // Fallback suggestion
-        suggestions.push({
-          section: conflict.section,
-          ourVersion: conflict.ourVersion,
-          theirVersion: conflict.theirVersion,
-          aiRecommendation: conflict.ourVersion, // Default to our version
-          confidence: 0.3,
-          reasoning: 'AI analysis failed, defaulting to our version',
-        });
       }
+    } catch (error) {
+      logger.warn(`Failed to get AI suggestion for conflict in ${hunk.file}`, {
+        commanderId: this.commanderId,
+        hunkId: hunk.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
     }
 
-    return {
-      file: fileName,
-      conflicts: suggestions,
-    };
-  }
-
-  /**
-   * Parse git conflict markers from file content
-   */
-  private parseConflictMarkers(content: string): Array<{
-    section: string;
-    ourVersion: string;
-    theirVersion: string;
-  }> {
-    const conflicts: Array<{
-      section: string;
-      ourVersion: string;
-      theirVersion: string;
-    }> = [];
-
-    const lines = content.split('\n');
-    let i = 0;
-
-    while (i < lines.length) {
-      const currentLine = lines[i];
-      if (currentLine && currentLine.startsWith('<<<<<<<')) {
-        const startIndex = i;
-        const ourLines: string[] = [];
-        const theirLines: string[] = [];
-
-        i++; // Skip conflict start marker
-
-        // Read "our" version
-        while (i < lines.length) {
-          const line = lines[i];
-          if (!line||line.startsWith('=======')) {
-            break;
-          }
-          ourLines.push(line);
-          i++;
-        }
-
-        i++; // Skip separator
-
-        // Read "their" version
-        while (i < lines.length) {
-          const line = lines[i];
-          if (!line||line.startsWith('>>>>>>>')) {
-            break;
-          }
-          theirLines.push(line);
-          i++;
-        }
-
-        if (i < lines.length) {
-          const endIndex = i;
-          const section = lines.slice(startIndex, endIndex + 1).join('\n');
-
-          conflicts.push({
-            section,
-            ourVersion: ourLines.join('\n'),
-            theirVersion: theirLines.join('\n'),
-          });
-        }
-      }
-      i++;
-    }
-
-    return conflicts;
-  }
-
-  /**
-   * Apply AI suggestion to resolve conflict
-   */
-  private async applyAISuggestion(
-    filePath: string,
-    suggestion: ConflictSuggestion
-  ): Promise<void> {
-    let content = await fs.readFile(filePath, 'utf-8');
-
-    // Replace each conflict section with AI recommendation
-    for (const conflict of suggestion.conflicts) {
-      content = content.replace(conflict.section, conflict.aiRecommendation);
-    }
-
-    await fs.writeFile(filePath, content, 'utf-8');
+    return undefined;
   }
 
   // ====================================================================
@@ -1332,6 +2201,13 @@ Respond in JSON format:
         nextRun: new Date(),
         enabled: true,
       },
+      {
+        id: 'prune-stale-worktrees',
+        type: 'prune-worktrees',
+        schedule: '30 * * * *', // Hourly
+        nextRun: new Date(),
+        enabled: true,
+      },
     ];
   }
 
@@ -1384,6 +2260,9 @@ Respond in JSON format:
         case 'verify-integrity':
           await this.verifyRepositoryIntegrity();
           break;
+        case 'prune-worktrees':
+          await this.pruneStaleWorktrees();
+          break;
       }
 
       task.lastRun = new Date();
@@ -1826,6 +2705,7 @@ Respond in JSON format:
   getGitSystemStatus(): {
     activeOperations: number;
     totalTrees: number;
+    activeWorktrees: number;
     systemHealth: 'healthy|warning|critical';
     treeStatus: GitTreeStatus;
     recentOperations: GitOperation[];
@@ -1874,6 +2754,7 @@ Respond in JSON format:
     return {
       activeOperations: this.activeOperations.size,
       totalTrees: this.treeMetrics.size,
+      activeWorktrees: this.agentWorktrees.size,
       systemHealth,
       treeStatus: {
         activeTrees: this.treeMetrics.size,
@@ -29,8 +29,25 @@ export type {
   GitCommanderResult as GitOperationsResult,
   RemoteConfig,
   ConflictSuggestion,
+  AgentWorktree,
+  WorktreeSyncResult,
+  ConflictHunkResolutionResult,
 } from './git-operations-manager';
 
+// Export conflict hunk parsing and deterministic resolution
+export {
+  parseConflictHunks,
+  hasConflictMarkers,
+  autoResolveHunk,
+  applyHunkResolutions,
+} from './conflict-hunks';
+export type {
+  ConflictHunk,
+  HunkResolution,
+  ConflictFile,
+  AutoResolveOptions,
+} from './conflict-hunks';
+
 // Export factory functions for common use cases
 export function createEnterpriseGitManager(
   repositoryPath: string
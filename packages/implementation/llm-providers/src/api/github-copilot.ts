@@ -55,6 +55,11 @@ import type {
   APIProviderCapabilities,
   API_ERROR_CODES,
 } from '../types/api-providers';
+import {
+  fromOpenAIToolCalls,
+  toOpenAIMessages,
+  toOpenAIToolFields,
+} from '../tools';
 
 import {
   githubCopilotDB,
@@ -162,10 +167,11 @@ export class GitHubCopilotAPI implements APIProvider {
         },
         body: JSON.stringify({
           model: this.options.model,
-          messages: request.messages,
+          messages: toOpenAIMessages(request.messages),
           max_tokens: this.options.maxTokens,
           temperature: this.options.temperature,
           stream: this.options.stream,
+          ...toOpenAIToolFields(request.tools, request.toolChoice),
         }),
       });
 
@@ -197,6 +203,7 @@ export class GitHubCopilotAPI implements APIProvider {
       return ok({
         success: true,
         content,
+        toolCalls: fromOpenAIToolCalls(data.choices?.[0]?.message?.tool_calls),
         metadata: {
           provider: this.id,
           model: this.options.model,
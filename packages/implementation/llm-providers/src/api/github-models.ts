@@ -29,6 +29,11 @@ import type {
   APIProviderCapabilities,
   API_ERROR_CODES,
 } from '../types/api-providers';
+import {
+  fromOpenAIToolCalls,
+  toOpenAIMessages,
+  toOpenAIToolFields,
+} from '../tools';
 
 import { githubModelsDB, initializeGitHubModelsDB } from './github-models-db';
 
@@ -105,9 +110,10 @@ export class GitHubModelsAPI implements APIProvider {
           },
           body: JSON.stringify({
             model: this.options.model,
-            messages: request.messages,
+            messages: toOpenAIMessages(request.messages),
             max_tokens: this.options.maxTokens,
             temperature: this.options.temperature,
+            ...toOpenAIToolFields(request.tools, request.toolChoice),
           }),
         }
       );
@@ -123,6 +129,7 @@ export class GitHubModelsAPI implements APIProvider {
 
       return ok({
         content,
+        toolCalls: fromOpenAIToolCalls(data.choices?.[0]?.message?.tool_calls),
         metadata: {
           model: this.options.model,
           provider: 'github-models',
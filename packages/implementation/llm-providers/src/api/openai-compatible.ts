@@ -0,0 +1,318 @@
+/**
+ * @fileoverview OpenAI-Compatible API Provider
+ *
+ * Speaks the OpenAI chat-completions wire format against any base URL, so
+ * local model servers (llama.cpp server, vLLM, LM Studio, Ollama's OpenAI
+ * endpoint) and test stubs can be used like any other API provider. Models
+ * are discovered from the server's `/v1/models` endpoint.
+ *
+ * @example Local model server
+ * ```typescript
+ * const registry = ModelRegistryFactory.getInstance();
+ * const local = await registerOpenAICompatibleProvider(registry, {
+ *   id: 'local-llama',
+ *   baseURL: 'http://localhost:8080',
+ * });
+ *
+ * // Make it routable by @claude-zen/llm-routing
+ * addOpenAICompatibleProvider(local.id, {
+ *   baseUrl: local.baseURL,
+ *   models: await local.listModels(),
+ * });
+ * ```
+ */
+
+import { ok, err } from '@claude-zen/foundation';
+import { getLogger } from '@claude-zen/foundation/logging';
+
+import type { ModelRegistry } from '../registry/model-registry';
+import {
+  fromOpenAIToolCalls,
+  toOpenAIMessages,
+  toOpenAIToolFields,
+  type OpenAIToolCall,
+} from '../tools';
+import type {
+  APIError,
+  APIProvider,
+  APIProviderCapabilities,
+  APIRequest,
+  APIResult,
+} from '../types/api-providers';
+import { API_ERROR_CODES } from '../types/api-providers';
+import type { CLIExecuteOptions } from '../types/cli-providers';
+
+const logger = getLogger('OpenAICompatibleAPI');
+
+export interface OpenAICompatibleOptions {
+  /** Server root, with or without the trailing `/v1` */
+  baseURL: string;
+  /** Provider id used by registries and routing (default `openai-compatible-api`) */
+  id?: string;
+  name?: string;
+  /** Sent as `Authorization: Bearer`; most local servers need none */
+  apiKey?: string;
+  /** Default model; the first discovered model when omitted */
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  contextWindow?: number;
+  /** Request timeout in milliseconds */
+  timeout?: number;
+  headers?: Record<string, string>;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string | null; tool_calls?: OpenAIToolCall[] };
+    finish_reason?: string;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+/**
+ * API provider for any server implementing the OpenAI chat-completions API.
+ */
+export class OpenAICompatibleAPI implements APIProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly type = 'api' as const;
+  /** Normalised server root without `/v1` */
+  readonly baseURL: string;
+
+  private options: OpenAICompatibleOptions;
+  private discoveredModels: string[] = [];
+  private requestCount = 0;
+  private lastRequestTime = 0;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.options = {
+      maxTokens: 4096,
+      temperature: 0.7,
+      contextWindow: 8192,
+      timeout: 120000,
+      ...options,
+    };
+    this.id = options.id ?? 'openai-compatible-api';
+    this.name = options.name ?? `OpenAI-compatible API (${options.baseURL})`;
+    this.baseURL = options.baseURL.replace(/\/+$/, '').replace(/\/v1$/, '');
+  }
+
+  /**
+   * Execute a chat completion request
+   */
+  async execute(
+    request: APIRequest,
+    options: CLIExecuteOptions = {}
+  ): Promise<APIResult> {
+    this.requestCount++;
+    this.lastRequestTime = Date.now();
+
+    const model = request.model ?? this.options.model ?? (await this.defaultModel());
+    if (!model) {
+      return err({
+        code: API_ERROR_CODES.MODEL_ERROR,
+        message: `No model configured and none discovered at ${this.baseURL}/v1/models`,
+        details: { provider: this.id },
+      });
+    }
+
+    const startTime = Date.now();
+    try {
+      const response = await fetch(`${this.baseURL}/v1/chat/completions`, {
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify({
+          model,
+          messages: toOpenAIMessages(request.messages),
+          max_tokens: request.maxTokens ?? this.options.maxTokens,
+          temperature: request.temperature ?? this.options.temperature,
+          stream: false,
+          ...toOpenAIToolFields(request.tools, request.toolChoice),
+        }),
+        signal: options.signal
+          ? AbortSignal.any([AbortSignal.timeout(this.options.timeout!), options.signal])
+          : AbortSignal.timeout(this.options.timeout!),
+      });
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        return err(this.httpError(response.status, response.statusText, body));
+      }
+
+      const data = (await response.json()) as ChatCompletionResponse;
+      const choice = data.choices?.[0];
+
+      return ok({
+        content: choice?.message?.content ?? '',
+        toolCalls: fromOpenAIToolCalls(choice?.message?.tool_calls),
+        metadata: {
+          model: data.model ?? model,
+          provider: this.id,
+          finishReason: choice?.finish_reason,
+          usage: {
+            promptTokens: data.usage?.prompt_tokens ?? 0,
+            completionTokens: data.usage?.completion_tokens ?? 0,
+            totalTokens: data.usage?.total_tokens ?? 0,
+          },
+          tokens: data.usage?.total_tokens,
+          executionTime: Date.now() - startTime,
+        },
+      });
+    } catch (error) {
+      const timedOut =
+        error instanceof Error &&
+        (error.name === 'TimeoutError' || error.name === 'AbortError');
+      logger.error(`OpenAI-compatible request to ${this.baseURL} failed:`, error);
+      return err({
+        code: timedOut
+          ? API_ERROR_CODES.TIMEOUT_ERROR
+          : API_ERROR_CODES.NETWORK_ERROR,
+        message: timedOut
+          ? `Request timed out after ${this.options.timeout}ms`
+          : error instanceof Error
+            ? error.message
+            : 'Unknown error',
+        details: { provider: this.id, baseURL: this.baseURL },
+        cause: error instanceof Error ? error : undefined,
+      });
+    }
+  }
+
+  /**
+   * Get provider capabilities; `models` holds the last discovered list
+   */
+  getCapabilities(): APIProviderCapabilities {
+    const configured = this.options.model ? [this.options.model] : [];
+    return {
+      models: this.discoveredModels.length > 0 ? this.discoveredModels : configured,
+      maxTokens: this.options.maxTokens!,
+      contextWindow: this.options.contextWindow!,
+      features: {
+        streaming: false,
+        multimodal: false,
+        reasoning: true,
+        coding: true,
+        planning: true,
+        imageGeneration: false,
+        webAccess: false,
+        customTools: true,
+      },
+      // Self-hosted models have no per-token price
+      pricing: { inputTokens: 0, outputTokens: 0, currency: 'USD' },
+    };
+  }
+
+  getUsageStats(): { requestCount: number; lastRequestTime: number } {
+    return {
+      requestCount: this.requestCount,
+      lastRequestTime: this.lastRequestTime,
+    };
+  }
+
+  /**
+   * Discover models from `/v1/models`. Keeps the previous list when the
+   * server is unreachable.
+   */
+  async listModels(): Promise<string[]> {
+    try {
+      const response = await fetch(`${this.baseURL}/v1/models`, {
+        headers: this.headers(),
+        signal: AbortSignal.timeout(this.options.timeout!),
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as { data?: Array<{ id?: string }> };
+      this.discoveredModels = (data.data ?? [])
+        .map((model) => model.id)
+        .filter((id): id is string => typeof id === 'string' && id.length > 0);
+
+      logger.info(
+        `📋 Discovered ${this.discoveredModels.length} models at ${this.baseURL}`
+      );
+    } catch (error) {
+      logger.warn(`Failed to discover models at ${this.baseURL}/v1/models:`, error);
+    }
+    return this.getCapabilities().models;
+  }
+
+  /**
+   * Health check: the server answers `/v1/models`
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseURL}/v1/models`, {
+        headers: this.headers(),
+        signal: AbortSignal.timeout(5000),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  private async defaultModel(): Promise<string | undefined> {
+    if (this.discoveredModels.length === 0) {
+      await this.listModels();
+    }
+    return this.discoveredModels[0];
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+      ...(this.options.apiKey
+        ? { Authorization: `Bearer ${this.options.apiKey}` }
+        : {}),
+      ...this.options.headers,
+    };
+  }
+
+  private httpError(status: number, statusText: string, body: string): APIError {
+    let code: string = API_ERROR_CODES.NETWORK_ERROR;
+    if (status === 401 || status === 403) {
+      code = API_ERROR_CODES.AUTH_ERROR;
+    } else if (status === 429) {
+      code = API_ERROR_CODES.RATE_LIMIT_ERROR;
+    } else if (status === 404) {
+      code = API_ERROR_CODES.MODEL_ERROR;
+    } else if (status === 400 || status === 422) {
+      code = API_ERROR_CODES.VALIDATION_ERROR;
+    }
+
+    return {
+      code,
+      message: `OpenAI-compatible API error: ${status} ${statusText}`,
+      details: { provider: this.id, baseURL: this.baseURL, status, body },
+    };
+  }
+}
+
+/**
+ * Create OpenAI-compatible API provider instance
+ */
+export function createOpenAICompatibleProvider(
+  options: OpenAICompatibleOptions
+): OpenAICompatibleAPI {
+  return new OpenAICompatibleAPI(options);
+}
+
+/**
+ * Create a provider, discover its models and register it in a ModelRegistry
+ */
+export async function registerOpenAICompatibleProvider(
+  registry: ModelRegistry,
+  options: OpenAICompatibleOptions
+): Promise<OpenAICompatibleAPI> {
+  const provider = createOpenAICompatibleProvider(options);
+  await registry.registerDiscoveredProvider(provider);
+  return provider;
+}
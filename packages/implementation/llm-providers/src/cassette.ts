@@ -0,0 +1,554 @@
+/**
+ * @fileoverview Record/Replay Cassettes for LLM Providers
+ *
+ * Wraps any `CLIProvider` or `APIProvider` so tests can exercise real
+ * prompts offline and deterministically. In `record` mode requests go to
+ * the real provider and normalized request/response pairs are written to a
+ * JSON fixture file; in `replay` mode the fixture answers instead and a
+ * request without a recording throws `CassetteMismatchError`. Streams are
+ * recorded chunk by chunk and replayed in the same order.
+ *
+ * The mode defaults to `LLM_CASSETTE_MODE` (falling back to `replay`), so a
+ * suite is re-recorded with `LLM_CASSETTE_MODE=record pnpm test`.
+ *
+ * @example Packages using getGlobalLLM()
+ * ```typescript
+ * const llm = new LLMProvider('claude-code');
+ * await llm.useCassette({ path: 'tests/fixtures/brain-prompts.cassette.json' });
+ * setGlobalLLM(llm);
+ * ```
+ */
+
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import { Result, ok, err } from '@claude-zen/foundation';
+import { getLogger } from '@claude-zen/foundation/logging';
+
+import {
+  CLIStreamError,
+  createCancelledError,
+  streamFromResult,
+} from './streaming';
+import type {
+  APIError,
+  APIProvider,
+  APIProviderCapabilities,
+  APIRequest,
+  APIResult,
+} from './types/api-providers';
+import type {
+  CLIError,
+  CLIExecuteOptions,
+  CLIMessage,
+  CLIProvider,
+  CLIProviderCapabilities,
+  CLIRequest,
+  CLIResult,
+  CLIStreamChunk,
+  CLIStreamOptions,
+  CLITool,
+  CLIToolChoice,
+  SwarmAgentRole,
+} from './types/cli-providers';
+
+const logger = getLogger('llm-cassette');
+
+const CASSETTE_VERSION = 1;
+
+// Metadata that differs between otherwise identical responses
+const VOLATILE_METADATA_KEYS = [
+  'timestamp',
+  'durationMs',
+  'executionTime',
+  'requestId',
+  'sessionId',
+];
+
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * Request fields compared when replaying. All default to true; turn one
+ * off when it varies between runs without changing the answer.
+ */
+export interface CassetteMatchOptions {
+  messages?: boolean;
+  model?: boolean;
+  temperature?: boolean;
+  /** Current swarm agent role, which changes the system prompt sent */
+  role?: boolean;
+}
+
+export interface CassetteOptions {
+  /** Fixture file, created on record */
+  path: string;
+  mode?: CassetteMode;
+  match?: CassetteMatchOptions;
+}
+
+/**
+ * Normalized request as stored in the fixture
+ */
+export interface CassetteRequest {
+  method: 'execute' | 'executeTask' | 'executeStream';
+  messages: CLIMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  tools?: CLITool[];
+  toolChoice?: CLIToolChoice;
+  role?: string;
+  /** executeTask() options, recorded for reference but never matched */
+  options?: Record<string, unknown>;
+}
+
+/**
+ * Recorded result. For streams `value` is the chunk list, and a failed
+ * stream keeps the chunks that arrived before the error.
+ */
+export type CassetteOutcome =
+  | { ok: true; value: unknown }
+  | { ok: false; error: Omit<CLIError, 'cause'>; chunks?: CLIStreamChunk[] };
+
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  outcome: CassetteOutcome;
+}
+
+interface CassetteFile {
+  version: number;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Thrown in replay mode for a request the cassette has no recording of.
+ */
+export class CassetteMismatchError extends Error {
+  constructor(
+    public readonly request: CassetteRequest,
+    public readonly path: string,
+    recordedCount: number
+  ) {
+    const lastMessage = request.messages.at(-1)?.content ?? '';
+    super(
+      `No recorded ${request.method}() for this request in ${path} ` +
+        `(${recordedCount} recorded interactions; model=${request.model ?? 'default'}, ` +
+        `temperature=${request.temperature ?? 'default'}, role=${request.role ?? 'none'}, ` +
+        `last message="${lastMessage.slice(0, 80)}"). ` +
+        'Re-record with LLM_CASSETTE_MODE=record.'
+    );
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+/**
+ * Fixture file of recorded interactions.
+ */
+export class Cassette {
+  readonly path: string;
+  readonly mode: CassetteMode;
+
+  private match: Required<CassetteMatchOptions>;
+  private interactions: CassetteInteraction[] | null = null;
+  // Replay position per request key, so repeated prompts replay in order
+  private replayPositions = new Map<string, number>();
+  private pendingSave: Promise<void> = Promise.resolve();
+
+  constructor(options: CassetteOptions) {
+    this.path = options.path;
+    this.mode =
+      options.mode ??
+      (process.env['LLM_CASSETTE_MODE'] === 'record' ? 'record' : 'replay');
+    this.match = {
+      messages: true,
+      model: true,
+      temperature: true,
+      role: true,
+      ...options.match,
+    };
+  }
+
+  /**
+   * Record the real call's result, or replay the recorded one.
+   *
+   * @param request - Normalized request.
+   * @param invoke - Real provider call, only made in record mode.
+   * @throws {CassetteMismatchError} In replay mode when nothing matches.
+   */
+  async run<T, E extends CLIError | APIError>(
+    request: CassetteRequest,
+    invoke: () => Promise<Result<T, E>>
+  ): Promise<Result<T, E>> {
+    const interactions = await this.load();
+
+    if (this.mode === 'replay') {
+      const outcome = this.find(request, interactions);
+      return outcome.ok
+        ? ok(outcome.value as T)
+        : err(outcome.error as E);
+    }
+
+    const result = await invoke();
+    interactions.push({
+      request,
+      outcome: result.isOk()
+        ? { ok: true, value: normalizeValue(result.value) }
+        : { ok: false, error: normalizeError(result.error) },
+    });
+    await this.save();
+    return result;
+  }
+
+  /**
+   * Record the real stream's chunks, or replay the recorded ones. Streams
+   * the consumer abandons or that are aborted are not recorded.
+   *
+   * @param request - Normalized request.
+   * @param invoke - Real provider stream, only opened in record mode.
+   * @param signal - Stops a replay between chunks.
+   * @throws {CassetteMismatchError} In replay mode when nothing matches.
+   */
+  async *stream(
+    request: CassetteRequest,
+    invoke: () => AsyncIterable<CLIStreamChunk>,
+    signal?: AbortSignal
+  ): AsyncGenerator<CLIStreamChunk> {
+    const interactions = await this.load();
+
+    if (this.mode === 'replay') {
+      const outcome = this.find(request, interactions);
+      const chunks = outcome.ok
+        ? (outcome.value as CLIStreamChunk[])
+        : (outcome.chunks ?? []);
+      for (const chunk of chunks) {
+        if (signal?.aborted) {
+          throw new CLIStreamError(createCancelledError());
+        }
+        yield chunk;
+      }
+      if (!outcome.ok) {
+        throw new CLIStreamError(outcome.error);
+      }
+      return;
+    }
+
+    const chunks: CLIStreamChunk[] = [];
+    try {
+      for await (const chunk of invoke()) {
+        chunks.push(normalizeValue(chunk) as CLIStreamChunk);
+        yield chunk;
+      }
+    } catch (error) {
+      if (error instanceof CLIStreamError) {
+        interactions.push({
+          request,
+          outcome: { ok: false, error: normalizeError(error.error), chunks },
+        });
+        await this.save();
+      }
+      throw error;
+    }
+    interactions.push({ request, outcome: { ok: true, value: chunks } });
+    await this.save();
+  }
+
+  /**
+   * Wait for pending writes of recorded interactions.
+   */
+  async flush(): Promise<void> {
+    await this.pendingSave;
+  }
+
+  private find(
+    request: CassetteRequest,
+    interactions: CassetteInteraction[]
+  ): CassetteOutcome {
+    const key = this.keyOf(request);
+    const candidates = interactions.filter((i) => this.keyOf(i.request) === key);
+    if (candidates.length === 0) {
+      throw new CassetteMismatchError(request, this.path, interactions.length);
+    }
+
+    // Once the recordings are used up the last one keeps answering
+    const position = this.replayPositions.get(key) ?? 0;
+    this.replayPositions.set(key, position + 1);
+    return candidates[Math.min(position, candidates.length - 1)]!.outcome;
+  }
+
+  private keyOf(request: CassetteRequest): string {
+    return JSON.stringify([
+      request.method,
+      this.match.messages
+        ? [request.messages, request.tools ?? null, request.toolChoice ?? null]
+        : null,
+      this.match.model ? (request.model ?? null) : null,
+      this.match.temperature ? (request.temperature ?? null) : null,
+      this.match.role ? (request.role ?? null) : null,
+    ]);
+  }
+
+  private async load(): Promise<CassetteInteraction[]> {
+    if (this.interactions) {
+      return this.interactions;
+    }
+
+    if (this.mode === 'record') {
+      // Recording replaces the previous fixture
+      this.interactions = [];
+      logger.info(`📼 Recording LLM cassette ${this.path}`);
+      return this.interactions;
+    }
+
+    if (!existsSync(this.path)) {
+      throw new Error(
+        `LLM cassette not found: ${this.path}. Record it with LLM_CASSETTE_MODE=record.`
+      );
+    }
+    const file = JSON.parse(await readFile(this.path, 'utf8')) as CassetteFile;
+    if (file.version !== CASSETTE_VERSION) {
+      throw new Error(
+        `Unsupported LLM cassette version ${file.version} in ${this.path}`
+      );
+    }
+    this.interactions = file.interactions;
+    return this.interactions;
+  }
+
+  private save(): Promise<void> {
+    const file: CassetteFile = {
+      version: CASSETTE_VERSION,
+      interactions: this.interactions ?? [],
+    };
+    // Chain writes so concurrent requests cannot interleave them
+    this.pendingSave = this.pendingSave.then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(this.path, `${JSON.stringify(file, null, 2)}\n`);
+    });
+    return this.pendingSave;
+  }
+}
+
+/**
+ * Wrap a CLI provider with a cassette.
+ *
+ * @param provider
+ * @param cassette - Cassette or options to create one.
+ */
+export function createCLICassette(
+  provider: CLIProvider,
+  cassette: Cassette | CassetteOptions
+): CLIProvider {
+  return new CassetteCLIProvider(provider, toCassette(cassette));
+}
+
+/**
+ * Wrap an API provider with a cassette.
+ *
+ * @param provider
+ * @param cassette - Cassette or options to create one.
+ */
+export function createAPICassette(
+  provider: APIProvider,
+  cassette: Cassette | CassetteOptions
+): APIProvider {
+  return new CassetteAPIProvider(provider, toCassette(cassette));
+}
+
+class CassetteCLIProvider implements CLIProvider {
+  readonly id: string;
+  readonly name: string;
+
+  private requestCount = 0;
+  private lastRequestTime = 0;
+
+  constructor(
+    private readonly provider: CLIProvider,
+    private readonly cassette: Cassette
+  ) {
+    this.id = provider.id;
+    this.name = provider.name;
+  }
+
+  getCapabilities(): CLIProviderCapabilities {
+    return this.provider.getCapabilities();
+  }
+
+  async execute(request: CLIRequest, options?: CLIExecuteOptions): Promise<CLIResult> {
+    this.countRequest();
+    return this.cassette.run(
+      {
+        ...normalizeRequest(request),
+        method: 'execute',
+        role: this.provider.getRole()?.role,
+      },
+      () => this.provider.execute(request, options)
+    );
+  }
+
+  executeStream(
+    request: CLIRequest,
+    options: CLIStreamOptions = {}
+  ): AsyncIterable<CLIStreamChunk> {
+    const { executeStream } = this.provider;
+    if (!executeStream) {
+      // Same fallback LLMProvider uses, so it records as an execute()
+      return streamFromResult(() => this.execute(request));
+    }
+
+    this.countRequest();
+    return this.cassette.stream(
+      {
+        ...normalizeRequest(request),
+        method: 'executeStream',
+        role: this.provider.getRole()?.role,
+      },
+      () => executeStream.call(this.provider, request, options),
+      options.signal
+    );
+  }
+
+  setRole(roleName: string): Result<void, CLIError> {
+    return this.provider.setRole(roleName);
+  }
+
+  getRole(): SwarmAgentRole | undefined {
+    return this.provider.getRole();
+  }
+
+  async complete(
+    prompt: string,
+    options?: Partial<CLIRequest>
+  ): Promise<Result<string, CLIError>> {
+    const result = await this.execute({
+      messages: [{ role: 'user', content: prompt }],
+      ...options,
+    });
+    return result.isErr() ? err(result.error) : ok(result.value.content);
+  }
+
+  async executeTask(
+    prompt: string,
+    options: Record<string, unknown> = {}
+  ): Promise<Result<unknown, CLIError>> {
+    this.countRequest();
+    return this.cassette.run(
+      {
+        method: 'executeTask',
+        messages: [{ role: 'user', content: normalizeContent(prompt) }],
+        model: typeof options['model'] === 'string' ? options['model'] : undefined,
+        role: this.provider.getRole()?.role,
+        options: normalizeValue(options) as Record<string, unknown>,
+      },
+      () => this.provider.executeTask(prompt, options)
+    );
+  }
+
+  getUsageStats(): { requestCount: number; lastRequestTime: number } {
+    return {
+      requestCount: this.requestCount,
+      lastRequestTime: this.lastRequestTime,
+    };
+  }
+
+  private countRequest(): void {
+    this.requestCount++;
+    this.lastRequestTime = Date.now();
+  }
+}
+
+class CassetteAPIProvider implements APIProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly type = 'api' as const;
+
+  private requestCount = 0;
+  private lastRequestTime = 0;
+
+  constructor(
+    private readonly provider: APIProvider,
+    private readonly cassette: Cassette
+  ) {
+    this.id = provider.id;
+    this.name = provider.name;
+  }
+
+  getCapabilities(): APIProviderCapabilities {
+    return this.provider.getCapabilities();
+  }
+
+  async execute(request: APIRequest, options?: CLIExecuteOptions): Promise<APIResult> {
+    this.requestCount++;
+    this.lastRequestTime = Date.now();
+    return this.cassette.run(
+      { ...normalizeRequest(request), method: 'execute' },
+      () => this.provider.execute(request, options)
+    );
+  }
+
+  async listModels(): Promise<string[]> {
+    // Replay stays offline
+    return this.cassette.mode === 'record'
+      ? this.provider.listModels()
+      : this.provider.getCapabilities().models;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return this.cassette.mode === 'record' ? this.provider.healthCheck() : true;
+  }
+
+  getUsageStats(): { requestCount: number; lastRequestTime: number } {
+    return {
+      requestCount: this.requestCount,
+      lastRequestTime: this.lastRequestTime,
+    };
+  }
+}
+
+function toCassette(cassette: Cassette | CassetteOptions): Cassette {
+  return cassette instanceof Cassette ? cassette : new Cassette(cassette);
+}
+
+// The request fields that decide the response; also keys the response cache
+export function normalizeRequest(
+  request: CLIRequest | APIRequest
+): Omit<CassetteRequest, 'method'> {
+  return {
+    messages: request.messages.map((message) => ({
+      ...message,
+      content: normalizeContent(message.content),
+    })),
+    model: request.model,
+    temperature: request.temperature,
+    maxTokens: request.maxTokens,
+    tools: request.tools,
+    toolChoice: request.toolChoice,
+  };
+}
+
+// Line endings and trailing whitespace don't change the prompt's meaning
+function normalizeContent(content: string): string {
+  return content.replace(/\r\n/g, '\n').replace(/[ \t]+$/gm, '').trim();
+}
+
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined) {
+    return undefined;
+  }
+  const copy = JSON.parse(JSON.stringify(value)) as unknown;
+  if (copy && typeof copy === 'object' && 'metadata' in copy) {
+    const metadata = (copy as { metadata?: Record<string, unknown> }).metadata;
+    for (const key of VOLATILE_METADATA_KEYS) {
+      delete metadata?.[key];
+    }
+  }
+  return copy;
+}
+
+function normalizeError(error: CLIError | APIError): Omit<CLIError, 'cause'> {
+  return {
+    code: error.code,
+    message: error.message,
+    details: normalizeValue(error.details) as Record<string, unknown> | undefined,
+  };
+}
@@ -14,12 +14,21 @@ import type {
   CLIResponse,
   CLIResult,
   CLIError,
+  CLIExecuteOptions,
   SwarmAgentRole,
   CLIProviderCapabilities,
+  CLIStreamChunk,
+  CLIStreamOptions,
   CLI_ERROR_CODES,
 } from '../types/cli-providers';
 
-import { executeClaudeTask, type ClaudeSDKOptions } from './claude-sdk';
+import { extractToolCalls, withPromptTools } from '../tools';
+
+import {
+  executeClaudeTask,
+  streamClaudeMessages,
+  type ClaudeSDKOptions,
+} from './claude-sdk';
 
 const logger = getLogger('claude-provider');
 
@@ -128,7 +137,7 @@ export class ClaudeProvider implements CLIProvider {
         codeExecution: true,
         imageGeneration: false,
         multimodal: true,
-        streaming: false,
+        streaming: true,
         customTools: true,
         contextWindow: true, // Large context window
         reasoning: true, // Excellent reasoning
@@ -172,22 +181,29 @@ export class ClaudeProvider implements CLIProvider {
     return this.currentRole;
   }
 
-  async execute(request: CLIRequest): Promise<CLIResult> {
+  async execute(
+    request: CLIRequest,
+    options: CLIExecuteOptions = {}
+  ): Promise<CLIResult> {
     this.requestCount++;
     this.lastRequestTime = Date.now();
 
-    // Add role system prompt if set
-    const messages = [...request.messages];
-    if (this.currentRole && messages[0]?.role !=='system') {
-      messages.unshift({
-        role: 'system',
-        content: this.currentRole.systemPrompt,
-      });
-    }
+    // Claude Code has no custom tool definitions, so tools go through the prompt
+    const messages = withPromptTools(
+      this.withRoleSystemPrompt(request.messages),
+      request.tools,
+      request.toolChoice
+    );
 
     try {
-      const response = await this.callClaudeCodeCLI({ ...request, messages });
-      return ok(response);
+      const response = await this.callClaudeCodeCLI(
+        { ...request, messages },
+        options.signal
+      );
+      return ok({
+        ...response,
+        ...extractToolCalls(response.content, request.tools),
+      });
     } catch (error) {
       const cliError: CLIError = {
         code: CLI_ERROR_CODES.UNKNOWN_ERROR,
@@ -225,6 +241,54 @@ export class ClaudeProvider implements CLIProvider {
     }
   }
 
+  // Stream assistant output as Claude Code produces it; errors are thrown
+  async *executeStream(
+    request: CLIRequest,
+    options: CLIStreamOptions = {}
+  ): AsyncGenerator<CLIStreamChunk> {
+    this.requestCount++;
+    this.lastRequestTime = Date.now();
+
+    const prompt = this.buildPrompt(this.withRoleSystemPrompt(request.messages));
+    const model = request.model === 'opus' ? 'opus' : 'sonnet';
+    const sdkOptions: ClaudeSDKOptions = {
+      model,
+      timeout: 1800000, // 30 minute timeout for complex tasks
+    };
+    if (this.currentRole?.systemPrompt) {
+      sdkOptions.systemPrompt = this.currentRole.systemPrompt;
+    }
+
+    let completion = '';
+    for await (const message of streamClaudeMessages(
+      prompt,
+      sdkOptions,
+      options.signal
+    )) {
+      if (message.type !== 'assistant' || !message.content) continue;
+      completion += message.content;
+      yield { delta: message.content, done: false };
+    }
+
+    const promptTokens = Math.floor(prompt.length / 4); // Rough estimate
+    const completionTokens = Math.floor(completion.length / 4);
+    yield {
+      delta: '',
+      done: true,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      metadata: {
+        provider: 'claude-code-cli',
+        model: `claude-3-${model}-20240229`,
+        timestamp: Date.now(),
+        role: this.currentRole?.role,
+      },
+    };
+  }
+
   // Role-specific helper methods with Result pattern
   executeAsAssistant(
     prompt: string,
@@ -405,9 +469,22 @@ export class ClaudeProvider implements CLIProvider {
     return stats;
   }
 
-  private async callClaudeCodeCLI(request: CLIRequest): Promise<CLIResponse> {
-    // Use actual Claude Code SDK integration
-    const prompt = request.messages
+  // Add role system prompt if set
+  private withRoleSystemPrompt(
+    messages: CLIRequest['messages']
+  ): CLIRequest['messages'] {
+    const result = [...messages];
+    if (this.currentRole && result[0]?.role !=='system') {
+      result.unshift({
+        role: 'system',
+        content: this.currentRole.systemPrompt,
+      });
+    }
+    return result;
+  }
+
+  private buildPrompt(messages: CLIRequest['messages']): string {
+    return messages
       .map((m) => {
         if (m.role === 'system') {
           return m.content;
@@ -415,6 +492,14 @@ export class ClaudeProvider implements CLIProvider {
         return `${m.role}: ${m.content}`;
       })
       .join('\n\n');
+  }
+
+  private async callClaudeCodeCLI(
+    request: CLIRequest,
+    signal?: AbortSignal
+  ): Promise<CLIResponse> {
+    // Use actual Claude Code SDK integration
+    const prompt = this.buildPrompt(request.messages);
 
     // Always default to sonnet unless opus explicitly requested
     const model = request.model === 'opus' ? 'opus' : 'sonnet';
@@ -422,6 +507,7 @@ export class ClaudeProvider implements CLIProvider {
     const sdkOptions: ClaudeSDKOptions = {
       model,
       timeout: 1800000, // 30 minute timeout for complex tasks
+      signal,
     };
 
     // Add optional properties only if they have values
@@ -73,6 +73,11 @@ export async function executeClaudeTask(
   const timeoutId = setTimeout(() => {
     controller.abort();
   }, config.timeout);
+  const abort = () => controller.abort();
+  if (config.signal?.aborted) {
+    controller.abort();
+  }
+  config.signal?.addEventListener('abort', abort, { once: true });
 
   try {
     logger.info(`Executing Claude task with model: ${config.model}`);
@@ -177,6 +182,7 @@ export async function executeClaudeTask(
     );
   } finally {
     clearTimeout(timeoutId);
+    config.signal?.removeEventListener('abort', abort);
   }
 }
 
@@ -200,7 +206,72 @@ export function executeSwarmCoordinationTask(
 }
 
 /**
- * Stream Claude task (simplified implementation for foundation)
+ * Stream Claude messages as the SDK produces them. Aborting `signal` (or
+ * reaching the configured timeout) cancels the underlying query.
+ */
+export async function* streamClaudeMessages(
+  prompt: string,
+  options: ClaudeSDKOptions = {},
+  signal?: AbortSignal
+): AsyncGenerator<ClaudeMessage> {
+  validateTaskInputs(prompt, options);
+
+  const config = { ...DEFAULT_SDK_OPTIONS, ...options, stream: true };
+  const workingDirectory = resolveWorkingDirectory(config.workingDirectory);
+  const permissionHandler = await createPermissionHandler(
+    config.permissionMode,
+    config.customPermissionHandler
+  );
+
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (signal?.aborted) {
+    controller.abort();
+  }
+  signal?.addEventListener('abort', abort, { once: true });
+  const timeoutId = setTimeout(abort, config.timeout);
+
+  try {
+    logger.info(`Streaming Claude task with model: ${config.model}`);
+
+    const response: unknown = await query([{ role: 'user', content: prompt }], {
+      model: config.model,
+      maxTokens: config.maxTokens,
+      temperature: config.temperature,
+      topP: config.topP,
+      stream: true,
+      workingDirectory,
+      systemPrompt: config.systemPrompt,
+      signal: controller.signal,
+      canUseTool: permissionHandler,
+    });
+
+    // The SDK yields messages incrementally; older builds resolve to a batch
+    const rawMessages: AsyncIterable<unknown> | Iterable<unknown> =
+      response && typeof response === 'object' && Symbol.asyncIterator in response
+        ? (response as AsyncIterable<unknown>)
+        : Array.isArray(response)
+          ? response
+          : [response];
+
+    let index = 0;
+    for await (const raw of rawMessages) {
+      if (controller.signal.aborted) {
+        throw new Error('Claude stream cancelled');
+      }
+      const message = processClaudeMessage(raw, index++);
+      if (validateProcessedMessage(message)) {
+        yield message;
+      }
+    }
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abort);
+  }
+}
+
+/**
+ * Stream Claude task, calling onMessage for each message as it arrives
  */
 export async function streamClaudeTask(
   prompt: string,
@@ -209,19 +280,10 @@ export async function streamClaudeTask(
 ): Promise<ClaudeMessage[]> {
   logger.info('Starting Claude task streaming');
 
-  const streamOptions = {
-    ...options,
-    stream: true,
-  };
-
-  // For foundation, we'll simulate streaming by executing normally
-  // and calling onMessage for each result
-  const messages = await executeClaudeTask(prompt, streamOptions);
-
-  if (onMessage) {
-    for (const message of messages) {
-      onMessage(message);
-    }
+  const messages: ClaudeMessage[] = [];
+  for await (const message of streamClaudeMessages(prompt, options)) {
+    messages.push(message);
+    onMessage?.(message);
   }
 
   return messages;
@@ -65,6 +65,8 @@ export interface ClaudeSDKOptions extends BaseClaudeCodeOptions {
   preserveHistory?: boolean;
   sessionId?: string;
   dangerouslySkipPermissions?: boolean;
+  /** Aborts the task like the timeout does */
+  signal?: AbortSignal;
 }
 
 // =============================================================================
@@ -149,8 +151,8 @@ export const DEFAULT_TIMEOUTS = {
 } as const;
 
 export const DEFAULT_SDK_OPTIONS: Omit<
-  Required<ClaudeSDKOptions>,'customPermissionHandler'
-> & { customPermissionHandler?: CanUseTool } = {
+  Required<ClaudeSDKOptions>,'customPermissionHandler' | 'signal'
+> & { customPermissionHandler?: CanUseTool; signal?: AbortSignal } = {
   model: 'claude-3-sonnet',
   maxTokens: 4096,
   temperature: 0.7,
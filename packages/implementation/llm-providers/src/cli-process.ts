@@ -0,0 +1,515 @@
+/**
+ * @fileoverview Spawned CLI Providers
+ *
+ * Shared machinery for CLI providers that run an external command per
+ * request (Gemini CLI, Cursor CLI): process spawning with timeouts and
+ * cancellation, role prompts from the swarm agent roles, error mapping and
+ * usage accounting. Subclasses only describe how to invoke their CLI and
+ * how to parse its structured output.
+ */
+
+import { spawn } from 'node:child_process';
+
+import { Result, ok, err } from '@claude-zen/foundation';
+import { getLogger } from '@claude-zen/foundation/logging';
+
+import { CLAUDE_SWARM_AGENT_ROLES } from './claude/claude-provider';
+import { extractToolCalls, withPromptTools } from './tools';
+import type {
+  CLIError,
+  CLIExecuteOptions,
+  CLIMessage,
+  CLIProvider,
+  CLIProviderCapabilities,
+  CLIRequest,
+  CLIResult,
+  CLIUsage,
+  SwarmAgentRole,
+} from './types/cli-providers';
+import { CLI_ERROR_CODES } from './types/cli-providers';
+
+const logger = getLogger('cli-process');
+
+// Grace period between SIGTERM and SIGKILL for a timed-out CLI
+const KILL_GRACE_MS = 5000;
+// Keep error messages readable when a CLI dumps a lot to stderr
+const MAX_ERROR_OUTPUT = 2000;
+
+export interface CLIProcessOptions {
+  command: string;
+  args: string[];
+  /** Written to stdin, which is then closed */
+  input?: string;
+  cwd?: string;
+  env?: Record<string, string>;
+  timeout: number;
+  signal?: AbortSignal;
+}
+
+export interface CLIProcessResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  durationMs: number;
+}
+
+/**
+ * A CLI that could not be started, timed out, was cancelled or exited
+ * with a failure status.
+ */
+export class CLIProcessError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly result?: Partial<CLIProcessResult>
+  ) {
+    super(message);
+    this.name = 'CLIProcessError';
+  }
+}
+
+/**
+ * Run a command to completion, collecting its output.
+ *
+ * @param options
+ * @throws {CLIProcessError} When the command is missing, times out or is cancelled.
+ */
+export function runCLIProcess(options: CLIProcessOptions): Promise<CLIProcessResult> {
+  const startTime = Date.now();
+
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(
+        new CLIProcessError(
+          `${options.command} cancelled`,
+          CLI_ERROR_CODES.CANCELLED_ERROR
+        )
+      );
+      return;
+    }
+
+    const child = spawn(options.command, options.args, {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    let stdout = '';
+    let stderr = '';
+    let failure: CLIProcessError | undefined;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    const terminate = (error: CLIProcessError) => {
+      failure ??= error;
+      child.kill('SIGTERM');
+      killTimer = setTimeout(() => child.kill('SIGKILL'), KILL_GRACE_MS);
+      killTimer.unref();
+    };
+
+    const timeoutTimer = setTimeout(
+      () =>
+        terminate(
+          new CLIProcessError(
+            `${options.command} timeout after ${options.timeout}ms`,
+            CLI_ERROR_CODES.TIMEOUT_ERROR
+          )
+        ),
+      options.timeout
+    );
+    const onAbort = () =>
+      terminate(
+        new CLIProcessError(
+          `${options.command} cancelled`,
+          CLI_ERROR_CODES.CANCELLED_ERROR
+        )
+      );
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const cleanup = () => {
+      clearTimeout(timeoutTimer);
+      clearTimeout(killTimer);
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+
+    child.stdout.setEncoding('utf8').on('data', (chunk: string) => {
+      stdout += chunk;
+    });
+    child.stderr.setEncoding('utf8').on('data', (chunk: string) => {
+      stderr += chunk;
+    });
+    // The CLI may exit before reading all of stdin
+    child.stdin.on('error', () => undefined);
+    child.stdin.end(options.input ?? '');
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      cleanup();
+      reject(
+        error.code === 'ENOENT'
+          ? new CLIProcessError(
+              `${options.command} not found on PATH`,
+              CLI_ERROR_CODES.CLI_NOT_FOUND
+            )
+          : new CLIProcessError(error.message, CLI_ERROR_CODES.UNKNOWN_ERROR)
+      );
+    });
+
+    child.on('close', (exitCode) => {
+      cleanup();
+      const result = { stdout, stderr, exitCode, durationMs: Date.now() - startTime };
+      if (failure) {
+        reject(new CLIProcessError(failure.message, failure.code, result));
+      } else {
+        resolve(result);
+      }
+    });
+  });
+}
+
+/**
+ * Invocation of a CLI for one request.
+ */
+export interface CLIInvocation {
+  args: string[];
+  input?: string;
+  env?: Record<string, string>;
+}
+
+/**
+ * Structured result parsed from a CLI's output.
+ */
+export interface ParsedCLIOutput {
+  content: string;
+  /** Omitted when the CLI does not report token counts */
+  usage?: CLIUsage;
+  model?: string;
+  /** Full parsed output, returned by executeTask() */
+  raw?: unknown;
+}
+
+export interface SpawnedCLIProviderOptions {
+  /** Executable name or path */
+  command?: string;
+  model?: string;
+  /** Per-request timeout in milliseconds */
+  timeout?: number;
+  cwd?: string;
+  env?: Record<string, string>;
+  /** Extra arguments appended to every invocation */
+  extraArgs?: string[];
+}
+
+export interface SpawnedCLIUsageStats {
+  requestCount: number;
+  lastRequestTime: number;
+  currentRole?: string;
+  errorCount: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Requests whose token counts were estimated from text length */
+  estimatedRequests: number;
+  totalDurationMs: number;
+}
+
+/**
+ * Base class for CLI providers that spawn one process per request.
+ */
+export abstract class SpawnedCLIProvider implements CLIProvider {
+  abstract readonly id: string;
+  abstract readonly name: string;
+
+  protected readonly options: Required<SpawnedCLIProviderOptions>;
+
+  private currentRole: SwarmAgentRole | undefined;
+  private stats: Omit<SpawnedCLIUsageStats, 'currentRole'> = {
+    requestCount: 0,
+    lastRequestTime: 0,
+    errorCount: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    estimatedRequests: 0,
+    totalDurationMs: 0,
+  };
+
+  constructor(
+    defaults: { command: string; model: string },
+    options: SpawnedCLIProviderOptions = {},
+    private readonly roles: Record<string, SwarmAgentRole> = CLAUDE_SWARM_AGENT_ROLES
+  ) {
+    this.options = {
+      timeout: 300000, // 5 minutes
+      cwd: process.cwd(),
+      env: {},
+      extraArgs: [],
+      ...defaults,
+      ...options,
+    };
+    this.currentRole = this.roles['assistant'];
+  }
+
+  abstract getCapabilities(): CLIProviderCapabilities;
+
+  /**
+   * Arguments, stdin and environment for one request.
+   *
+   * @param prompt - Full prompt including the role prompt.
+   * @param model
+   * @param task - True for executeTask(), which may let the CLI use tools.
+   * @param taskOptions - Options passed to executeTask().
+   */
+  protected abstract buildInvocation(
+    prompt: string,
+    model: string,
+    task: boolean,
+    taskOptions: Record<string, unknown>
+  ): CLIInvocation;
+
+  /**
+   * Parse the CLI's stdout.
+   *
+   * @throws {CLIProcessError} When the output reports a failure.
+   */
+  protected abstract parseOutput(stdout: string, model: string): ParsedCLIOutput;
+
+  setRole(roleName: string): Result<void, CLIError> {
+    if (!(roleName in this.roles)) {
+      return err({
+        code: CLI_ERROR_CODES.ROLE_ERROR,
+        message: `Invalid role: ${roleName}`,
+        details: {
+          providerId: this.id,
+          availableRoles: Object.keys(this.roles),
+        },
+      });
+    }
+
+    this.currentRole = this.roles[roleName];
+    return ok();
+  }
+
+  getRole(): SwarmAgentRole | undefined {
+    return this.currentRole;
+  }
+
+  async execute(
+    request: CLIRequest,
+    options: CLIExecuteOptions = {}
+  ): Promise<CLIResult> {
+    const model = request.model ?? this.options.model;
+    const result = await this.run(
+      this.buildPrompt(request.messages, request),
+      model,
+      false,
+      { signal: options.signal }
+    );
+    if (result.isErr()) {
+      return err(result.error);
+    }
+
+    const { usage, durationMs, estimated } = result.value;
+    return ok({
+      ...extractToolCalls(result.value.content, request.tools),
+      metadata: {
+        provider: this.id,
+        model: result.value.model ?? model,
+        timestamp: Date.now(),
+        durationMs,
+        usage,
+        estimatedUsage: estimated,
+        role: this.currentRole?.role,
+      },
+    });
+  }
+
+  async complete(
+    prompt: string,
+    options?: Partial<CLIRequest>
+  ): Promise<Result<string, CLIError>> {
+    const result = await this.execute({
+      messages: [{ role: 'user', content: prompt }],
+      ...options,
+    });
+    return result.isErr() ? err(result.error) : ok(result.value.content);
+  }
+
+  async executeTask(
+    prompt: string,
+    options: Record<string, unknown> = {}
+  ): Promise<Result<unknown, CLIError>> {
+    const model = typeof options['model'] === 'string' ? options['model'] : this.options.model;
+    const result = await this.run(
+      this.buildPrompt([{ role: 'user', content: prompt }]),
+      model,
+      true,
+      options
+    );
+    if (result.isErr()) {
+      return err(result.error);
+    }
+
+    const { content, usage, raw, durationMs } = result.value;
+    return ok({ content, usage, model: result.value.model ?? model, durationMs, raw });
+  }
+
+  getUsageStats(): SpawnedCLIUsageStats {
+    return { ...this.stats, currentRole: this.currentRole?.role };
+  }
+
+  private buildPrompt(
+    messages: CLIMessage[],
+    { tools, toolChoice }: Pick<CLIRequest, 'tools' | 'toolChoice'> = {}
+  ): string {
+    const withRole =
+      this.currentRole && messages[0]?.role !== 'system'
+        ? [{ role: 'system' as const, content: this.currentRole.systemPrompt }, ...messages]
+        : messages;
+    return withPromptTools(withRole, tools, toolChoice)
+      .map((m) => (m.role === 'system' ? m.content : `${m.role}: ${m.content}`))
+      .join('\n\n');
+  }
+
+  private async run(
+    prompt: string,
+    model: string,
+    task: boolean,
+    taskOptions: Record<string, unknown>
+  ): Promise<
+    Result<
+      ParsedCLIOutput & { usage: CLIUsage; durationMs: number; estimated: boolean },
+      CLIError
+    >
+  > {
+    this.stats.requestCount++;
+    this.stats.lastRequestTime = Date.now();
+
+    const invocation = this.buildInvocation(prompt, model, task, taskOptions);
+    try {
+      const processResult = await runCLIProcess({
+        command: this.options.command,
+        args: [...invocation.args, ...this.options.extraArgs],
+        input: invocation.input,
+        cwd: this.options.cwd,
+        env: { ...this.options.env, ...invocation.env },
+        timeout: this.options.timeout,
+        signal: taskOptions['signal'] as AbortSignal | undefined,
+      });
+      this.stats.totalDurationMs += processResult.durationMs;
+
+      // A failed CLI that printed nothing on stdout only explains itself on stderr
+      if (processResult.exitCode !== 0 && !processResult.stdout.trim()) {
+        throw new CLIProcessError(
+          `${this.options.command} exited with code ${processResult.exitCode}: ${tail(processResult.stderr)}`,
+          codeFromMessage(processResult.stderr),
+          processResult
+        );
+      }
+      const parsed = this.parseOutput(processResult.stdout, model);
+
+      const estimated = parsed.usage === undefined;
+      const usage = parsed.usage ?? estimateUsage(prompt, parsed.content);
+      this.stats.promptTokens += usage.promptTokens;
+      this.stats.completionTokens += usage.completionTokens;
+      this.stats.totalTokens += usage.totalTokens;
+      if (estimated) {
+        this.stats.estimatedRequests++;
+      }
+
+      return ok({ ...parsed, usage, durationMs: processResult.durationMs, estimated });
+    } catch (error) {
+      this.stats.errorCount++;
+      const cliError: CLIError = {
+        code:
+          error instanceof CLIProcessError
+            ? error.code
+            : CLI_ERROR_CODES.UNKNOWN_ERROR,
+        message: `${this.name} request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        details: {
+          providerId: this.id,
+          command: this.options.command,
+          model,
+          currentRole: this.currentRole?.role,
+          exitCode:
+            error instanceof CLIProcessError ? error.result?.exitCode : undefined,
+        },
+        cause: error instanceof Error ? error : undefined,
+      };
+      logger.error(`${this.name} call failed`, { error: cliError });
+      return err(cliError);
+    }
+  }
+}
+
+/**
+ * Map a CLI's error text to a CLI error code.
+ *
+ * @param message
+ */
+export function codeFromMessage(message: string): string {
+  const lowerMessage = message.toLowerCase();
+  if (lowerMessage.includes('timeout') || lowerMessage.includes('timed out')) {
+    return CLI_ERROR_CODES.TIMEOUT_ERROR;
+  }
+  if (
+    lowerMessage.includes('auth') ||
+    lowerMessage.includes('unauthorized') ||
+    lowerMessage.includes('login')
+  ) {
+    return CLI_ERROR_CODES.AUTH_ERROR;
+  }
+  if (
+    lowerMessage.includes('rate limit') ||
+    lowerMessage.includes('quota') ||
+    lowerMessage.includes('429')
+  ) {
+    return CLI_ERROR_CODES.RATE_LIMIT_ERROR;
+  }
+  if (lowerMessage.includes('model')) {
+    return CLI_ERROR_CODES.MODEL_ERROR;
+  }
+  if (lowerMessage.includes('network') || lowerMessage.includes('connection')) {
+    return CLI_ERROR_CODES.NETWORK_ERROR;
+  }
+  return CLI_ERROR_CODES.UNKNOWN_ERROR;
+}
+
+/**
+ * Parse JSON printed by a CLI, skipping any log lines it writes before the
+ * JSON document.
+ *
+ * @param stdout
+ * @throws {CLIProcessError} When no JSON document is found.
+ */
+export function parseJSONOutput<T>(stdout: string): T {
+  const trimmed = stdout.trim();
+  const start = trimmed.startsWith('{') ? 0 : trimmed.indexOf('\n{') + 1;
+  try {
+    if (start === 0 && !trimmed.startsWith('{')) {
+      throw new Error('no JSON object in output');
+    }
+    return JSON.parse(trimmed.slice(start)) as T;
+  } catch (error) {
+    throw new CLIProcessError(
+      `Unparseable CLI output (${error instanceof Error ? error.message : 'invalid JSON'}): ${tail(stdout)}`,
+      CLI_ERROR_CODES.UNKNOWN_ERROR,
+      { stdout }
+    );
+  }
+}
+
+function estimateUsage(prompt: string, completion: string): CLIUsage {
+  const promptTokens = Math.ceil(prompt.length / 4); // Rough estimate
+  const completionTokens = Math.ceil(completion.length / 4);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+  };
+}
+
+function tail(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > MAX_ERROR_OUTPUT
+    ? `...${trimmed.slice(-MAX_ERROR_OUTPUT)}`
+    : trimmed;
+}
@@ -1,34 +1,58 @@
 /**
- * @fileoverview Cursor CLI Integration - Placeholder
+ * @fileoverview Cursor CLI Provider Implementation
  *
- * Placeholder for future Cursor CLI integration.
- * Will include SDK wrapper and provider implementation.
+ * Runs `cursor-agent --print --output-format json` (prompt on stdin) and
+ * reads the result from its JSON output. The CLI does not report token counts, so usage is
+ * estimated from text length.
  */
 
-import { Result, err } from '@claude-zen/foundation';
-
+import { CLAUDE_SWARM_AGENT_ROLES } from '../claude/claude-provider';
+import {
+  CLIProcessError,
+  SpawnedCLIProvider,
+  codeFromMessage,
+  parseJSONOutput,
+  type CLIInvocation,
+  type ParsedCLIOutput,
+  type SpawnedCLIProviderOptions,
+} from '../cli-process';
 import type {
-  CLIProvider,
-  CLIRequest,
-  CLIResult,
-  CLIError,
   CLIProviderCapabilities,
   SwarmAgentRole,
 } from '../types/cli-providers';
 
-// TODO: Implement CursorProvider class
-// TODO: Implement Cursor CLI SDK wrapper
-// TODO: Add Cursor-specific role configurations
+// Same role prompts as SWARM_AGENT_ROLES, prepended to the prompt
+export const CURSOR_SWARM_AGENT_ROLES: Record<string, SwarmAgentRole> =
+  CLAUDE_SWARM_AGENT_ROLES;
+
+export interface CursorCLIOptions extends SpawnedCLIProviderOptions {}
 
-export class CursorCLI implements CLIProvider {
+interface CursorJSONOutput {
+  type?: string;
+  subtype?: string;
+  is_error?: boolean;
+  result?: string;
+  session_id?: string;
+  duration_ms?: number;
+}
+
+export class CursorCLI extends SpawnedCLIProvider {
   readonly id = 'cursor-cli';
   readonly name = 'Cursor CLI';
 
+  constructor(options: CursorCLIOptions = {}) {
+    super(
+      { command: 'cursor-agent', model: 'auto' },
+      options,
+      CURSOR_SWARM_AGENT_ROLES
+    );
+  }
+
   getCapabilities(): CLIProviderCapabilities {
     return {
-      models: ['cursor-model'],
-      maxTokens: 4096,
-      contextWindow: 8192,
+      models: ['auto', 'gpt-5', 'sonnet-4', 'sonnet-4-thinking'],
+      maxTokens: 8192,
+      contextWindow: 200000,
       features: {
         fileOperations: true,
         webAccess: false,
@@ -36,7 +60,7 @@ export class CursorCLI implements CLIProvider {
         imageGeneration: false,
         multimodal: false,
         streaming: false,
-        customTools: true,
+        customTools: false,
         contextWindow: true,
         reasoning: true,
         coding: true,
@@ -45,48 +69,28 @@ export class CursorCLI implements CLIProvider {
     };
   }
 
-  async execute(): Promise<CLIResult> {
-    const error: CLIError = {
-      code: 'NOT_IMPLEMENTED',
-      message: 'Cursor CLI provider not yet implemented.',
-    };
-    return err(error);
-  }
-
-  setRole(): Result<void, CLIError> {
-    const error: CLIError = {
-      code: 'NOT_IMPLEMENTED',
-      message: 'Cursor CLI provider not yet implemented.',
-    };
-    return err(error);
+  protected buildInvocation(
+    prompt: string,
+    model: string,
+    task: boolean,
+    taskOptions: Record<string, unknown>
+  ): CLIInvocation {
+    const args = ['--print', '--output-format', 'json', '--model', model];
+    // Without --force, shell commands and file writes are only proposed
+    if (task && taskOptions['autoApprove'] === true) {
+      args.push('--force');
+    }
+    // Passed on stdin: prompts with context exceed the argument size limit
+    return { args, input: prompt };
   }
 
-  getRole(): SwarmAgentRole | undefined {
-    return undefined;
-  }
+  protected parseOutput(stdout: string, model: string): ParsedCLIOutput {
+    const output = parseJSONOutput<CursorJSONOutput>(stdout);
+    if (output.is_error || (output.subtype && output.subtype !== 'success')) {
+      const message = output.result ?? `Cursor CLI ${output.subtype ?? 'error'}`;
+      throw new CLIProcessError(message, codeFromMessage(message), { stdout });
+    }
 
-  async complete(): Promise<Result<string, CLIError>> {
-    const error: CLIError = {
-      code: 'NOT_IMPLEMENTED',
-      message: 'Cursor CLI provider not yet implemented.',
-    };
-    return err(error);
-  }
-
-  async executeTask(): Promise<Result<unknown, CLIError>> {
-    const error: CLIError = {
-      code: 'NOT_IMPLEMENTED',
-      message: 'Cursor CLI provider not yet implemented.',
-    };
-    return err(error);
-  }
-
-  getUsageStats() {
-    return { requestCount: 0, lastRequestTime: 0 };
+    return { content: output.result ?? '', model, raw: output };
   }
 }
-
-// Placeholder exports
-export const CURSOR_SWARM_AGENT_ROLES = {
-  // TODO: Define Cursor-specific agent roles
-};
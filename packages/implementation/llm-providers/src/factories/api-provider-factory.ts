@@ -7,6 +7,7 @@
 
 import { getLogger } from '@claude-zen/foundation/logging';
 
+import type { OpenAICompatibleOptions } from '../api/openai-compatible';
 import type { APIProvider } from '../types/api-providers';
 
 const logger = getLogger('APIProviderFactory');
@@ -19,30 +20,55 @@ export async function createAPIProvider(
     | 'github-models-api'
     | 'github-copilot-api'
     | 'anthropic-api'
-    | 'openai-api',
+    | 'openai-api'
+    | 'openai-compatible-api',
   options: Record<string, unknown> = {}
 ): Promise<APIProvider> {
   logger.info(`Creating API provider: ${providerId}`);
 
   switch (providerId) {
-    case 'github-models-api':
+    case 'github-models-api': {
       const { GitHubModelsAPI } = await import('../api/github-models');
       return new GitHubModelsAPI({
         token: process.env.GITHUB_TOKEN || '',
         ...options,
       } as any);
+    }
 
-    case 'github-copilot-api':
+    case 'github-copilot-api': {
       const { createGitHubCopilotProvider } = await import(
         '../api/github-copilot'
       );
       return createGitHubCopilotProvider(options as any);
+    }
 
     case 'anthropic-api':
       throw new Error('Anthropic API provider not yet implemented');
 
-    case 'openai-api':
-      throw new Error('OpenAI API provider not yet implemented');
+    case 'openai-api': {
+      const { createOpenAICompatibleProvider } = await import(
+        '../api/openai-compatible'
+      );
+      return createOpenAICompatibleProvider({
+        id: 'openai-api',
+        name: 'OpenAI API',
+        baseURL: 'https://api.openai.com',
+        apiKey: process.env.OPENAI_API_KEY,
+        model: 'gpt-4o',
+        ...(options as Partial<OpenAICompatibleOptions>),
+      });
+    }
+
+    case 'openai-compatible-api': {
+      const { createOpenAICompatibleProvider } = await import(
+        '../api/openai-compatible'
+      );
+      return createOpenAICompatibleProvider({
+        baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:8080',
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+        ...(options as Partial<OpenAICompatibleOptions>),
+      });
+    }
 
     default:
       throw new Error(`Unknown API provider: ${providerId}`);
@@ -80,8 +106,16 @@ export function listAPIProviders(): Array<{
     {
       id: 'openai-api',
       name: 'OpenAI API',
-      available: false,
+      // Implemented by the OpenAI-compatible provider pointed at api.openai.com
+      available: true,
       description: 'Direct OpenAI GPT API',
     },
+    {
+      id: 'openai-compatible-api',
+      name: 'OpenAI-compatible API',
+      available: true,
+      description:
+        'Any OpenAI chat-completions server (llama.cpp, vLLM, LM Studio)',
+    },
   ];
 }
@@ -0,0 +1,620 @@
+/**
+ * @fileoverview Provider failover with circuit breakers
+ *
+ * `FailoverChain` sends a request to an ordered list of providers, such as
+ * the ids returned by `getOptimalProvider()` in `@claude-zen/llm-routing`,
+ * and moves on to the next one when a provider fails. Each provider has a
+ * `ProviderCircuitBreaker` that opens on a high error rate or slow
+ * responses, so a rate-limited provider is skipped outright until a
+ * half-open probe succeeds again. `stream()` fails over the same way until
+ * a provider produces its first chunk.
+ */
+
+import { err, getLogger, ok, type Result } from '@claude-zen/foundation';
+
+import {
+  CLIStreamError,
+  abortable,
+  createCancelledError,
+  linkAbortSignal,
+  streamFromResult,
+} from './streaming';
+import type {
+  CLIError,
+  CLIExecuteOptions,
+  CLIProviderCapabilities,
+  CLIRequest,
+  CLIResponse,
+  CLIResult,
+  CLIStreamChunk,
+  CLIStreamOptions,
+  SwarmAgentRole,
+} from './types/cli-providers';
+import { CLI_ERROR_CODES } from './types/cli-providers';
+
+const logger = getLogger('llm-failover');
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Number of recent calls the error rate and latency are computed over (default 20) */
+  windowSize?: number;
+  /** Calls needed in the window before the breaker may open (default 5) */
+  minimumCalls?: number;
+  /** Share of failed calls that opens the breaker (default 0.5) */
+  errorRateThreshold?: number;
+  /** Average latency that opens the breaker (default 60000ms) */
+  latencyThresholdMs?: number;
+  /** Time an open breaker waits before letting a probe through (default 30000ms) */
+  resetTimeoutMs?: number;
+  /** Probes allowed while half-open (default 1) */
+  halfOpenMaxCalls?: number;
+}
+
+export interface CircuitBreakerStats {
+  state: CircuitState;
+  calls: number;
+  errorRate: number;
+  averageLatencyMs: number;
+  openedAt?: number;
+}
+
+interface CallOutcome {
+  success: boolean;
+  latencyMs: number;
+}
+
+/**
+ * Circuit breaker for one provider. Unlike the count-based breaker in
+ * foundation it works on a sliding window, so it can trip on latency and
+ * on error rate under steady traffic.
+ */
+export class ProviderCircuitBreaker {
+  private state: CircuitState = 'closed';
+  private window: CallOutcome[] = [];
+  private openedAt = 0;
+  private halfOpenCalls = 0;
+  private readonly options: Required<CircuitBreakerOptions>;
+
+  constructor(
+    options: CircuitBreakerOptions = {},
+    private readonly onStateChange: (state: CircuitState) => void = () => {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.options = {
+      windowSize: 20,
+      minimumCalls: 5,
+      errorRateThreshold: 0.5,
+      latencyThresholdMs: 60000,
+      resetTimeoutMs: 30000,
+      halfOpenMaxCalls: 1,
+      ...options,
+    };
+  }
+
+  /**
+   * Whether a call may go through now. Moves an open breaker to half-open
+   * once the reset timeout has passed and counts half-open probes.
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (this.now() - this.openedAt < this.options.resetTimeoutMs) {
+        return false;
+      }
+      this.transition('half-open');
+    }
+
+    if (this.state === 'half-open') {
+      if (this.halfOpenCalls >= this.options.halfOpenMaxCalls) {
+        return false;
+      }
+      this.halfOpenCalls++;
+    }
+    return true;
+  }
+
+  recordSuccess(latencyMs: number): void {
+    if (this.state === 'half-open') {
+      // A slow probe means the provider has not recovered yet
+      if (latencyMs >= this.options.latencyThresholdMs) {
+        this.open();
+        return;
+      }
+      this.window = [];
+      this.transition('closed');
+    }
+    this.record({ success: true, latencyMs });
+  }
+
+  recordFailure(latencyMs: number): void {
+    if (this.state === 'half-open') {
+      this.open();
+      return;
+    }
+    this.record({ success: false, latencyMs });
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getStats(): CircuitBreakerStats {
+    return {
+      state: this.state,
+      calls: this.window.length,
+      errorRate: this.errorRate(),
+      averageLatencyMs: this.averageLatency(),
+      openedAt: this.state === 'closed' ? undefined : this.openedAt,
+    };
+  }
+
+  reset(): void {
+    this.window = [];
+    this.transition('closed');
+  }
+
+  private record(outcome: CallOutcome): void {
+    this.window.push(outcome);
+    if (this.window.length > this.options.windowSize) {
+      this.window.shift();
+    }
+
+    if (
+      this.state === 'closed' &&
+      this.window.length >= this.options.minimumCalls &&
+      (this.errorRate() >= this.options.errorRateThreshold ||
+        this.averageLatency() >= this.options.latencyThresholdMs)
+    ) {
+      this.open();
+    }
+  }
+
+  private open(): void {
+    this.openedAt = this.now();
+    this.window = [];
+    this.transition('open');
+  }
+
+  private transition(state: CircuitState): void {
+    this.halfOpenCalls = 0;
+    if (this.state !== state) {
+      this.state = state;
+      this.onStateChange(state);
+    }
+  }
+
+  private errorRate(): number {
+    if (this.window.length === 0) return 0;
+    return this.window.filter((o) => !o.success).length / this.window.length;
+  }
+
+  private averageLatency(): number {
+    if (this.window.length === 0) return 0;
+    return this.window.reduce((sum, o) => sum + o.latencyMs, 0) / this.window.length;
+  }
+}
+
+/**
+ * Anything that can serve a chat request: CLI providers and API providers
+ * both fit. Targets that honour `signal` are stopped when an attempt times
+ * out.
+ */
+export interface FailoverTarget {
+  readonly id: string;
+  execute(request: CLIRequest, options?: CLIExecuteOptions): Promise<CLIResult>;
+  executeStream?(
+    request: CLIRequest,
+    options?: CLIStreamOptions
+  ): AsyncIterable<CLIStreamChunk>;
+  getCapabilities?(): Pick<CLIProviderCapabilities, 'models' | 'pricing'>;
+  setRole?(roleName: string): unknown;
+}
+
+export interface FailoverAttempt {
+  providerId: string;
+  outcome: 'success' | 'error' | 'circuit-open';
+  latencyMs?: number;
+  error?: { code: string; message: string };
+}
+
+export interface FailoverChainOptions {
+  circuitBreaker?: CircuitBreakerOptions;
+  /**
+   * Per-attempt timeout, or time to the first chunk for streams; a
+   * timed-out attempt is aborted and counts as a failure (default 30000ms)
+   */
+  attemptTimeoutMs?: number;
+  /** Whether an error moves on to the next provider (default: all but validation and cancellation) */
+  shouldFailover?: (error: CLIError) => boolean;
+  onStateChange?: (providerId: string, state: CircuitState) => void;
+  onFailover?: (from: string, to: string, error: CLIError) => void;
+}
+
+export interface FailoverResponse {
+  response: CLIResponse;
+  target: FailoverTarget;
+  attempts: FailoverAttempt[];
+}
+
+// Provider ids used by llm-routing's configuration and their counterparts here
+export const ROUTING_PROVIDER_IDS: Record<string, string> = {
+  'claude-code': 'claude-code',
+  gemini: 'gemini-cli',
+  'gemini-pro': 'gemini-cli',
+  'gemini-direct': 'gemini-cli',
+  cursor: 'cursor-cli',
+  copilot: 'github-copilot-api',
+  'github-models': 'github-models-api',
+};
+
+const NO_FAILOVER_CODES = new Set<string>([
+  CLI_ERROR_CODES.VALIDATION_ERROR,
+  CLI_ERROR_CODES.CANCELLED_ERROR,
+]);
+
+/**
+ * Creates the provider for a chain entry given by id, accepting both
+ * llm-routing ids (`copilot`, `gemini`) and provider ids (`gemini-cli`).
+ *
+ * @param id
+ */
+export async function resolveFailoverTarget(id: string): Promise<FailoverTarget> {
+  const providerId = ROUTING_PROVIDER_IDS[id] ?? id;
+  switch (providerId) {
+    case 'claude-code': {
+      const { ClaudeProvider } = await import('./claude/claude-provider');
+      return new ClaudeProvider();
+    }
+    case 'cursor-cli': {
+      const { CursorCLI } = await import('./cursor');
+      return new CursorCLI();
+    }
+    case 'gemini-cli': {
+      const { GeminiCLI } = await import('./gemini');
+      return new GeminiCLI();
+    }
+    case 'github-models-api':
+    case 'github-copilot-api':
+    case 'openai-api': {
+      const { createAPIProvider } = await import('./factories/api-provider-factory');
+      return createAPIProvider(providerId);
+    }
+    default:
+      throw new Error(`Unknown provider for failover chain: ${id}`);
+  }
+}
+
+/**
+ * Ordered providers with a circuit breaker each. `execute()` returns the
+ * first successful response; when every provider fails it returns the
+ * last error, or CIRCUIT_OPEN if no provider could be tried at all.
+ */
+export class FailoverChain {
+  private readonly entries: Array<{
+    id: string;
+    target: FailoverTarget;
+    breaker: ProviderCircuitBreaker;
+  }>;
+
+  constructor(
+    targets: Array<{ id: string; target: FailoverTarget }>,
+    private readonly options: FailoverChainOptions = {}
+  ) {
+    if (targets.length === 0) {
+      throw new Error('Failover chain needs at least one provider');
+    }
+
+    this.entries = targets.map(({ id, target }) => ({
+      id,
+      target,
+      breaker: new ProviderCircuitBreaker(options.circuitBreaker, (state) => {
+        logger.info(`Circuit for ${id} is now ${state}`);
+        options.onStateChange?.(id, state);
+      }),
+    }));
+  }
+
+  async execute(request: CLIRequest): Promise<Result<FailoverResponse, CLIError>> {
+    const attempts: FailoverAttempt[] = [];
+    let lastError: CLIError | undefined;
+
+    for (const { id, target, breaker } of this.entries) {
+      if (!breaker.tryAcquire()) {
+        attempts.push({ providerId: id, outcome: 'circuit-open' });
+        continue;
+      }
+
+      this.announceFailover(attempts, id, lastError);
+
+      const started = Date.now();
+      const result = await this.attempt(target, this.requestFor(target, request));
+      const latencyMs = Date.now() - started;
+
+      if (result.isOk()) {
+        breaker.recordSuccess(latencyMs);
+        attempts.push({ providerId: id, outcome: 'success', latencyMs });
+        return ok({
+          response: {
+            ...result.value,
+            metadata: {
+              ...result.value.metadata,
+              servedBy: id,
+              failoverAttempts: attempts,
+            },
+          },
+          target,
+          attempts,
+        });
+      }
+
+      const error = result.error;
+      attempts.push({
+        providerId: id,
+        outcome: 'error',
+        latencyMs,
+        error: { code: error.code, message: error.message },
+      });
+
+      if (!this.shouldFailover(error)) {
+        // The provider answered; the request itself was the problem
+        breaker.recordSuccess(latencyMs);
+        return err(withAttempts(error, attempts));
+      }
+      breaker.recordFailure(latencyMs);
+      lastError = error;
+    }
+
+    return err(this.exhaustedError(lastError, attempts));
+  }
+
+  /**
+   * Streaming counterpart of execute(). Providers are tried in order until
+   * one produces its first chunk within the attempt timeout; from then on
+   * the stream stays with that provider and later failures are thrown from
+   * the iterator as CLIStreamError. The final chunk's metadata records who
+   * served the stream.
+   */
+  async *stream(
+    request: CLIRequest,
+    options: CLIStreamOptions = {}
+  ): AsyncGenerator<CLIStreamChunk> {
+    const attempts: FailoverAttempt[] = [];
+    let lastError: CLIError | undefined;
+
+    for (const { id, target, breaker } of this.entries) {
+      if (options.signal?.aborted) {
+        throw new CLIStreamError(createCancelledError(id));
+      }
+      if (!breaker.tryAcquire()) {
+        attempts.push({ providerId: id, outcome: 'circuit-open' });
+        continue;
+      }
+
+      this.announceFailover(attempts, id, lastError);
+
+      const controller = new AbortController();
+      const release = linkAbortSignal(options.signal, controller);
+      const iterator = this.openStream(
+        target,
+        this.requestFor(target, request),
+        controller.signal
+      )[Symbol.asyncIterator]();
+      const started = Date.now();
+
+      let first: IteratorResult<CLIStreamChunk>;
+      try {
+        first = await this.firstChunk(target, iterator, controller);
+      } catch (error) {
+        release();
+        controller.abort();
+        void iterator.return?.().catch(() => undefined);
+        if (options.signal?.aborted) {
+          throw new CLIStreamError(createCancelledError(id));
+        }
+
+        const latencyMs = Date.now() - started;
+        const failure = toCLIError(error);
+        attempts.push({
+          providerId: id,
+          outcome: 'error',
+          latencyMs,
+          error: { code: failure.code, message: failure.message },
+        });
+        if (!this.shouldFailover(failure)) {
+          breaker.recordSuccess(latencyMs);
+          throw new CLIStreamError(withAttempts(failure, attempts));
+        }
+        breaker.recordFailure(latencyMs);
+        lastError = failure;
+        continue;
+      }
+
+      const latencyMs = Date.now() - started;
+      breaker.recordSuccess(latencyMs);
+      attempts.push({ providerId: id, outcome: 'success', latencyMs });
+      yield* this.relay(first, iterator, controller, release, id, attempts);
+      return;
+    }
+
+    throw new CLIStreamError(this.exhaustedError(lastError, attempts));
+  }
+
+  getTarget(id: string): FailoverTarget | undefined {
+    return this.entries.find((entry) => entry.id === id)?.target;
+  }
+
+  setRole(role: SwarmAgentRole['role']): void {
+    for (const { target } of this.entries) {
+      target.setRole?.(role);
+    }
+  }
+
+  getCircuitStats(): Record<string, CircuitBreakerStats> {
+    return Object.fromEntries(
+      this.entries.map(({ id, breaker }) => [id, breaker.getStats()])
+    );
+  }
+
+  resetCircuits(): void {
+    for (const { breaker } of this.entries) breaker.reset();
+  }
+
+  // A model named for one provider means nothing to the others
+  private requestFor(target: FailoverTarget, request: CLIRequest): CLIRequest {
+    if (!request.model || !target.getCapabilities) {
+      return request;
+    }
+    if (target.getCapabilities().models.includes(request.model)) {
+      return request;
+    }
+    const { model: _model, ...rest } = request;
+    return rest;
+  }
+
+  private async attempt(target: FailoverTarget, request: CLIRequest): Promise<CLIResult> {
+    const timeout = this.attemptTimeout();
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      return await Promise.race([
+        target.execute(request, { signal: controller.signal }),
+        new Promise<CLIResult>((resolve) => {
+          timer = setTimeout(() => {
+            resolve(err(timeoutError(target, timeout)));
+            // Stop the losing call instead of leaving it running
+            controller.abort();
+          }, timeout);
+        }),
+      ]);
+    } catch (error) {
+      return err(toCLIError(error));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private openStream(
+    target: FailoverTarget,
+    request: CLIRequest,
+    signal: AbortSignal
+  ): AsyncIterable<CLIStreamChunk> {
+    if (target.executeStream) {
+      return target.executeStream(request, { signal });
+    }
+    return streamFromResult(() => target.execute(request, { signal }));
+  }
+
+  private async firstChunk(
+    target: FailoverTarget,
+    iterator: AsyncIterator<CLIStreamChunk>,
+    controller: AbortController
+  ): Promise<IteratorResult<CLIStreamChunk>> {
+    const timeout = this.attemptTimeout();
+    const timer = setTimeout(
+      () => controller.abort(new CLIStreamError(timeoutError(target, timeout))),
+      timeout
+    );
+
+    try {
+      return await abortable(iterator.next(), controller.signal);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async *relay(
+    first: IteratorResult<CLIStreamChunk>,
+    iterator: AsyncIterator<CLIStreamChunk>,
+    controller: AbortController,
+    release: () => void,
+    servedBy: string,
+    attempts: FailoverAttempt[]
+  ): AsyncGenerator<CLIStreamChunk> {
+    const final = (chunk: CLIStreamChunk): CLIStreamChunk => ({
+      ...chunk,
+      metadata: { ...chunk.metadata, servedBy, failoverAttempts: attempts },
+    });
+    let next = first;
+    let finished = false;
+
+    try {
+      while (!next.done) {
+        if (next.value.done) {
+          finished = true;
+          yield final(next.value);
+          return;
+        }
+        yield next.value;
+        next = await abortable(iterator.next(), controller.signal);
+      }
+      finished = true;
+      yield final({ delta: '', done: true });
+    } finally {
+      release();
+      if (!finished) {
+        controller.abort();
+        void iterator.return?.().catch(() => undefined);
+      }
+    }
+  }
+
+  private announceFailover(
+    attempts: FailoverAttempt[],
+    to: string,
+    lastError: CLIError | undefined
+  ): void {
+    if (!lastError) {
+      return;
+    }
+    const from = attempts.filter((a) => a.outcome === 'error').at(-1)!.providerId;
+    logger.warn(`Failing over from ${from} to ${to}: ${lastError.message}`);
+    this.options.onFailover?.(from, to, lastError);
+  }
+
+  private shouldFailover(error: CLIError): boolean {
+    return this.options.shouldFailover
+      ? this.options.shouldFailover(error)
+      : !NO_FAILOVER_CODES.has(error.code);
+  }
+
+  private exhaustedError(
+    lastError: CLIError | undefined,
+    attempts: FailoverAttempt[]
+  ): CLIError {
+    if (lastError) {
+      return withAttempts(lastError, attempts);
+    }
+    return {
+      code: CLI_ERROR_CODES.CIRCUIT_OPEN,
+      message: `All providers are unavailable: ${this.entries.map((e) => e.id).join(', ')}`,
+      details: { failoverAttempts: attempts },
+    };
+  }
+
+  private attemptTimeout(): number {
+    return this.options.attemptTimeoutMs ?? 30000;
+  }
+}
+
+function timeoutError(target: FailoverTarget, timeout: number): CLIError {
+  return {
+    code: CLI_ERROR_CODES.TIMEOUT_ERROR,
+    message: `${target.id} did not respond within ${timeout}ms`,
+  };
+}
+
+function withAttempts(error: CLIError, attempts: FailoverAttempt[]): CLIError {
+  return { ...error, details: { ...error.details, failoverAttempts: attempts } };
+}
+
+function toCLIError(error: unknown): CLIError {
+  if (error instanceof CLIStreamError) {
+    return error.error;
+  }
+  return {
+    code: CLI_ERROR_CODES.UNKNOWN_ERROR,
+    message: error instanceof Error ? error.message : String(error),
+    cause: error instanceof Error ? error : undefined,
+  };
+}
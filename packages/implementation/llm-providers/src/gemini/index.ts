@@ -1,41 +1,69 @@
 /**
- * @fileoverview Gemini CLI Integration - Placeholder
+ * @fileoverview Gemini CLI Provider Implementation
  *
- * Placeholder for future Gemini CLI integration.
- * Will include SDK wrapper and provider implementation.
+ * Runs the `gemini` CLI in headless mode (prompt on stdin,
+ * `--output-format json`) and reads the response and per-model token
+ * counts from its JSON output.
  */
 
-import { Result, err } from '@claude-zen/foundation';
-
+import { CLAUDE_SWARM_AGENT_ROLES } from '../claude/claude-provider';
+import {
+  CLIProcessError,
+  SpawnedCLIProvider,
+  codeFromMessage,
+  parseJSONOutput,
+  type CLIInvocation,
+  type ParsedCLIOutput,
+  type SpawnedCLIProviderOptions,
+} from '../cli-process';
 import type {
-  CLIProvider,
-  CLIRequest,
-  CLIResult,
-  CLIError,
   CLIProviderCapabilities,
+  CLIUsage,
   SwarmAgentRole,
 } from '../types/cli-providers';
 
-// TODO: Implement GeminiProvider class
-// TODO: Implement Gemini CLI SDK wrapper
-// TODO: Add Gemini-specific role configurations
+// Same role prompts as SWARM_AGENT_ROLES; the CLI has no system prompt flag
+// so they are prepended to the prompt
+export const GEMINI_SWARM_AGENT_ROLES: Record<string, SwarmAgentRole> =
+  CLAUDE_SWARM_AGENT_ROLES;
+
+export interface GeminiCLIOptions extends SpawnedCLIProviderOptions {}
+
+interface GeminiJSONOutput {
+  response?: string;
+  stats?: {
+    models?: Record<
+      string,
+      { tokens?: { prompt?: number; candidates?: number; total?: number } }
+    >;
+  };
+  error?: { type?: string; message?: string; code?: string | number };
+}
 
-export class GeminiCLI implements CLIProvider {
+export class GeminiCLI extends SpawnedCLIProvider {
   readonly id = 'gemini-cli';
   readonly name = 'Gemini CLI';
 
+  constructor(options: GeminiCLIOptions = {}) {
+    super(
+      { command: 'gemini', model: 'gemini-2.5-pro' },
+      options,
+      GEMINI_SWARM_AGENT_ROLES
+    );
+  }
+
   getCapabilities(): CLIProviderCapabilities {
     return {
-      models: ['gemini-pro', 'gemini-pro-vision'],
-      maxTokens: 8192,
-      contextWindow: 32768,
+      models: ['gemini-2.5-pro', 'gemini-2.5-flash'],
+      maxTokens: 65536,
+      contextWindow: 1048576,
       features: {
-        fileOperations: false,
+        fileOperations: true,
         webAccess: true,
-        codeExecution: false,
-        imageGeneration: true,
+        codeExecution: true,
+        imageGeneration: false,
         multimodal: true,
-        streaming: true,
+        streaming: false,
         customTools: false,
         contextWindow: true,
         reasoning: true,
@@ -45,48 +73,49 @@ export class GeminiCLI implements CLIProvider {
     };
   }
 
-  async execute(): Promise<CLIResult> {
-    const error: CLIError = {
-      code: 'NOT_IMPLEMENTED',
-      message: 'Gemini CLI provider not yet implemented.',
-    };
-    return err(error);
+  protected buildInvocation(
+    prompt: string,
+    model: string,
+    task: boolean,
+    taskOptions: Record<string, unknown>
+  ): CLIInvocation {
+    const args = ['--output-format', 'json', '--model', model];
+    // Tool calls need approval, which headless mode cannot ask for
+    if (task && taskOptions['autoApprove'] === true) {
+      args.push('--yolo');
+    }
+    return { args, input: prompt };
   }
 
-  setRole(): Result<void, CLIError> {
-    const error: CLIError = {
-      code: 'NOT_IMPLEMENTED',
-      message: 'Gemini CLI provider not yet implemented.',
-    };
-    return err(error);
-  }
-
-  getRole(): SwarmAgentRole | undefined {
-    return undefined;
-  }
+  protected parseOutput(stdout: string, model: string): ParsedCLIOutput {
+    const output = parseJSONOutput<GeminiJSONOutput>(stdout);
+    if (output.error) {
+      const message = output.error.message ?? output.error.type ?? 'Gemini CLI error';
+      throw new CLIProcessError(message, codeFromMessage(message), { stdout });
+    }
 
-  async complete(): Promise<Result<string, CLIError>> {
-    const error: CLIError = {
-      code: 'NOT_IMPLEMENTED',
-      message: 'Gemini CLI provider not yet implemented.',
+    return {
+      content: output.response ?? '',
+      usage: this.usageFromStats(output.stats),
+      model: Object.keys(output.stats?.models ?? {})[0] ?? model,
+      raw: output,
     };
-    return err(error);
   }
 
-  async executeTask(): Promise<Result<unknown, CLIError>> {
-    const error: CLIError = {
-      code: 'NOT_IMPLEMENTED',
-      message: 'Gemini CLI provider not yet implemented.',
-    };
-    return err(error);
-  }
+  private usageFromStats(stats: GeminiJSONOutput['stats']): CLIUsage | undefined {
+    const models = Object.values(stats?.models ?? {});
+    if (models.length === 0) {
+      return undefined;
+    }
 
-  getUsageStats() {
-    return { requestCount: 0, lastRequestTime: 0 };
+    // One prompt can hit several models (e.g. routing or fallback)
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    for (const { tokens } of models) {
+      usage.promptTokens += tokens?.prompt ?? 0;
+      usage.completionTokens += tokens?.candidates ?? 0;
+      usage.totalTokens +=
+        tokens?.total ?? (tokens?.prompt ?? 0) + (tokens?.candidates ?? 0);
+    }
+    return usage;
   }
 }
-
-// Placeholder exports
-export const GEMINI_SWARM_AGENT_ROLES = {
-  // TODO: Define Gemini-specific agent roles
-};
@@ -47,9 +47,82 @@ export type {
   CLIMessage,
   CLIRequest,
   CLIResponse,
+  CLIStreamChunk,
+  CLIStreamOptions,
+  CLITool,
+  CLIToolCall,
+  CLIToolChoice,
+  CLIToolHandler,
+  CLIToolLoopOptions,
+  CLIToolLoopResult,
+  CLIToolResult,
+  CLIUsage,
+  LLMBudgetContext,
+  LLMBudgetDecision,
+  LLMBudgetGuard,
   SwarmAgentRole,
 } from './types/cli-providers';
 
+// Streaming helpers for chatStream() consumers and streaming providers
+export {
+  CLIStreamError,
+  collectStream,
+  streamFromResult,
+} from './streaming';
+
+// Failover along provider chains with per-provider circuit breakers
+export {
+  FailoverChain,
+  ProviderCircuitBreaker,
+  ROUTING_PROVIDER_IDS,
+  resolveFailoverTarget,
+} from './failover';
+export type {
+  CircuitBreakerOptions,
+  CircuitBreakerStats,
+  CircuitState,
+  FailoverAttempt,
+  FailoverChainOptions,
+  FailoverResponse,
+  FailoverTarget,
+} from './failover';
+
+// Opt-in response cache with exact and semantic matching
+export { LLMResponseCache } from './response-cache';
+export type {
+  ResponseCacheContext,
+  ResponseCacheLookup,
+  ResponseCacheOptions,
+  ResponseCacheOutcome,
+  ResponseCacheStats,
+  ResponseCacheStatsReporter,
+  SemanticCacheStore,
+} from './response-cache';
+
+// Tool calling: native format mappers and the prompt protocol for CLIs
+export {
+  extractToolCalls,
+  fromOpenAIToolCalls,
+  toOpenAIMessages,
+  toOpenAIToolFields,
+  withPromptTools,
+} from './tools';
+
+// Record/replay cassettes for deterministic, offline LLM tests
+export {
+  Cassette,
+  CassetteMismatchError,
+  createAPICassette,
+  createCLICassette,
+} from './cassette';
+export type {
+  CassetteInteraction,
+  CassetteMatchOptions,
+  CassetteMode,
+  CassetteOptions,
+  CassetteRequest,
+} from './cassette';
+
 // =============================================================================
 // CLI INTEGRATIONS - File operations, agentic development
 // =============================================================================
@@ -61,6 +134,7 @@ export {
   ClaudeTaskManager,
   getGlobalClaudeTaskManager,
   streamClaudeTask,
+  streamClaudeMessages,
   executeParallelClaudeTasks,
   filterMessagesForClaudeCode,
   cleanupGlobalInstances,
@@ -76,6 +150,19 @@ export type {
   CanUseTool,
 } from './claude/types';
 
+// Gemini and Cursor CLIs (spawned per request, structured JSON output)
+export { GeminiCLI, GEMINI_SWARM_AGENT_ROLES } from './gemini';
+export type { GeminiCLIOptions } from './gemini';
+export { CursorCLI, CURSOR_SWARM_AGENT_ROLES } from './cursor';
+export type { CursorCLIOptions } from './cursor';
+export { CLIProcessError, runCLIProcess, SpawnedCLIProvider } from './cli-process';
+export type {
+  CLIProcessOptions,
+  CLIProcessResult,
+  SpawnedCLIProviderOptions,
+  SpawnedCLIUsageStats,
+} from './cli-process';
+
 // GitHub Copilot integrations (future - NO CLI, only APIs)
 // export { GitHubCopilotChatAPI } from './api/github-copilot-chat';
 // export { GitHubModelsAPI } from './api/github-models';           // ✅ Available now
@@ -94,6 +181,14 @@ export {
 } from './api/github-models';
 export type { GitHubModelsOptions } from './api/github-models';
 
+// OpenAI-compatible API (any chat-completions server: llama.cpp, vLLM, LM Studio)
+export {
+  OpenAICompatibleAPI,
+  createOpenAICompatibleProvider,
+  registerOpenAICompatibleProvider,
+} from './api/openai-compatible';
+export type { OpenAICompatibleOptions } from './api/openai-compatible';
+
 // GitHub Copilot Chat API (available now)
 export {
   GitHubCopilotAPI,
@@ -190,14 +285,14 @@ export function listLLMProviders(): Array<{
       name: 'Cursor CLI',
       type: 'cli' as const,
       category: 'agentic-dev' as const,
-      available: false,
+      available: true,
     },
     {
       id: 'gemini-cli',
       name: 'Gemini CLI',
       type: 'cli' as const,
       category: 'agentic-dev' as const,
-      available: false,
+      available: true,
     },
   ];
 
@@ -216,9 +311,22 @@ export function listLLMProviders(): Array<{
       category: 'conversational' as const,
       available: true,
     },
+    {
+      id: 'openai-api',
+      name: 'OpenAI API',
+      type: 'api' as const,
+      category: 'inference' as const,
+      available: true,
+    },
+    {
+      id: 'openai-compatible-api',
+      name: 'OpenAI-compatible API',
+      type: 'api' as const,
+      category: 'inference' as const,
+      available: true,
+    },
     // Future API providers:
     // { id: 'anthropic-api', name: 'Anthropic API', type: 'api', category: 'inference', available: false },
-    // { id: 'openai-api', name: 'OpenAI API', type: 'api', category: 'inference', available: false },
   ];
 
   return [...cliProviders, ...apiProviders];
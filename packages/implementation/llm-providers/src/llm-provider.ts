@@ -19,14 +19,47 @@ import {
   TypedEventBase,
 } from '@claude-zen/foundation';
 
+import {
+  createCLICassette,
+  type Cassette,
+  type CassetteOptions,
+} from './cassette';
 import { CLAUDE_SWARM_AGENT_ROLES } from './claude';
+import {
+  FailoverChain,
+  resolveFailoverTarget,
+  type CircuitBreakerStats,
+  type FailoverChainOptions,
+  type FailoverTarget,
+} from './failover';
+import type { ModelRegistry } from './registry/model-registry';
+import type { LLMResponseCache } from './response-cache';
+import {
+  abortable,
+  CLIStreamError,
+  createCancelledError,
+  linkAbortSignal,
+  sleep,
+  streamFromResult,
+} from './streaming';
 import type {
   CLIProvider,
+  CLIProviderCapabilities,
   CLIRequest,
   CLIResponse,
   CLIResult,
   CLIError,
   CLIProviderConfig,
+  CLIStreamChunk,
+  CLIStreamOptions,
+  CLIToolCall,
+  CLIToolHandler,
+  CLIToolLoopOptions,
+  CLIToolLoopResult,
+  CLIToolResult,
+  CLIUsage,
+  LLMBudgetContext,
+  LLMBudgetGuard,
   SwarmAgentRole,
 } from './types/cli-providers';
 import { CLI_ERROR_CODES } from './types/cli-providers';
@@ -39,24 +72,64 @@ export type {
   CLIResult,
   CLIError,
   CLIProviderConfig,
+  CLIStreamChunk,
+  CLIStreamOptions,
+  CLITool,
+  CLIToolCall,
+  CLIToolChoice,
+  CLIToolHandler,
+  CLIToolLoopOptions,
+  CLIToolLoopResult,
+  CLIToolResult,
+  CLIUsage,
+  LLMBudgetContext,
+  LLMBudgetDecision,
+  LLMBudgetGuard,
   SwarmAgentRole,
 } from './types/cli-providers';
 export const SWARM_AGENT_ROLES = CLAUDE_SWARM_AGENT_ROLES;
 
 // Validation schemas using foundation's Zod integration
+const toolCallSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  arguments: z.record(z.unknown()),
+});
+
 const cliRequestSchema = z.object({
   messages: z
     .array(
-      z.object({
-        role: z.enum(['system', 'user', 'assistant']),
-        content: z.string().min(1, 'Message content cannot be empty'),
-      })
+      z
+        .object({
+          role: z.enum(['system', 'user', 'assistant', 'tool']),
+          content: z.string(),
+          toolCalls: z.array(toolCallSchema).optional(),
+          toolCallId: z.string().optional(),
+        })
+        .refine(
+          (m) => m.content.length > 0 || m.role === 'tool' || !!m.toolCalls?.length,
+          'Message content cannot be empty'
+        )
     )
     .min(1, 'At least one message is required'),
   model: z.string().optional(),
   temperature: z.number().min(0).max(2).optional(),
   maxTokens: z.number().min(1).max(200000).optional(),
   metadata: z.record(z.unknown()).optional(),
+  tools: z
+    .array(
+      z.object({
+        name: z
+          .string()
+          .regex(/^[\w-]{1,64}$/, 'Tool names may only use letters, digits, _ and -'),
+        description: z.string(),
+        parameters: z.record(z.unknown()),
+      })
+    )
+    .optional(),
+  toolChoice: z
+    .union([z.enum(['auto', 'none', 'required']), z.object({ name: z.string() })])
+    .optional(),
 });
 
 const cliProviderConfigSchema = z.object({
@@ -77,6 +150,10 @@ export class LLMProvider extends TypedEventBase {
   private lastRequestTime = 0;
   private providerId: string;
   private llmConfig: CLIProviderConfig;
+  private budgetGuard: LLMBudgetGuard|null = null;
+  private budgetRegistry?: ModelRegistry;
+  private failoverChain: FailoverChain|null = null;
+  private responseCache: LLMResponseCache|null = null;
 
   constructor(
     providerId: string ='claude-code',
@@ -188,6 +265,7 @@ export class LLMProvider extends TypedEventBase {
 
     try {
       const result = this.cliProvider.setRole(roleName);
+      this.failoverChain?.setRole(roleName);
       logger.debug('Role set successfully', {
         providerId: this.providerId,
         role: roleName,
@@ -229,6 +307,98 @@ export class LLMProvider extends TypedEventBase {
     }
   }
 
+  // Route requests through a record/replay cassette (see ./cassette)
+  async useCassette(cassette: Cassette | CassetteOptions): Promise<void> {
+    if (!this.cliProvider) {
+      await this.initializeProvider();
+    }
+    this.cliProvider = createCLICassette(this.cliProvider!, cassette);
+  }
+
+  /**
+   * Enforce token/cost budgets before dispatch, e.g. with LLMBudgetService
+   * from @claude-zen/llm-routing. Over budget, requests fail with
+   * BUDGET_EXCEEDED or are downgraded to the best model of this provider
+   * within the guard's price cap, which needs `modelRegistry`. The
+   * registry's pricing is also used to report spend. Guards that can
+   * `reserve()` hold each request from dispatch until its usage is known.
+   * Pass null to remove.
+   */
+  setBudgetGuard(
+    guard: LLMBudgetGuard|null,
+    options: { modelRegistry?: ModelRegistry } = {}
+  ): void {
+    this.budgetGuard = guard;
+    this.budgetRegistry = options.modelRegistry;
+  }
+
+  /**
+   * Serve chat() from an ordered provider list, e.g. the result of
+   * getOptimalProvider() in @claude-zen/llm-routing, instead of retrying
+   * the single provider. Entries are provider ids or provider instances.
+   * Each provider gets a circuit breaker; responses carry the provider
+   * that served them in `metadata.servedBy`. Pass an empty list to go
+   * back to the single provider.
+   */
+  async setFailoverChain(
+    providers: Array<string|FailoverTarget>,
+    options: FailoverChainOptions = {}
+  ): Promise<void> {
+    if (providers.length === 0) {
+      this.failoverChain = null;
+      return;
+    }
+
+    const targets = await Promise.all(
+      providers.map(async (provider) =>
+        typeof provider === 'string'
+          ? { id: provider, target: await resolveFailoverTarget(provider) }
+          : { id: provider.id, target: provider }
+      )
+    );
+
+    this.failoverChain = new FailoverChain(targets, {
+      attemptTimeoutMs: this.llmConfig.timeout,
+      ...options,
+      onStateChange: (providerId, state) => {
+        this.emit('circuit:state-changed', {
+          providerId,
+          state,
+          timestamp: Date.now(),
+        });
+        options.onStateChange?.(providerId, state);
+      },
+      onFailover: (from, to, error) => {
+        this.emit('provider:failover', {
+          from,
+          to,
+          error: error.message,
+          code: error.code,
+          timestamp: Date.now(),
+        });
+        options.onFailover?.(from, to, error);
+      },
+    });
+
+    const role = this.cliProvider?.getRole()?.role;
+    if (role) {
+      this.failoverChain.setRole(role);
+    }
+  }
+
+  /**
+   * Answer chat() from a response cache when possible (see
+   * ./response-cache). Pass null to stop caching.
+   */
+  useResponseCache(cache: LLMResponseCache|null): void {
+    this.responseCache = cache;
+  }
+
+  // Circuit breaker state per provider of the failover chain
+  getCircuitStats(): Record<string, CircuitBreakerStats> {
+    return this.failoverChain?.getCircuitStats() ?? {};
+  }
+
   // Get current provider info
   getProviderInfo(): { id: string; name: string; capabilities: CLIProviderCapabilities } {
     if (!this.cliProvider) {
@@ -260,13 +430,334 @@ export class LLMProvider extends TypedEventBase {
       });
     }
 
+    // Cache hits cost nothing, so they skip the budget check
+    const cacheContext = {
+      provider: this.cliProvider.id,
+      role: this.cliProvider.getRole()?.role,
+    };
+    const cached = await this.responseCache?.get(validationResult.value, cacheContext);
+    if (cached) {
+      return ok(cached);
+    }
+
+    const budgetContext = this.getBudgetContext(validationResult.value);
+    const budgetResult = this.applyBudget(validationResult.value, budgetContext);
+    if (budgetResult.isErr()) {
+      return err(budgetResult.error);
+    }
+    const { request: budgetedRequest, reservationId } = budgetResult.value;
+
     this.updateRequestStats();
 
+    let result: CLIResult;
     try {
-      return await this.executeWithRetryAndTimeout(validationResult.value);
+      result = await this.dispatch(budgetedRequest, budgetContext, reservationId);
+    } finally {
+      // Recorded usage has settled the reservation already
+      this.releaseBudget(reservationId);
+    }
+    // The cache key is the request as asked of this provider: answers from
+    // a downgraded model or another provider of the chain must not be
+    // served for it later
+    const servedBy = result.isOk() ? result.value.metadata?.['servedBy'] : undefined;
+    if (
+      result.isOk() &&
+      budgetedRequest === validationResult.value &&
+      (servedBy === undefined || servedBy === cacheContext.provider)
+    ) {
+      await this.responseCache?.set(validationResult.value, result.value, cacheContext);
+    }
+    return result;
+  }
+
+  /**
+   * Multi-turn tool calling: send `request.tools`, run each requested call
+   * through its handler, append the calls and results to the conversation
+   * and ask again until the model answers without tool calls. Handler
+   * failures and unknown tools are reported back to the model as error
+   * results rather than ending the loop.
+   */
+  async runToolLoop(
+    request: CLIRequest,
+    handlers: Record<string, CLIToolHandler>,
+    options: CLIToolLoopOptions = {}
+  ): Promise<Result<CLIToolLoopResult, CLIError>> {
+    const maxTurns = options.maxTurns ?? 8;
+    const messages = [...request.messages];
+    const toolResults: CLIToolResult[] = [];
+
+    for (let turn = 1; turn <= maxTurns; turn++) {
+      const result = await this.chat({ ...request, messages });
+      if (result.isErr()) {
+        return err(result.error);
+      }
+
+      const response = result.value;
+      messages.push({
+        role: 'assistant',
+        content: response.content,
+        toolCalls: response.toolCalls,
+      });
+      if (!response.toolCalls?.length) {
+        return ok({ response, messages, toolResults, turns: turn });
+      }
+
+      for (const call of response.toolCalls) {
+        const toolResult = await this.invokeTool(call, handlers[call.name]);
+        toolResults.push(toolResult);
+        messages.push({
+          role: 'tool',
+          content: toolResult.content,
+          toolCallId: call.id,
+        });
+      }
+    }
+
+    return err({
+      code: CLI_ERROR_CODES.TOOL_ERROR,
+      message: `Tool loop did not finish within ${maxTurns} turns`,
+      details: {
+        providerId: this.providerId,
+        toolCalls: toolResults.map((r) => r.name),
+      },
+    });
+  }
+
+  private async invokeTool(
+    call: CLIToolCall,
+    handler: CLIToolHandler | undefined
+  ): Promise<CLIToolResult> {
+    const toolResult = { toolCallId: call.id, name: call.name };
+    if (!handler) {
+      return { ...toolResult, content: `Unknown tool: ${call.name}`, isError: true };
+    }
+
+    try {
+      const output = await handler(call.arguments, call);
+      this.emit('tool:called', {
+        providerId: this.providerId,
+        tool: call.name,
+        timestamp: Date.now(),
+      });
+      return {
+        ...toolResult,
+        content: typeof output === 'string' ? output : JSON.stringify(output ?? null),
+      };
     } catch (error) {
-      return err(this.createErrorFromException(error));
+      logger.warn('Tool handler failed', {
+        providerId: this.providerId,
+        tool: call.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        ...toolResult,
+        content: `Tool ${call.name} failed: ${error instanceof Error ? error.message : String(error)}`,
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Streaming variant of chat(). Resolves once the first chunk arrives:
+   * failures and timeouts before then are retried like chat(). Later chunks
+   * are relayed as they come, mid-stream failures are thrown from the
+   * iterator as CLIStreamError, and the final chunk carries usage.
+   * Aborting `options.signal` or leaving the loop early stops the provider.
+   * With a failover chain, the chain moves on to the next provider instead
+   * of retrying until one produces its first chunk.
+   */
+  async chatStream(
+    request: CLIRequest,
+    options: CLIStreamOptions = {}
+  ): Promise<Result<AsyncIterable<CLIStreamChunk>, CLIError>> {
+    const validationResult = this.validateRequest(request);
+    if (validationResult.isErr()) {
+      return err(validationResult.error);
+    }
+
+    if (!this.cliProvider) {
+      return err({
+        code: CLI_ERROR_CODES.UNKNOWN_ERROR,
+        message: 'CLI provider not initialized',
+        details: { providerId: this.providerId },
+      });
+    }
+
+    const budgetContext = this.getBudgetContext(validationResult.value);
+    const budgetResult = this.applyBudget(validationResult.value, budgetContext);
+    if (budgetResult.isErr()) {
+      return err(budgetResult.error);
+    }
+    const { request: budgetedRequest, reservationId } = budgetResult.value;
+
+    this.updateRequestStats();
+
+    // The failover chain applies its own per-provider first-chunk timeout
+    const attempts = this.failoverChain ? 1 : (this.llmConfig.retries ?? 0) + 1;
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      if (options.signal?.aborted) {
+        this.releaseBudget(reservationId);
+        return err(createCancelledError(this.providerId));
+      }
+
+      const controller = new AbortController();
+      const release = linkAbortSignal(options.signal, controller);
+      const iterator = this.openStream(budgetedRequest, controller.signal)[
+        Symbol.asyncIterator
+      ]();
+
+      try {
+        const first = await this.awaitFirstChunk(iterator, controller);
+        return ok(
+          this.relayStream(
+            first,
+            iterator,
+            controller,
+            () => {
+              release();
+              // Streams that end without a final chunk count nothing
+              this.releaseBudget(reservationId);
+            },
+            options.signal,
+            (usage, metadata) =>
+              this.recordBudgetUsage(
+                budgetContext,
+                budgetedRequest,
+                usage,
+                this.streamServedBy(metadata),
+                reservationId
+              )
+          )
+        );
+      } catch (error) {
+        controller.abort();
+        release();
+        void iterator.return?.().catch(() => undefined);
+
+        if (options.signal?.aborted) {
+          this.releaseBudget(reservationId);
+          return err(createCancelledError(this.providerId));
+        }
+
+        lastError = error;
+        if (attempt < attempts) {
+          logger.warn('Stream failed before first chunk, retrying', {
+            providerId: this.providerId,
+            attempt,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          await sleep(this.llmConfig.retryDelay ?? 1000, options.signal);
+        }
+      }
     }
+
+    this.releaseBudget(reservationId);
+    return err(this.toCLIError(lastError));
+  }
+
+  private openStream(
+    request: CLIRequest,
+    signal: AbortSignal
+  ): AsyncIterable<CLIStreamChunk> {
+    if (this.failoverChain) {
+      return this.failoverChain.stream(request, { signal });
+    }
+
+    const provider = this.cliProvider!;
+    if (provider.executeStream) {
+      return provider.executeStream(request, { signal });
+    }
+    // Providers without native streaming deliver the whole response at once
+    return streamFromResult(() => provider.execute(request, { signal }));
+  }
+
+  private async awaitFirstChunk(
+    iterator: AsyncIterator<CLIStreamChunk>,
+    controller: AbortController
+  ): Promise<IteratorResult<CLIStreamChunk>> {
+    if (this.failoverChain) {
+      return await abortable(iterator.next(), controller.signal);
+    }
+
+    const timeout = this.llmConfig.timeout || 30000;
+    const timer = setTimeout(
+      () =>
+        controller.abort(
+          new Error(`LLM stream timeout: no output within ${timeout}ms`)
+        ),
+      timeout
+    );
+
+    try {
+      return await abortable(iterator.next(), controller.signal);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async *relayStream(
+    first: IteratorResult<CLIStreamChunk>,
+    iterator: AsyncIterator<CLIStreamChunk>,
+    controller: AbortController,
+    release: () => void,
+    signal?: AbortSignal,
+    onUsage?: (
+      usage: CLIUsage|undefined,
+      metadata?: Record<string, unknown>
+    ) => void
+  ): AsyncGenerator<CLIStreamChunk> {
+    let next = first;
+    let finished = false;
+
+    try {
+      while (!next.done) {
+        if (next.value.done) {
+          finished = true;
+          onUsage?.(next.value.usage, next.value.metadata);
+          yield next.value;
+          return;
+        }
+        yield next.value;
+        next = await abortable(iterator.next(), controller.signal);
+      }
+
+      // Provider ended without a final chunk
+      finished = true;
+      onUsage?.(undefined);
+      yield { delta: '', done: true };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new CLIStreamError(createCancelledError(this.providerId));
+      }
+      throw new CLIStreamError(this.toCLIError(error));
+    } finally {
+      release();
+      if (!finished) {
+        // Consumer stopped early or the stream failed: stop the provider
+        controller.abort();
+        void iterator.return?.().catch(() => undefined);
+      }
+    }
+  }
+
+  /** Provider a failover chain stream was served by, from its final chunk */
+  private streamServedBy(
+    metadata: Record<string, unknown> | undefined
+  ): FailoverTarget|null {
+    const servedBy = metadata?.['servedBy'];
+    return (
+      (typeof servedBy === 'string'
+        ? this.failoverChain?.getTarget(servedBy)
+        : undefined) ?? this.cliProvider
+    );
+  }
+
+  private toCLIError(error: unknown): CLIError {
+    return error instanceof CLIStreamError
+      ? error.error
+      : this.createErrorFromException(error);
   }
 
   private validateRequest(request: CLIRequest): Result<CLIRequest, CLIError> {
@@ -281,6 +772,201 @@ export class LLMProvider extends TypedEventBase {
     return ok(validationResult.value);
   }
 
+  // Budget scope from request metadata; the agent defaults to the current role
+  private getBudgetContext(request: CLIRequest): LLMBudgetContext {
+    const metadata = request.metadata ?? {};
+    const field = (key: string): string|undefined =>
+      typeof metadata[key] === 'string' ? (metadata[key] as string) : undefined;
+
+    return {
+      projectId: field('projectId'),
+      swarmId: field('swarmId'),
+      agentRole: field('agentRole') ?? this.cliProvider?.getRole()?.role,
+    };
+  }
+
+  // Checks the budget and reserves the request in the same tick, so no
+  // concurrent request can pass the check in between
+  private applyBudget(
+    request: CLIRequest,
+    context: LLMBudgetContext
+  ): Result<{ request: CLIRequest; reservationId?: string }, CLIError> {
+    if (!this.budgetGuard) {
+      return ok({ request });
+    }
+
+    const decision = this.budgetGuard.checkBudget(context);
+    if (decision.action === 'allow') {
+      return ok({ request, reservationId: this.reserveBudget(context, request) });
+    }
+
+    const details = {
+      providerId: this.providerId,
+      policyId: decision.policyId,
+      ...context,
+    };
+    const downgradeTo =
+      decision.action === 'downgrade'
+        ? this.budgetRegistry?.getBestModel({
+            provider: this.cliProvider!.id,
+            maxCost: decision.maxModelCost,
+          })
+        : undefined;
+
+    if (!downgradeTo) {
+      const message =
+        decision.action === 'downgrade'
+          ? `${decision.reason ?? 'LLM budget exhausted'}; no cheaper model available`
+          : (decision.reason ?? 'LLM budget exhausted');
+      logger.warn('Request rejected by budget', { ...details, reason: message });
+      this.emit('budget:rejected', { ...details, reason: message, timestamp: Date.now() });
+      return err({ code: CLI_ERROR_CODES.BUDGET_EXCEEDED, message, details });
+    }
+
+    logger.info('Request downgraded by budget', {
+      ...details,
+      from: request.model,
+      to: downgradeTo.name,
+    });
+    this.emit('budget:downgraded', {
+      ...details,
+      from: request.model,
+      to: downgradeTo.name,
+      timestamp: Date.now(),
+    });
+    const downgraded = { ...request, model: downgradeTo.name };
+    return ok({
+      request: downgraded,
+      reservationId: this.reserveBudget(context, downgraded),
+    });
+  }
+
+  private reserveBudget(
+    context: LLMBudgetContext,
+    request: CLIRequest
+  ): string|undefined {
+    if (!this.budgetGuard?.reserve) {
+      return undefined;
+    }
+
+    // Rough estimate: about four characters per prompt token, plus the
+    // completion limit
+    const promptChars = request.messages.reduce(
+      (total, message) => total + message.content.length,
+      0
+    );
+    const tokens = Math.ceil(promptChars / 4) + (request.maxTokens ?? 0);
+    try {
+      return this.budgetGuard.reserve(context, { tokens });
+    } catch (error) {
+      logger.error('Failed to reserve budget', { error, providerId: this.providerId });
+      return undefined;
+    }
+  }
+
+  private releaseBudget(reservationId: string|undefined): void {
+    if (!reservationId) {
+      return;
+    }
+
+    try {
+      this.budgetGuard?.release?.(reservationId);
+    } catch (error) {
+      logger.error('Failed to release budget reservation', {
+        error,
+        providerId: this.providerId,
+      });
+    }
+  }
+
+  private async dispatch(
+    request: CLIRequest,
+    budgetContext: LLMBudgetContext,
+    reservationId?: string
+  ): Promise<CLIResult> {
+    if (this.failoverChain) {
+      return this.executeWithFailover(request, budgetContext, reservationId);
+    }
+
+    try {
+      const result = await this.executeWithRetryAndTimeout(request);
+      if (result.isOk()) {
+        this.recordBudgetUsage(
+          budgetContext,
+          request,
+          result.value.metadata?.['usage'] as CLIUsage | undefined,
+          this.cliProvider,
+          reservationId
+        );
+      }
+      return result;
+    } catch (error) {
+      return err(this.createErrorFromException(error));
+    }
+  }
+
+  private async executeWithFailover(
+    request: CLIRequest,
+    budgetContext: LLMBudgetContext,
+    reservationId?: string
+  ): Promise<CLIResult> {
+    const result = await this.failoverChain!.execute(request);
+    if (result.isErr()) {
+      logger.error('All providers in the failover chain failed', {
+        providerId: this.providerId,
+        error: result.error,
+      });
+      return err(result.error);
+    }
+
+    const { response, target } = result.value;
+    this.recordBudgetUsage(
+      budgetContext,
+      request,
+      response.metadata?.['usage'] as CLIUsage | undefined,
+      target,
+      reservationId
+    );
+    return ok(response);
+  }
+
+  private recordBudgetUsage(
+    context: LLMBudgetContext,
+    request: CLIRequest,
+    usage: CLIUsage|undefined,
+    servedBy: FailoverTarget|null = this.cliProvider,
+    reservationId?: string
+  ): void {
+    if (!this.budgetGuard || !servedBy) {
+      return;
+    }
+
+    const provider = servedBy.id;
+    // Registry and capability prices are per million tokens
+    const pricing =
+      (request.model
+        ? this.budgetRegistry?.getModel(`${provider}:${request.model}`)?.pricing
+        : undefined) ?? servedBy.getCapabilities?.().pricing;
+    const costUsd =
+      usage && pricing
+        ? (usage.promptTokens * pricing.inputTokens +
+            usage.completionTokens * pricing.outputTokens) /
+          1_000_000
+        : undefined;
+
+    try {
+      this.budgetGuard.recordUsage(context, {
+        tokens: usage?.totalTokens ?? 0,
+        costUsd,
+        provider,
+        model: request.model,
+        ...(reservationId && { reservationId }),
+      });
+    } catch (error) {
+      logger.error('Failed to record budget usage', { error, providerId: provider });
+    }
+  }
+
   private updateRequestStats(): void {
     this.requestCount++;
     this.lastRequestTime = Date.now();
@@ -86,6 +86,37 @@ export class ModelRegistry extends TypedEventBase {
     this.emit('provider:registered', { providerId: provider.id, provider });
   }
 
+  /**
+   * Register an API provider after discovering its models from the provider
+   * itself (e.g. an OpenAI-compatible server's /v1/models)
+   */
+  async registerDiscoveredProvider(provider: APIProvider): Promise<ModelInfo[]> {
+    this.registerProvider(provider);
+    return await this.refreshProviderModels(provider.id);
+  }
+
+  /**
+   * Re-discover a registered API provider's models, replacing the ones
+   * previously registered for it
+   */
+  async refreshProviderModels(providerId: string): Promise<ModelInfo[]> {
+    const provider = this.providers.get(providerId);
+    if (!provider || !('listModels' in provider)) {
+      return this.findModelsByProvider(providerId);
+    }
+
+    await provider.listModels();
+
+    for (const [modelId, model] of this.models.entries()) {
+      if (model.provider === providerId) {
+        this.models.delete(modelId);
+      }
+    }
+    this.loadProviderModels(provider);
+
+    return this.findModelsByProvider(providerId);
+  }
+
   /**
    * Unregister a provider
    */
@@ -184,11 +215,13 @@ export class ModelRegistry extends TypedEventBase {
       );
     }
 
-    if (criteria.maxCost && candidates.length > 0) {
-      candidates = candidates.filter((model) => {
-        if (!model.pricing) return true;
-        return model.pricing.outputTokens <= criteria.maxCost!;
-      });
+    if (criteria.maxCost !== undefined && candidates.length > 0) {
+      // A price cap cannot be honoured by models with unknown prices
+      candidates = candidates.filter(
+        (model) =>
+          model.pricing !== undefined &&
+          model.pricing.outputTokens <= criteria.maxCost!
+      );
     }
 
     // Sort by context window (larger is better) and cost (lower is better)
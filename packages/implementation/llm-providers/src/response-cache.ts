@@ -0,0 +1,341 @@
+/**
+ * @fileoverview Response Cache for LLM Requests
+ *
+ * Opt-in cache for `LLMProvider.chat()`. Responses are keyed on a hash of
+ * the normalized request (messages, model, sampling settings and tools)
+ * plus the provider and agent role, so pipelines that re-send identical
+ * classification prompts are answered without a provider call.
+ *
+ * Semantic matching is optional: given an embedding function and a vector
+ * store such as the memory package's LanceDB `VectorStore`, a request that
+ * misses the exact key may be answered by a cached response to a
+ * sufficiently similar prompt. Only requests without tools are matched
+ * semantically, since tool schemas change what a valid answer is.
+ *
+ * @example
+ * ```typescript
+ * const cache = new LLMResponseCache({
+ *   ttlMs: 6 * 60 * 60 * 1000,
+ *   excludeRoles: ['coder'],
+ *   semantic: { store: vectorStore, embed: (text) => embedder.embed(text) },
+ *   statsReporter: llmStatsService,
+ * });
+ * getGlobalLLM().useResponseCache(cache);
+ * ```
+ */
+
+import { createHash } from 'node:crypto';
+
+import { getLogger } from '@claude-zen/foundation/logging';
+
+import { normalizeRequest } from './cassette';
+import type { CLIRequest, CLIResponse } from './types/cli-providers';
+
+const logger = getLogger('llm-response-cache');
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_SIMILARITY_THRESHOLD = 0.95;
+
+/**
+ * Vector index used for semantic matching; the memory package's
+ * `VectorStore` fits.
+ */
+export interface SemanticCacheStore {
+  insert(data: {
+    id?: string;
+    vector: number[];
+    metadata: Record<string, unknown>;
+  }): Promise<unknown>;
+  similaritySearch(options: {
+    vector: number[];
+    k: number;
+    threshold?: number;
+    filter?: Record<string, unknown>;
+  }): Promise<Array<{ id: string; similarity: number; metadata: Record<string, unknown> }>>;
+}
+
+export type ResponseCacheOutcome = 'hit' | 'semantic-hit' | 'miss' | 'bypass';
+
+export interface ResponseCacheLookup {
+  outcome: ResponseCacheOutcome;
+  provider: string;
+  role?: string;
+  similarity?: number;
+}
+
+/**
+ * Receives every lookup; `LLMStatsService` from `@claude-zen/llm-routing`
+ * implements it.
+ */
+export interface ResponseCacheStatsReporter {
+  recordCacheLookup(lookup: ResponseCacheLookup): void;
+}
+
+export interface ResponseCacheOptions {
+  /** How long a response stays valid (default one hour) */
+  ttlMs?: number;
+  /** Oldest entries are evicted beyond this (default 1000) */
+  maxEntries?: number;
+  /** Agent roles whose requests are never cached */
+  excludeRoles?: string[];
+  semantic?: {
+    store: SemanticCacheStore;
+    embed: (text: string) => Promise<number[]>;
+    /** Minimum similarity for a semantic hit (default 0.95) */
+    threshold?: number;
+  };
+  statsReporter?: ResponseCacheStatsReporter;
+  now?: () => number;
+}
+
+export interface ResponseCacheContext {
+  provider: string;
+  role?: string;
+}
+
+export interface ResponseCacheStats {
+  hits: number;
+  semanticHits: number;
+  misses: number;
+  bypassed: number;
+  entries: number;
+  hitRate: number;
+}
+
+interface CacheEntry {
+  response: CLIResponse;
+  expiresAt: number;
+}
+
+export class LLMResponseCache {
+  // Insertion order doubles as eviction order
+  private entries = new Map<string, CacheEntry>();
+  private stats = { hits: 0, semanticHits: 0, misses: 0, bypassed: 0 };
+  private readonly now: () => number;
+
+  constructor(private readonly options: ResponseCacheOptions = {}) {
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Cache key for a request: a SHA-256 of the normalized request, the
+   * provider and the role.
+   */
+  static keyFor(request: CLIRequest, context: ResponseCacheContext): string {
+    return createHash('sha256')
+      .update(
+        JSON.stringify({
+          provider: context.provider,
+          role: context.role,
+          ...normalizeRequest(request),
+        })
+      )
+      .digest('hex');
+  }
+
+  /**
+   * Cached response for a request, marked with `metadata.cache`, or
+   * undefined on a miss.
+   */
+  async get(
+    request: CLIRequest,
+    context: ResponseCacheContext
+  ): Promise<CLIResponse | undefined> {
+    if (!this.isCacheable(request, context)) {
+      this.report('bypass', context);
+      return undefined;
+    }
+
+    const key = LLMResponseCache.keyFor(request, context);
+    const entry = this.liveEntry(key);
+    if (entry) {
+      this.report('hit', context);
+      return withCacheMetadata(entry.response, { hit: 'exact', key });
+    }
+
+    const semantic = await this.findSimilar(request, context);
+    if (semantic) {
+      this.report('semantic-hit', context, semantic.similarity);
+      return withCacheMetadata(semantic.entry.response, {
+        hit: 'semantic',
+        key: semantic.key,
+        similarity: semantic.similarity,
+      });
+    }
+
+    this.report('miss', context);
+    return undefined;
+  }
+
+  async set(
+    request: CLIRequest,
+    response: CLIResponse,
+    context: ResponseCacheContext
+  ): Promise<void> {
+    // Tool calls ask the caller to act; replaying them would repeat side effects
+    if (!this.isCacheable(request, context) || response.toolCalls?.length) {
+      return;
+    }
+
+    const key = LLMResponseCache.keyFor(request, context);
+    const expiresAt = this.now() + (this.options.ttlMs ?? DEFAULT_TTL_MS);
+    this.entries.delete(key);
+    this.entries.set(key, { response, expiresAt });
+    this.evict();
+
+    const semantic = this.options.semantic;
+    if (!semantic || request.tools?.length) {
+      return;
+    }
+    try {
+      await semantic.store.insert({
+        id: key,
+        vector: await semantic.embed(promptText(request)),
+        metadata: this.semanticFilter(request, context),
+      });
+    } catch (error) {
+      logger.warn('Failed to index response for semantic matching', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  getStats(): ResponseCacheStats {
+    const lookups =
+      this.stats.hits + this.stats.semanticHits + this.stats.misses;
+    return {
+      ...this.stats,
+      entries: this.entries.size,
+      hitRate:
+        lookups > 0 ? (this.stats.hits + this.stats.semanticHits) / lookups : 0,
+    };
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.stats = { hits: 0, semanticHits: 0, misses: 0, bypassed: 0 };
+  }
+
+  // Private helper methods
+
+  private isCacheable(request: CLIRequest, context: ResponseCacheContext): boolean {
+    if (request.metadata?.['cache'] === false) {
+      return false;
+    }
+    return !(context.role && this.options.excludeRoles?.includes(context.role));
+  }
+
+  private liveEntry(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private async findSimilar(
+    request: CLIRequest,
+    context: ResponseCacheContext
+  ): Promise<{ key: string; entry: CacheEntry; similarity: number } | undefined> {
+    const semantic = this.options.semantic;
+    if (!semantic || request.tools?.length) {
+      return undefined;
+    }
+
+    try {
+      const filter = this.semanticFilter(request, context);
+      const results = await semantic.store.similaritySearch({
+        vector: await semantic.embed(promptText(request)),
+        k: 5,
+        threshold: semantic.threshold ?? DEFAULT_SIMILARITY_THRESHOLD,
+        filter,
+      });
+
+      // The store indexes prompts only; responses live in this cache
+      for (const result of results) {
+        const matches = Object.entries(filter).every(
+          ([field, value]) => result.metadata[field] === value
+        );
+        const entry = matches ? this.liveEntry(result.id) : undefined;
+        if (entry && result.similarity >= (semantic.threshold ?? DEFAULT_SIMILARITY_THRESHOLD)) {
+          return { key: result.id, entry, similarity: result.similarity };
+        }
+      }
+    } catch (error) {
+      logger.warn('Semantic cache lookup failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return undefined;
+  }
+
+  // Responses are only shared between requests to the same provider, role and model
+  private semanticFilter(
+    request: CLIRequest,
+    context: ResponseCacheContext
+  ): Record<string, unknown> {
+    return {
+      source: 'llm-response-cache',
+      provider: context.provider,
+      role: context.role ?? null,
+      model: request.model ?? null,
+    };
+  }
+
+  private evict(): void {
+    const maxEntries = this.options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= maxEntries) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+  }
+
+  private report(
+    outcome: ResponseCacheOutcome,
+    context: ResponseCacheContext,
+    similarity?: number
+  ): void {
+    switch (outcome) {
+      case 'hit':
+        this.stats.hits++;
+        break;
+      case 'semantic-hit':
+        this.stats.semanticHits++;
+        break;
+      case 'miss':
+        this.stats.misses++;
+        break;
+      case 'bypass':
+        this.stats.bypassed++;
+        break;
+    }
+
+    try {
+      this.options.statsReporter?.recordCacheLookup({
+        outcome,
+        provider: context.provider,
+        role: context.role,
+        similarity,
+      });
+    } catch (error) {
+      logger.warn('Failed to report cache lookup', { error });
+    }
+  }
+}
+
+function promptText(request: CLIRequest): string {
+  return normalizeRequest(request)
+    .messages.map((message) => `${message.role}: ${message.content}`)
+    .join('\n');
+}
+
+function withCacheMetadata(
+  response: CLIResponse,
+  cache: { hit: 'exact' | 'semantic'; key: string; similarity?: number }
+): CLIResponse {
+  return { ...response, metadata: { ...response.metadata, cache } };
+}
@@ -0,0 +1,145 @@
+/**
+ * @fileoverview Streaming helpers for CLI providers
+ *
+ * Shared building blocks for `LLMProvider.chatStream()` and providers that
+ * implement `CLIProvider.executeStream()`: the error thrown from a stream
+ * iterator, an adapter for providers without native streaming, and
+ * cancellation helpers built on `AbortSignal`.
+ */
+
+import type {
+  CLIError,
+  CLIResponse,
+  CLIResult,
+  CLIStreamChunk,
+  CLIUsage,
+} from './types/cli-providers';
+import { CLI_ERROR_CODES } from './types/cli-providers';
+
+/**
+ * Error thrown from a stream iterator; `error` holds the same `CLIError`
+ * that `chat()` would have returned.
+ */
+export class CLIStreamError extends Error {
+  constructor(public readonly error: CLIError) {
+    super(error.message);
+    this.name = 'CLIStreamError';
+  }
+}
+
+export function createCancelledError(providerId?: string): CLIError {
+  return {
+    code: CLI_ERROR_CODES.CANCELLED_ERROR,
+    message: 'LLM request was cancelled',
+    details: providerId ? { providerId } : undefined,
+  };
+}
+
+/**
+ * Stream for providers without native streaming: the whole response
+ * arrives as a single delta followed by the final chunk.
+ *
+ * @param execute - Starts the request when the stream is first read.
+ */
+export async function* streamFromResult(
+  execute: () => Promise<CLIResult>
+): AsyncGenerator<CLIStreamChunk> {
+  const result = await execute();
+  if (result.isErr()) {
+    throw new CLIStreamError(result.error);
+  }
+
+  const { content, metadata } = result.value;
+  yield { delta: content, done: false };
+  yield {
+    delta: '',
+    done: true,
+    usage: metadata?.['usage'] as CLIUsage | undefined,
+    metadata,
+  };
+}
+
+/**
+ * Read a stream to the end and join its deltas into a single response.
+ *
+ * @param stream
+ */
+export async function collectStream(
+  stream: AsyncIterable<CLIStreamChunk>
+): Promise<CLIResponse> {
+  let content = '';
+  let metadata: Record<string, unknown> | undefined;
+
+  for await (const chunk of stream) {
+    content += chunk.delta;
+    if (chunk.done) {
+      metadata = { ...chunk.metadata, usage: chunk.usage };
+    }
+  }
+  return { content, metadata };
+}
+
+/**
+ * Settle with `promise`, or reject with the signal's reason as soon as it
+ * aborts.
+ *
+ * @param promise
+ * @param signal
+ */
+export function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Forward aborts from an optional parent signal to a controller.
+ *
+ * @param parent
+ * @param controller
+ * @returns Function that detaches the forwarding.
+ */
+export function linkAbortSignal(
+  parent: AbortSignal | undefined,
+  controller: AbortController
+): () => void {
+  if (!parent) return () => undefined;
+  if (parent.aborted) {
+    controller.abort(parent.reason);
+    return () => undefined;
+  }
+
+  const onAbort = () => controller.abort(parent.reason);
+  parent.addEventListener('abort', onAbort, { once: true });
+  return () => parent.removeEventListener('abort', onAbort);
+}
+
+/**
+ * Wait `ms`, resolving early when the signal aborts.
+ *
+ * @param ms
+ * @param signal
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
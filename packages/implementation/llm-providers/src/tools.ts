@@ -0,0 +1,244 @@
+/**
+ * @fileoverview Tool Calling Helpers
+ *
+ * Maps the provider-neutral tool types (`CLITool`, `CLIToolCall`, tool
+ * messages) to native wire formats: OpenAI chat-completions `tools` and
+ * `tool_calls`, and a prompt protocol for CLIs without native function
+ * calling, where the model answers with a fenced `tool_calls` JSON block.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+import type {
+  CLIMessage,
+  CLITool,
+  CLIToolCall,
+  CLIToolChoice,
+} from './types/cli-providers';
+
+const TOOL_CALLS_BLOCK = /```tool_calls\s*\n([\s\S]*?)```/;
+
+// =============================================================================
+// OpenAI chat-completions format
+// =============================================================================
+
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export interface OpenAIChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+/**
+ * Request fields for tools; empty when the request has none.
+ *
+ * @param tools
+ * @param toolChoice
+ */
+export function toOpenAIToolFields(
+  tools?: CLITool[],
+  toolChoice?: CLIToolChoice
+): { tools?: unknown[]; tool_choice?: unknown } {
+  if (!tools?.length) {
+    return {};
+  }
+
+  return {
+    tools: tools.map((tool) => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    })),
+    tool_choice:
+      typeof toolChoice === 'object'
+        ? { type: 'function', function: { name: toolChoice.name } }
+        : toolChoice,
+  };
+}
+
+export function toOpenAIMessages(messages: CLIMessage[]): OpenAIChatMessage[] {
+  return messages.map((message) => {
+    if (message.role === 'tool') {
+      return {
+        role: 'tool',
+        content: message.content,
+        tool_call_id: message.toolCallId,
+      };
+    }
+    if (message.toolCalls?.length) {
+      return {
+        role: message.role,
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+/**
+ * Tool calls from a chat-completions response message.
+ *
+ * @param toolCalls - `choices[0].message.tool_calls`
+ */
+export function fromOpenAIToolCalls(
+  toolCalls: OpenAIToolCall[] | undefined
+): CLIToolCall[] | undefined {
+  if (!toolCalls?.length) {
+    return undefined;
+  }
+
+  return toolCalls.map((call) => ({
+    id: call.id,
+    name: call.function.name,
+    arguments: parseArguments(call.function.arguments),
+  }));
+}
+
+// =============================================================================
+// Prompt protocol for CLIs without native function calling
+// =============================================================================
+
+/**
+ * Messages for a prompt-based provider: tool definitions become a system
+ * message and earlier tool calls and results become plain text.
+ *
+ * @param messages
+ * @param tools
+ * @param toolChoice
+ */
+export function withPromptTools(
+  messages: CLIMessage[],
+  tools?: CLITool[],
+  toolChoice: CLIToolChoice = 'auto'
+): CLIMessage[] {
+  const rendered = messages.map((message): CLIMessage => {
+    if (message.role === 'tool') {
+      return {
+        role: 'user',
+        content: `Result of tool call ${message.toolCallId ?? ''}:\n${message.content}`,
+      };
+    }
+    if (message.toolCalls?.length) {
+      return {
+        role: message.role,
+        content: [message.content, renderToolCallsBlock(message.toolCalls)]
+          .filter(Boolean)
+          .join('\n\n'),
+      };
+    }
+    return message;
+  });
+
+  if (!tools?.length || toolChoice === 'none') {
+    return rendered;
+  }
+
+  const instructions = [
+    'You can call these tools. Each takes JSON arguments matching its schema:',
+    ...tools.map(
+      (tool) =>
+        `- ${tool.name}: ${tool.description}\n  Schema: ${JSON.stringify(tool.parameters)}`
+    ),
+    '',
+    'To call tools, reply with only this block and nothing else:',
+    '```tool_calls',
+    '[{"name": "<tool name>", "arguments": {}}]',
+    '```',
+    'Tool results are sent back in the next message.',
+  ];
+  if (toolChoice === 'required') {
+    instructions.push('You must call at least one tool.');
+  } else if (typeof toolChoice === 'object') {
+    instructions.push(`You must call the ${toolChoice.name} tool.`);
+  } else {
+    instructions.push('If no tool is needed, answer normally.');
+  }
+
+  // After any system prompt, so role prompts stay first
+  const insertAt = rendered.findIndex((message) => message.role !== 'system');
+  const result = [...rendered];
+  result.splice(insertAt === -1 ? result.length : insertAt, 0, {
+    role: 'system',
+    content: instructions.join('\n'),
+  });
+  return result;
+}
+
+/**
+ * Split a prompt-based response into text and tool calls. Calls to tools
+ * not in `tools` are left in the text. Each call gets a fresh id, so ids
+ * stay unique across the turns of a tool loop.
+ *
+ * @param content
+ * @param tools
+ */
+export function extractToolCalls(
+  content: string,
+  tools?: CLITool[]
+): { content: string; toolCalls?: CLIToolCall[] } {
+  const match = tools?.length ? TOOL_CALLS_BLOCK.exec(content) : null;
+  if (!match) {
+    return { content };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(match[1]!);
+  } catch {
+    return { content };
+  }
+
+  const known = new Set(tools!.map((tool) => tool.name));
+  const candidates: unknown[] = Array.isArray(parsed) ? parsed : [parsed];
+  const toolCalls = candidates
+    .filter((call): call is { name: string; arguments?: unknown } => {
+      const name = (call as { name?: unknown } | null)?.name;
+      return typeof name === 'string' && known.has(name);
+    })
+    .map((call) => ({
+      id: `call_${randomUUID()}`,
+      name: call.name,
+      arguments:
+        typeof call.arguments === 'string'
+          ? parseArguments(call.arguments)
+          : ((call.arguments ?? {}) as Record<string, unknown>),
+    }));
+
+  if (toolCalls.length === 0) {
+    return { content };
+  }
+  return { content: content.replace(match[0], '').trim(), toolCalls };
+}
+
+function renderToolCallsBlock(toolCalls: CLIToolCall[]): string {
+  const calls = toolCalls.map((call) => ({
+    id: call.id,
+    name: call.name,
+    arguments: call.arguments,
+  }));
+  return `\`\`\`tool_calls\n${JSON.stringify(calls)}\n\`\`\``;
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    const value = JSON.parse(raw || '{}') as unknown;
+    return value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+  } catch {
+    // Models occasionally emit invalid JSON; keep it for the handler to report
+    return { _raw: raw };
+  }
+}
@@ -8,9 +8,23 @@
 import type { Result } from '@claude-zen/foundation';
 import type { LiteralUnion } from '@claude-zen/foundation/types';
 
+import type {
+  CLIExecuteOptions,
+  CLITool,
+  CLIToolCall,
+  CLIToolChoice,
+} from './cli-providers';
+
+// Tool calling uses the same shapes as CLI providers
+export type APITool = CLITool;
+export type APIToolCall = CLIToolCall;
+export type APIToolChoice = CLIToolChoice;
+
 export interface APIMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  toolCalls?: APIToolCall[];
+  toolCallId?: string;
 }
 
 export interface APIRequest {
@@ -26,10 +40,13 @@ export interface APIRequest {
   temperature?: number;
   maxTokens?: number;
   metadata?: Record<string, unknown>;
+  tools?: APITool[];
+  toolChoice?: APIToolChoice;
 }
 
 export interface APIResponse {
   content: string;
+  toolCalls?: APIToolCall[];
   metadata?: Record<string, unknown>;
 }
 
@@ -81,7 +98,7 @@ export interface APIProvider {
   readonly type: 'api';
 
   getCapabilities(): APIProviderCapabilities;
-  execute(request: APIRequest): Promise<APIResult>;
+  execute(request: APIRequest, options?: CLIExecuteOptions): Promise<APIResult>;
 
   // Model discovery
   listModels(): Promise<string[]>;
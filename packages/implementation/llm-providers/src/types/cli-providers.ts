@@ -13,8 +13,54 @@ import type {
 } from '@claude-zen/foundation/types';
 
 export interface CLIMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  /** Tool calls made by an assistant message */
+  toolCalls?: CLIToolCall[];
+  /** Call answered by a tool message */
+  toolCallId?: string;
+}
+
+// Tool the model may call; parameters is a JSON Schema object
+export interface CLITool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export type CLIToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+export interface CLIToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface CLIToolResult {
+  toolCallId: string;
+  name: string;
+  content: string;
+  isError?: boolean;
+}
+
+// Runs one tool call for LLMProvider.runToolLoop(); non-string results are sent as JSON
+export type CLIToolHandler = (
+  args: Record<string, unknown>,
+  call: CLIToolCall
+) => unknown | Promise<unknown>;
+
+export interface CLIToolLoopOptions {
+  /** Model turns before giving up (default 8) */
+  maxTurns?: number;
+}
+
+export interface CLIToolLoopResult {
+  /** Final response, without tool calls */
+  response: CLIResponse;
+  /** Conversation including assistant tool calls and tool messages */
+  messages: CLIMessage[];
+  toolResults: CLIToolResult[];
+  turns: number;
 }
 
 export interface CLIRequest {
@@ -23,11 +69,15 @@ export interface CLIRequest {
   temperature?: number;
   maxTokens?: number;
   metadata?: Record<string, unknown>;
+  tools?: CLITool[];
+  toolChoice?: CLIToolChoice;
 }
 
 // Modern Result-based response using foundation's Result pattern
 export interface CLIResponse {
   content: string;
+  /** Tool calls requested by the model, to be answered with tool messages */
+  toolCalls?: CLIToolCall[];
   metadata?: Record<string, unknown>;
 }
 
@@ -41,6 +91,29 @@ export interface CLIError {
 // Type-safe Result pattern for CLI operations
 export type CLIResult = Result<CLIResponse, CLIError>;
 
+export interface CLIUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// One piece of a streamed response; the final chunk has done: true and carries usage
+export interface CLIStreamChunk {
+  delta: string;
+  done: boolean;
+  usage?: CLIUsage;
+  metadata?: Record<string, unknown>;
+}
+
+export interface CLIStreamOptions {
+  signal?: AbortSignal;
+}
+
+export interface CLIExecuteOptions {
+  /** Stops the provider's work, e.g. when a failover attempt times out */
+  signal?: AbortSignal;
+}
+
 // Specialized CLI roles for swarm agents
 export interface SwarmAgentRole {
   role: LiteralUnion<
@@ -97,7 +170,12 @@ export interface CLIProvider {
   readonly name: string;
 
   getCapabilities(): CLIProviderCapabilities;
-  execute(request: CLIRequest): Promise<CLIResult>;
+  execute(request: CLIRequest, options?: CLIExecuteOptions): Promise<CLIResult>;
+  // Optional native streaming; failures are thrown from the iterator
+  executeStream?(
+    request: CLIRequest,
+    options?: CLIStreamOptions
+  ): AsyncIterable<CLIStreamChunk>;
 
   // Role management with Result pattern
   setRole(roleName: string): Result<void, CLIError>;
@@ -153,6 +231,43 @@ export type CLIProviderWithDefaults = Merge<
   { getCapabilities(): Required<CLIProviderCapabilities> }
 >;
 
+// Budget enforcement before dispatch. Structurally matches LLMBudgetService
+// from @claude-zen/llm-routing, so either package can be used without the other.
+export interface LLMBudgetContext {
+  projectId?: string;
+  agentRole?: string;
+  swarmId?: string;
+}
+
+export interface LLMBudgetDecision {
+  action: 'allow' | 'fail' | 'downgrade';
+  policyId?: string;
+  reason?: string;
+  /** Highest model output price (per million tokens) when downgrading */
+  maxModelCost?: number;
+}
+
+export interface LLMBudgetGuard {
+  checkBudget(context: LLMBudgetContext): LLMBudgetDecision;
+  /**
+   * Holds an allowed request and its estimated tokens until recordUsage()
+   * settles it, so concurrent requests see each other
+   */
+  reserve?(context: LLMBudgetContext, estimate: { tokens: number }): string;
+  /** Drops a reservation that was not settled; settled ones are ignored */
+  release?(reservationId: string): unknown;
+  recordUsage(
+    context: LLMBudgetContext,
+    record: {
+      tokens: number;
+      costUsd?: number;
+      provider: string;
+      model?: string;
+      reservationId?: string;
+    }
+  ): void;
+}
+
 // Validation schemas using foundation's Zod integration
 export interface CLIValidationSchema {
   request: (request: unknown) => Result<CLIRequest, CLIError>;
@@ -169,6 +284,11 @@ export const CLI_ERROR_CODES = {
   RATE_LIMIT_ERROR: 'RATE_LIMIT_ERROR',
   MODEL_ERROR: 'MODEL_ERROR',
   ROLE_ERROR: 'ROLE_ERROR',
+  CANCELLED_ERROR: 'CANCELLED_ERROR',
+  CLI_NOT_FOUND: 'CLI_NOT_FOUND',
+  TOOL_ERROR: 'TOOL_ERROR',
+  BUDGET_EXCEEDED: 'BUDGET_EXCEEDED',
+  CIRCUIT_OPEN: 'CIRCUIT_OPEN',
   UNKNOWN_ERROR: 'UNKNOWN_ERROR',
 } as const;
 
@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { err, ok } from '@claude-zen/foundation';
+import { LLMProvider } from '../../src/llm-provider';
+import { ModelRegistry } from '../../src/registry/model-registry';
+import { LLMResponseCache } from '../../src/response-cache';
+import type {
+  LLMBudgetDecision,
+  LLMBudgetGuard,
+} from '../../src/types/cli-providers';
+
+vi.mock('../../src/claude/claude-provider', () => ({
+  ClaudeProvider: vi.fn().mockImplementation(() => ({
+    id: 'claude-code',
+    name: 'Claude Code',
+    getCapabilities: () => ({
+      models: ['sonnet', 'haiku'],
+      pricing: { inputTokens: 3, outputTokens: 15, currency: 'USD' },
+    }),
+    execute: vi.fn(async (request) =>
+      ok({
+        content: `answered by ${request.model ?? 'sonnet'}`,
+        metadata: {
+          usage: { promptTokens: 1000, completionTokens: 2000, totalTokens: 3000 },
+        },
+      })
+    ),
+    setRole: vi.fn(() => ok()),
+    getRole: () => ({ role: 'coder', systemPrompt: '', capabilities: [] }),
+  })),
+}));
+
+function createGuard(decision: LLMBudgetDecision) {
+  return {
+    checkBudget: vi.fn(() => decision),
+    recordUsage: vi.fn(),
+  } satisfies LLMBudgetGuard;
+}
+
+// Allows `maxRequests` requests, counting reserved ones like LLMBudgetService
+function createReservingGuard(maxRequests: number) {
+  const reserved = new Set<string>();
+  let used = 0;
+  return {
+    checkBudget: vi.fn(
+      (): LLMBudgetDecision => ({
+        action: used + reserved.size < maxRequests ? 'allow' : 'fail',
+      })
+    ),
+    reserve: vi.fn(() => {
+      const reservationId = `reservation-${used + reserved.size}`;
+      reserved.add(reservationId);
+      return reservationId;
+    }),
+    release: vi.fn((reservationId: string) => reserved.delete(reservationId)),
+    recordUsage: vi.fn((_context, record: { reservationId?: string }) => {
+      reserved.delete(record.reservationId!);
+      used++;
+    }),
+  } satisfies LLMBudgetGuard;
+}
+
+const registry = {
+  getBestModel: vi.fn(() => ({ name: 'haiku' })),
+  getModel: vi.fn((id: string) =>
+    id === 'claude-code:haiku'
+      ? { pricing: { inputTokens: 1, outputTokens: 5, currency: 'USD' } }
+      : undefined
+  ),
+} as unknown as ModelRegistry;
+
+const request = {
+  messages: [{ role: 'user' as const, content: 'Refactor the parser' }],
+  model: 'sonnet',
+  metadata: { projectId: 'zen', swarmId: 'swarm-1' },
+};
+
+describe('LLMProvider budgets', () => {
+  let llm: LLMProvider;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    llm = new LLMProvider('claude-code', { retries: 0 });
+    // Let the lazily imported provider initialize
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  });
+
+  it('should check the budget and record spend at provider prices', async () => {
+    const guard = createGuard({ action: 'allow' });
+    llm.setBudgetGuard(guard);
+
+    const result = await llm.chat(request);
+
+    expect(result._unsafeUnwrap().content).toBe('answered by sonnet');
+    expect(guard.checkBudget).toHaveBeenCalledWith({
+      projectId: 'zen',
+      swarmId: 'swarm-1',
+      agentRole: 'coder',
+    });
+    expect(guard.recordUsage).toHaveBeenCalledWith(
+      { projectId: 'zen', swarmId: 'swarm-1', agentRole: 'coder' },
+      { tokens: 3000, costUsd: 0.033, provider: 'claude-code', model: 'sonnet' }
+    );
+  });
+
+  it('should reject requests when the budget fails', async () => {
+    const guard = createGuard({ action: 'fail', policyId: 'daily', reason: 'Spent' });
+    llm.setBudgetGuard(guard);
+    const rejected = vi.fn();
+    llm.on('budget:rejected', rejected);
+
+    const error = (await llm.chat(request))._unsafeUnwrapErr();
+
+    expect(error.code).toBe('BUDGET_EXCEEDED');
+    expect(error.message).toBe('Spent');
+    expect(rejected).toHaveBeenCalledOnce();
+    expect(guard.recordUsage).not.toHaveBeenCalled();
+  });
+
+  it('should downgrade to the best model within the price cap', async () => {
+    const guard = createGuard({ action: 'downgrade', policyId: 'daily', maxModelCost: 5 });
+    llm.setBudgetGuard(guard, { modelRegistry: registry });
+
+    const result = await llm.chat(request);
+
+    expect(registry.getBestModel).toHaveBeenCalledWith({
+      provider: 'claude-code',
+      maxCost: 5,
+    });
+    expect(result._unsafeUnwrap().content).toBe('answered by haiku');
+    expect(guard.recordUsage.mock.calls[0]![1]).toMatchObject({
+      model: 'haiku',
+      costUsd: 0.011,
+    });
+  });
+
+  it('should hold concurrent requests against the budget until they complete', async () => {
+    const guard = createReservingGuard(2);
+    llm.setBudgetGuard(guard);
+
+    const results = await Promise.all([llm.chat(request), llm.chat(request), llm.chat(request)]);
+
+    expect(results.map((result) => result.isOk())).toEqual([true, true, false]);
+    expect(results[2]!._unsafeUnwrapErr().code).toBe('BUDGET_EXCEEDED');
+    expect(guard.reserve).toHaveBeenCalledWith(
+      { projectId: 'zen', swarmId: 'swarm-1', agentRole: 'coder' },
+      { tokens: 5 }
+    );
+    expect(guard.recordUsage.mock.calls.map(([, record]) => record.reservationId)).toEqual([
+      'reservation-0',
+      'reservation-1',
+    ]);
+  });
+
+  it('should release the reservation of a failed request', async () => {
+    const guard = createReservingGuard(1);
+    llm.setBudgetGuard(guard);
+    await llm.setFailoverChain([
+      {
+        id: 'copilot',
+        execute: async () => err({ code: 'NETWORK_ERROR', message: 'offline' }),
+      },
+    ]);
+
+    expect((await llm.chat(request)).isErr()).toBe(true);
+
+    expect(guard.release).toHaveBeenCalledWith('reservation-0');
+    expect(guard.recordUsage).not.toHaveBeenCalled();
+    expect(guard.checkBudget()).toEqual({ action: 'allow' });
+  });
+
+  it('should reject downgrades without a model registry', async () => {
+    llm.setBudgetGuard(createGuard({ action: 'downgrade', maxModelCost: 5 }));
+
+    const error = (await llm.chat(request))._unsafeUnwrapErr();
+
+    expect(error.code).toBe('BUDGET_EXCEEDED');
+    expect(error.message).toMatch(/no cheaper model available/);
+  });
+
+  it('should not cache answers from a downgraded model', async () => {
+    const guard = createGuard({ action: 'downgrade', policyId: 'daily', maxModelCost: 5 });
+    llm.setBudgetGuard(guard, { modelRegistry: registry });
+    llm.useResponseCache(new LLMResponseCache());
+
+    await llm.chat(request);
+    guard.checkBudget.mockReturnValue({ action: 'allow' });
+    const result = await llm.chat(request);
+
+    expect(result._unsafeUnwrap().content).toBe('answered by sonnet');
+  });
+
+  it('should not cache answers served by another provider of the chain', async () => {
+    const cache = new LLMResponseCache();
+    const set = vi.spyOn(cache, 'set');
+    llm.useResponseCache(cache);
+    await llm.setFailoverChain([
+      {
+        id: 'copilot',
+        execute: async () => ok({ content: 'answered by copilot' }),
+      },
+    ]);
+
+    const result = await llm.chat(request);
+
+    expect(result._unsafeUnwrap().metadata?.['servedBy']).toBe('copilot');
+    expect(set).not.toHaveBeenCalled();
+  });
+});
+
+describe('ModelRegistry.getBestModel under a price cap', () => {
+  const provider = (
+    id: string,
+    pricing?: { inputTokens: number; outputTokens: number; currency: string }
+  ) =>
+    ({
+      id,
+      name: id,
+      getCapabilities: () => ({
+        models: [`${id}-model`],
+        maxTokens: 4096,
+        contextWindow: id === 'unpriced' ? 1_000_000 : 100_000,
+        features: {},
+        pricing,
+      }),
+    }) as never;
+
+  it('should skip models without known prices', () => {
+    const models = new ModelRegistry({ autoDiscovery: false });
+    models.registerProvider(provider('unpriced'));
+    models.registerProvider(provider('cheap', { inputTokens: 1, outputTokens: 4, currency: 'USD' }));
+    models.registerProvider(provider('pricey', { inputTokens: 5, outputTokens: 25, currency: 'USD' }));
+
+    expect(models.getBestModel({ maxCost: 5 })?.provider).toBe('cheap');
+    expect(models.getBestModel({ maxCost: 1 })).toBeUndefined();
+    expect(models.getBestModel({})?.provider).toBe('unpriced');
+  });
+});
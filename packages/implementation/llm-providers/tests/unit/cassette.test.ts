@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ok, err } from '@claude-zen/foundation';
+import {
+  CassetteMismatchError,
+  createCLICassette,
+} from '../../src/cassette';
+import { CLIStreamError, collectStream } from '../../src/streaming';
+import type { CLIProvider, CLIRequest } from '../../src/types/cli-providers';
+
+function createFakeProvider() {
+  let calls = 0;
+  const provider = {
+    id: 'fake-cli',
+    name: 'Fake CLI',
+    getCapabilities: vi.fn(),
+    execute: vi.fn(async (request) => {
+      calls++;
+      const prompt = request.messages.at(-1).content;
+      if (prompt === 'break') {
+        return err({ code: 'RATE_LIMIT_ERROR', message: 'Slow down' });
+      }
+      return ok({
+        content: `answer ${calls} to ${prompt}`,
+        metadata: { model: request.model ?? 'fake-model', timestamp: Date.now() },
+      });
+    }),
+    setRole: vi.fn(() => ok()),
+    getRole: vi.fn(() => ({ role: 'coder', systemPrompt: '', capabilities: [] })),
+    complete: vi.fn(),
+    executeTask: vi.fn(async (prompt: string) => ok({ done: prompt })),
+    executeStream: vi.fn(async function* (request: CLIRequest) {
+      const prompt = request.messages.at(-1)!.content;
+      yield { delta: 'part one, ', done: false };
+      if (prompt === 'break') {
+        throw new CLIStreamError({ code: 'NETWORK_ERROR', message: 'Connection reset' });
+      }
+      yield { delta: `then ${prompt}`, done: false };
+      yield {
+        delta: '',
+        done: true,
+        usage: { promptTokens: 3, completionTokens: 4, totalTokens: 7 },
+        metadata: { model: 'fake-model', timestamp: Date.now() },
+      };
+    }),
+    getUsageStats: vi.fn(() => ({ requestCount: calls, lastRequestTime: 0 })),
+  };
+  return provider as typeof provider & CLIProvider;
+}
+
+describe('LLM cassettes', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'llm-cassette-'));
+    path = join(dir, 'fixtures', 'prompts.cassette.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function record() {
+    const recorder = createCLICassette(createFakeProvider(), { path, mode: 'record' });
+    await recorder.execute({
+      messages: [{ role: 'user', content: 'hello  \r\n' }],
+      temperature: 0.2,
+    });
+    await recorder.complete('hello');
+    await recorder.complete('break');
+    await recorder.executeTask('ship it', { autoApprove: true });
+  }
+
+  it('should write normalized request/response pairs on record', async () => {
+    await record();
+
+    const file = JSON.parse(readFileSync(path, 'utf8'));
+    expect(file.version).toBe(1);
+    expect(file.interactions).toHaveLength(4);
+    expect(file.interactions[0]).toEqual({
+      request: {
+        method: 'execute',
+        messages: [{ role: 'user', content: 'hello' }],
+        temperature: 0.2,
+        role: 'coder',
+      },
+      outcome: {
+        ok: true,
+        value: { content: 'answer 1 to hello  \r\n', metadata: { model: 'fake-model' } },
+      },
+    });
+    expect(file.interactions[2].outcome).toEqual({
+      ok: false,
+      error: { code: 'RATE_LIMIT_ERROR', message: 'Slow down' },
+    });
+  });
+
+  it('should replay recordings without calling the provider', async () => {
+    await record();
+    const provider = createFakeProvider();
+    const player = createCLICassette(provider, { path, mode: 'replay' });
+
+    const result = await player.execute({
+      messages: [{ role: 'user', content: 'hello' }],
+      temperature: 0.2,
+    });
+
+    expect(result._unsafeUnwrap().content).toBe('answer 1 to hello  \r\n');
+    expect((await player.complete('hello'))._unsafeUnwrap()).toBe('answer 2 to hello');
+    expect((await player.complete('break'))._unsafeUnwrapErr().code).toBe(
+      'RATE_LIMIT_ERROR'
+    );
+    expect((await player.executeTask('ship it'))._unsafeUnwrap()).toEqual({
+      done: 'ship it',
+    });
+    expect(provider.execute).not.toHaveBeenCalled();
+    expect(provider.executeTask).not.toHaveBeenCalled();
+  });
+
+  it('should fail loudly on unmatched requests', async () => {
+    await record();
+    const player = createCLICassette(createFakeProvider(), { path, mode: 'replay' });
+
+    await expect(player.complete('something new')).rejects.toBeInstanceOf(
+      CassetteMismatchError
+    );
+    await expect(
+      player.execute({
+        messages: [{ role: 'user', content: 'hello' }],
+        temperature: 0.9,
+      })
+    ).rejects.toThrow(/temperature=0.9/);
+  });
+
+  it('should ignore fields excluded from matching', async () => {
+    await record();
+    const player = createCLICassette(createFakeProvider(), {
+      path,
+      mode: 'replay',
+      match: { temperature: false },
+    });
+
+    const result = await player.execute({
+      messages: [{ role: 'user', content: 'hello' }],
+      temperature: 0.9,
+    });
+
+    expect(result._unsafeUnwrap().content).toBe('answer 1 to hello  \r\n');
+  });
+
+  it('should record and replay streamed chunks', async () => {
+    const recorder = createCLICassette(createFakeProvider(), { path, mode: 'record' });
+    const recorded = await collectStream(
+      recorder.executeStream!({ messages: [{ role: 'user', content: 'stream it' }] })
+    );
+    const provider = createFakeProvider();
+    const player = createCLICassette(provider, { path, mode: 'replay' });
+
+    const replayed = await collectStream(
+      player.executeStream!({ messages: [{ role: 'user', content: 'stream it' }] })
+    );
+
+    expect(replayed).toEqual({
+      content: 'part one, then stream it',
+      metadata: { model: 'fake-model', usage: recorded.metadata?.['usage'] },
+    });
+    expect(provider.executeStream).not.toHaveBeenCalled();
+  });
+
+  it('should replay the chunks of a failed stream before its error', async () => {
+    const recorder = createCLICassette(createFakeProvider(), { path, mode: 'record' });
+    await expect(
+      collectStream(recorder.executeStream!({ messages: [{ role: 'user', content: 'break' }] }))
+    ).rejects.toBeInstanceOf(CLIStreamError);
+    const player = createCLICassette(createFakeProvider(), { path, mode: 'replay' });
+
+    const deltas: string[] = [];
+    const replay = async () => {
+      for await (const chunk of player.executeStream!({
+        messages: [{ role: 'user', content: 'break' }],
+      })) {
+        deltas.push(chunk.delta);
+      }
+    };
+
+    await expect(replay()).rejects.toMatchObject({ error: { code: 'NETWORK_ERROR' } });
+    expect(deltas).toEqual(['part one, ']);
+  });
+
+  it('should require the cassette file in replay mode', async () => {
+    const player = createCLICassette(createFakeProvider(), { path, mode: 'replay' });
+
+    await expect(player.complete('hello')).rejects.toThrow(/LLM cassette not found/);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { GeminiCLI } from '../../src/gemini';
+import { CursorCLI } from '../../src/cursor';
+
+// Stand-in executables printing the CLIs' JSON output formats
+let dir: string;
+
+function fakeCLI(name: string, script: string): string {
+  const path = join(dir, name);
+  writeFileSync(path, `#!/usr/bin/env node\n${script}\n`);
+  chmodSync(path, 0o755);
+  return path;
+}
+
+describe('spawned CLI providers', () => {
+  let gemini: string;
+  let cursor: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cli-providers-'));
+    gemini = fakeCLI(
+      'gemini',
+      `let input = '';
+process.stdin.on('data', (c) => (input += c));
+process.stdin.on('end', () => {
+  const model = process.argv[process.argv.indexOf('--model') + 1];
+  console.log('Loaded cached credentials.');
+  console.log(JSON.stringify({
+    response: 'gemini: ' + input.split('\\n').pop(),
+    stats: { models: { [model]: { tokens: { prompt: 12, candidates: 5, total: 17 } } } },
+  }));
+});`
+    );
+    cursor = fakeCLI(
+      'cursor-agent',
+      `let prompt = '';
+process.stdin.on('data', (c) => (prompt += c));
+process.stdin.on('end', () => {
+  if (prompt.includes('fail')) {
+    console.log(JSON.stringify({ type: 'result', subtype: 'error', is_error: true, result: 'rate limit exceeded' }));
+    process.exit(1);
+  }
+  if (prompt.includes('hang')) setTimeout(() => undefined, 60000);
+  else console.log(JSON.stringify({ type: 'result', subtype: 'success', is_error: false, result: 'done: ' + process.argv.includes('--force') + ' ' + prompt.length }));
+});`
+    );
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should parse Gemini JSON output and account reported tokens', async () => {
+    const provider = new GeminiCLI({ command: gemini });
+
+    const result = await provider.execute({
+      messages: [{ role: 'user', content: 'hello' }],
+    });
+
+    expect(result._unsafeUnwrap()).toMatchObject({
+      content: 'gemini: user: hello',
+      metadata: {
+        provider: 'gemini-cli',
+        model: 'gemini-2.5-pro',
+        usage: { promptTokens: 12, completionTokens: 5, totalTokens: 17 },
+        estimatedUsage: false,
+        role: 'assistant',
+      },
+    });
+
+    await provider.complete('again');
+    expect(provider.getUsageStats()).toMatchObject({
+      requestCount: 2,
+      errorCount: 0,
+      totalTokens: 34,
+      estimatedRequests: 0,
+    });
+  });
+
+  it('should prepend the role system prompt', async () => {
+    const provider = new GeminiCLI({ command: gemini });
+
+    expect(provider.setRole('coder').isOk()).toBe(true);
+    expect(provider.getRole()?.role).toBe('coder');
+    expect(provider.setRole('wizard')._unsafeUnwrapErr().code).toBe('ROLE_ERROR');
+  });
+
+  it('should estimate usage when the CLI reports none', async () => {
+    const provider = new CursorCLI({ command: cursor });
+
+    const result = await provider.executeTask('write it', { autoApprove: true });
+
+    expect(result._unsafeUnwrap().content).toMatch(/^done: true /);
+    const stats = provider.getUsageStats();
+    expect(stats.estimatedRequests).toBe(1);
+    expect(stats.promptTokens).toBeGreaterThan(0);
+  });
+
+  it('should pass prompts larger than the argument limit on stdin', async () => {
+    const provider = new CursorCLI({ command: cursor });
+    const prompt = 'x'.repeat(256 * 1024);
+
+    const result = await provider.complete(prompt);
+
+    const length = Number(result._unsafeUnwrap().split(' ').pop());
+    expect(length).toBeGreaterThanOrEqual(prompt.length);
+  });
+
+  it('should map reported CLI errors to error codes', async () => {
+    const provider = new CursorCLI({ command: cursor });
+
+    const result = await provider.complete('please fail');
+
+    expect(result._unsafeUnwrapErr().code).toBe('RATE_LIMIT_ERROR');
+    expect(provider.getUsageStats().errorCount).toBe(1);
+  });
+
+  it('should kill the CLI when it exceeds the timeout', async () => {
+    const provider = new CursorCLI({ command: cursor, timeout: 200 });
+
+    const result = await provider.complete('hang');
+
+    expect(result._unsafeUnwrapErr().code).toBe('TIMEOUT_ERROR');
+  });
+
+  it('should report a missing CLI', async () => {
+    const provider = new GeminiCLI({ command: join(dir, 'not-installed') });
+
+    const result = await provider.complete('hello');
+
+    expect(result._unsafeUnwrapErr().code).toBe('CLI_NOT_FOUND');
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ok, err } from '@claude-zen/foundation';
+import {
+  FailoverChain,
+  ProviderCircuitBreaker,
+  type FailoverTarget,
+} from '../../src/failover';
+
+function createTarget(id: string, outcome: 'ok' | 'rate-limit' | 'invalid', models = [`${id}-model`]) {
+  return {
+    id,
+    getCapabilities: () => ({ models }),
+    execute: vi.fn(async (request) => {
+      if (outcome === 'rate-limit') {
+        return err({ code: 'RATE_LIMIT_ERROR', message: `${id} rate limited` });
+      }
+      if (outcome === 'invalid') {
+        return err({ code: 'VALIDATION_ERROR', message: 'Bad request' });
+      }
+      return ok({ content: `${id} answered with ${request.model ?? 'default'}` });
+    }),
+  } satisfies FailoverTarget;
+}
+
+const request = {
+  messages: [{ role: 'user' as const, content: 'Plan the sprint' }],
+  model: 'copilot-model',
+};
+
+describe('ProviderCircuitBreaker', () => {
+  it('should open on error rate and recover through a half-open probe', () => {
+    let now = 0;
+    const states: string[] = [];
+    const breaker = new ProviderCircuitBreaker(
+      { minimumCalls: 4, errorRateThreshold: 0.5, resetTimeoutMs: 1000 },
+      (state) => states.push(state),
+      () => now
+    );
+
+    breaker.recordSuccess(10);
+    breaker.recordFailure(10);
+    breaker.recordSuccess(10);
+    expect(breaker.getState()).toBe('closed');
+    breaker.recordFailure(10);
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+
+    now = 1000;
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess(10);
+    expect(states).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('should open on latency and reopen after a failed probe', () => {
+    let now = 0;
+    const breaker = new ProviderCircuitBreaker(
+      { minimumCalls: 2, latencyThresholdMs: 500, resetTimeoutMs: 100 },
+      undefined,
+      () => now
+    );
+
+    breaker.recordSuccess(400);
+    breaker.recordSuccess(700);
+    expect(breaker.getState()).toBe('open');
+
+    now = 100;
+    expect(breaker.tryAcquire()).toBe(true);
+    breaker.recordFailure(10);
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getStats().openedAt).toBe(100);
+  });
+});
+
+describe('FailoverChain', () => {
+  it('should fall back to the next provider and record who served', async () => {
+    const copilot = createTarget('copilot', 'rate-limit');
+    const claude = createTarget('claude-code', 'ok');
+    const onFailover = vi.fn();
+    const chain = new FailoverChain(
+      [
+        { id: 'copilot', target: copilot },
+        { id: 'claude-code', target: claude },
+      ],
+      { onFailover }
+    );
+
+    const { response, attempts } = (await chain.execute(request))._unsafeUnwrap();
+
+    expect(response.content).toBe('claude-code answered with default');
+    expect(response.metadata?.['servedBy']).toBe('claude-code');
+    expect(attempts.map((a) => a.outcome)).toEqual(['error', 'success']);
+    expect(onFailover).toHaveBeenCalledWith(
+      'copilot',
+      'claude-code',
+      expect.objectContaining({ code: 'RATE_LIMIT_ERROR' })
+    );
+  });
+
+  it('should skip providers whose circuit is open', async () => {
+    const copilot = createTarget('copilot', 'rate-limit');
+    const chain = new FailoverChain(
+      [
+        { id: 'copilot', target: copilot },
+        { id: 'claude-code', target: createTarget('claude-code', 'ok') },
+      ],
+      { circuitBreaker: { minimumCalls: 2 } }
+    );
+
+    await chain.execute(request);
+    await chain.execute(request);
+    const { attempts } = (await chain.execute(request))._unsafeUnwrap();
+
+    expect(copilot.execute).toHaveBeenCalledTimes(2);
+    expect(attempts[0]).toEqual({ providerId: 'copilot', outcome: 'circuit-open' });
+    expect(chain.getCircuitStats()['copilot']!.state).toBe('open');
+  });
+
+  it('should not fail over on invalid requests', async () => {
+    const claude = createTarget('claude-code', 'ok');
+    const chain = new FailoverChain([
+      { id: 'copilot', target: createTarget('copilot', 'invalid') },
+      { id: 'claude-code', target: claude },
+    ]);
+
+    const error = (await chain.execute(request))._unsafeUnwrapErr();
+
+    expect(error.code).toBe('VALIDATION_ERROR');
+    expect(claude.execute).not.toHaveBeenCalled();
+  });
+
+  it('should report the last error when every provider fails', async () => {
+    const chain = new FailoverChain([
+      { id: 'copilot', target: createTarget('copilot', 'rate-limit') },
+      { id: 'gemini', target: createTarget('gemini', 'rate-limit') },
+    ]);
+
+    const error = (await chain.execute(request))._unsafeUnwrapErr();
+
+    expect(error.message).toBe('gemini rate limited');
+    expect(error.details?.['failoverAttempts']).toHaveLength(2);
+  });
+
+  it('should abort an attempt that times out before failing over', async () => {
+    let signal: AbortSignal | undefined;
+    const slow: FailoverTarget = {
+      id: 'copilot',
+      execute: (_request, options) => {
+        signal = options?.signal;
+        return new Promise(() => {});
+      },
+    };
+    const chain = new FailoverChain(
+      [
+        { id: 'copilot', target: slow },
+        { id: 'claude-code', target: createTarget('claude-code', 'ok') },
+      ],
+      { attemptTimeoutMs: 10 }
+    );
+
+    const { attempts } = (await chain.execute(request))._unsafeUnwrap();
+
+    expect(attempts[0]).toMatchObject({
+      outcome: 'error',
+      error: { code: 'TIMEOUT_ERROR' },
+    });
+    expect(signal?.aborted).toBe(true);
+  });
+});
+
+describe('FailoverChain.stream', () => {
+  it('should fail over before the first chunk and record who served', async () => {
+    let slowSignal: AbortSignal | undefined;
+    const silent: FailoverTarget = {
+      id: 'copilot',
+      execute: vi.fn(),
+      async *executeStream(_request, options) {
+        slowSignal = options?.signal;
+        await new Promise(() => {});
+      },
+    };
+    const chain = new FailoverChain(
+      [
+        { id: 'copilot', target: silent },
+        { id: 'gemini', target: createTarget('gemini', 'rate-limit') },
+        { id: 'claude-code', target: createTarget('claude-code', 'ok') },
+      ],
+      { attemptTimeoutMs: 10 }
+    );
+
+    const chunks = [];
+    for await (const chunk of chain.stream(request)) {
+      chunks.push(chunk);
+    }
+
+    expect(slowSignal?.aborted).toBe(true);
+    expect(chunks.map((c) => c.delta).join('')).toBe('claude-code answered with default');
+    const final = chunks.at(-1)!;
+    expect(final.done).toBe(true);
+    expect(final.metadata?.['servedBy']).toBe('claude-code');
+    expect(
+      (final.metadata?.['failoverAttempts'] as Array<{ outcome: string }>).map((a) => a.outcome)
+    ).toEqual(['error', 'error', 'success']);
+  });
+
+  it('should not fail over once the first chunk has arrived', async () => {
+    const claude = createTarget('claude-code', 'ok');
+    const flaky: FailoverTarget = {
+      id: 'copilot',
+      execute: vi.fn(),
+      async *executeStream() {
+        yield { delta: 'Half', done: false };
+        throw new Error('connection reset');
+      },
+    };
+    const chain = new FailoverChain([
+      { id: 'copilot', target: flaky },
+      { id: 'claude-code', target: claude },
+    ]);
+
+    const deltas: string[] = [];
+    await expect(async () => {
+      for await (const chunk of chain.stream(request)) {
+        deltas.push(chunk.delta);
+      }
+    }).rejects.toThrow('connection reset');
+
+    expect(deltas).toEqual(['Half']);
+    expect(claude.execute).not.toHaveBeenCalled();
+  });
+});
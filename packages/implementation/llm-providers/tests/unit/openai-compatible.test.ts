@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { OpenAICompatibleAPI } from '../../src/api/openai-compatible';
+import { ModelRegistryFactory } from '../../src/registry/model-registry';
+
+// Minimal stand-in for a llama.cpp / vLLM server
+const requests: Array<{ url?: string; body: any; auth?: string }> = [];
+
+function startStubServer(): Promise<Server> {
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : undefined;
+      requests.push({ url: req.url, body, auth: req.headers.authorization });
+      res.setHeader('Content-Type', 'application/json');
+
+      if (req.url === '/v1/models') {
+        res.end(JSON.stringify({ data: [{ id: 'llama-3-8b' }, { id: 'qwen-2.5' }] }));
+        return;
+      }
+      if (req.url === '/v1/chat/completions') {
+        if (body.model === 'missing') {
+          res.statusCode = 404;
+          res.end(JSON.stringify({ error: 'model not found' }));
+          return;
+        }
+        res.end(
+          JSON.stringify({
+            model: body.model,
+            choices: [
+              {
+                message: { content: `echo: ${body.messages.at(-1).content}` },
+                finish_reason: 'stop',
+              },
+            ],
+            usage: { prompt_tokens: 4, completion_tokens: 3, total_tokens: 7 },
+          })
+        );
+        return;
+      }
+      res.statusCode = 404;
+      res.end('{}');
+    });
+  });
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('OpenAICompatibleAPI', () => {
+  let server: Server;
+  let baseURL: string;
+
+  beforeAll(async () => {
+    server = await startStubServer();
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('should discover models from /v1/models', async () => {
+    const provider = new OpenAICompatibleAPI({ baseURL: `${baseURL}/v1/` });
+
+    await expect(provider.listModels()).resolves.toEqual(['llama-3-8b', 'qwen-2.5']);
+    expect(provider.baseURL).toBe(baseURL);
+    expect(provider.getCapabilities().models).toEqual(['llama-3-8b', 'qwen-2.5']);
+  });
+
+  it('should send chat completions in the OpenAI wire format', async () => {
+    const provider = new OpenAICompatibleAPI({ baseURL, apiKey: 'local-key' });
+
+    const result = await provider.execute({
+      messages: [{ role: 'user', content: 'hello' }],
+      maxTokens: 32,
+    });
+
+    expect(result.isOk()).toBe(true);
+    const response = result._unsafeUnwrap();
+    expect(response.content).toBe('echo: hello');
+    expect(response.metadata).toMatchObject({
+      model: 'llama-3-8b',
+      usage: { promptTokens: 4, completionTokens: 3, totalTokens: 7 },
+    });
+
+    const sent = requests.findLast((r) => r.url === '/v1/chat/completions');
+    expect(sent?.body).toMatchObject({ model: 'llama-3-8b', max_tokens: 32, stream: false });
+    expect(sent?.auth).toBe('Bearer local-key');
+  });
+
+  it('should map HTTP errors to API error codes', async () => {
+    const provider = new OpenAICompatibleAPI({ baseURL, model: 'missing' });
+
+    const result = await provider.execute({
+      messages: [{ role: 'user', content: 'hello' }],
+    });
+
+    expect(result.isErr()).toBe(true);
+    expect(result._unsafeUnwrapErr()).toMatchObject({
+      code: 'MODEL_ERROR',
+      details: { status: 404 },
+    });
+  });
+
+  it('should report network errors when the server is down', async () => {
+    const provider = new OpenAICompatibleAPI({
+      baseURL: 'http://127.0.0.1:1',
+      model: 'llama-3-8b',
+    });
+
+    const result = await provider.execute({
+      messages: [{ role: 'user', content: 'hello' }],
+    });
+
+    expect(result.isErr()).toBe(true);
+    expect(result._unsafeUnwrapErr().code).toBe('NETWORK_ERROR');
+    await expect(provider.healthCheck()).resolves.toBe(false);
+  });
+
+  it('should register discovered models in the ModelRegistry', async () => {
+    const registry = ModelRegistryFactory.createInstance({ autoDiscovery: false });
+    const provider = new OpenAICompatibleAPI({ id: 'local-llama', baseURL });
+
+    const models = await registry.registerDiscoveredProvider(provider);
+
+    expect(models.map((m) => m.id)).toEqual([
+      'local-llama:llama-3-8b',
+      'local-llama:qwen-2.5',
+    ]);
+    expect(registry.getProvider('local-llama')).toBe(provider);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import { LLMResponseCache, type SemanticCacheStore } from '../../src/response-cache';
+
+const context = { provider: 'claude-code', role: 'analyst' };
+
+function classify(text: string) {
+  return {
+    messages: [{ role: 'user' as const, content: `Classify: ${text}` }],
+    temperature: 0,
+  };
+}
+
+describe('LLMResponseCache', () => {
+  it('should answer repeated requests from the cache', async () => {
+    const statsReporter = { recordCacheLookup: vi.fn() };
+    const cache = new LLMResponseCache({ statsReporter });
+
+    expect(await cache.get(classify('bug report'), context)).toBeUndefined();
+    await cache.set(classify('bug report'), { content: 'bug' }, context);
+
+    const cached = await cache.get(
+      { ...classify('bug report  \r\n'), metadata: { requestId: 'r-2' } },
+      context
+    );
+
+    expect(cached?.content).toBe('bug');
+    expect(cached?.metadata?.['cache']).toMatchObject({ hit: 'exact' });
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, hitRate: 0.5 });
+    expect(statsReporter.recordCacheLookup).toHaveBeenLastCalledWith({
+      outcome: 'hit',
+      provider: 'claude-code',
+      role: 'analyst',
+      similarity: undefined,
+    });
+  });
+
+  it('should key on provider, role and sampling settings', async () => {
+    const cache = new LLMResponseCache();
+    await cache.set(classify('bug report'), { content: 'bug' }, context);
+
+    expect(await cache.get(classify('bug report'), { ...context, role: 'coder' })).toBeUndefined();
+    expect(
+      await cache.get({ ...classify('bug report'), temperature: 0.7 }, context)
+    ).toBeUndefined();
+  });
+
+  it('should expire entries after the TTL', async () => {
+    let now = 0;
+    const cache = new LLMResponseCache({ ttlMs: 1000, now: () => now });
+    await cache.set(classify('bug report'), { content: 'bug' }, context);
+
+    now = 999;
+    expect(await cache.get(classify('bug report'), context)).toBeDefined();
+    now = 1000;
+    expect(await cache.get(classify('bug report'), context)).toBeUndefined();
+    expect(cache.getStats().entries).toBe(0);
+  });
+
+  it('should bypass excluded roles and tool call responses', async () => {
+    const cache = new LLMResponseCache({ excludeRoles: ['coder'] });
+    const coder = { ...context, role: 'coder' };
+
+    await cache.set(classify('bug report'), { content: 'bug' }, coder);
+    await cache.set(
+      classify('feature'),
+      { content: '', toolCalls: [{ id: 'call_1', name: 'label', arguments: {} }] },
+      context
+    );
+
+    expect(await cache.get(classify('bug report'), coder)).toBeUndefined();
+    expect(await cache.get(classify('feature'), context)).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ bypassed: 1, misses: 1, entries: 0 });
+  });
+
+  it('should answer similar prompts through the vector store', async () => {
+    const indexed: Array<{ id?: string; metadata: Record<string, unknown> }> = [];
+    const store: SemanticCacheStore = {
+      insert: vi.fn(async (data) => indexed.push(data)),
+      similaritySearch: vi.fn(async () =>
+        indexed.map((entry) => ({ id: entry.id!, similarity: 0.97, metadata: entry.metadata }))
+      ),
+    };
+    const embed = vi.fn(async () => [0.1, 0.2, 0.3]);
+    const cache = new LLMResponseCache({ semantic: { store, embed } });
+
+    await cache.set(classify('bug report'), { content: 'bug' }, context);
+    const cached = await cache.get(classify('a bug report'), context);
+
+    expect(cached?.content).toBe('bug');
+    expect(cached?.metadata?.['cache']).toMatchObject({ hit: 'semantic', similarity: 0.97 });
+    expect(await cache.get(classify('a bug report'), { ...context, role: 'coder' })).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ semanticHits: 1, misses: 1 });
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  abortable,
+  CLIStreamError,
+  collectStream,
+  linkAbortSignal,
+  streamFromResult,
+} from '../../src/streaming';
+import type { CLIStreamChunk } from '../../src/types/cli-providers';
+
+const okResult = (value: unknown) =>
+  ({ isOk: () => true, isErr: () => false, value }) as any;
+const errResult = (error: unknown) =>
+  ({ isOk: () => false, isErr: () => true, error }) as any;
+
+async function* chunks(...items: CLIStreamChunk[]) {
+  for (const item of items) {
+    yield item;
+  }
+}
+
+describe('streaming helpers', () => {
+  describe('streamFromResult', () => {
+    it('should emit the whole response as one delta and a final chunk with usage', async () => {
+      const usage = { promptTokens: 3, completionTokens: 2, totalTokens: 5 };
+      const stream = streamFromResult(async () =>
+        okResult({ content: 'Hello', metadata: { usage } })
+      );
+
+      const received: CLIStreamChunk[] = [];
+      for await (const chunk of stream) {
+        received.push(chunk);
+      }
+
+      expect(received).toHaveLength(2);
+      expect(received[0]).toEqual({ delta: 'Hello', done: false });
+      expect(received[1]).toMatchObject({ delta: '', done: true, usage });
+    });
+
+    it('should not start the request until the stream is read', async () => {
+      let started = false;
+      const stream = streamFromResult(async () => {
+        started = true;
+        return okResult({ content: 'late' });
+      });
+
+      expect(started).toBe(false);
+      await stream.next();
+      expect(started).toBe(true);
+    });
+
+    it('should throw CLIStreamError carrying the provider error', async () => {
+      const stream = streamFromResult(async () =>
+        errResult({ code: 'AUTH_ERROR', message: 'Unauthorized' })
+      );
+
+      await expect(stream.next()).rejects.toBeInstanceOf(CLIStreamError);
+      await expect(
+        streamFromResult(async () =>
+          errResult({ code: 'AUTH_ERROR', message: 'Unauthorized' })
+        ).next()
+      ).rejects.toMatchObject({ error: { code: 'AUTH_ERROR' } });
+    });
+  });
+
+  describe('collectStream', () => {
+    it('should join deltas and keep usage from the final chunk', async () => {
+      const usage = { promptTokens: 1, completionTokens: 2, totalTokens: 3 };
+      const response = await collectStream(
+        chunks(
+          { delta: 'Hel', done: false },
+          { delta: 'lo', done: false },
+          { delta: '', done: true, usage, metadata: { model: 'sonnet' } }
+        )
+      );
+
+      expect(response.content).toBe('Hello');
+      expect(response.metadata).toEqual({ model: 'sonnet', usage });
+    });
+  });
+
+  describe('abortable', () => {
+    it('should resolve with the promise when not aborted', async () => {
+      const controller = new AbortController();
+      await expect(abortable(Promise.resolve(42), controller.signal)).resolves.toBe(42);
+    });
+
+    it('should reject with the abort reason as soon as the signal aborts', async () => {
+      const controller = new AbortController();
+      const pending = abortable(new Promise(() => undefined), controller.signal);
+
+      controller.abort(new Error('stopped'));
+      await expect(pending).rejects.toThrow('stopped');
+    });
+
+    it('should reject immediately for an already aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort(new Error('too late'));
+      await expect(abortable(Promise.resolve(1), controller.signal)).rejects.toThrow(
+        'too late'
+      );
+    });
+  });
+
+  describe('linkAbortSignal', () => {
+    it('should forward parent aborts until released', () => {
+      const parent = new AbortController();
+      const child = new AbortController();
+      const release = linkAbortSignal(parent.signal, child);
+
+      release();
+      parent.abort();
+      expect(child.signal.aborted).toBe(false);
+
+      const linked = new AbortController();
+      const other = new AbortController();
+      linkAbortSignal(linked.signal, other);
+      linked.abort();
+      expect(other.signal.aborted).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractToolCalls,
+  fromOpenAIToolCalls,
+  toOpenAIMessages,
+  toOpenAIToolFields,
+  withPromptTools,
+} from '../../src/tools';
+import type { CLITool } from '../../src/types/cli-providers';
+
+const readFile: CLITool = {
+  name: 'read_file',
+  description: 'Read a file from the workspace',
+  parameters: {
+    type: 'object',
+    properties: { path: { type: 'string' } },
+    required: ['path'],
+  },
+};
+
+describe('tool calling helpers', () => {
+  describe('OpenAI format', () => {
+    it('should map tools and a forced tool choice', () => {
+      expect(toOpenAIToolFields([readFile], { name: 'read_file' })).toEqual({
+        tools: [
+          {
+            type: 'function',
+            function: {
+              name: 'read_file',
+              description: 'Read a file from the workspace',
+              parameters: readFile.parameters,
+            },
+          },
+        ],
+        tool_choice: { type: 'function', function: { name: 'read_file' } },
+      });
+      expect(toOpenAIToolFields(undefined, 'auto')).toEqual({});
+    });
+
+    it('should map tool calls and results in the conversation', () => {
+      expect(
+        toOpenAIMessages([
+          {
+            role: 'assistant',
+            content: '',
+            toolCalls: [{ id: 'call_a', name: 'read_file', arguments: { path: 'a.ts' } }],
+          },
+          { role: 'tool', content: 'export {}', toolCallId: 'call_a' },
+        ])
+      ).toEqual([
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            {
+              id: 'call_a',
+              type: 'function',
+              function: { name: 'read_file', arguments: '{"path":"a.ts"}' },
+            },
+          ],
+        },
+        { role: 'tool', content: 'export {}', tool_call_id: 'call_a' },
+      ]);
+    });
+
+    it('should parse tool calls from a response', () => {
+      expect(
+        fromOpenAIToolCalls([
+          {
+            id: 'call_a',
+            type: 'function',
+            function: { name: 'read_file', arguments: '{"path":"a.ts"}' },
+          },
+          { id: 'call_b', type: 'function', function: { name: 'read_file', arguments: '{oops' } },
+        ])
+      ).toEqual([
+        { id: 'call_a', name: 'read_file', arguments: { path: 'a.ts' } },
+        { id: 'call_b', name: 'read_file', arguments: { _raw: '{oops' } },
+      ]);
+      expect(fromOpenAIToolCalls([])).toBeUndefined();
+    });
+  });
+
+  describe('prompt protocol', () => {
+    it('should add tool instructions after the system prompt', () => {
+      const messages = withPromptTools(
+        [
+          { role: 'system', content: 'You are a coder.' },
+          { role: 'user', content: 'Open a.ts' },
+        ],
+        [readFile],
+        'required'
+      );
+
+      expect(messages.map((m) => m.role)).toEqual(['system', 'system', 'user']);
+      expect(messages[1]!.content).toContain('- read_file: Read a file');
+      expect(messages[1]!.content).toContain('You must call at least one tool.');
+    });
+
+    it('should render earlier tool calls and results as text', () => {
+      const messages = withPromptTools([
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ id: 'call_1', name: 'read_file', arguments: { path: 'a.ts' } }],
+        },
+        { role: 'tool', content: 'export {}', toolCallId: 'call_1' },
+      ]);
+
+      expect(messages[0]!.content).toContain('```tool_calls');
+      expect(messages[1]).toEqual({
+        role: 'user',
+        content: 'Result of tool call call_1:\nexport {}',
+      });
+    });
+
+    it('should extract calls to known tools from a response', () => {
+      const response =
+        'Let me look.\n```tool_calls\n[{"name": "read_file", "arguments": {"path": "a.ts"}}, {"name": "rm", "arguments": {}}]\n```';
+
+      expect(extractToolCalls(response, [readFile])).toEqual({
+        content: 'Let me look.',
+        toolCalls: [
+          { id: expect.stringMatching(/^call_/), name: 'read_file', arguments: { path: 'a.ts' } },
+        ],
+      });
+      expect(extractToolCalls(response)).toEqual({ content: response });
+      expect(extractToolCalls('```tool_calls\nnot json\n```', [readFile]).toolCalls).toBeUndefined();
+    });
+
+    it('should give calls from later turns ids of their own', () => {
+      const response = '```tool_calls\n[{"name": "read_file", "arguments": {"path": "a.ts"}}]\n```';
+
+      const [first] = extractToolCalls(response, [readFile]).toolCalls!;
+      const [second] = extractToolCalls(response, [readFile]).toolCalls!;
+
+      expect(first!.id).not.toBe(second!.id);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * LLM Budget Service Tests.
+ *
+ * Covers budget decisions before dispatch (allow, fail, combined
+ * downgrades), reservations held by requests in flight, usage accounting
+ * and warning/exceeded events, window resets, and policy validation.
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { BUDGET_EVENTS, LLMBudgetService } from '../stats/llm-budget-service';
+import type { BudgetEvent, BudgetPolicy } from '../types/index';
+
+const usage = { tokens: 1000, costUsd: 0.5, provider: 'claude-code', model: 'sonnet' };
+
+describe('LLMBudgetService', () => {
+  let events: Array<{ topic: string; event: BudgetEvent }>;
+  let now: Date;
+  let budgets: LLMBudgetService;
+
+  const policy = (overrides: Partial<BudgetPolicy> = {}): BudgetPolicy => ({
+    id: 'swarm-daily',
+    scope: 'swarm',
+    target: '*',
+    window: 'daily',
+    maxRequests: 2,
+    onExceeded: 'fail',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    events = [];
+    now = new Date('2025-06-04T10:00:00Z');
+    budgets = new LLMBudgetService(
+      { emit: (topic, event) => events.push({ topic, event: event as BudgetEvent }) },
+      () => now
+    );
+  });
+
+  it('allows requests until a limit is used up, then rejects them', () => {
+    budgets.setPolicy(policy({ warnAt: 0.5 }));
+    const context = { swarmId: 'swarm-1' };
+
+    expect(budgets.checkBudget(context)).toEqual({ action: 'allow' });
+    budgets.recordUsage(context, usage);
+    budgets.recordUsage(context, usage);
+
+    expect(budgets.checkBudget(context)).toMatchObject({ action: 'fail', policyId: 'swarm-daily' });
+    expect(events.map(({ topic }) => topic)).toEqual([
+      BUDGET_EVENTS.WARNING,
+      BUDGET_EVENTS.EXCEEDED,
+      BUDGET_EVENTS.REJECTED,
+    ]);
+  });
+
+  it('counts reserved requests and tokens until they are settled or released', () => {
+    budgets.setPolicy(policy());
+    budgets.setPolicy(policy({ id: 'swarm-tokens', maxRequests: undefined, maxTokens: 5000 }));
+    const context = { swarmId: 'swarm-1' };
+
+    const first = budgets.reserve(context, { tokens: 2000 });
+    const second = budgets.reserve(context, { tokens: 2000 });
+    expect(budgets.checkBudget(context)).toMatchObject({ action: 'fail', policyId: 'swarm-daily' });
+
+    expect(budgets.release(first)).toBe(true);
+    expect(budgets.release(first)).toBe(false);
+    expect(budgets.checkBudget(context).action).toBe('allow');
+
+    budgets.recordUsage(context, { ...usage, tokens: 4000, reservationId: second });
+    expect(budgets.getStatus()).toEqual([
+      expect.objectContaining({ usage: expect.objectContaining({ requests: 1 }), reserved: { tokens: 0, requests: 0 } }),
+      expect.objectContaining({ usage: expect.objectContaining({ tokens: 4000 }), reserved: { tokens: 0, requests: 0 } }),
+    ]);
+
+    budgets.reserve(context, { tokens: 1000 });
+    expect(budgets.checkBudget(context).action).toBe('fail');
+  });
+
+  it('counts each target of a wildcard policy separately and ignores other scopes', () => {
+    budgets.setPolicy(policy({ maxRequests: 1 }));
+
+    budgets.recordUsage({ swarmId: 'swarm-1' }, usage);
+
+    expect(budgets.checkBudget({ swarmId: 'swarm-1' }).action).toBe('fail');
+    expect(budgets.checkBudget({ swarmId: 'swarm-2' }).action).toBe('allow');
+    expect(budgets.checkBudget({ projectId: 'zen' }).action).toBe('allow');
+  });
+
+  it('prefers failing policies and combines downgrades to the lowest price cap', () => {
+    budgets.setPolicy(policy({ id: 'a', maxRequests: 1, onExceeded: 'downgrade', downgradeMaxCost: 5 }));
+    budgets.setPolicy(
+      policy({ id: 'b', scope: 'project', maxRequests: 1, onExceeded: 'downgrade', downgradeMaxCost: 2 })
+    );
+    const context = { swarmId: 'swarm-1', projectId: 'zen' };
+    budgets.recordUsage(context, usage);
+
+    expect(budgets.checkBudget(context)).toMatchObject({
+      action: 'downgrade',
+      policyId: 'b',
+      maxModelCost: 2,
+    });
+
+    budgets.setPolicy(policy({ id: 'c', scope: 'agent', maxCostUsd: 0.1 }));
+    budgets.recordUsage({ agentRole: 'coder' }, usage);
+    expect(budgets.checkBudget({ ...context, agentRole: 'coder' }).action).toBe('fail');
+  });
+
+  it('starts a fresh window at midnight UTC and reports the reset', () => {
+    budgets.setPolicy(policy({ maxRequests: 1 }));
+    budgets.recordUsage({ swarmId: 'swarm-1' }, usage);
+    expect(budgets.checkBudget({ swarmId: 'swarm-1' }).action).toBe('fail');
+
+    now = new Date('2025-06-05T00:00:01Z');
+
+    expect(budgets.checkBudget({ swarmId: 'swarm-1' }).action).toBe('allow');
+    expect(events.at(-1)).toMatchObject({
+      topic: BUDGET_EVENTS.RESET,
+      event: { key: 'swarm-1', usage: { requests: 0 } },
+    });
+  });
+
+  it('reports usage per policy and key', () => {
+    budgets.setPolicy(policy({ window: 'weekly', maxTokens: 10_000 }));
+    budgets.recordUsage({ swarmId: 'swarm-1' }, usage);
+
+    expect(budgets.getStatus()).toEqual([
+      expect.objectContaining({
+        key: 'swarm-1',
+        windowStart: new Date('2025-06-02T00:00:00Z'),
+        usage: { tokens: 1000, costUsd: 0.5, requests: 1 },
+        exceeded: false,
+      }),
+    ]);
+  });
+
+  it('rejects policies without limits or without a downgrade price cap', () => {
+    expect(() => budgets.setPolicy(policy({ maxRequests: undefined }))).toThrow(/sets no limit/);
+    expect(() => budgets.setPolicy(policy({ onExceeded: 'downgrade' }))).toThrow(
+      /without a downgradeMaxCost/
+    );
+  });
+});
@@ -8,6 +8,7 @@ export * from './providers';
 
 // Re-export types for convenience
 export type {
+  OpenAICompatibleProviderOptions,
   ProviderConfig,
   RoutingStrategy,
   ProviderRoutingContext,
@@ -8,6 +8,7 @@
  */
 
 import type {
+  OpenAICompatibleProviderOptions,
   ProviderConfig,
   RoutingStrategy,
   ProviderRoutingContext,
@@ -297,14 +298,16 @@ function sortProvidersByPriority(candidates: string[]): string[] {
 }
 
 /**
- * Get optimal provider for a given context and requirements
+ * Get optimal provider for a given context and requirements. The list is in
+ * failover order; pass it to `LLMProvider.setFailoverChain()` in
+ * `@claude-zen/llm-providers` to fall back along it automatically.
  */
 export function getOptimalProvider(context: ProviderRoutingContext): string[] {
-  const { contentLength } = context;
+  const { contentLength, localOnly } = context;
   const estimatedTokens = Math.ceil(contentLength / 4);
 
   // Special routing for very large contexts
-  if (estimatedTokens > 150000) {
+  if (estimatedTokens > 150000 && !localOnly) {
     return ['gemini', 'claude-code'];
   }
 
@@ -319,8 +322,9 @@ export function getOptimalProvider(context: ProviderRoutingContext): string[] {
     const canHandleTokens = estimatedTokens <= config.maxContextTokens;
     const meetsContextRequirements = meetsContextSizeRequirements(config, isSmallContext, isLargeContext);
     const meetsFeatures = meetsFeatureRequirements(config, context);
+    const meetsLocality = !localOnly || config.local === true;
 
-    if (canHandleTokens && meetsContextRequirements && meetsFeatures) {
+    if (canHandleTokens && meetsContextRequirements && meetsFeatures && meetsLocality) {
       candidates.push(providerId);
     }
   }
@@ -335,6 +339,45 @@ export function addProvider(providerId: string, config: ProviderConfig): void {
   LLM_PROVIDER_CONFIG[providerId] = config;
 }
 
+/**
+ * Add a provider served by an OpenAI-compatible server (llama.cpp, vLLM,
+ * LM Studio) so getOptimalProvider can route to it
+ */
+export function addOpenAICompatibleProvider(
+  providerId: string,
+  options: OpenAICompatibleProviderOptions,
+): ProviderConfig {
+  const config: ProviderConfig = {
+    name: providerId,
+    displayName: options.displayName ?? `OpenAI-compatible (${options.baseUrl})`,
+    models: options.models,
+    defaultModel: options.defaultModel ?? options.models[0] ?? '',
+    maxContextTokens: options.maxContextTokens ?? 8192,
+    maxOutputTokens: options.maxOutputTokens ?? 4096,
+    api: {
+      baseUrl: options.baseUrl,
+      headers: { 'Content-Type': 'application/json' },
+      authType: 'bearer',
+    },
+    features: {
+      structuredOutput: options.structuredOutput ?? false,
+      fileOperations: false,
+      codebaseAware: false,
+      streaming: false,
+    },
+    routing: {
+      priority: options.priority ?? 3,
+      useForSmallContext: true,
+      useForLargeContext: true, // Bounded by maxContextTokens
+      fallbackOrder: options.fallbackOrder ?? 2,
+    },
+    local: options.local ?? true,
+  };
+
+  addProvider(providerId, config);
+  return config;
+}
+
 /**
  * Remove provider from configuration
  */
@@ -41,6 +41,7 @@ export {
   ROUTING_STRATEGY,
   getOptimalProvider,
   addProvider,
+  addOpenAICompatibleProvider,
   removeProvider,
   updateProvider,
   getProvider,
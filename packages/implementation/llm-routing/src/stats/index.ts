@@ -5,6 +5,11 @@
  */
 
 export { default as LLMStatsService } from './llm-stats-service';
+export {
+  LLMBudgetService,
+  BUDGET_EVENTS,
+  type BudgetEventBus,
+} from './llm-budget-service';
 
 // Re-export types for convenience
 export type {
@@ -16,4 +21,15 @@ export type {
   LLMAnalytics,
   AnalysisRequest,
   AnalysisResult,
+  LLMCacheLookup,
+  LLMCacheStats,
+  BudgetContext,
+  BudgetDecision,
+  BudgetEvent,
+  BudgetPolicy,
+  BudgetScope,
+  BudgetStatus,
+  BudgetUsage,
+  BudgetUsageRecord,
+  BudgetWindow,
 } from '../types/index';
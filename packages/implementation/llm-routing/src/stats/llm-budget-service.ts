@@ -0,0 +1,427 @@
+/**
+ * @fileoverview LLM Budget Service
+ *
+ * Token, cost and request budgets per project, agent role and swarm.
+ * Unlike LLMStatsService, which analyses calls after the fact, budgets are
+ * checked before dispatch: `LLMProvider.chat()` in `@claude-zen/llm-providers`
+ * asks `checkBudget()` first, holds the request with `reserve()` while it
+ * runs and settles it through `recordUsage()` (or `release()` when it
+ * fails), so concurrent requests cannot all pass the same remaining budget.
+ * Exhausted budgets either reject requests or downgrade them to cheaper
+ * models. Budget events are published on the event bus (UEL by default,
+ * loaded on first use).
+ *
+ * @example
+ * ```typescript
+ * const budgets = new LLMBudgetService();
+ * budgets.setPolicy({
+ *   id: 'swarm-daily',
+ *   scope: 'swarm',
+ *   target: '*',
+ *   window: 'daily',
+ *   maxRequests: 500,
+ *   onExceeded: 'downgrade',
+ *   downgradeMaxCost: 1,
+ * });
+ * getGlobalLLM().setBudgetGuard(budgets, { modelRegistry });
+ * ```
+ */
+
+import { getLogger } from '@claude-zen/foundation';
+
+import type {
+  BudgetContext,
+  BudgetDecision,
+  BudgetEvent,
+  BudgetPolicy,
+  BudgetReservation,
+  BudgetScope,
+  BudgetStatus,
+  BudgetUsage,
+  BudgetUsageRecord,
+  BudgetWindow,
+} from '../types/index';
+
+const logger = getLogger('llm-routing-budgets');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_WARN_AT = 0.8;
+
+/**
+ * Event bus topics for budget events
+ */
+export const BUDGET_EVENTS = {
+  WARNING: 'llm:budget:warning',
+  EXCEEDED: 'llm:budget:exceeded',
+  DOWNGRADED: 'llm:budget:downgraded',
+  REJECTED: 'llm:budget:rejected',
+  RESET: 'llm:budget:reset',
+} as const;
+
+const EVENT_TOPICS: Record<BudgetEvent['type'], string> = {
+  warning: BUDGET_EVENTS.WARNING,
+  exceeded: BUDGET_EVENTS.EXCEEDED,
+  downgraded: BUDGET_EVENTS.DOWNGRADED,
+  rejected: BUDGET_EVENTS.REJECTED,
+  reset: BUDGET_EVENTS.RESET,
+};
+
+const SCOPE_FIELDS: Record<BudgetScope, keyof BudgetContext> = {
+  project: 'projectId',
+  agent: 'agentRole',
+  swarm: 'swarmId',
+};
+
+export interface BudgetEventBus {
+  emit(event: string, payload: unknown): unknown;
+}
+
+interface BudgetLedger {
+  windowStart: Date;
+  usage: BudgetUsage;
+  reserved: BudgetReservation;
+  warned: boolean;
+  exceeded: boolean;
+}
+
+export class LLMBudgetService {
+  private policies = new Map<string, BudgetPolicy>();
+  // Keyed by policy id and scope value, e.g. `swarm-daily|swarm-42`
+  private ledgers = new Map<string, BudgetLedger>();
+  // Ledgers each open reservation holds tokens in
+  private reservations = new Map<string, { ledgers: BudgetLedger[]; tokens: number }>();
+  private reservationCount = 0;
+  private uel?: Promise<BudgetEventBus | undefined>;
+
+  /**
+   * @param eventBus - Receives budget events; the UEL when omitted.
+   * @param now - Clock used for budget windows.
+   */
+  constructor(
+    private readonly eventBus?: BudgetEventBus,
+    private readonly now: () => Date = () => new Date(),
+  ) {
+    logger.info('LLM Budget Service initialized');
+  }
+
+  /**
+   * Adds or replaces a policy. Replacing keeps the usage counted so far.
+   */
+  setPolicy(policy: BudgetPolicy): void {
+    if (
+      policy.maxTokens === undefined &&
+      policy.maxCostUsd === undefined &&
+      policy.maxRequests === undefined
+    ) {
+      throw new Error(`Budget policy ${policy.id} sets no limit`);
+    }
+    if (
+      policy.onExceeded === 'downgrade' &&
+      !(policy.downgradeMaxCost !== undefined && policy.downgradeMaxCost > 0)
+    ) {
+      throw new Error(`Budget policy ${policy.id} downgrades without a downgradeMaxCost`);
+    }
+    if (policy.id.includes('|')) {
+      throw new Error(`Budget policy id must not contain '|': ${policy.id}`);
+    }
+
+    this.policies.set(policy.id, policy);
+    logger.info(
+      `Budget policy set: ${policy.id} (${policy.scope}=${policy.target}, ${policy.window}, ${policy.onExceeded})`,
+    );
+  }
+
+  removePolicy(policyId: string): boolean {
+    for (const key of this.ledgers.keys()) {
+      if (key.startsWith(`${policyId}|`)) {
+        this.ledgers.delete(key);
+      }
+    }
+    return this.policies.delete(policyId);
+  }
+
+  getPolicies(): BudgetPolicy[] {
+    return Array.from(this.policies.values());
+  }
+
+  /**
+   * Decides whether a request may be dispatched, counting requests that are
+   * still reserved. A failing policy wins over downgrades; several
+   * downgrades combine to the lowest price cap.
+   */
+  checkBudget(context: BudgetContext): BudgetDecision {
+    let downgrade: BudgetDecision | undefined;
+
+    for (const { policy, key, ledger } of this.matchingLedgers(context)) {
+      const committed = {
+        ...ledger.usage,
+        tokens: ledger.usage.tokens + ledger.reserved.tokens,
+        requests: ledger.usage.requests + ledger.reserved.requests,
+      };
+      if (!this.isExhausted(policy, committed)) {
+        continue;
+      }
+
+      const reason = `Budget ${policy.id} exhausted for ${policy.scope} ${key} (${policy.window})`;
+      if (policy.onExceeded === 'fail') {
+        this.publish('rejected', policy, key, ledger);
+        return { action: 'fail', policyId: policy.id, reason };
+      }
+
+      if (
+        !downgrade ||
+        (policy.downgradeMaxCost ?? Infinity) < (downgrade.maxModelCost ?? Infinity)
+      ) {
+        downgrade = {
+          action: 'downgrade',
+          policyId: policy.id,
+          reason,
+          maxModelCost: policy.downgradeMaxCost,
+        };
+      }
+    }
+
+    if (downgrade) {
+      const policy = this.policies.get(downgrade.policyId!)!;
+      const key = this.keyFor(policy, context)!;
+      this.publish('downgraded', policy, key, this.ledgerFor(policy, key));
+      return downgrade;
+    }
+    return { action: 'allow' };
+  }
+
+  /**
+   * Holds a dispatched request and its estimated tokens against every
+   * matching policy until `recordUsage()` settles it or `release()` drops
+   * it. Call it right after an allowing `checkBudget()`.
+   *
+   * @returns The reservation id to settle with.
+   */
+  reserve(context: BudgetContext, estimate: { tokens: number }): string {
+    const ledgers = Array.from(this.matchingLedgers(context), ({ ledger }) => ledger);
+    for (const ledger of ledgers) {
+      ledger.reserved.tokens += estimate.tokens;
+      ledger.reserved.requests += 1;
+    }
+
+    const reservationId = `reservation-${++this.reservationCount}`;
+    this.reservations.set(reservationId, { ledgers, tokens: estimate.tokens });
+    return reservationId;
+  }
+
+  /**
+   * Drops a reservation without counting usage, e.g. for a failed request
+   */
+  release(reservationId: string): boolean {
+    const reservation = this.reservations.get(reservationId);
+    if (!reservation) {
+      return false;
+    }
+
+    this.reservations.delete(reservationId);
+    for (const ledger of reservation.ledgers) {
+      ledger.reserved.tokens -= reservation.tokens;
+      ledger.reserved.requests -= 1;
+    }
+    return true;
+  }
+
+  /**
+   * Counts a completed request against every matching policy, settling its
+   * reservation when the record names one.
+   */
+  recordUsage(context: BudgetContext, record: BudgetUsageRecord): void {
+    if (record.reservationId) {
+      this.release(record.reservationId);
+    }
+
+    for (const { policy, key, ledger } of this.matchingLedgers(context)) {
+      ledger.usage.tokens += record.tokens;
+      ledger.usage.costUsd += record.costUsd ?? 0;
+      ledger.usage.requests += 1;
+
+      if (!ledger.exceeded && this.isExhausted(policy, ledger.usage)) {
+        ledger.exceeded = true;
+        ledger.warned = true;
+        logger.warn(
+          `Budget ${policy.id} exhausted for ${policy.scope} ${key} by ${record.provider}${record.model ? `/${record.model}` : ''}`,
+        );
+        this.publish('exceeded', policy, key, ledger);
+      } else if (
+        !ledger.warned &&
+        this.usedFraction(policy, ledger.usage) >= (policy.warnAt ?? DEFAULT_WARN_AT)
+      ) {
+        ledger.warned = true;
+        this.publish('warning', policy, key, ledger);
+      }
+    }
+  }
+
+  /**
+   * Usage in the current window of every policy and scope value seen so far
+   */
+  getStatus(): BudgetStatus[] {
+    return Array.from(this.ledgers.entries()).flatMap(([ledgerKey, ledger]) => {
+      const [policyId, key] = splitLedgerKey(ledgerKey);
+      const policy = this.policies.get(policyId);
+      if (!policy) {
+        return [];
+      }
+      const current = this.ledgerFor(policy, key);
+      return [
+        {
+          policy,
+          key,
+          windowStart: current.windowStart,
+          usage: { ...current.usage },
+          reserved: { ...current.reserved },
+          exceeded: this.isExhausted(policy, current.usage),
+        },
+      ];
+    });
+  }
+
+  /**
+   * Clears counted usage, e.g. after raising a total budget by hand
+   */
+  resetUsage(policyId?: string): void {
+    for (const [ledgerKey, ledger] of Array.from(this.ledgers.entries())) {
+      const [id, key] = splitLedgerKey(ledgerKey);
+      if (policyId && id !== policyId) {
+        continue;
+      }
+      this.ledgers.delete(ledgerKey);
+      const policy = this.policies.get(id);
+      if (policy && ledger.exceeded) {
+        this.publish('reset', policy, key, this.ledgerFor(policy, key));
+      }
+    }
+  }
+
+  // Private helper methods
+
+  private *matchingLedgers(
+    context: BudgetContext,
+  ): Generator<{ policy: BudgetPolicy; key: string; ledger: BudgetLedger }> {
+    for (const policy of this.policies.values()) {
+      const key = this.keyFor(policy, context);
+      if (key !== undefined) {
+        yield { policy, key, ledger: this.ledgerFor(policy, key) };
+      }
+    }
+  }
+
+  private keyFor(policy: BudgetPolicy, context: BudgetContext): string | undefined {
+    const value = context[SCOPE_FIELDS[policy.scope]];
+    if (!value) {
+      return undefined;
+    }
+    return policy.target === '*' || policy.target === value ? value : undefined;
+  }
+
+  private ledgerFor(policy: BudgetPolicy, key: string): BudgetLedger {
+    const ledgerKey = `${policy.id}|${key}`;
+    const windowStart = windowStartOf(policy.window, this.now());
+    const ledger = this.ledgers.get(ledgerKey);
+
+    if (ledger && ledger.windowStart.getTime() === windowStart.getTime()) {
+      return ledger;
+    }
+
+    const fresh: BudgetLedger = {
+      windowStart,
+      usage: { tokens: 0, costUsd: 0, requests: 0 },
+      reserved: { tokens: 0, requests: 0 },
+      warned: false,
+      exceeded: false,
+    };
+    this.ledgers.set(ledgerKey, fresh);
+    if (ledger?.exceeded) {
+      this.publish('reset', policy, key, fresh);
+    }
+    return fresh;
+  }
+
+  private isExhausted(policy: BudgetPolicy, usage: BudgetUsage): boolean {
+    return this.usedFraction(policy, usage) >= 1;
+  }
+
+  // Highest share of any configured limit used so far
+  private usedFraction(policy: BudgetPolicy, usage: BudgetUsage): number {
+    const fractions = [
+      policy.maxTokens !== undefined ? usage.tokens / policy.maxTokens : 0,
+      policy.maxCostUsd !== undefined ? usage.costUsd / policy.maxCostUsd : 0,
+      policy.maxRequests !== undefined ? usage.requests / policy.maxRequests : 0,
+    ];
+    return Math.max(...fractions.map((f) => (Number.isFinite(f) ? f : 1)));
+  }
+
+  private publish(
+    type: BudgetEvent['type'],
+    policy: BudgetPolicy,
+    key: string,
+    ledger: BudgetLedger,
+  ): void {
+    const event: BudgetEvent = {
+      type,
+      policyId: policy.id,
+      scope: policy.scope,
+      key,
+      window: policy.window,
+      usage: { ...ledger.usage },
+      limits: {
+        maxTokens: policy.maxTokens,
+        maxCostUsd: policy.maxCostUsd,
+        maxRequests: policy.maxRequests,
+      },
+      timestamp: this.now(),
+    };
+
+    const emit = (bus: BudgetEventBus) => {
+      try {
+        bus.emit(EVENT_TOPICS[type], event);
+      } catch (error) {
+        logger.error(`Failed to publish budget event ${type}:`, error);
+      }
+    };
+
+    if (this.eventBus) {
+      emit(this.eventBus);
+    } else {
+      void this.defaultEventBus().then((bus) => bus && emit(bus));
+    }
+  }
+
+  // The UEL, imported on first use so budgets work without the event system
+  private defaultEventBus(): Promise<BudgetEventBus | undefined> {
+    this.uel ??= import('@claude-zen/event-system').then(
+      ({ uel }) => uel,
+      (error) => {
+        logger.warn('Event system unavailable, budget events are not published:', error);
+        return undefined;
+      },
+    );
+    return this.uel;
+  }
+}
+
+function windowStartOf(window: BudgetWindow, now: Date): Date {
+  if (window === 'total') {
+    return new Date(0);
+  }
+
+  const day = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  if (window === 'daily') {
+    return new Date(day);
+  }
+  // Weeks start on Monday
+  const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+  return new Date(day - daysSinceMonday * DAY_MS);
+}
+
+function splitLedgerKey(ledgerKey: string): [string, string] {
+  const separator = ledgerKey.indexOf('|');
+  return [ledgerKey.slice(0, separator), ledgerKey.slice(separator + 1)];
+}
+
+export default LLMBudgetService;
@@ -15,6 +15,8 @@ import type {
   LLMRoutingStats,
   LLMSystemHealth,
   LLMAnalytics,
+  LLMCacheLookup,
+  LLMCacheStats,
 } from '../types/index';
 
 const logger = getLogger('llm-routing-stats');
@@ -23,6 +25,7 @@ export class LLMStatsService {
   private callHistory: LLMCallRecord[] = [];
   private maxHistorySize = 10000; // Keep last 10k calls
   private readonly startTime = new Date();
+  private cacheLookups = new Map<string, Record<LLMCacheLookup['outcome'], number>>();
 
   constructor() {
     logger.info('LLM Statistics Service initialized');
@@ -101,6 +104,57 @@ export class LLMStatsService {
     }
   }
 
+  /**
+   * Records a response cache lookup (see LLMResponseCache in llm-providers)
+   */
+  recordCacheLookup(lookup: LLMCacheLookup): void {
+    const role = lookup.role||'none';
+    const counts = this.cacheLookups.get(role)||{
+      hit: 0,
+      'semantic-hit': 0,
+      miss: 0,
+      bypass: 0,
+    };
+    counts[lookup.outcome]++;
+    this.cacheLookups.set(role, counts);
+
+    logger.debug(
+      `LLM cache ${lookup.outcome}: ${lookup.provider} (${role})${lookup.similarity !== undefined ? ` similarity=${lookup.similarity.toFixed(3)}` : ''}`,
+    );
+  }
+
+  /**
+   * Gets response cache hit/miss statistics, overall and per agent role
+   */
+  getCacheStats(): LLMCacheStats {
+    const stats: LLMCacheStats = {
+      hits: 0,
+      semanticHits: 0,
+      misses: 0,
+      bypassed: 0,
+      hitRate: 0,
+      byRole: {},
+    };
+
+    for (const [role, counts] of this.cacheLookups) {
+      stats.hits += counts.hit;
+      stats.semanticHits += counts['semantic-hit'];
+      stats.misses += counts.miss;
+      stats.bypassed += counts.bypass;
+
+      const hits = counts.hit + counts['semantic-hit'];
+      stats.byRole[role] = {
+        hits,
+        misses: counts.miss,
+        hitRate: hits + counts.miss > 0 ? hits / (hits + counts.miss) : 0,
+      };
+    }
+
+    const lookups = stats.hits + stats.semanticHits + stats.misses;
+    stats.hitRate = lookups > 0 ? (stats.hits + stats.semanticHits) / lookups : 0;
+    return stats;
+  }
+
   /**
    * Gets comprehensive analytics for LLM system
    */
@@ -229,6 +283,7 @@ export class LLMStatsService {
           },
         },
         analytics: this.getAnalytics(),
+        cache: this.getCacheStats(),
         rawData: this.callHistory,
       },
       null,
@@ -242,6 +297,7 @@ export class LLMStatsService {
   clearHistory(): void {
     const recordCount = this.callHistory.length;
     this.callHistory = [];
+    this.cacheLookups.clear();
     logger.info(`Cleared ${recordCount} LLM call records`);
   }
 
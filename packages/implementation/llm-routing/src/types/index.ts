@@ -36,6 +36,20 @@ export interface ProviderConfig {
     useForLargeContext: boolean; // > 10K tokens
     fallbackOrder: number;
   };
+  local?: boolean; // Served on the local network, e.g. a self-hosted model server
+}
+
+export interface OpenAICompatibleProviderOptions {
+  baseUrl: string;
+  models: string[];
+  displayName?: string;
+  defaultModel?: string;
+  maxContextTokens?: number;
+  maxOutputTokens?: number;
+  structuredOutput?: boolean;
+  priority?: number;
+  fallbackOrder?: number;
+  local?: boolean; // Defaults to true
 }
 
 export interface RoutingStrategy {
@@ -60,6 +74,7 @@ export interface ProviderRoutingContext {
   requiresCodebaseAware: boolean;
   requiresStructuredOutput: boolean;
   taskType: 'analysis|generation|review|custom';
+  localOnly?: boolean; // Only route to local providers (air-gapped environments)
 }
 
 export interface AnalysisRequest {
@@ -227,3 +242,116 @@ export interface LLMAnalytics {
     optimizationOpportunities: string[];
   };
 }
+
+/**
+ * One response cache lookup, reported by `LLMResponseCache` in
+ * `@claude-zen/llm-providers`
+ */
+export interface LLMCacheLookup {
+  outcome: 'hit' | 'semantic-hit' | 'miss' | 'bypass';
+  provider: string;
+  role?: string;
+  similarity?: number;
+}
+
+export interface LLMCacheStats {
+  hits: number;
+  semanticHits: number;
+  misses: number;
+  bypassed: number;
+  hitRate: number;
+  byRole: Record<string, { hits: number; misses: number; hitRate: number }>;
+}
+
+// =============================================================================
+// Budgets
+// =============================================================================
+
+export type BudgetScope = 'project' | 'agent' | 'swarm';
+
+export type BudgetWindow = 'daily' | 'weekly' | 'total';
+
+/**
+ * Spending limit for one project, agent role or swarm. Limits left unset
+ * are not enforced; daily and weekly windows reset at 00:00 UTC (weeks
+ * start on Monday).
+ */
+export interface BudgetPolicy {
+  id: string;
+  scope: BudgetScope;
+  /** Project id, agent role or swarm id; `*` applies to each one separately */
+  target: string;
+  window: BudgetWindow;
+  maxTokens?: number;
+  maxCostUsd?: number;
+  maxRequests?: number;
+  /** Reject requests, or route them to cheaper models, once exhausted */
+  onExceeded: 'fail' | 'downgrade';
+  /** Highest model output price (per million tokens) allowed when downgrading */
+  downgradeMaxCost?: number;
+  /** Fraction of a limit that triggers a warning event (default 0.8) */
+  warnAt?: number;
+}
+
+/**
+ * Who a request is spent on
+ */
+export interface BudgetContext {
+  projectId?: string;
+  agentRole?: string;
+  swarmId?: string;
+}
+
+export interface BudgetUsage {
+  tokens: number;
+  costUsd: number;
+  requests: number;
+}
+
+export interface BudgetUsageRecord {
+  tokens: number;
+  costUsd?: number;
+  provider: string;
+  model?: string;
+  /** Reservation taken at dispatch that this usage settles */
+  reservationId?: string;
+}
+
+/**
+ * Share of a budget held by dispatched requests that have not reported
+ * their usage yet
+ */
+export interface BudgetReservation {
+  tokens: number;
+  requests: number;
+}
+
+export interface BudgetDecision {
+  action: 'allow' | 'fail' | 'downgrade';
+  /** Policy that caused a fail or downgrade */
+  policyId?: string;
+  reason?: string;
+  /** For downgrades: highest model output price allowed */
+  maxModelCost?: number;
+}
+
+export interface BudgetStatus {
+  policy: BudgetPolicy;
+  /** Scope value the usage belongs to, e.g. the project id for `*` policies */
+  key: string;
+  windowStart: Date;
+  usage: BudgetUsage;
+  reserved: BudgetReservation;
+  exceeded: boolean;
+}
+
+export interface BudgetEvent {
+  type: 'warning' | 'exceeded' | 'downgraded' | 'rejected' | 'reset';
+  policyId: string;
+  scope: BudgetScope;
+  key: string;
+  window: BudgetWindow;
+  usage: BudgetUsage;
+  limits: Pick<BudgetPolicy, 'maxTokens' | 'maxCostUsd' | 'maxRequests'>;
+  timestamp: Date;
+}
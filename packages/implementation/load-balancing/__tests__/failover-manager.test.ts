@@ -0,0 +1,232 @@
+/**
+ * Failover Manager Tests.
+ *
+ * Covers reassigning the in-flight tasks of an agent reported unhealthy:
+ * redistribution by priority, stranded tasks retried on recovery, tasks
+ * that must not be re-run, retries of failed tasks, graceful degradation
+ * and standby activation.
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  FailoverManager,
+  type StandbyAgentSource,
+} from '../routing/failover-manager';
+import { IntelligentRoutingEngine } from '../routing/intelligent-routing-engine';
+import {
+  type Agent,
+  AgentStatus,
+  type FailoverConfig,
+  type Task,
+  TaskPriority,
+} from '../types';
+
+const agent = (id: string, capabilities: string[] = ['code']): Agent => ({
+  id,
+  name: id,
+  capabilities,
+  status: AgentStatus.HEALTHY,
+  endpoint: '',
+  lastHealthCheck: new Date(),
+  metadata: {},
+});
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  type: 'code',
+  priority: TaskPriority.NORMAL,
+  requiredCapabilities: ['code'],
+  estimatedDuration: 1000,
+  maxRetries: 2,
+  timeout: 5000,
+  metadata: {},
+  createdAt: new Date(),
+  ...overrides,
+});
+
+/**
+ * A failover manager behind the routing engine, the way LoadBalancer
+ * wires it: `agent:unhealthy` from the health checker ends up in
+ * `handleFailover`, and `routeTask` tracks where each task went.
+ */
+function setup(config: Partial<FailoverConfig> = {}) {
+  const agents = new Map([agent('a'), agent('b')].map((a) => [a.id, a]));
+  const manager = new FailoverManager(config);
+  const engine = new IntelligentRoutingEngine({} as never, manager);
+  const routed: string[] = [];
+  let available = true;
+
+  const routeTask = vi.fn(async (routedTask: Task) => {
+    const target = Array.from(agents.values()).find(
+      (candidate) => candidate.status === AgentStatus.HEALTHY
+    );
+    if (!available || !target) {
+      throw new Error('No healthy agents available');
+    }
+    routed.push(routedTask.id);
+    manager.trackTask(routedTask, target.id);
+    return {
+      selectedAgent: target,
+      confidence: 1,
+      reasoning: 'test',
+      alternativeAgents: [],
+      estimatedLatency: 0,
+      expectedQuality: 1,
+    };
+  });
+  manager.attach({
+    routeTask,
+    addAgent: async (added) => {
+      agents.set(added.id, added);
+    },
+    getAgent: (id) => agents.get(id),
+    getAgentIds: () => Array.from(agents.keys()),
+  });
+
+  const events: Array<{ event: string; data: any }> = [];
+  for (const event of [
+    'task:reassigned',
+    'task:stranded',
+    'task:shed',
+    'task:failed',
+    'task:orphaned',
+    'task:deduplicated',
+    'standby:activated',
+    'degradation:entered',
+    'degradation:exited',
+  ]) {
+    manager.on(event, (data: unknown) => events.push({ event, data }));
+  }
+
+  const unhealthy = async (agentId: string) => {
+    agents.get(agentId)!.status = AgentStatus.UNHEALTHY;
+    await engine.handleFailover(agentId);
+  };
+  const setAvailable = (value: boolean) => {
+    available = value;
+  };
+
+  return { agents, manager, routeTask, routed, events, unhealthy, setAvailable };
+}
+
+describe('FailoverManager on agent:unhealthy', () => {
+  it('reassigns the in-flight tasks of the agent, most urgent first', async () => {
+    const { manager, routed, events, unhealthy } = setup();
+    manager.trackTask(task('low', { priority: TaskPriority.LOW }), 'a');
+    manager.trackTask(task('critical', { priority: TaskPriority.CRITICAL }), 'a');
+    manager.trackTask(task('elsewhere'), 'b');
+
+    await unhealthy('a');
+
+    expect(routed).toEqual(['critical', 'low']);
+    expect(manager.getInFlightTasks('a')).toEqual([]);
+    expect(manager.getInFlightTasks('b').map((entry) => entry.task.id).sort()).toEqual([
+      'critical',
+      'elsewhere',
+      'low',
+    ]);
+    expect(events[0]).toMatchObject({
+      event: 'task:reassigned',
+      data: { fromAgentId: 'a', toAgentId: 'b', attempts: 2 },
+    });
+  });
+
+  it('strands tasks no agent can take and retries them when an agent recovers', async () => {
+    const { manager, routed, events, unhealthy, setAvailable, agents } = setup();
+    manager.trackTask(task('t1'), 'a');
+    setAvailable(false);
+
+    await unhealthy('a');
+
+    expect(events.map(({ event }) => event)).toEqual(['task:stranded']);
+    expect(manager.getInFlightTasks('a')).toMatchObject([{ stranded: true, attempts: 1 }]);
+
+    setAvailable(true);
+    agents.get('a')!.status = AgentStatus.HEALTHY;
+    await manager.handleAgentRecovery('a');
+
+    expect(routed).toEqual(['t1']);
+    expect(manager.getInFlightTasks()).toMatchObject([{ stranded: false, attempts: 2 }]);
+  });
+
+  it('does not re-run completed, non-idempotent or exhausted tasks', async () => {
+    const { manager, routed, events, unhealthy } = setup();
+    manager.trackTask(task('done-before', { metadata: { idempotencyKey: 'k1' } }), 'b');
+    manager.completeTask('done-before');
+    manager.trackTask(task('duplicate', { metadata: { idempotencyKey: 'k1' } }), 'a');
+    manager.trackTask(task('side-effects', { metadata: { idempotent: false } }), 'a');
+    manager.trackTask(task('no-retries', { maxRetries: 0 }), 'a');
+
+    await unhealthy('a');
+
+    expect(routed).toEqual([]);
+    expect(events.map(({ event, data }) => [event, data.task.id]).sort()).toEqual([
+      ['task:deduplicated', 'duplicate'],
+      ['task:failed', 'no-retries'],
+      ['task:orphaned', 'side-effects'],
+    ]);
+    expect(manager.getInFlightTasks()).toEqual([]);
+  });
+
+  it('reassigns the retry of a failed task with the same idempotency key', async () => {
+    const { manager, routed, events, unhealthy } = setup();
+    manager.trackTask(task('first-try', { metadata: { idempotencyKey: 'k2' } }), 'b');
+    manager.releaseTask('first-try');
+    manager.trackTask(task('retry', { metadata: { idempotencyKey: 'k2' } }), 'a');
+
+    await unhealthy('a');
+
+    expect(routed).toEqual(['retry']);
+    expect(events.map(({ event }) => event)).toEqual(['task:reassigned']);
+    expect(manager.getInFlightTasks().map((entry) => entry.task.id)).toEqual(['retry']);
+  });
+
+  it('sheds low-priority work while degraded and recovers with the agent', async () => {
+    const { manager, routed, events, unhealthy } = setup({
+      defaultStrategy: 'graceful_degradation',
+      degradationMinPriority: TaskPriority.HIGH,
+    });
+    manager.trackTask(task('normal'), 'a');
+    manager.trackTask(task('high', { priority: TaskPriority.HIGH }), 'a');
+
+    await unhealthy('a');
+
+    expect(routed).toEqual(['high']);
+    expect(events.map(({ event }) => event)).toEqual([
+      'degradation:entered',
+      'task:reassigned',
+      'task:shed',
+    ]);
+    expect(manager.acceptsTask(task('new'))).toBe(false);
+
+    await manager.handleAgentRecovery('a');
+
+    expect(manager.isDegraded()).toBe(false);
+    expect(events.at(-1)?.event).toBe('degradation:exited');
+  });
+
+  it('activates a matching standby agent once, however often the agent is reported', async () => {
+    const { manager, agents, events, unhealthy } = setup();
+    const source: StandbyAgentSource = {
+      selectAgents: vi.fn(async () => [
+        { id: 'offline', capabilities: ['code', 'review'], status: 'offline' },
+        { id: 'standby', capabilities: ['code', 'review'], status: 'idle' },
+      ]),
+    };
+    agents.set('reviewer', agent('reviewer', ['code', 'review']));
+    manager.setStandbySource(source);
+    manager.setStrategy('reviewer', 'standby');
+    manager.trackTask(task('review', { requiredCapabilities: ['review'] }), 'reviewer');
+
+    await unhealthy('reviewer');
+    await unhealthy('reviewer');
+
+    expect(source.selectAgents).toHaveBeenCalledTimes(1);
+    expect(source.selectAgents).toHaveBeenCalledWith(
+      expect.objectContaining({ capabilities: ['code', 'review'] })
+    );
+    expect(agents.get('standby')?.metadata).toMatchObject({ standby: true });
+    expect(events.filter(({ event }) => event === 'standby:activated')).toHaveLength(1);
+  });
+});
@@ -150,12 +150,19 @@ import type {
   LoadBalancingAlgorithm,
 } from './interfaces';
 import { EmergencyProtocolHandler } from './optimization/emergency-protocol-handler';
+import {
+  FAILOVER_EVENTS,
+  FailoverManager,
+  type InFlightTask,
+  type StandbyAgentSource,
+} from './routing/failover-manager';
 import { HealthChecker } from './routing/health-checker';
 import { IntelligentRoutingEngine } from './routing/intelligent-routing-engine';
 import { AutoScalingStrategy } from './strategies/auto-scaling-strategy';
 import {
   type Agent,
   AgentStatus,
+  type FailoverStrategy,
   LoadBalancingAlgorithmType,
   type LoadBalancingConfig,
   type LoadMetrics,
@@ -171,6 +178,7 @@ export class LoadBalancer extends TypedEventBase {
   private capacityManager!: CapacityManager;
   private routingEngine!: RoutingEngine;
   private healthChecker!: HealthChecker;
+  private failoverManager!: FailoverManager;
   private autoScaler!: AutoScaler;
   private emergencyHandler!: EmergencyHandler;
   private observers: LoadBalancingObserver[] = [];
@@ -289,7 +297,19 @@ export class LoadBalancer extends TypedEventBase {
 
     // Initialize core components with foundation integration
     this.capacityManager = new AgentCapacityManager();
-    this.routingEngine = new IntelligentRoutingEngine(this.capacityManager);
+    this.failoverManager = new FailoverManager(
+      this.loadBalancingConfig.failoverConfig
+    );
+    this.failoverManager.attach({
+      routeTask: (task) => this.routeTask(task),
+      addAgent: (agent) => this.addAgent(agent),
+      getAgent: (agentId) => this.agents.get(agentId),
+      getAgentIds: () => Array.from(this.agents.keys()),
+    });
+    this.routingEngine = new IntelligentRoutingEngine(
+      this.capacityManager,
+      this.failoverManager
+    );
     this.healthChecker = new HealthChecker(
       this.loadBalancingConfig.healthCheckInterval
     );
@@ -459,6 +479,10 @@ export class LoadBalancer extends TypedEventBase {
       this.handleScaleDown(agentIds);
     });
 
+    for (const event of FAILOVER_EVENTS) {
+      this.failoverManager.on(event, (data: unknown) => this.emit(event, data));
+    }
+
     this.emergencyHandler.on('emergency:activated', (data: any) => {
       this.emit('emergency', {
         type: data.type,
@@ -767,6 +791,9 @@ export class LoadBalancer extends TypedEventBase {
         });
 
         this.emit('agent:added', agent);
+
+        // Tasks that found no agent during failover may fit the new one
+        await this.failoverManager.retryStrandedTasks();
       });
     });
 
@@ -840,6 +867,16 @@ export class LoadBalancer extends TypedEventBase {
           priority: task.priority,
         });
 
+        if (!this.failoverManager.acceptsTask(task)) {
+          recordMetric('load_balancer_tasks_shed_total', 1);
+          throw new ContextError('Task shed while running degraded', {
+            context: {
+              taskId: task.id,
+              priority: task.priority,
+            },
+          });
+        }
+
         const availableAgents = Array.from(this.agents.values()).filter(
           (agent) => agent.status === AgentStatus.HEALTHY
         );
@@ -924,6 +961,9 @@ export class LoadBalancer extends TypedEventBase {
 
           // Store routing decision for ML learning
           await this.storeRoutingDecision(task, routingResult);
+
+          // Remember who holds the task so failover can reassign it
+          this.failoverManager.trackTask(task, routingResult.selectedAgent.id);
         }
 
         // Notify observers
@@ -1130,6 +1170,12 @@ export class LoadBalancer extends TypedEventBase {
     duration: number,
     success: boolean
   ): Promise<void> {
+    if (success) {
+      this.failoverManager.completeTask(taskId);
+    } else {
+      this.failoverManager.releaseTask(taskId);
+    }
+
     const agent = this.agents.get(agentId);
     if (!agent) return;
 
@@ -1247,6 +1293,34 @@ export class LoadBalancer extends TypedEventBase {
     this.emit('configuration:updated', this.loadBalancingConfig);
   }
 
+  /**
+   * Set where standby agents come from for the 'standby' failover strategy.
+   *
+   * @param source
+   */
+  public setStandbyAgentSource(source: StandbyAgentSource | null): void {
+    this.failoverManager.setStandbySource(source);
+  }
+
+  /**
+   * Choose how an agent's failure is handled.
+   *
+   * @param agentId
+   * @param strategy
+   */
+  public setFailoverStrategy(agentId: string, strategy: FailoverStrategy): void {
+    this.failoverManager.setStrategy(agentId, strategy);
+  }
+
+  /**
+   * Tasks currently held by agents, optionally for one agent.
+   *
+   * @param agentId
+   */
+  public getInFlightTasks(agentId?: string): InFlightTask[] {
+    return this.failoverManager.getInFlightTasks(agentId);
+  }
+
   /**
    * Register an observer for load balancing events.
    *
@@ -1319,6 +1393,8 @@ export class LoadBalancer extends TypedEventBase {
       Array.from(this.agents.values())
     );
 
+    await this.failoverManager.handleAgentRecovery(agentId);
+
     this.emit('agent:recovered', agentId);
   }
 
@@ -1465,6 +1541,7 @@ export class LoadBalancer extends TypedEventBase {
         networkOptimization: true,
         bandwidthOptimization: true,
       },
+      failoverConfig: config?.failoverConfig,
     };
   }
 
@@ -6,13 +6,195 @@
  * @file failover management system
  */
 
-export class FailoverManager {
-  private failoverStrategies: Map<string, string> = new Map();
+import { getLogger, TypedEventBase } from '@claude-zen/foundation';
+
+import type {
+  Agent,
+  FailoverConfig,
+  FailoverStrategy,
+  RoutingResult,
+  Task,
+} from '../types';
+import { AgentStatus, TaskPriority, taskPriorityToNumber } from '../types';
+
+const logger = getLogger('failover-manager');
+
+/**
+ * Hooks into the load balancer that owns the agent pool. Reassigned tasks
+ * go back through `routeTask` so they get the same routing as new work.
+ */
+export interface FailoverContext {
+  routeTask(task: Task): Promise<RoutingResult>;
+  addAgent(agent: Agent): Promise<void>;
+  getAgent(agentId: string): Agent | undefined;
+  getAgentIds(): string[];
+}
+
+/**
+ * Where standby agents come from; `AgentRegistry` from
+ * `@claude-zen/agent-registry` fits.
+ */
+export interface StandbyAgentSource {
+  selectAgents(criteria: {
+    capabilities?: string[];
+    maxResults?: number;
+    excludeIds?: string[];
+  }): Promise<unknown[]>;
+}
+
+/** Events a `FailoverManager` emits, relayed by `LoadBalancer` */
+export const FAILOVER_EVENTS = [
+  'task:reassigned',
+  'task:stranded',
+  'task:shed',
+  'task:failed',
+  'task:orphaned',
+  'task:deduplicated',
+  'load:redistributed',
+  'standby:activated',
+  'degradation:entered',
+  'degradation:exited',
+] as const;
+
+export interface InFlightTask {
+  task: Task;
+  agentId: string;
+  /** Dispatches so far, the first assignment included */
+  attempts: number;
+  assignedAt: Date;
+  /** No agent could take the task during failover */
+  stranded: boolean;
+}
+
+export class FailoverManager extends TypedEventBase {
+  private failoverStrategies: Map<string, FailoverStrategy> = new Map();
+  private inFlightTasks: Map<string, InFlightTask> = new Map();
+  private completedIdempotencyKeys: Set<string> = new Set();
+  private failedAgents: Set<string> = new Set();
+  private degradedBy: Set<string> = new Set();
+  private context: FailoverContext | null = null;
+  private standbySource: StandbyAgentSource | null = null;
+  private config: FailoverConfig;
+
+  constructor(config: Partial<FailoverConfig> = {}) {
+    super();
+    this.config = {
+      defaultStrategy: 'redistribute',
+      degradationMinPriority: TaskPriority.HIGH,
+      idempotencyKeyRetention: 1000,
+      ...config,
+    };
+  }
+
+  public attach(context: FailoverContext): void {
+    this.context = context;
+  }
+
+  public setStandbySource(source: StandbyAgentSource | null): void {
+    this.standbySource = source;
+  }
+
+  public setStrategy(agentId: string, strategy: FailoverStrategy): void {
+    this.failoverStrategies.set(agentId, strategy);
+  }
+
+  /**
+   * Record that an agent holds a task. Re-routing an already tracked task
+   * keeps its attempt count.
+   *
+   * @param task
+   * @param agentId
+   */
+  public trackTask(task: Task, agentId: string): void {
+    const existing = this.inFlightTasks.get(task.id);
+    this.inFlightTasks.set(task.id, {
+      task,
+      agentId,
+      attempts: existing?.attempts ?? 1,
+      assignedAt: new Date(),
+      stranded: false,
+    });
+  }
+
+  public completeTask(taskId: string): void {
+    const entry = this.inFlightTasks.get(taskId);
+    if (!entry) return;
+
+    this.inFlightTasks.delete(taskId);
+
+    const key = idempotencyKey(entry.task);
+    if (key) {
+      this.completedIdempotencyKeys.add(key);
+      // Sets iterate in insertion order, so the oldest keys go first
+      for (const oldest of this.completedIdempotencyKeys) {
+        if (
+          this.completedIdempotencyKeys.size <=
+          this.config.idempotencyKeyRetention
+        ) {
+          break;
+        }
+        this.completedIdempotencyKeys.delete(oldest);
+      }
+    }
+  }
+
+  /**
+   * Stop tracking a task that ended without completing, e.g. failed. Its
+   * idempotency key stays open, so a retry of the task is not deduplicated.
+   *
+   * @param taskId
+   */
+  public releaseTask(taskId: string): void {
+    this.inFlightTasks.delete(taskId);
+  }
+
+  public getInFlightTasks(agentId?: string): InFlightTask[] {
+    return Array.from(this.inFlightTasks.values()).filter(
+      (entry) => !agentId || entry.agentId === agentId
+    );
+  }
+
+  public isDegraded(): boolean {
+    return this.degradedBy.size > 0;
+  }
+
+  /**
+   * Whether new work of this priority is admitted; low-priority work is
+   * shed while degraded.
+   *
+   * @param task
+   */
+  public acceptsTask(task: Task): boolean {
+    return (
+      !this.isDegraded() ||
+      taskPriorityToNumber(task.priority) >=
+        taskPriorityToNumber(this.config.degradationMinPriority)
+    );
+  }
 
   public async activateFailover(failedAgentId: string): Promise<void> {
-    // Implement failover logic
+    if (!this.context) {
+      logger.warn('Failover requested before the manager was attached', {
+        failedAgentId,
+      });
+      return;
+    }
+
+    // Health checks keep reporting a dead agent; only retry its leftovers
+    if (this.failedAgents.has(failedAgentId)) {
+      await this.redistributeLoad(failedAgentId);
+      return;
+    }
+    this.failedAgents.add(failedAgentId);
+
     const strategy =
-      this.failoverStrategies.get(failedAgentId) || 'redistribute';
+      this.failoverStrategies.get(failedAgentId) || this.config.defaultStrategy;
+
+    logger.info('Activating failover', {
+      failedAgentId,
+      strategy,
+      inFlightTasks: this.getInFlightTasks(failedAgentId).length,
+    });
 
     switch (strategy) {
       case 'redistribute':
@@ -29,9 +211,214 @@ export class FailoverManager {
     }
   }
 
-  private async redistributeLoad(_failedAgentId: string): Promise<void> {}
+  /**
+   * Leave degraded mode once every agent that caused it is back, and retry
+   * tasks that found no agent during failover.
+   *
+   * @param agentId
+   */
+  public async handleAgentRecovery(agentId: string): Promise<void> {
+    this.failedAgents.delete(agentId);
+
+    if (this.degradedBy.delete(agentId) && this.degradedBy.size === 0) {
+      logger.info('Leaving degraded mode', { recoveredAgentId: agentId });
+      this.emit('degradation:exited', { recoveredAgentId: agentId });
+    }
+
+    await this.retryStrandedTasks();
+  }
+
+  public async retryStrandedTasks(): Promise<void> {
+    const stranded = this.getInFlightTasks().filter((entry) => entry.stranded);
+    for (const entry of byPriority(stranded)) {
+      await this.reassignTask(entry);
+    }
+  }
+
+  /**
+   * Re-route every task the failed agent held, most urgent first.
+   *
+   * @param failedAgentId
+   */
+  private async redistributeLoad(failedAgentId: string): Promise<void> {
+    const held = this.getInFlightTasks(failedAgentId);
+    for (const entry of byPriority(held)) {
+      await this.reassignTask(entry);
+    }
+
+    if (held.length > 0) {
+      this.emit('load:redistributed', {
+        failedAgentId,
+        tasks: held.length,
+        stranded: this.getInFlightTasks(failedAgentId).length,
+      });
+    }
+  }
+
+  /**
+   * Bring in a standby agent with the failed agent's capabilities, then
+   * redistribute. Falls back to plain redistribution without a standby.
+   *
+   * @param failedAgentId
+   */
+  private async activateStandbyAgent(failedAgentId: string): Promise<void> {
+    const context = this.context!;
+    const required = context.getAgent(failedAgentId)?.capabilities ?? [];
+
+    let standby: Agent | undefined;
+    if (this.standbySource) {
+      try {
+        const candidates = await this.standbySource.selectAgents({
+          capabilities: required,
+          maxResults: 5,
+          excludeIds: [failedAgentId, ...context.getAgentIds()],
+        });
+        standby = candidates
+          .map(toPoolAgent)
+          .find(
+            (agent) =>
+              agent &&
+              required.every((capability) =>
+                agent.capabilities.includes(capability)
+              )
+          );
+      } catch (error) {
+        logger.warn('Standby agent lookup failed', {
+          failedAgentId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (standby) {
+      await context.addAgent(standby);
+      logger.info('Standby agent activated', {
+        failedAgentId,
+        standbyAgentId: standby.id,
+      });
+      this.emit('standby:activated', {
+        failedAgentId,
+        standbyAgentId: standby.id,
+      });
+    } else {
+      logger.warn('No standby agent available, redistributing instead', {
+        failedAgentId,
+      });
+    }
+
+    await this.redistributeLoad(failedAgentId);
+  }
+
+  /**
+   * Enter degraded mode: keep high-priority work running on the remaining
+   * agents and shed the rest.
+   *
+   * @param failedAgentId
+   */
+  private async gracefulDegradation(failedAgentId: string): Promise<void> {
+    if (this.degradedBy.size === 0) {
+      logger.warn('Entering degraded mode', {
+        failedAgentId,
+        minPriority: this.config.degradationMinPriority,
+      });
+      this.emit('degradation:entered', {
+        failedAgentId,
+        minPriority: this.config.degradationMinPriority,
+      });
+    }
+    this.degradedBy.add(failedAgentId);
+
+    await this.redistributeLoad(failedAgentId);
+  }
+
+  private async reassignTask(entry: InFlightTask): Promise<void> {
+    const { task } = entry;
+    const fromAgentId = entry.agentId;
+    const drop = (event: string, reason: string) => {
+      this.inFlightTasks.delete(task.id);
+      logger.warn(`Task not reassigned: ${reason}`, {
+        taskId: task.id,
+        fromAgentId,
+      });
+      this.emit(event, { task, agentId: fromAgentId, reason });
+    };
+
+    const key = idempotencyKey(task);
+    if (key && this.completedIdempotencyKeys.has(key)) {
+      drop('task:deduplicated', `Idempotency key ${key} already completed`);
+      return;
+    }
+    // The agent may have partly applied it; a blind re-run could repeat side effects
+    if (task.metadata['idempotent'] === false) {
+      drop('task:orphaned', 'Task is not idempotent');
+      return;
+    }
+    if (entry.attempts > task.maxRetries) {
+      drop('task:failed', `Exhausted ${task.maxRetries} retries`);
+      return;
+    }
+    if (!this.acceptsTask(task)) {
+      drop('task:shed', `Priority ${task.priority} shed while degraded`);
+      return;
+    }
+
+    entry.attempts++;
+    try {
+      const result = await this.context!.routeTask(task);
+      this.emit('task:reassigned', {
+        task,
+        fromAgentId,
+        toAgentId: result.selectedAgent.id,
+        attempts: entry.attempts,
+      });
+    } catch (error) {
+      // Nothing was dispatched, so the attempt doesn't count
+      entry.attempts--;
+      entry.stranded = true;
+      logger.warn('No agent available for reassigned task', {
+        taskId: task.id,
+        fromAgentId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.emit('task:stranded', { task, agentId: fromAgentId });
+    }
+  }
+}
+
+function idempotencyKey(task: Task): string | undefined {
+  const key = task.metadata['idempotencyKey'];
+  return typeof key === 'string' && key.length > 0 ? key : undefined;
+}
+
+function byPriority(entries: InFlightTask[]): InFlightTask[] {
+  return [...entries].sort(
+    (a, b) =>
+      taskPriorityToNumber(b.task.priority) -
+      taskPriorityToNumber(a.task.priority)
+  );
+}
 
-  private async activateStandbyAgent(_failedAgentId: string): Promise<void> {}
+// Registry records are loosely typed JSON; take what the pool needs
+function toPoolAgent(record: unknown): Agent | undefined {
+  if (!record || typeof record !== 'object') return undefined;
+
+  const entry = record as Record<string, unknown>;
+  if (typeof entry['id'] !== 'string') return undefined;
+  if (entry['status'] === 'offline' || entry['status'] === 'error') {
+    return undefined;
+  }
 
-  private async gracefulDegradation(_failedAgentId: string): Promise<void> {}
+  return {
+    id: entry['id'],
+    name: typeof entry['name'] === 'string' ? entry['name'] : entry['id'],
+    capabilities: Array.isArray(entry['capabilities'])
+      ? entry['capabilities'].filter(
+          (capability): capability is string => typeof capability === 'string'
+        )
+      : [],
+    status: AgentStatus.HEALTHY,
+    endpoint: typeof entry['endpoint'] === 'string' ? entry['endpoint'] : '',
+    lastHealthCheck: new Date(),
+    metadata: { source: 'agent-registry', standby: true },
+  };
 }
@@ -85,11 +85,14 @@ export class IntelligentRoutingEngine
     loadBalancingStrategy:'intelligent'as|'round_robin|least_connections|intelligent',
   };
 
-  constructor(capacityManager: CapacityManager) {
+  constructor(
+    capacityManager: CapacityManager,
+    failoverManager: FailoverManager = new FailoverManager()
+  ) {
     super();
     this.capacityManager = capacityManager;
     this.taskAgentMatcher = new TaskAgentMatcher();
-    this.failoverManager = new FailoverManager();
+    this.failoverManager = failoverManager;
     this.networkOptimizer = new NetworkLatencyOptimizer();
 
     this.routingMetrics = {
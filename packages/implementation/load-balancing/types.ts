@@ -81,15 +81,15 @@ export interface CapacityMetrics {
   currentUtilization: number;
   availableCapacity: number;
   predictedCapacity: number;
-  capacityTrend: 'increasing''||'decreasing'||''stable';
+  capacityTrend: 'increasing' | 'decreasing' | 'stable';
   resourceConstraints: ResourceConstraint[];
 }
 
 export interface ResourceConstraint {
-  type: 'cpu''||'memory'||'disk'||'network'||''custom';
+  type: 'cpu' | 'memory' | 'disk' | 'network' | 'custom';
   threshold: number;
   currentValue: number;
-  severity: 'low''||'medium'||'high'||''critical';
+  severity: 'low' | 'medium' | 'high' | 'critical';
 }
 
 export interface RoutingResult {
@@ -113,6 +113,7 @@ export interface LoadBalancingConfig {
   autoScalingConfig: AutoScalingConfig;
   optimizationConfig: OptimizationConfig;
   adaptiveLearning?: boolean; // Enable machine learning-based load balancing improvements
+  failoverConfig?: FailoverConfig;
 }
 
 export enum LoadBalancingAlgorithmType {
@@ -131,11 +132,24 @@ export interface CircuitBreakerConfig {
   monitoringPeriod: number;
 }
 
+export type FailoverStrategy =
+  | 'redistribute'
+  | 'standby'
+  | 'graceful_degradation';
+
+export interface FailoverConfig {
+  defaultStrategy: FailoverStrategy;
+  /** Lowest priority still served while degraded; lower work is shed */
+  degradationMinPriority: TaskPriority;
+  /** Completed idempotency keys remembered to avoid re-running work */
+  idempotencyKeyRetention: number;
+}
+
 export interface StickySessionConfig {
   enabled: boolean;
   sessionTimeout: number;
   affinityStrength: number;
-  fallbackStrategy: 'fail''||''redistribute';
+  fallbackStrategy: 'fail' | 'redistribute';
 }
 
 export interface AutoScalingConfig {
@@ -156,7 +170,7 @@ export interface OptimizationConfig {
 }
 
 export interface PredictionModel {
-  modelType: 'linear''||'neural'||''ensemble';
+  modelType: 'linear' | 'neural' | 'ensemble';
   accuracy: number;
   features: string[];
   lastTraining: Date;
@@ -229,7 +243,7 @@ export interface EmergencyProtocol {
 }
 
 export interface EmergencyAction {
-  type: 'load_shed''||'scale_up'||'failover'||'throttle'||''alert';
+  type: 'load_shed' | 'scale_up' | 'failover' | 'throttle' | 'alert';
   parameters: Record<string, unknown>;
   timeout: number;
 }
@@ -253,7 +267,7 @@ export interface AgentAssignment {
   assignedAt: Date;
   estimatedCompletion: Date;
   priority: TaskPriority;
-  status: 'assigned''||'active'||'completed'||'failed'||''cancelled';
+  status: 'assigned' | 'active' | 'completed' | 'failed' | 'cancelled';
 }
 
 export interface LoadBalancingMetrics {
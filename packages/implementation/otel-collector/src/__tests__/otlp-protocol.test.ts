@@ -0,0 +1,404 @@
+/**
+ * OTLP Protocol Tests.
+ *
+ * Covers decoding protobuf and OTLP/JSON export requests for traces,
+ * metrics and logs into telemetry items, encoding partial-success
+ * responses, and the OTLP/HTTP endpoints of the receiver.
+ */
+
+import type { AddressInfo } from 'node:net';
+
+import express from 'express';
+import protobuf from 'protobufjs';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  decodeOTLPRequest,
+  encodeOTLPResponse,
+  isOTLPRequest,
+  otlpToTelemetryData,
+} from '../receivers/otlp-protocol';
+import { OTLPReceiver } from '../receivers/otlp-receiver';
+
+// The opentelemetry-proto messages the tests send, with their upstream
+// field numbers, so the collector's schema is checked against the spec
+const { root } = protobuf.parse(`
+  syntax = "proto3";
+  package otlp.test;
+
+  message AnyValue {
+    oneof value {
+      string string_value = 1;
+      bool bool_value = 2;
+      int64 int_value = 3;
+      double double_value = 4;
+      KeyValueList kvlist_value = 6;
+    }
+  }
+  message KeyValueList { repeated KeyValue values = 1; }
+  message KeyValue { string key = 1; AnyValue value = 2; }
+  message InstrumentationScope { string name = 1; string version = 2; }
+  message Resource { repeated KeyValue attributes = 1; }
+
+  message Status { string message = 2; int32 code = 3; }
+  message Span {
+    message Event { fixed64 time_unix_nano = 1; string name = 2; }
+    bytes trace_id = 1;
+    bytes span_id = 2;
+    bytes parent_span_id = 4;
+    string name = 5;
+    int32 kind = 6;
+    fixed64 start_time_unix_nano = 7;
+    fixed64 end_time_unix_nano = 8;
+    repeated KeyValue attributes = 9;
+    repeated Event events = 11;
+    Status status = 15;
+  }
+  message ScopeSpans { InstrumentationScope scope = 1; repeated Span spans = 2; }
+  message ResourceSpans { Resource resource = 1; repeated ScopeSpans scope_spans = 2; }
+  message ExportTraceServiceRequest { repeated ResourceSpans resource_spans = 1; }
+
+  message NumberDataPoint {
+    fixed64 time_unix_nano = 3;
+    oneof value { double as_double = 4; sfixed64 as_int = 6; }
+    repeated KeyValue attributes = 7;
+  }
+  message HistogramDataPoint {
+    fixed64 time_unix_nano = 3;
+    fixed64 count = 4;
+    double sum = 5;
+    repeated fixed64 bucket_counts = 6;
+    repeated double explicit_bounds = 7;
+  }
+  message Sum { repeated NumberDataPoint data_points = 1; bool is_monotonic = 3; }
+  message Histogram { repeated HistogramDataPoint data_points = 1; }
+  message Metric {
+    string name = 1;
+    string unit = 3;
+    oneof data { Sum sum = 7; Histogram histogram = 9; }
+  }
+  message ScopeMetrics { InstrumentationScope scope = 1; repeated Metric metrics = 2; }
+  message ResourceMetrics { Resource resource = 1; repeated ScopeMetrics scope_metrics = 2; }
+  message ExportMetricsServiceRequest { repeated ResourceMetrics resource_metrics = 1; }
+
+  message LogRecord {
+    fixed64 time_unix_nano = 1;
+    int32 severity_number = 2;
+    AnyValue body = 5;
+    repeated KeyValue attributes = 6;
+    bytes trace_id = 9;
+    bytes span_id = 10;
+  }
+  message ScopeLogs { InstrumentationScope scope = 1; repeated LogRecord log_records = 2; }
+  message ResourceLogs { Resource resource = 1; repeated ScopeLogs scope_logs = 2; }
+  message ExportLogsServiceRequest { repeated ResourceLogs resource_logs = 1; }
+
+  message ExportTracePartialSuccess { int64 rejected_spans = 1; string error_message = 2; }
+  message ExportTraceServiceResponse { ExportTracePartialSuccess partial_success = 1; }
+`);
+
+const encode = (type: string, message: Record<string, unknown>): Uint8Array => {
+  const messageType = root.lookupType(`otlp.test.${type}`);
+  return messageType.encode(messageType.fromObject(message)).finish();
+};
+
+const TRACE_ID = '5b8efff798038103d269b633813fc60c';
+const SPAN_ID = 'eee19b7ec3c1b174';
+const START_NANOS = '1700000000000000000';
+const END_NANOS = '1700000000250000000';
+
+const resource = {
+  attributes: [
+    { key: 'service.name', value: { stringValue: 'checkout' } },
+    { key: 'service.version', value: { stringValue: '1.2.0' } },
+  ],
+};
+
+/** The same trace request in OTLP/JSON form (hex ids, string longs) */
+const traceRequestJson = {
+  resourceSpans: [
+    {
+      resource,
+      scopeSpans: [
+        {
+          scope: { name: 'checkout-tracer', version: '0.1.0' },
+          spans: [
+            {
+              traceId: TRACE_ID,
+              spanId: SPAN_ID,
+              name: 'POST /orders',
+              kind: 2,
+              startTimeUnixNano: START_NANOS,
+              endTimeUnixNano: END_NANOS,
+              attributes: [
+                { key: 'http.status_code', value: { intValue: '500' } },
+                { key: 'retry', value: { boolValue: true } },
+                {
+                  key: 'order',
+                  value: {
+                    kvlistValue: { values: [{ key: 'items', value: { doubleValue: 2 } }] },
+                  },
+                },
+              ],
+              events: [{ timeUnixNano: START_NANOS, name: 'validated' }],
+              status: { code: 2, message: 'payment failed' },
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+function encodeTraceRequest(): Uint8Array {
+  const [resourceSpans] = traceRequestJson.resourceSpans;
+  const [scopeSpans] = resourceSpans!.scopeSpans;
+  const [span] = scopeSpans!.spans;
+  return encode('ExportTraceServiceRequest', {
+    resourceSpans: [
+      {
+        ...resourceSpans,
+        scopeSpans: [
+          {
+            ...scopeSpans,
+            spans: [
+              {
+                ...span,
+                traceId: Buffer.from(TRACE_ID, 'hex'),
+                spanId: Buffer.from(SPAN_ID, 'hex'),
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  });
+}
+
+describe('OTLP protocol', () => {
+  it('converts a protobuf trace request into spans with hex ids', () => {
+    const [item] = otlpToTelemetryData('traces', decodeOTLPRequest('traces', encodeTraceRequest()));
+
+    expect(item).toMatchObject({
+      type: 'traces',
+      service: { name: 'checkout', version: '1.2.0' },
+      attributes: { 'service.name': 'checkout' },
+    });
+    expect(item!.data.spans).toEqual([
+      expect.objectContaining({
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+        parentSpanId: undefined,
+        name: 'POST /orders',
+        kind: 'server',
+        startTime: 1_700_000_000_000,
+        duration: 250,
+        attributes: { 'http.status_code': 500, retry: true, order: { items: 2 } },
+        events: [{ name: 'validated', timestamp: 1_700_000_000_000, attributes: {} }],
+        status: { code: 'error', message: 'payment failed' },
+        scope: { name: 'checkout-tracer', version: '0.1.0' },
+      }),
+    ]);
+  });
+
+  it('converts OTLP/JSON requests the same way as protobuf', () => {
+    expect(isOTLPRequest('traces', traceRequestJson)).toBe(true);
+    expect(isOTLPRequest('metrics', traceRequestJson)).toBe(false);
+    expect(isOTLPRequest('traces', { spans: [] })).toBe(false);
+
+    const fromJson = otlpToTelemetryData('traces', traceRequestJson);
+    const fromProtobuf = otlpToTelemetryData(
+      'traces',
+      decodeOTLPRequest('traces', encodeTraceRequest())
+    );
+
+    expect(fromJson.map((item) => item.data)).toEqual(fromProtobuf.map((item) => item.data));
+  });
+
+  it('flattens metric data points into counters, gauges and histograms', () => {
+    const payload = encode('ExportMetricsServiceRequest', {
+      resourceMetrics: [
+        {
+          resource,
+          scopeMetrics: [
+            {
+              metrics: [
+                {
+                  name: 'orders_total',
+                  sum: {
+                    isMonotonic: true,
+                    dataPoints: [
+                      {
+                        asInt: 42,
+                        timeUnixNano: START_NANOS,
+                        attributes: [{ key: 'region', value: { stringValue: 'eu' } }],
+                      },
+                    ],
+                  },
+                },
+                { name: 'queue_depth', sum: { dataPoints: [{ asDouble: 3.5 }] } },
+                {
+                  name: 'latency',
+                  unit: 'ms',
+                  histogram: {
+                    dataPoints: [
+                      { count: 3, sum: 120, bucketCounts: [1, 2], explicitBounds: [50] },
+                    ],
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+
+    const [item] = otlpToTelemetryData('metrics', decodeOTLPRequest('metrics', payload));
+
+    expect(item!.data.metrics).toEqual([
+      expect.objectContaining({
+        name: 'orders_total',
+        type: 'counter',
+        value: 42,
+        attributes: { region: 'eu' },
+        timestamp: 1_700_000_000_000,
+      }),
+      expect.objectContaining({ name: 'queue_depth', type: 'gauge', value: 3.5 }),
+      expect.objectContaining({
+        name: 'latency',
+        unit: 'ms',
+        type: 'histogram',
+        count: 3,
+        sum: 120,
+        buckets: [50],
+        bucketCounts: [1, 2],
+      }),
+    ]);
+  });
+
+  it('converts log records with their body, severity and trace context', () => {
+    const payload = encode('ExportLogsServiceRequest', {
+      resourceLogs: [
+        {
+          resource,
+          scopeLogs: [
+            {
+              logRecords: [
+                {
+                  timeUnixNano: START_NANOS,
+                  severityNumber: 17,
+                  body: { stringValue: 'payment failed' },
+                  traceId: Buffer.from(TRACE_ID, 'hex'),
+                  spanId: Buffer.from(SPAN_ID, 'hex'),
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+
+    const [item] = otlpToTelemetryData('logs', decodeOTLPRequest('logs', payload));
+
+    expect(item!.data.logs).toEqual([
+      expect.objectContaining({
+        timestamp: 1_700_000_000_000,
+        level: 'ERROR',
+        message: 'payment failed',
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+      }),
+    ]);
+  });
+
+  it('encodes a partial success only when something was rejected', () => {
+    const response = root.lookupType('otlp.test.ExportTraceServiceResponse');
+
+    expect(encodeOTLPResponse('traces')).toHaveLength(0);
+    expect(encodeOTLPResponse('traces', { rejected: 0 })).toHaveLength(0);
+    expect(
+      response.toObject(
+        response.decode(encodeOTLPResponse('traces', { rejected: 2, errorMessage: 'queue full' })),
+        { longs: Number }
+      )
+    ).toEqual({ partialSuccess: { rejectedSpans: 2, errorMessage: 'queue full' } });
+  });
+});
+
+describe('OTLPReceiver over HTTP', () => {
+  let server: ReturnType<express.Express['listen']> | undefined;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined));
+    server = undefined;
+  });
+
+  async function listen(receiver: OTLPReceiver, fallback = vi.fn()) {
+    const app = express();
+    app.use(express.json());
+    receiver.registerHttpRoutes(app, fallback);
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server!.once('listening', resolve));
+    return `http://127.0.0.1:${(server!.address() as AddressInfo).port}`;
+  }
+
+  it('ingests protobuf and JSON requests and answers in the same encoding', async () => {
+    const ingest = vi.fn(async () => ({ rejected: 1, errorMessage: 'sampled out' }));
+    const url = await listen(new OTLPReceiver(ingest, { grpc: false }));
+
+    const protobufResponse = await fetch(`${url}/v1/traces`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-protobuf' },
+      body: Buffer.from(encodeTraceRequest()),
+    });
+    const jsonResponse = await fetch(`${url}/v1/traces`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(traceRequestJson),
+    });
+
+    expect(protobufResponse.status).toBe(200);
+    expect(protobufResponse.headers.get('content-type')).toMatch(/application\/x-protobuf/);
+    const response = root.lookupType('otlp.test.ExportTraceServiceResponse');
+    expect(
+      response.toObject(response.decode(new Uint8Array(await protobufResponse.arrayBuffer())), {
+        longs: Number,
+      })
+    ).toEqual({ partialSuccess: { rejectedSpans: 1, errorMessage: 'sampled out' } });
+    expect(await jsonResponse.json()).toEqual({
+      partialSuccess: { rejectedSpans: 1, errorMessage: 'sampled out' },
+    });
+    const converted = [
+      expect.objectContaining({
+        service: expect.objectContaining({ name: 'checkout' }),
+        data: { spans: [expect.objectContaining({ traceId: TRACE_ID, spanId: SPAN_ID })] },
+      }),
+    ];
+    expect(ingest).toHaveBeenNthCalledWith(1, 'traces', converted);
+    expect(ingest).toHaveBeenNthCalledWith(2, 'traces', converted);
+  });
+
+  it('rejects malformed protobuf and hands other JSON to the fallback', async () => {
+    const ingest = vi.fn(async () => undefined);
+    const fallback = vi.fn(async (_signal, _req, res) => {
+      res.status(202).json({ fallback: true });
+    });
+    const url = await listen(new OTLPReceiver(ingest, { grpc: false }), fallback);
+
+    const malformed = await fetch(`${url}/v1/logs`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-protobuf' },
+      body: Buffer.from([0x0a, 0xff]),
+    });
+    const legacy = await fetch(`${url}/v1/logs`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ logs: [{ message: 'hi' }] }),
+    });
+
+    expect(malformed.status).toBe(400);
+    expect(legacy.status).toBe(202);
+    expect(fallback).toHaveBeenCalledWith('logs', expect.anything(), expect.anything());
+    expect(ingest).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Tail Sampling Processor Tests.
+ *
+ * Covers keeping whole traces by policy once their decision window
+ * expires, spans arriving after their trace was decided, and deciding the
+ * oldest traces early when the buffer overflows.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  TailSamplingProcessor,
+  type TailSamplingPolicy,
+} from '../processors/tail-sampling-processor';
+import type { TelemetryData } from '../types';
+
+const span = (traceId: string, overrides: Record<string, unknown> = {}) => ({
+  traceId,
+  spanId: `${traceId}-${Math.random().toString(16).slice(2, 8)}`,
+  name: 'work',
+  startTime: 1000,
+  endTime: 1100,
+  status: { code: 'ok' },
+  ...overrides,
+});
+
+const traces = (
+  spans: Array<Record<string, unknown>>,
+  attributes: Record<string, string> = {}
+): TelemetryData => ({
+  type: 'traces',
+  timestamp: Date.now(),
+  service: { name: 'swarm' },
+  data: { spans },
+  attributes,
+});
+
+const traceIdsOf = (items: TelemetryData[]) =>
+  items.flatMap((item) => item.data.spans.map((kept: { traceId: string }) => kept.traceId));
+
+describe('TailSamplingProcessor', () => {
+  let released: TelemetryData[];
+  let processor: TailSamplingProcessor;
+
+  const createProcessor = async (config: Record<string, unknown>) => {
+    processor = new TailSamplingProcessor({
+      type: 'tail_sampling',
+      name: 'tail',
+      config: { decisionWait: 1000, ...config },
+    } as never);
+    processor.setReleaseHandler(async (items) => {
+      released.push(...items);
+    });
+    await processor.initialize();
+    return processor;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    released = [];
+  });
+
+  afterEach(async () => {
+    await processor.shutdown();
+    vi.useRealTimers();
+  });
+
+  it('keeps traces matching any policy once the decision window expires', async () => {
+    const policies: TailSamplingPolicy[] = [
+      { name: 'errors', type: 'status_code' },
+      { name: 'slow', type: 'latency', thresholdMs: 500 },
+      { name: 'coordinator', type: 'attribute', key: 'agent.type', values: ['coordinator'] },
+    ];
+    await createProcessor({ policies });
+    const logs: TelemetryData = { ...traces([]), type: 'logs', data: { logs: [] } };
+
+    const passed = await processor.processBatch([
+      traces([span('failed', { status: { code: 'error' } }), span('failed')]),
+      traces([span('slow', { startTime: 0, endTime: 600 })]),
+      traces([span('coordinated')], { 'agent.type': 'coordinator' }),
+      traces([span('healthy')]),
+      traces([span('legacy', { status: 'ERROR' })]),
+      logs,
+    ]);
+
+    expect(passed).toEqual([logs]);
+    expect(released).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(traceIdsOf(released)).toEqual(['failed', 'failed', 'slow', 'coordinated', 'legacy']);
+    expect(released[0]!.data.spans[0].attributes).toEqual({ 'sampling.policy': 'errors' });
+    expect(released[0]!.attributes).toMatchObject({ _sampled: true, _sampledBy: 'tail' });
+    expect(processor.getSamplingStats()).toMatchObject({
+      bufferedTraces: 0,
+      tracesSampled: 4,
+      tracesDropped: 1,
+      policyHits: { errors: 2, slow: 1, coordinator: 1 },
+    });
+  });
+
+  it('decides a trace on all spans that arrived within its window', async () => {
+    await createProcessor({ policies: [{ type: 'status_code' }] });
+
+    await processor.processBatch([traces([span('t1', { name: 'root' })])]);
+    await vi.advanceTimersByTimeAsync(500);
+    await processor.processBatch([traces([span('t1', { status: { code: 'error' } })])]);
+
+    expect(released).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(traceIdsOf(released)).toEqual(['t1', 't1']);
+    expect(processor.getSamplingStats().bufferedSpans).toBe(0);
+  });
+
+  it('forwards late spans of kept traces and drops those of dropped traces', async () => {
+    await createProcessor({ policies: [{ type: 'status_code' }] });
+    await processor.processBatch([
+      traces([span('kept', { status: { code: 'error' } })]),
+      traces([span('dropped')]),
+    ]);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const late = await processor.processBatch([
+      traces([span('kept', { name: 'late' }), span('dropped', { name: 'late' })]),
+    ]);
+
+    expect(traceIdsOf(late)).toEqual(['kept']);
+    expect(processor.getSamplingStats()).toMatchObject({
+      bufferedTraces: 0,
+      lateSpansForwarded: 1,
+      lateSpansDropped: 1,
+    });
+  });
+
+  it('decides the oldest traces early when the buffer is full', async () => {
+    await createProcessor({ maxTraces: 2, policies: [{ type: 'always_sample' }] });
+
+    expect(await processor.processBatch([traces([span('t1')]), traces([span('t2')])])).toEqual([]);
+    const overflow = await processor.processBatch([traces([span('t3')])]);
+
+    expect(traceIdsOf(overflow)).toEqual(['t1']);
+    expect(processor.getSamplingStats()).toMatchObject({ bufferedTraces: 2, earlyDecisions: 1 });
+  });
+
+  it('releases what process() cannot return alongside the item', async () => {
+    await createProcessor({ maxTraces: 1, policies: [{ type: 'always_sample' }] });
+    await processor.process(traces([span('t1')]));
+
+    // Buffering t2 and t3 decides t1 and t2 early, from two items
+    const processed = await processor.process(traces([span('t2'), span('t3')]));
+
+    expect(traceIdsOf([processed!])).toEqual(['t1']);
+    expect(traceIdsOf(released)).toEqual(['t2']);
+    expect(processor.getSamplingStats()).toMatchObject({ bufferedTraces: 1, earlyDecisions: 2 });
+  });
+
+  it('passes through trace items without usable trace ids', async () => {
+    await createProcessor({});
+    const untraced = traces([{ name: 'no trace id' }]);
+
+    expect(await processor.process(untraced)).toBe(untraced);
+  });
+});
@@ -18,6 +18,11 @@ import { getLogger } from '@claude-zen/foundation/logging';
 import { getDefaultConfig } from './config/index.js';
 import { ExporterManager } from './exporters/index.js';
 import { ProcessorManager } from './processors/index.js';
+import {
+  countTelemetryItems,
+  type OTLPPartialSuccess,
+} from './receivers/otlp-protocol.js';
+import { OTLPReceiver } from './receivers/otlp-receiver.js';
 import type {
   CollectorConfig,
   CollectorStats,
@@ -38,6 +43,7 @@ export class InternalOTELCollector {
   private httpServer: Server|null = null;
   private exporterManager: ExporterManager;
   private processorManager: ProcessorManager;
+  private otlpReceiver: OTLPReceiver;
   private stats: CollectorStats;
   private startTime: number;
   private isRunning = false;
@@ -50,6 +56,13 @@ export class InternalOTELCollector {
     // Initialize managers
     this.exporterManager = new ExporterManager(this.config.exporters||[]);
     this.processorManager = new ProcessorManager(this.config.processors||[]);
+    this.processorManager.setReleaseHandler((dataItems) =>
+      this.exportReleased(dataItems)
+    );
+    this.otlpReceiver = new OTLPReceiver(
+      (signal, items) => this.ingestOTLP(signal, items),
+      this.config.receivers?.otlp
+    );
 
     // Initialize stats
     this.stats = {
@@ -78,8 +91,16 @@ export class InternalOTELCollector {
       // Initialize processors
       await this.processorManager.initialize();
 
-      // Start HTTP server for telemetry ingestion
-      await this.startHttpServer();
+      // Start OTLP/gRPC receiver, then the HTTP server for telemetry
+      // ingestion; if either fails, neither is left listening
+      try {
+        await this.otlpReceiver.startGrpc(this.config.grpcPort||4317);
+        await this.startHttpServer();
+      } catch (error) {
+        await this.closeHttpServer();
+        await this.otlpReceiver.stop();
+        throw error;
+      }
 
       // Start periodic tasks
       this.startPeriodicTasks();
@@ -105,19 +126,17 @@ export class InternalOTELCollector {
 
     try {
       // Stop HTTP server
-      if (this.httpServer) {
-        await new Promise<void>((resolve) => {
-          this.httpServer!.close(() => resolve())();
-        });
-        this.httpServer = null;
-      }
+      await this.closeHttpServer();
 
-      // Shutdown exporters (flush remaining data)
-      await this.exporterManager.shutdown();
+      // Stop OTLP/gRPC receiver
+      await this.otlpReceiver.stop();
 
-      // Shutdown processors
+      // Shutdown processors first; buffered data is released to exporters
       await this.processorManager.shutdown();
 
+      // Shutdown exporters (flush remaining data)
+      await this.exporterManager.shutdown();
+
       this.isRunning = false;
       this.logger.info('Internal OTEL Collector stopped');
     } catch (error) {
@@ -141,6 +160,9 @@ export class InternalOTELCollector {
       // Process the data
       const processedData = await this.processorManager.process(data);
 
+      // Filtered out, or held by a processor until it releases it
+      if (processedData === null) return;
+
       // Export to backends
       const exportResults = await this.exporterManager.export(processedData);
 
@@ -272,18 +294,10 @@ export class InternalOTELCollector {
       }
     });
 
-    // Telemetry ingestion endpoints
-    app.post('/v1/traces', async (req, res) => {
-      await this.handleTelemetryIngestion(req, res, 'traces');
-    });
-
-    app.post('/v1/metrics', async (req, res) => {
-      await this.handleTelemetryIngestion(req, res, 'metrics');
-    });
-
-    app.post('/v1/logs', async (req, res) => {
-      await this.handleTelemetryIngestion(req, res, 'logs');
-    });
+    // OTLP/HTTP endpoints; non-OTLP JSON keeps the header-based format
+    this.otlpReceiver.registerHttpRoutes(app, (signal, req, res) =>
+      this.handleTelemetryIngestion(req, res, signal)
+    );
 
     // Generic ingestion endpoint
     app.post('/v1/telemetry', async (req, res) => {
@@ -325,6 +339,67 @@ export class InternalOTELCollector {
     });
   }
 
+  private async closeHttpServer(): Promise<void> {
+    if (!this.httpServer) return;
+
+    const server = this.httpServer;
+    this.httpServer = null;
+    if (!server.listening) return;
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+    });
+  }
+
+  /**
+   * Ingest telemetry received over OTLP, reporting what was rejected
+   */
+  private async ingestOTLP(
+    signal: SignalType,
+    items: TelemetryData[]
+  ): Promise<OTLPPartialSuccess | undefined> {
+    if (this.config.signals?.[signal] === false) {
+      return {
+        rejected: countTelemetryItems(items),
+        errorMessage: `Collector does not accept ${signal}`,
+      };
+    }
+
+    const results = await Promise.allSettled(
+      items.map((item) => this.ingest(item))
+    );
+    const failed = items.filter((_, i) => results[i]!.status === 'rejected');
+    if (failed.length === 0) {
+      return undefined;
+    }
+
+    this.logger.warn(`Some OTLP ${signal} failed to ingest`, {
+      resources: items.length,
+      failed: failed.length,
+    });
+    return {
+      rejected: countTelemetryItems(failed),
+      errorMessage: `${failed.length} of ${items.length} resources failed to process`,
+    };
+  }
+
+  /**
+   * Export data released later by buffering processors (e.g. tail sampling)
+   */
+  private async exportReleased(dataItems: TelemetryData[]): Promise<void> {
+    const exportResults = await this.exporterManager.exportBatch(dataItems);
+
+    for (const result of exportResults) {
+      if (result.success) {
+        for (const data of dataItems) {
+          this.stats.exported[data.type]++;
+        }
+      } else {
+        this.stats.errors[result.backend] =
+          (this.stats.errors[result.backend]||0) + 1;
+      }
+    }
+  }
+
   /**
    * Handle telemetry ingestion for specific signal types
    */
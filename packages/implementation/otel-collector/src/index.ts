@@ -9,6 +9,12 @@
 export { InternalOTELCollector } from './collector.js';
 export { ProcessorManager } from './processors/index.js';
 export { ExporterManager } from './exporters/index.js';
+export { OTLPReceiver } from './receivers/otlp-receiver.js';
+export {
+  decodeOTLPRequest,
+  encodeOTLPResponse,
+  otlpToTelemetryData,
+} from './receivers/otlp-protocol.js';
 export {
   ConfigManager,
   configManager,
@@ -31,6 +37,9 @@ export type {
   // Processor types
   ProcessorConfig,
 
+  // Receiver types
+  OTLPReceiverConfig,
+
   // Health types
   HealthStatus,
 } from './types.js';
@@ -47,6 +56,8 @@ export { BatchProcessor } from './processors/batch-processor.js';
 export { FilterProcessor } from './processors/filter-processor.js';
 export { TransformProcessor } from './processors/transform-processor.js';
 export { SamplerProcessor } from './processors/sampler-processor.js';
+export { TailSamplingProcessor } from './processors/tail-sampling-processor.js';
+export type { TailSamplingPolicy } from './processors/tail-sampling-processor.js';
 
 /**
  * Create and start an OTEL collector with default configuration
@@ -11,6 +11,11 @@ import type { Logger } from '@claude-zen/foundation';
 
 import type { TelemetryData, ProcessorConfig } from '../types.js';
 
+/**
+ * Receives data a processor held back and released later
+ */
+export type ReleaseHandler = (dataItems: TelemetryData[]) => Promise<void>;
+
 /**
  * Base processor interface
  */
@@ -30,6 +35,12 @@ export interface BaseProcessor {
    */
   processBatch(dataItems: TelemetryData[]): Promise<TelemetryData[]>;
 
+  /**
+   * Hand on data released after process() returned, e.g. traces kept once
+   * a tail sampling window closes
+   */
+  setReleaseHandler?(handler: ReleaseHandler): void;
+
   /**
    * Shutdown the processor
    */
@@ -56,6 +67,7 @@ export class ProcessorManager extends TypedEventBase {
   private processedCount = 0;
   private lastProcessedTime = 0;
   private lastError: string|null = null;
+  private releaseHandler: ReleaseHandler|null = null;
 
   constructor() {
     super();
@@ -94,6 +106,9 @@ export class ProcessorManager extends TypedEventBase {
     }
 
     const processor = await this.createProcessor(config);
+    processor.setReleaseHandler?.((dataItems) =>
+      this.forwardReleased(config.name, dataItems)
+    );
     await processor.initialize();
 
     this.processors.set(config.name, processor);
@@ -178,6 +193,14 @@ export class ProcessorManager extends TypedEventBase {
     }
   }
 
+  /**
+   * Set where data released by buffering processors goes after the rest
+   * of the pipeline
+   */
+  setReleaseHandler(handler: ReleaseHandler): void {
+    this.releaseHandler = handler;
+  }
+
   /**
    * Get processor by name
    */
@@ -292,6 +315,37 @@ export class ProcessorManager extends TypedEventBase {
     this.emit('shutdown', { totalProcessed: this.processedCount });
   }
 
+  /**
+   * Run released data through the processors after the one releasing it
+   */
+  private async forwardReleased(
+    from: string,
+    dataItems: TelemetryData[]
+  ): Promise<void> {
+    let processedItems = dataItems;
+    let downstream = false;
+
+    for (const [name, processor] of this.processors) {
+      if (processedItems.length === 0) return;
+      if (downstream) {
+        processedItems = await processor.processBatch(processedItems);
+      }
+      downstream ||= name === from;
+    }
+
+    if (processedItems.length === 0) return;
+
+    if (!this.releaseHandler) {
+      this.logger.warn(
+        `No release handler, dropping ${processedItems.length} items from ${from}`
+      );
+      return;
+    }
+
+    await this.releaseHandler(processedItems);
+    this.emit('dataReleased', { processor: from, count: processedItems.length });
+  }
+
   /**
    * Create processor instance based on config
    */
@@ -315,6 +369,12 @@ export class ProcessorManager extends TypedEventBase {
         const { SamplerProcessor } = await import('./sampler-processor.js');
         return new SamplerProcessor(config);
 
+      case 'tail_sampling':
+        const { TailSamplingProcessor } = await import(
+          './tail-sampling-processor.js'
+        );
+        return new TailSamplingProcessor(config);
+
       default:
         throw new Error(`Unknown processor type: ${config.type}`);
     }
@@ -0,0 +1,506 @@
+/**
+ * @fileoverview Tail Sampling Processor
+ *
+ * Buffers spans by trace id for a decision window, then keeps or drops
+ * whole traces based on policies evaluated over the complete trace:
+ * error status, latency over a threshold, agent/workflow attributes and a
+ * probabilistic remainder. A trace is kept when any policy matches.
+ *
+ * Kept traces leave the processor after the window through the release
+ * handler set by the ProcessorManager. Spans arriving after their trace was
+ * decided follow the remembered decision. Non-trace telemetry passes
+ * through untouched.
+ *
+ * @example
+ * ```typescript
+ * {
+ *   type: 'tail_sampling',
+ *   name: 'swarm-traces',
+ *   config: {
+ *     decisionWait: 10000,
+ *     policies: [
+ *       { name: 'errors', type: 'status_code', statusCodes: ['error'] },
+ *       { name: 'slow', type: 'latency', thresholdMs: 5000 },
+ *       { name: 'coordinator', type: 'attribute', key: 'agent.type', values: ['coordinator'] },
+ *       { name: 'healthy', type: 'probabilistic', probability: 0.1 },
+ *     ],
+ *   },
+ * }
+ * ```
+ */
+
+import { getLogger } from '@claude-zen/foundation/logging';
+import type { Logger } from '@claude-zen/foundation';
+
+import type { BaseProcessor, ReleaseHandler } from './index.js';
+import type { TelemetryData, ProcessorConfig } from '../types.js';
+
+/**
+ * Trace sampling policy; `name` defaults to the policy type
+ */
+export type TailSamplingPolicy =
+  | { name?: string; type: 'status_code'; statusCodes?: string[] }
+  | { name?: string; type: 'latency'; thresholdMs: number }
+  | { name?: string; type: 'attribute'; key: string; values?: unknown[] }
+  | { name?: string; type: 'probabilistic'; probability: number }
+  | { name?: string; type: 'always_sample' };
+
+/**
+ * A span as sent by any exporter; only the trace id is known up front,
+ * everything else is checked where it is read
+ */
+interface Span {
+  traceId: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Spans of one trace, with the item (service/resource) each came in on
+ */
+interface BufferedTrace {
+  traceId: string;
+  firstSeen: number;
+  spans: Array<{ envelope: TelemetryData; span: Span }>;
+}
+
+interface TraceDecision {
+  sampled: boolean;
+  policy?: string;
+}
+
+const DEFAULT_POLICIES: TailSamplingPolicy[] = [
+  { name: 'errors', type: 'status_code', statusCodes: ['error'] },
+  { name: 'probabilistic', type: 'probabilistic', probability: 0.1 },
+];
+
+/**
+ * Tail sampling processor implementation
+ */
+export class TailSamplingProcessor implements BaseProcessor {
+  private config: ProcessorConfig;
+  private logger: Logger;
+  private policies: TailSamplingPolicy[];
+  private traces: Map<string, BufferedTrace> = new Map();
+  private decisions: Map<string, TraceDecision> = new Map();
+  private bufferedSpans = 0;
+  private releaseHandler: ReleaseHandler | null = null;
+  private decisionTimer: NodeJS.Timeout|null = null;
+  private isShuttingDown = false;
+  private lastProcessedTime = 0;
+  private lastError: string|null = null;
+
+  private stats = {
+    tracesSampled: 0,
+    tracesDropped: 0,
+    earlyDecisions: 0,
+    lateSpansForwarded: 0,
+    lateSpansDropped: 0,
+    policyHits: {} as Record<string, number>,
+  };
+
+  // Configuration
+  private readonly decisionWait: number;
+  private readonly maxTraces: number;
+  private readonly maxBufferedSpans: number;
+  private readonly decisionCacheSize: number;
+  private readonly flushOnShutdown: boolean;
+
+  constructor(config: ProcessorConfig) {
+    this.config = config;
+    this.logger = getLogger(`TailSamplingProcessor:${config.name}`);
+
+    this.policies = config.config?.policies||DEFAULT_POLICIES;
+    this.decisionWait = config.config?.decisionWait||10000; // 10 seconds
+    this.maxTraces = config.config?.maxTraces||10000;
+    this.maxBufferedSpans = config.config?.maxBufferedSpans||100000;
+    this.decisionCacheSize = config.config?.decisionCacheSize||50000;
+    this.flushOnShutdown = config.config?.flushOnShutdown !== false;
+  }
+
+  async initialize(): Promise<void> {
+    this.decisionTimer = setInterval(
+      () => this.decideExpiredTraces(),
+      Math.min(1000, this.decisionWait)
+    );
+
+    this.logger.info('Tail sampling processor initialized', {
+      decisionWait: this.decisionWait,
+      maxTraces: this.maxTraces,
+      maxBufferedSpans: this.maxBufferedSpans,
+      policies: this.policies.map(policyName),
+    });
+  }
+
+  setReleaseHandler(handler: ReleaseHandler): void {
+    this.releaseHandler = handler;
+  }
+
+  async process(data: TelemetryData): Promise<TelemetryData|null> {
+    // Late spans and traces decided early can come out alongside the item;
+    // all but the first leave through the release handler
+    const [processed, ...released] = await this.processBatch([data]);
+    await this.release(released);
+    return processed ?? null;
+  }
+
+  async processBatch(dataItems: TelemetryData[]): Promise<TelemetryData[]> {
+    if (this.isShuttingDown) {
+      return dataItems;
+    }
+
+    try {
+      const passThrough: TelemetryData[] = [];
+      const lateSpans: Array<{ envelope: TelemetryData; span: Span }> = [];
+
+      for (const item of dataItems) {
+        const spans = spansOf(item);
+        if (!spans) {
+          passThrough.push(item);
+          continue;
+        }
+
+        for (const span of spans) {
+          const decision = this.decisions.get(span.traceId);
+          if (decision) {
+            // The trace was already decided; the span follows it
+            if (decision.sampled) {
+              lateSpans.push({ envelope: item, span });
+              this.stats.lateSpansForwarded++;
+            } else {
+              this.stats.lateSpansDropped++;
+            }
+          } else {
+            this.bufferSpan(item, span);
+          }
+        }
+      }
+
+      const overflow = this.decideOverflow();
+
+      this.lastProcessedTime = Date.now();
+      this.lastError = null;
+
+      return [
+        ...passThrough,
+        ...toTelemetryItems(lateSpans, this.config.name),
+        ...overflow,
+      ];
+    } catch (error) {
+      const errorMessage = String(error);
+      this.lastError = errorMessage;
+      this.logger.error('Tail sampling failed', error);
+
+      // Return original data on error
+      return dataItems;
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    this.isShuttingDown = true;
+
+    if (this.decisionTimer) {
+      clearInterval(this.decisionTimer);
+      this.decisionTimer = null;
+    }
+
+    if (this.flushOnShutdown && this.traces.size > 0) {
+      this.logger.info(`Deciding ${this.traces.size} buffered traces before shutdown`);
+      await this.release(this.decideTraces(Array.from(this.traces.keys())));
+    }
+
+    this.logger.info('Tail sampling processor shut down', this.getSamplingStats());
+  }
+
+  async getHealthStatus(): Promise<{
+    status: 'healthy|degraded|unhealthy';
+    lastProcessed?: number;
+    lastError?: string;
+  }> {
+    let status: 'healthy|degraded|unhealthy' = 'healthy';
+
+    if (this.lastError) {
+      status = 'unhealthy';
+    } else if (
+      this.traces.size > this.maxTraces * 0.9 ||
+      this.bufferedSpans > this.maxBufferedSpans * 0.9
+    ) {
+      // Close to deciding traces before their window closes
+      status = 'degraded';
+    }
+
+    return {
+      status,
+      lastProcessed: this.lastProcessedTime||undefined,
+      lastError: this.lastError||undefined,
+    };
+  }
+
+  /**
+   * Get tail sampling statistics
+   */
+  getSamplingStats(): {
+    bufferedTraces: number;
+    bufferedSpans: number;
+    tracesSampled: number;
+    tracesDropped: number;
+    earlyDecisions: number;
+    lateSpansForwarded: number;
+    lateSpansDropped: number;
+    policyHits: Record<string, number>;
+  } {
+    return {
+      bufferedTraces: this.traces.size,
+      bufferedSpans: this.bufferedSpans,
+      ...this.stats,
+      policyHits: { ...this.stats.policyHits },
+    };
+  }
+
+  private bufferSpan(envelope: TelemetryData, span: Span): void {
+    let trace = this.traces.get(span.traceId);
+    if (!trace) {
+      trace = { traceId: span.traceId, firstSeen: Date.now(), spans: [] };
+      this.traces.set(span.traceId, trace);
+    }
+    trace.spans.push({ envelope, span });
+    this.bufferedSpans++;
+  }
+
+  /**
+   * Decide the oldest traces early while the buffer is over its limits
+   */
+  private decideOverflow(): TelemetryData[] {
+    const early: string[] = [];
+    let traces = this.traces.size;
+    let spans = this.bufferedSpans;
+
+    // Maps iterate in insertion order, so the oldest traces go first
+    for (const trace of this.traces.values()) {
+      if (traces <= this.maxTraces && spans <= this.maxBufferedSpans) break;
+      early.push(trace.traceId);
+      traces--;
+      spans -= trace.spans.length;
+    }
+
+    if (early.length === 0) return [];
+
+    this.stats.earlyDecisions += early.length;
+    this.logger.warn(`Buffer full, deciding ${early.length} traces early`, {
+      maxTraces: this.maxTraces,
+      maxBufferedSpans: this.maxBufferedSpans,
+    });
+    return this.decideTraces(early);
+  }
+
+  private decideExpiredTraces(): void {
+    const cutoff = Date.now() - this.decisionWait;
+    const expired: string[] = [];
+
+    for (const trace of this.traces.values()) {
+      if (trace.firstSeen > cutoff) break;
+      expired.push(trace.traceId);
+    }
+
+    if (expired.length > 0) {
+      void this.release(this.decideTraces(expired));
+    }
+  }
+
+  /**
+   * Decide the given traces and return the spans of those kept
+   */
+  private decideTraces(traceIds: string[]): TelemetryData[] {
+    const kept: Array<{ envelope: TelemetryData; span: Span }> = [];
+
+    for (const traceId of traceIds) {
+      const trace = this.traces.get(traceId);
+      if (!trace) continue;
+
+      this.traces.delete(traceId);
+      this.bufferedSpans -= trace.spans.length;
+
+      const decision = this.evaluate(trace);
+      this.rememberDecision(traceId, decision);
+
+      if (decision.sampled) {
+        this.stats.tracesSampled++;
+        this.stats.policyHits[decision.policy!] =
+          (this.stats.policyHits[decision.policy!]||0) + 1;
+        kept.push(
+          ...trace.spans.map((entry) => ({
+            ...entry,
+            span: {
+              ...entry.span,
+              attributes: {
+                ...asRecord(entry.span.attributes),
+                'sampling.policy': decision.policy,
+              },
+            },
+          }))
+        );
+      } else {
+        this.stats.tracesDropped++;
+      }
+    }
+
+    return toTelemetryItems(kept, this.config.name);
+  }
+
+  private evaluate(trace: BufferedTrace): TraceDecision {
+    for (const policy of this.policies) {
+      if (this.matches(policy, trace)) {
+        return { sampled: true, policy: policyName(policy) };
+      }
+    }
+    return { sampled: false };
+  }
+
+  private matches(policy: TailSamplingPolicy, trace: BufferedTrace): boolean {
+    switch (policy.type) {
+      case 'status_code': {
+        const codes = (policy.statusCodes||['error']).map((code) => code.toLowerCase());
+        return trace.spans.some(({ span }) => codes.includes(statusCode(span)));
+      }
+
+      case 'latency':
+        return traceDuration(trace) >= policy.thresholdMs;
+
+      case 'attribute':
+        return trace.spans.some(({ envelope, span }) => {
+          const value =
+            asRecord(span.attributes)?.[policy.key] ?? envelope.attributes?.[policy.key];
+          if (value === undefined) return false;
+          return !policy.values || policy.values.includes(value);
+        });
+
+      case 'probabilistic':
+        // Hashing the trace id keeps the decision consistent across collectors
+        return traceIdRatio(trace.traceId) < policy.probability;
+
+      case 'always_sample':
+        return true;
+
+      default:
+        this.logger.warn(`Unknown tail sampling policy: ${policyName(policy)}`);
+        return false;
+    }
+  }
+
+  private rememberDecision(traceId: string, decision: TraceDecision): void {
+    this.decisions.set(traceId, decision);
+    // Oldest decisions go first; later spans of those traces are buffered anew
+    for (const oldest of this.decisions.keys()) {
+      if (this.decisions.size <= this.decisionCacheSize) break;
+      this.decisions.delete(oldest);
+    }
+  }
+
+  private async release(items: TelemetryData[]): Promise<void> {
+    if (items.length === 0) return;
+
+    if (!this.releaseHandler) {
+      this.logger.warn(`No release handler, dropping ${items.length} sampled items`);
+      return;
+    }
+
+    try {
+      await this.releaseHandler(items);
+    } catch (error) {
+      this.lastError = String(error);
+      this.logger.error('Failed to release sampled traces', error);
+    }
+  }
+}
+
+/**
+ * Spans of a trace item, or undefined if it cannot be sampled by trace
+ */
+function spansOf(item: TelemetryData): Span[]|undefined {
+  if (item.type !== 'traces' || !item.data || typeof item.data !== 'object') {
+    return undefined;
+  }
+
+  const spans: unknown[] = Array.isArray(item.data)
+    ? item.data
+    : Array.isArray(item.data.spans)
+      ? item.data.spans
+      : [item.data];
+
+  return spans.length > 0 && spans.every(isSpan) ? spans : undefined;
+}
+
+function isSpan(value: unknown): value is Span {
+  const traceId = asRecord(value)?.traceId;
+  return typeof traceId === 'string' && traceId.length > 0;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return typeof value === 'object' && value !== null
+    ? (value as Record<string, unknown>)
+    : undefined;
+}
+
+/**
+ * Regroup spans into one item per original envelope
+ */
+function toTelemetryItems(
+  entries: Array<{ envelope: TelemetryData; span: Span }>,
+  sampledBy: string
+): TelemetryData[] {
+  const byEnvelope = new Map<TelemetryData, Span[]>();
+  for (const { envelope, span } of entries) {
+    const spans = byEnvelope.get(envelope);
+    if (spans) {
+      spans.push(span);
+    } else {
+      byEnvelope.set(envelope, [span]);
+    }
+  }
+
+  return Array.from(byEnvelope, ([envelope, spans]) => ({
+    ...envelope,
+    data: { spans },
+    attributes: {
+      ...envelope.attributes,
+      _sampled: true,
+      _sampledBy: sampledBy,
+    },
+  }));
+}
+
+function policyName(policy: TailSamplingPolicy): string {
+  return policy.name||policy.type;
+}
+
+// OTLP spans carry `{ code: 'error' }`, in-house senders a bare 'ERROR'
+function statusCode(span: Span): string {
+  const status = asRecord(span.status);
+  const code = status ? status.code : span.status;
+  return String(code ?? 'unset').toLowerCase();
+}
+
+function traceDuration(trace: BufferedTrace): number {
+  let start = Infinity;
+  let end = -Infinity;
+
+  for (const { span } of trace.spans) {
+    const spanStart = Number(span.startTime);
+    const spanEnd = Number(span.endTime ?? spanStart + Number(span.duration ?? 0));
+    if (Number.isFinite(spanStart)) start = Math.min(start, spanStart);
+    if (Number.isFinite(spanEnd)) end = Math.max(end, spanEnd);
+  }
+
+  return end > start ? end - start : 0;
+}
+
+/**
+ * Map a trace id to [0, 1); FNV-1a so non-hex ids work too
+ */
+function traceIdRatio(traceId: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < traceId.length; i++) {
+    hash ^= traceId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
@@ -0,0 +1,779 @@
+/**
+ * @fileoverview OTLP Protocol Support
+ *
+ * Decodes OTLP export requests (protobuf or JSON encoding) and converts them
+ * into the collector's internal `TelemetryData` items: one item per resource,
+ * with spans, metric data points and log records flattened into the shapes
+ * the processors and exporters already understand.
+ *
+ * The protobuf schema below covers the fields of opentelemetry-proto v1 the
+ * collector reads; unknown fields are skipped on decode, so newer senders
+ * remain compatible.
+ */
+
+import protobuf from 'protobufjs';
+
+import type { Attributes } from '@opentelemetry/api';
+
+import type { SignalType, TelemetryData } from '../types.js';
+
+const repeated = (type: string, id: number) => ({ rule: 'repeated', type, id });
+
+const OTLP_SCHEMA = {
+  nested: {
+    otlp: {
+      nested: {
+        AnyValue: {
+          oneofs: {
+            value: {
+              oneof: [
+                'stringValue',
+                'boolValue',
+                'intValue',
+                'doubleValue',
+                'arrayValue',
+                'kvlistValue',
+                'bytesValue',
+              ],
+            },
+          },
+          fields: {
+            stringValue: { type: 'string', id: 1 },
+            boolValue: { type: 'bool', id: 2 },
+            intValue: { type: 'int64', id: 3 },
+            doubleValue: { type: 'double', id: 4 },
+            arrayValue: { type: 'ArrayValue', id: 5 },
+            kvlistValue: { type: 'KeyValueList', id: 6 },
+            bytesValue: { type: 'bytes', id: 7 },
+          },
+        },
+        ArrayValue: { fields: { values: repeated('AnyValue', 1) } },
+        KeyValueList: { fields: { values: repeated('KeyValue', 1) } },
+        KeyValue: {
+          fields: {
+            key: { type: 'string', id: 1 },
+            value: { type: 'AnyValue', id: 2 },
+          },
+        },
+        InstrumentationScope: {
+          fields: {
+            name: { type: 'string', id: 1 },
+            version: { type: 'string', id: 2 },
+            attributes: repeated('KeyValue', 3),
+          },
+        },
+        Resource: { fields: { attributes: repeated('KeyValue', 1) } },
+
+        // Traces
+        ResourceSpans: {
+          fields: {
+            resource: { type: 'Resource', id: 1 },
+            scopeSpans: repeated('ScopeSpans', 2),
+            schemaUrl: { type: 'string', id: 3 },
+          },
+        },
+        ScopeSpans: {
+          fields: {
+            scope: { type: 'InstrumentationScope', id: 1 },
+            spans: repeated('Span', 2),
+          },
+        },
+        Span: {
+          fields: {
+            traceId: { type: 'bytes', id: 1 },
+            spanId: { type: 'bytes', id: 2 },
+            traceState: { type: 'string', id: 3 },
+            parentSpanId: { type: 'bytes', id: 4 },
+            name: { type: 'string', id: 5 },
+            kind: { type: 'int32', id: 6 },
+            startTimeUnixNano: { type: 'fixed64', id: 7 },
+            endTimeUnixNano: { type: 'fixed64', id: 8 },
+            attributes: repeated('KeyValue', 9),
+            events: repeated('SpanEvent', 11),
+            links: repeated('SpanLink', 13),
+            status: { type: 'Status', id: 15 },
+          },
+        },
+        SpanEvent: {
+          fields: {
+            timeUnixNano: { type: 'fixed64', id: 1 },
+            name: { type: 'string', id: 2 },
+            attributes: repeated('KeyValue', 3),
+          },
+        },
+        SpanLink: {
+          fields: {
+            traceId: { type: 'bytes', id: 1 },
+            spanId: { type: 'bytes', id: 2 },
+            attributes: repeated('KeyValue', 4),
+          },
+        },
+        Status: {
+          fields: {
+            message: { type: 'string', id: 2 },
+            code: { type: 'int32', id: 3 },
+          },
+        },
+
+        // Metrics
+        ResourceMetrics: {
+          fields: {
+            resource: { type: 'Resource', id: 1 },
+            scopeMetrics: repeated('ScopeMetrics', 2),
+            schemaUrl: { type: 'string', id: 3 },
+          },
+        },
+        ScopeMetrics: {
+          fields: {
+            scope: { type: 'InstrumentationScope', id: 1 },
+            metrics: repeated('Metric', 2),
+          },
+        },
+        Metric: {
+          oneofs: {
+            data: {
+              oneof: ['gauge', 'sum', 'histogram', 'exponentialHistogram', 'summary'],
+            },
+          },
+          fields: {
+            name: { type: 'string', id: 1 },
+            description: { type: 'string', id: 2 },
+            unit: { type: 'string', id: 3 },
+            gauge: { type: 'Gauge', id: 5 },
+            sum: { type: 'Sum', id: 7 },
+            histogram: { type: 'Histogram', id: 9 },
+            exponentialHistogram: { type: 'ExponentialHistogram', id: 10 },
+            summary: { type: 'Summary', id: 11 },
+          },
+        },
+        Gauge: { fields: { dataPoints: repeated('NumberDataPoint', 1) } },
+        Sum: {
+          fields: {
+            dataPoints: repeated('NumberDataPoint', 1),
+            aggregationTemporality: { type: 'int32', id: 2 },
+            isMonotonic: { type: 'bool', id: 3 },
+          },
+        },
+        Histogram: {
+          fields: {
+            dataPoints: repeated('HistogramDataPoint', 1),
+            aggregationTemporality: { type: 'int32', id: 2 },
+          },
+        },
+        ExponentialHistogram: {
+          fields: {
+            dataPoints: repeated('ExponentialHistogramDataPoint', 1),
+            aggregationTemporality: { type: 'int32', id: 2 },
+          },
+        },
+        Summary: { fields: { dataPoints: repeated('SummaryDataPoint', 1) } },
+        NumberDataPoint: {
+          oneofs: { value: { oneof: ['asDouble', 'asInt'] } },
+          fields: {
+            startTimeUnixNano: { type: 'fixed64', id: 2 },
+            timeUnixNano: { type: 'fixed64', id: 3 },
+            asDouble: { type: 'double', id: 4 },
+            asInt: { type: 'sfixed64', id: 6 },
+            attributes: repeated('KeyValue', 7),
+          },
+        },
+        HistogramDataPoint: {
+          fields: {
+            startTimeUnixNano: { type: 'fixed64', id: 2 },
+            timeUnixNano: { type: 'fixed64', id: 3 },
+            count: { type: 'fixed64', id: 4 },
+            sum: { type: 'double', id: 5 },
+            bucketCounts: repeated('fixed64', 6),
+            explicitBounds: repeated('double', 7),
+            attributes: repeated('KeyValue', 9),
+            min: { type: 'double', id: 11 },
+            max: { type: 'double', id: 12 },
+          },
+        },
+        ExponentialHistogramDataPoint: {
+          fields: {
+            attributes: repeated('KeyValue', 1),
+            startTimeUnixNano: { type: 'fixed64', id: 2 },
+            timeUnixNano: { type: 'fixed64', id: 3 },
+            count: { type: 'fixed64', id: 4 },
+            sum: { type: 'double', id: 5 },
+            min: { type: 'double', id: 12 },
+            max: { type: 'double', id: 13 },
+          },
+        },
+        SummaryDataPoint: {
+          fields: {
+            startTimeUnixNano: { type: 'fixed64', id: 2 },
+            timeUnixNano: { type: 'fixed64', id: 3 },
+            count: { type: 'fixed64', id: 4 },
+            sum: { type: 'double', id: 5 },
+            quantileValues: repeated('ValueAtQuantile', 6),
+            attributes: repeated('KeyValue', 7),
+          },
+        },
+        ValueAtQuantile: {
+          fields: {
+            quantile: { type: 'double', id: 1 },
+            value: { type: 'double', id: 2 },
+          },
+        },
+
+        // Logs
+        ResourceLogs: {
+          fields: {
+            resource: { type: 'Resource', id: 1 },
+            scopeLogs: repeated('ScopeLogs', 2),
+            schemaUrl: { type: 'string', id: 3 },
+          },
+        },
+        ScopeLogs: {
+          fields: {
+            scope: { type: 'InstrumentationScope', id: 1 },
+            logRecords: repeated('LogRecord', 2),
+          },
+        },
+        LogRecord: {
+          fields: {
+            timeUnixNano: { type: 'fixed64', id: 1 },
+            severityNumber: { type: 'int32', id: 2 },
+            severityText: { type: 'string', id: 3 },
+            body: { type: 'AnyValue', id: 5 },
+            attributes: repeated('KeyValue', 6),
+            traceId: { type: 'bytes', id: 9 },
+            spanId: { type: 'bytes', id: 10 },
+            observedTimeUnixNano: { type: 'fixed64', id: 11 },
+            eventName: { type: 'string', id: 12 },
+          },
+        },
+
+        // Collector service messages
+        ExportTraceServiceRequest: {
+          fields: { resourceSpans: repeated('ResourceSpans', 1) },
+        },
+        ExportMetricsServiceRequest: {
+          fields: { resourceMetrics: repeated('ResourceMetrics', 1) },
+        },
+        ExportLogsServiceRequest: {
+          fields: { resourceLogs: repeated('ResourceLogs', 1) },
+        },
+        ExportTraceServiceResponse: {
+          fields: { partialSuccess: { type: 'TracePartialSuccess', id: 1 } },
+        },
+        ExportMetricsServiceResponse: {
+          fields: { partialSuccess: { type: 'MetricsPartialSuccess', id: 1 } },
+        },
+        ExportLogsServiceResponse: {
+          fields: { partialSuccess: { type: 'LogsPartialSuccess', id: 1 } },
+        },
+        TracePartialSuccess: {
+          fields: {
+            rejectedSpans: { type: 'int64', id: 1 },
+            errorMessage: { type: 'string', id: 2 },
+          },
+        },
+        MetricsPartialSuccess: {
+          fields: {
+            rejectedDataPoints: { type: 'int64', id: 1 },
+            errorMessage: { type: 'string', id: 2 },
+          },
+        },
+        LogsPartialSuccess: {
+          fields: {
+            rejectedLogRecords: { type: 'int64', id: 1 },
+            errorMessage: { type: 'string', id: 2 },
+          },
+        },
+      },
+    },
+  },
+};
+
+const root = protobuf.Root.fromJSON(OTLP_SCHEMA);
+
+const MESSAGES: Record<
+  SignalType,
+  {
+    request: protobuf.Type;
+    response: protobuf.Type;
+    resourceField: keyof OTLPExportRequest;
+  }
+> = {
+  traces: {
+    request: root.lookupType('otlp.ExportTraceServiceRequest'),
+    response: root.lookupType('otlp.ExportTraceServiceResponse'),
+    resourceField: 'resourceSpans',
+  },
+  metrics: {
+    request: root.lookupType('otlp.ExportMetricsServiceRequest'),
+    response: root.lookupType('otlp.ExportMetricsServiceResponse'),
+    resourceField: 'resourceMetrics',
+  },
+  logs: {
+    request: root.lookupType('otlp.ExportLogsServiceRequest'),
+    response: root.lookupType('otlp.ExportLogsServiceResponse'),
+    resourceField: 'resourceLogs',
+  },
+};
+
+/** gRPC service paths of the OTLP collector services */
+export const OTLP_GRPC_SERVICES: Record<SignalType, string> = {
+  traces: '/opentelemetry.proto.collector.trace.v1.TraceService/Export',
+  metrics: '/opentelemetry.proto.collector.metrics.v1.MetricsService/Export',
+  logs: '/opentelemetry.proto.collector.logs.v1.LogsService/Export',
+};
+
+/** Standard OTLP/HTTP paths */
+export const OTLP_HTTP_PATHS: Record<SignalType, string> = {
+  traces: '/v1/traces',
+  metrics: '/v1/metrics',
+  logs: '/v1/logs',
+};
+
+const SPAN_KINDS = ['unspecified', 'internal', 'server', 'client', 'producer', 'consumer'];
+const STATUS_CODES = ['unset', 'ok', 'error'];
+
+// Decoded protobuf messages and OTLP/JSON bodies share one field layout.
+// 64-bit integers arrive as strings (protobuf, JSON) or numbers (JSON);
+// ids and bytes as raw bytes (protobuf) or hex/base64 strings (JSON).
+type OTLPLong = string | number;
+type OTLPBytes = string | Uint8Array;
+
+export interface OTLPAnyValue {
+  stringValue?: string;
+  boolValue?: boolean;
+  intValue?: OTLPLong;
+  doubleValue?: number;
+  arrayValue?: { values?: OTLPAnyValue[] };
+  kvlistValue?: { values?: OTLPKeyValue[] };
+  bytesValue?: OTLPBytes;
+}
+
+export interface OTLPKeyValue {
+  key?: string;
+  value?: OTLPAnyValue;
+}
+
+export interface OTLPInstrumentationScope {
+  name?: string;
+  version?: string;
+  attributes?: OTLPKeyValue[];
+}
+
+export interface OTLPResource {
+  attributes?: OTLPKeyValue[];
+}
+
+export interface OTLPSpan {
+  traceId?: OTLPBytes;
+  spanId?: OTLPBytes;
+  traceState?: string;
+  parentSpanId?: OTLPBytes;
+  name?: string;
+  kind?: number;
+  startTimeUnixNano?: OTLPLong;
+  endTimeUnixNano?: OTLPLong;
+  attributes?: OTLPKeyValue[];
+  events?: Array<{
+    timeUnixNano?: OTLPLong;
+    name?: string;
+    attributes?: OTLPKeyValue[];
+  }>;
+  links?: Array<{
+    traceId?: OTLPBytes;
+    spanId?: OTLPBytes;
+    attributes?: OTLPKeyValue[];
+  }>;
+  status?: { message?: string; code?: number };
+}
+
+interface OTLPDataPoint {
+  attributes?: OTLPKeyValue[];
+  startTimeUnixNano?: OTLPLong;
+  timeUnixNano?: OTLPLong;
+}
+
+export interface OTLPNumberDataPoint extends OTLPDataPoint {
+  asDouble?: number;
+  asInt?: OTLPLong;
+}
+
+export interface OTLPHistogramDataPoint extends OTLPDataPoint {
+  count?: OTLPLong;
+  sum?: number;
+  min?: number;
+  max?: number;
+  /** Only set on explicit-bucket histograms */
+  bucketCounts?: OTLPLong[];
+  explicitBounds?: number[];
+}
+
+export interface OTLPSummaryDataPoint extends OTLPDataPoint {
+  count?: OTLPLong;
+  sum?: number;
+  quantileValues?: Array<{ quantile?: number; value?: number }>;
+}
+
+export interface OTLPMetric {
+  name?: string;
+  description?: string;
+  unit?: string;
+  gauge?: { dataPoints?: OTLPNumberDataPoint[] };
+  sum?: {
+    dataPoints?: OTLPNumberDataPoint[];
+    aggregationTemporality?: number;
+    isMonotonic?: boolean;
+  };
+  histogram?: {
+    dataPoints?: OTLPHistogramDataPoint[];
+    aggregationTemporality?: number;
+  };
+  exponentialHistogram?: {
+    dataPoints?: OTLPHistogramDataPoint[];
+    aggregationTemporality?: number;
+  };
+  summary?: { dataPoints?: OTLPSummaryDataPoint[] };
+}
+
+export interface OTLPLogRecord {
+  timeUnixNano?: OTLPLong;
+  observedTimeUnixNano?: OTLPLong;
+  severityNumber?: number;
+  severityText?: string;
+  body?: OTLPAnyValue;
+  attributes?: OTLPKeyValue[];
+  traceId?: OTLPBytes;
+  spanId?: OTLPBytes;
+  eventName?: string;
+}
+
+export interface OTLPResourceSpans {
+  resource?: OTLPResource;
+  scopeSpans?: Array<{ scope?: OTLPInstrumentationScope; spans?: OTLPSpan[] }>;
+  schemaUrl?: string;
+}
+
+export interface OTLPResourceMetrics {
+  resource?: OTLPResource;
+  scopeMetrics?: Array<{ scope?: OTLPInstrumentationScope; metrics?: OTLPMetric[] }>;
+  schemaUrl?: string;
+}
+
+export interface OTLPResourceLogs {
+  resource?: OTLPResource;
+  scopeLogs?: Array<{ scope?: OTLPInstrumentationScope; logRecords?: OTLPLogRecord[] }>;
+  schemaUrl?: string;
+}
+
+/**
+ * OTLP export request of any signal, as decoded from protobuf or parsed
+ * from OTLP/JSON
+ */
+export interface OTLPExportRequest {
+  resourceSpans?: OTLPResourceSpans[];
+  resourceMetrics?: OTLPResourceMetrics[];
+  resourceLogs?: OTLPResourceLogs[];
+}
+
+export interface OTLPPartialSuccess {
+  rejected: number;
+  errorMessage?: string;
+}
+
+/**
+ * Decode a protobuf-encoded export request
+ */
+export function decodeOTLPRequest(
+  signal: SignalType,
+  payload: Uint8Array
+): OTLPExportRequest {
+  const type = MESSAGES[signal].request;
+  return type.toObject(type.decode(payload), {
+    longs: String,
+    enums: Number,
+    arrays: true,
+  });
+}
+
+/**
+ * Encode an export response; a partial success is included only when
+ * something was rejected.
+ */
+export function encodeOTLPResponse(
+  signal: SignalType,
+  partialSuccess?: OTLPPartialSuccess
+): Uint8Array {
+  const type = MESSAGES[signal].response;
+  return type.encode(type.fromObject(toResponseObject(signal, partialSuccess))).finish();
+}
+
+/**
+ * Export response in OTLP/JSON form
+ */
+export function toResponseObject(
+  signal: SignalType,
+  partialSuccess?: OTLPPartialSuccess
+): Record<string, unknown> {
+  if (!partialSuccess || partialSuccess.rejected === 0) {
+    return {};
+  }
+
+  const rejectedField = {
+    traces: 'rejectedSpans',
+    metrics: 'rejectedDataPoints',
+    logs: 'rejectedLogRecords',
+  }[signal];
+  return {
+    partialSuccess: {
+      [rejectedField]: partialSuccess.rejected,
+      errorMessage: partialSuccess.errorMessage ?? '',
+    },
+  };
+}
+
+export function isOTLPRequest(signal: SignalType, body: unknown): body is OTLPExportRequest {
+  return (
+    !!body &&
+    typeof body === 'object' &&
+    Array.isArray((body as Record<string, unknown>)[MESSAGES[signal].resourceField])
+  );
+}
+
+/**
+ * Convert an export request into one `TelemetryData` item per resource
+ */
+export function otlpToTelemetryData(
+  signal: SignalType,
+  request: OTLPExportRequest
+): TelemetryData[] {
+  const now = Date.now();
+  const toItem = (resource: OTLPResource | undefined, data: unknown): TelemetryData => {
+    const resourceAttributes = toAttributes(resource?.attributes);
+    return {
+      type: signal,
+      timestamp: now,
+      service: {
+        name: String(resourceAttributes['service.name'] ?? 'unknown'),
+        version: optionalString(resourceAttributes['service.version']),
+        instance: optionalString(resourceAttributes['service.instance.id']),
+      },
+      data,
+      // Nested kvlist values are kept as objects
+      attributes: resourceAttributes as Attributes,
+    };
+  };
+
+  switch (signal) {
+    case 'traces':
+      return (request.resourceSpans ?? []).map((resource) =>
+        toItem(resource.resource, {
+          spans: (resource.scopeSpans ?? []).flatMap((scope) =>
+            (scope.spans ?? []).map((span) => toSpan(span, scope.scope))
+          ),
+        })
+      );
+    case 'metrics':
+      return (request.resourceMetrics ?? []).map((resource) =>
+        toItem(resource.resource, {
+          metrics: (resource.scopeMetrics ?? []).flatMap((scope) =>
+            (scope.metrics ?? []).flatMap((metric) => toMetricPoints(metric, scope.scope))
+          ),
+        })
+      );
+    case 'logs':
+      return (request.resourceLogs ?? []).map((resource) =>
+        toItem(resource.resource, {
+          logs: (resource.scopeLogs ?? []).flatMap((scope) =>
+            (scope.logRecords ?? []).map((log) => toLogRecord(log, scope.scope))
+          ),
+        })
+      );
+  }
+}
+
+/**
+ * Number of spans, metric data points or log records in converted items
+ */
+export function countTelemetryItems(items: TelemetryData[]): number {
+  return items.reduce(
+    (total, item) =>
+      total +
+      (item.data.spans?.length ?? item.data.metrics?.length ?? item.data.logs?.length ?? 0),
+    0
+  );
+}
+
+function toSpan(span: OTLPSpan, scope?: OTLPInstrumentationScope): Record<string, unknown> {
+  const startTime = nanosToMillis(span.startTimeUnixNano);
+  const endTime = nanosToMillis(span.endTimeUnixNano);
+
+  return {
+    traceId: toHexId(span.traceId),
+    spanId: toHexId(span.spanId),
+    parentSpanId: toHexId(span.parentSpanId) || undefined,
+    traceState: span.traceState || undefined,
+    name: span.name ?? '',
+    kind: SPAN_KINDS[Number(span.kind ?? 0)] ?? 'unspecified',
+    startTime,
+    endTime,
+    duration: endTime - startTime,
+    attributes: toAttributes(span.attributes),
+    events: (span.events ?? []).map((event) => ({
+      name: event.name ?? '',
+      timestamp: nanosToMillis(event.timeUnixNano),
+      attributes: toAttributes(event.attributes),
+    })),
+    links: (span.links ?? []).map((link) => ({
+      traceId: toHexId(link.traceId),
+      spanId: toHexId(link.spanId),
+      attributes: toAttributes(link.attributes),
+    })),
+    status: {
+      code: STATUS_CODES[Number(span.status?.code ?? 0)] ?? 'unset',
+      message: span.status?.message || undefined,
+    },
+    scope: toScope(scope),
+  };
+}
+
+// One entry per data point, in the flat name/value/attributes layout the
+// Prometheus and console exporters read
+function toMetricPoints(
+  metric: OTLPMetric,
+  scope?: OTLPInstrumentationScope
+): Record<string, unknown>[] {
+  const base = {
+    name: metric.name ?? '',
+    description: metric.description || undefined,
+    unit: metric.unit || undefined,
+    scope: toScope(scope),
+  };
+
+  const numbers = metric.gauge ?? metric.sum;
+  if (numbers) {
+    const isCounter = !!metric.sum?.isMonotonic;
+    return (numbers.dataPoints ?? []).map((point) => ({
+      ...base,
+      type: isCounter ? 'counter' : 'gauge',
+      value:
+        point.asDouble !== undefined ? Number(point.asDouble) : Number(point.asInt ?? 0),
+      attributes: toAttributes(point.attributes),
+      timestamp: nanosToMillis(point.timeUnixNano),
+    }));
+  }
+
+  const histogram = metric.histogram ?? metric.exponentialHistogram;
+  if (histogram) {
+    return (histogram.dataPoints ?? []).map((point) => ({
+      ...base,
+      type: 'histogram',
+      count: Number(point.count ?? 0),
+      sum: point.sum !== undefined ? Number(point.sum) : undefined,
+      min: point.min,
+      max: point.max,
+      buckets: point.explicitBounds,
+      bucketCounts: point.bucketCounts?.map(Number),
+      attributes: toAttributes(point.attributes),
+      timestamp: nanosToMillis(point.timeUnixNano),
+    }));
+  }
+
+  if (metric.summary) {
+    return (metric.summary.dataPoints ?? []).map((point) => ({
+      ...base,
+      type: 'summary',
+      count: Number(point.count ?? 0),
+      sum: Number(point.sum ?? 0),
+      quantiles: (point.quantileValues ?? []).map((quantile) => ({
+        quantile: Number(quantile.quantile ?? 0),
+        value: Number(quantile.value ?? 0),
+      })),
+      attributes: toAttributes(point.attributes),
+      timestamp: nanosToMillis(point.timeUnixNano),
+    }));
+  }
+
+  return [];
+}
+
+function toLogRecord(
+  log: OTLPLogRecord,
+  scope?: OTLPInstrumentationScope
+): Record<string, unknown> {
+  const body = fromAnyValue(log.body);
+  return {
+    timestamp: nanosToMillis(log.timeUnixNano ?? log.observedTimeUnixNano),
+    level: log.severityText || severityName(Number(log.severityNumber ?? 0)),
+    severityNumber: Number(log.severityNumber ?? 0),
+    message: typeof body === 'string' ? body : JSON.stringify(body ?? ''),
+    body,
+    eventName: log.eventName || undefined,
+    attributes: toAttributes(log.attributes),
+    traceId: toHexId(log.traceId) || undefined,
+    spanId: toHexId(log.spanId) || undefined,
+    scope: toScope(scope),
+  };
+}
+
+function toScope(
+  scope?: OTLPInstrumentationScope
+): { name: string; version?: string } | undefined {
+  return scope?.name ? { name: scope.name, version: scope.version || undefined } : undefined;
+}
+
+function toAttributes(keyValues: OTLPKeyValue[] | undefined): Record<string, unknown> {
+  const attributes: Record<string, unknown> = {};
+  for (const keyValue of keyValues ?? []) {
+    if (keyValue?.key) {
+      attributes[keyValue.key] = fromAnyValue(keyValue.value);
+    }
+  }
+  return attributes;
+}
+
+function fromAnyValue(value: OTLPAnyValue | undefined): unknown {
+  if (!value || typeof value !== 'object') return undefined;
+  if (value.stringValue !== undefined) return value.stringValue;
+  if (value.boolValue !== undefined) return value.boolValue;
+  if (value.intValue !== undefined) return Number(value.intValue);
+  if (value.doubleValue !== undefined) return Number(value.doubleValue);
+  if (value.arrayValue !== undefined) {
+    return (value.arrayValue.values ?? []).map(fromAnyValue);
+  }
+  if (value.kvlistValue !== undefined) return toAttributes(value.kvlistValue.values);
+  if (value.bytesValue !== undefined) {
+    return typeof value.bytesValue === 'string'
+      ? value.bytesValue
+      : Buffer.from(value.bytesValue).toString('base64');
+  }
+  return undefined;
+}
+
+// OTLP/JSON carries ids as hex strings, protobuf as raw bytes
+function toHexId(id: OTLPBytes | undefined): string {
+  if (!id) return '';
+  if (typeof id === 'string') return id.toLowerCase();
+  return Buffer.from(id).toString('hex');
+}
+
+// Nanosecond timestamps exceed double precision, so longs are divided as
+// integers before converting
+function nanosToMillis(nanos: OTLPLong | undefined): number {
+  if (typeof nanos === 'string' && /^\d+$/.test(nanos)) {
+    return Number(BigInt(nanos) / 1_000_000n);
+  }
+  const value = Number(nanos ?? 0);
+  return Number.isFinite(value) ? Math.floor(value / 1e6) : 0;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+function severityName(severityNumber: number): string {
+  if (severityNumber >= 21) return 'FATAL';
+  if (severityNumber >= 17) return 'ERROR';
+  if (severityNumber >= 13) return 'WARN';
+  if (severityNumber >= 9) return 'INFO';
+  if (severityNumber >= 5) return 'DEBUG';
+  return severityNumber > 0 ? 'TRACE' : 'INFO';
+}
@@ -0,0 +1,213 @@
+/**
+ * @fileoverview OTLP Receiver
+ *
+ * Accepts telemetry on the standard OTLP endpoints so SDKs and other
+ * services can export straight to the internal collector:
+ * - OTLP/HTTP: `POST /v1/traces`, `/v1/metrics`, `/v1/logs` with
+ *   `application/x-protobuf` or `application/json` bodies (gzip supported)
+ * - OTLP/gRPC: the `TraceService`, `MetricsService` and `LogsService`
+ *   `Export` methods, by default on 127.0.0.1:4317. The server is
+ *   unauthenticated; set `grpcHost` to accept remote senders.
+ *
+ * Decoded requests are handed to the collector as `TelemetryData` items,
+ * which then flow through the processor pipeline and exporters.
+ */
+
+import * as grpc from '@grpc/grpc-js';
+import express from 'express';
+
+import type { Logger } from '@claude-zen/foundation';
+import { getLogger } from '@claude-zen/foundation/logging';
+
+import type { OTLPReceiverConfig, SignalType, TelemetryData } from '../types.js';
+import {
+  decodeOTLPRequest,
+  encodeOTLPResponse,
+  isOTLPRequest,
+  OTLP_GRPC_SERVICES,
+  OTLP_HTTP_PATHS,
+  otlpToTelemetryData,
+  toResponseObject,
+  type OTLPPartialSuccess,
+} from './otlp-protocol.js';
+
+const PROTOBUF_CONTENT_TYPE = 'application/x-protobuf';
+const DEFAULT_MAX_MESSAGE_BYTES = 10 * 1024 * 1024;
+const SIGNALS: SignalType[] = ['traces', 'metrics', 'logs'];
+
+/**
+ * Receives converted telemetry; resolves with what was rejected, if anything
+ */
+export type OTLPIngestHandler = (
+  signal: SignalType,
+  items: TelemetryData[]
+) => Promise<OTLPPartialSuccess | undefined>;
+
+/**
+ * Handles HTTP bodies that are not OTLP export requests
+ */
+export type OTLPFallbackHandler = (
+  signal: SignalType,
+  req: express.Request,
+  res: express.Response
+) => Promise<void>;
+
+export class OTLPReceiver {
+  private logger: Logger;
+  private grpcServer: grpc.Server|null = null;
+  private config: Required<OTLPReceiverConfig>;
+
+  constructor(
+    private readonly ingest: OTLPIngestHandler,
+    config: OTLPReceiverConfig = {}
+  ) {
+    this.logger = getLogger('OTLPReceiver');
+    this.config = {
+      http: config.http ?? true,
+      grpc: config.grpc ?? true,
+      grpcHost: config.grpcHost ?? '127.0.0.1',
+      maxMessageBytes: config.maxMessageBytes ?? DEFAULT_MAX_MESSAGE_BYTES,
+    };
+  }
+
+  /**
+   * Mount the OTLP/HTTP endpoints. JSON bodies that are not OTLP requests
+   * go to the fallback, so older in-house senders keep working.
+   */
+  registerHttpRoutes(app: express.Express, fallback?: OTLPFallbackHandler): void {
+    if (!this.config.http) return;
+
+    const protobufBody = express.raw({
+      type: PROTOBUF_CONTENT_TYPE,
+      limit: this.config.maxMessageBytes,
+    });
+
+    for (const signal of SIGNALS) {
+      app.post(OTLP_HTTP_PATHS[signal], protobufBody, async (req, res) => {
+        // express.raw only parses protobuf bodies; JSON was parsed upstream
+        const isProtobuf = Buffer.isBuffer(req.body);
+
+        if (!isProtobuf && !isOTLPRequest(signal, req.body)) {
+          if (fallback) {
+            await fallback(signal, req, res);
+          } else {
+            res.status(400).json({ message: `Body is not an OTLP ${signal} request` });
+          }
+          return;
+        }
+
+        let items: TelemetryData[];
+        try {
+          const request = isProtobuf
+            ? decodeOTLPRequest(signal, req.body)
+            : req.body;
+          items = otlpToTelemetryData(signal, request);
+        } catch (error) {
+          this.logger.warn(`Rejected malformed OTLP ${signal} request`, { error });
+          res.status(400).json({ message: `Malformed OTLP ${signal} request` });
+          return;
+        }
+
+        try {
+          const partialSuccess = await this.ingest(signal, items);
+          if (isProtobuf) {
+            res
+              .status(200)
+              .type(PROTOBUF_CONTENT_TYPE)
+              .send(Buffer.from(encodeOTLPResponse(signal, partialSuccess)));
+          } else {
+            res.status(200).json(toResponseObject(signal, partialSuccess));
+          }
+        } catch (error) {
+          this.logger.error(`Failed to ingest OTLP ${signal} request`, error);
+          // 503 tells OTLP exporters the request is safe to retry
+          res.status(503).json({ message: String(error) });
+        }
+      });
+    }
+  }
+
+  /**
+   * Start the OTLP/gRPC server
+   */
+  async startGrpc(port: number): Promise<void> {
+    if (!this.config.grpc || this.grpcServer) return;
+
+    const server = new grpc.Server({
+      'grpc.max_receive_message_length': this.config.maxMessageBytes,
+    });
+    for (const signal of SIGNALS) {
+      server.addService(this.createGrpcService(signal), {
+        Export: this.createGrpcHandler(signal),
+      });
+    }
+
+    const address = `${this.config.grpcHost}:${port}`;
+    await new Promise<void>((resolve, reject) => {
+      server.bindAsync(address, grpc.ServerCredentials.createInsecure(), (error) =>
+        error ? reject(error) : resolve()
+      );
+    });
+
+    this.grpcServer = server;
+    this.logger.info(`OTEL Collector gRPC receiver listening on ${address}`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.grpcServer) return;
+
+    const server = this.grpcServer;
+    this.grpcServer = null;
+    await new Promise<void>((resolve) => {
+      server.tryShutdown((error) => {
+        if (error) {
+          this.logger.warn('gRPC receiver did not shut down cleanly', { error });
+          server.forceShutdown();
+        }
+        resolve();
+      });
+    });
+  }
+
+  // Requests and responses pass through as raw bytes; decoding happens in
+  // the handler so malformed payloads get a proper status
+  private createGrpcService(signal: SignalType): grpc.ServiceDefinition {
+    return {
+      Export: {
+        path: OTLP_GRPC_SERVICES[signal],
+        requestStream: false,
+        responseStream: false,
+        requestSerialize: (value: Uint8Array) => Buffer.from(value),
+        requestDeserialize: (buffer: Buffer) => buffer,
+        responseSerialize: (value: Uint8Array) => Buffer.from(value),
+        responseDeserialize: (buffer: Buffer) => buffer,
+      },
+    };
+  }
+
+  private createGrpcHandler(
+    signal: SignalType
+  ): grpc.handleUnaryCall<Buffer, Uint8Array> {
+    return async (call, callback) => {
+      let items: TelemetryData[];
+      try {
+        items = otlpToTelemetryData(signal, decodeOTLPRequest(signal, call.request));
+      } catch (error) {
+        this.logger.warn(`Rejected malformed OTLP ${signal} request`, { error });
+        callback({
+          code: grpc.status.INVALID_ARGUMENT,
+          details: `Malformed OTLP ${signal} request`,
+        });
+        return;
+      }
+
+      try {
+        const partialSuccess = await this.ingest(signal, items);
+        callback(null, encodeOTLPResponse(signal, partialSuccess));
+      } catch (error) {
+        this.logger.error(`Failed to ingest OTLP ${signal} request`, error);
+        callback({ code: grpc.status.UNAVAILABLE, details: String(error) });
+      }
+    };
+  }
+}
@@ -41,6 +41,31 @@ export interface CollectorConfig {
 
   /** Buffer and queue settings */
   buffering?: BufferingConfig;
+
+  /** OTLP receiver settings (listens on httpPort and grpcPort) */
+  receivers?: {
+    otlp?: OTLPReceiverConfig;
+  };
+}
+
+/**
+ * OTLP receiver configuration
+ */
+export interface OTLPReceiverConfig {
+  /** Accept OTLP/HTTP on the collector's HTTP server (default true) */
+  http?: boolean;
+
+  /** Accept OTLP/gRPC on grpcPort (default true) */
+  grpc?: boolean;
+
+  /**
+   * Interface the gRPC server binds to (default 127.0.0.1). The receiver
+   * does no authentication, so only widen this behind a trusted network.
+   */
+  grpcHost?: string;
+
+  /** Largest accepted request in bytes */
+  maxMessageBytes?: number;
 }
 
 /**
@@ -48,7 +73,13 @@ export interface CollectorConfig {
  */
 export interface ExporterConfig {
   /** Exporter type */
-  type:|'jaeger|otlp-http'||otlp-grpc|prometheus | console'|file';
+  type:
+    | 'jaeger'
+    | 'otlp-http'
+    | 'otlp-grpc'
+    | 'prometheus'
+    | 'console'
+    | 'file';
 
   /** Exporter name/identifier */
   name: string;
@@ -66,7 +97,7 @@ export interface ExporterConfig {
   timeout?: number;
 
   /** Which signals to export */
-  signals?: ('traces|metrics|logs')[];
+  signals?: SignalType[];
 
   /** Exporter-specific configuration */
   config?: Record<string, any>;
@@ -186,12 +217,18 @@ export interface HealthStatus {
 /**
  * Signal types supported by collector
  */
-export type SignalType = 'traces|metrics|logs';
+export type SignalType = 'traces' | 'metrics' | 'logs';
 
 /**
  * Backend types supported
  */
-export type BackendType =|'jaeger|otlp-http'||otlp-grpc|prometheus | console'|file';
+export type BackendType =
+  | 'jaeger'
+  | 'otlp-http'
+  | 'otlp-grpc'
+  | 'prometheus'
+  | 'console'
+  | 'file';
 
 /**
  * Processor types available
@@ -0,0 +1,148 @@
+/**
+ * Kanban Task Store Tests.
+ *
+ * Covers task round-trips through SQLite, time-in-state derived from
+ * recorded transitions, historical range queries, and WorkflowKanban
+ * persisting moves before applying them.
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { WorkflowKanban } from '../api/workflow-kanban';
+import {
+  createSQLiteKanbanTaskStore,
+  type KanbanTaskStore,
+  type RelationalKanbanTaskStore,
+} from '../database/kanban-task-store';
+import type { WorkflowTask } from '../types/index';
+
+const HOUR = 60 * 60 * 1000;
+const T0 = new Date('2025-03-01T09:00:00.000Z');
+const at = (hours: number) => new Date(T0.getTime() + hours * HOUR);
+
+const createTask = (overrides: Partial<WorkflowTask> = {}): WorkflowTask => ({
+  id: 'task-1',
+  title: 'Persist the board',
+  description: 'Survive restarts',
+  state: 'backlog',
+  priority: 'high',
+  assignedAgent: 'agent-7',
+  estimatedEffort: 3,
+  createdAt: T0,
+  updatedAt: T0,
+  dependencies: ['task-0'],
+  tags: ['storage'],
+  metadata: { source: 'test' },
+  ...overrides,
+});
+
+describe('RelationalKanbanTaskStore', () => {
+  let directory: string;
+  let store: RelationalKanbanTaskStore;
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'kanban-store-'));
+    store = createSQLiteKanbanTaskStore(join(directory, 'kanban.db'));
+    await store.initialize();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('round-trips every task field and loads only open tasks', async () => {
+    const task = createTask({ startedAt: at(1), blockedAt: at(2), blockingReason: 'waiting' });
+    await store.saveTask(task);
+    await store.saveTask(createTask({ id: 'task-2', state: 'done', completedAt: at(3) }));
+
+    expect(await store.loadOpenTasks()).toEqual([task]);
+  });
+
+  it('upserts tasks by id', async () => {
+    await store.saveTask(createTask());
+    await store.saveTask(createTask({ state: 'analysis', updatedAt: at(1) }));
+
+    const [task] = await store.loadOpenTasks();
+    expect(task).toMatchObject({ state: 'analysis', updatedAt: at(1) });
+  });
+
+  it('derives time in state from the previous transition, or creation for the first', async () => {
+    await store.saveTask(createTask());
+
+    const first = await store.recordTransition({
+      id: 'tr-1',
+      taskId: 'task-1',
+      fromState: 'backlog',
+      toState: 'development',
+      timestamp: at(2),
+    });
+    const second = await store.recordTransition({
+      id: 'tr-2',
+      taskId: 'task-1',
+      fromState: 'development',
+      toState: 'review',
+      reason: 'ready',
+      timestamp: at(5),
+    });
+
+    expect(first.timeInState).toBe(2 * HOUR);
+    expect(second.timeInState).toBe(3 * HOUR);
+    expect(await store.findTransitions({ start: T0, end: at(10) }, 'task-1')).toEqual([
+      { ...first, reason: undefined },
+      second,
+    ]);
+  });
+
+  it('queries created and completed tasks by time range', async () => {
+    await store.saveTask(createTask({ id: 'old', createdAt: at(-48), state: 'done', completedAt: at(1) }));
+    await store.saveTask(createTask({ id: 'new', createdAt: at(2) }));
+    await store.saveTask(createTask({ id: 'later', createdAt: at(30), state: 'done', completedAt: at(31) }));
+    const range = { start: T0, end: at(24) };
+
+    expect((await store.findTasksCreatedIn(range)).map((task) => task.id)).toEqual(['new']);
+    expect((await store.findTasksCompletedIn(range)).map((task) => task.id)).toEqual(['old']);
+  });
+});
+
+describe('WorkflowKanban with a task store', () => {
+  const failingStore = (): KanbanTaskStore => ({
+    initialize: vi.fn(async () => {}),
+    loadOpenTasks: vi.fn(async () => [createTask()]),
+    saveTask: vi.fn(async () => {}),
+    recordTransition: vi.fn(async () => {
+      throw new Error('disk full');
+    }),
+    findTasksCreatedIn: vi.fn(async () => []),
+    findTasksCompletedIn: vi.fn(async () => []),
+    findTransitions: vi.fn(async () => []),
+    close: vi.fn(async () => {}),
+  });
+
+  it('leaves the board unchanged and restores the stored task when a move cannot be recorded', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    const store = failingStore();
+    const kanban = new WorkflowKanban({ enableRealTimeMonitoring: false }, undefined, store);
+    await kanban.initialize();
+    const moved = vi.fn();
+    kanban.on('task:moved', moved);
+
+    const result = await kanban.moveTask('task-1', 'analysis');
+
+    expect(result).toMatchObject({ success: false, error: 'disk full' });
+    expect((await kanban.getTask('task-1'))!.state).toBe('backlog');
+    expect(moved).not.toHaveBeenCalled();
+    expect(vi.mocked(store.saveTask).mock.calls.map(([task]) => task.state)).toEqual([
+      'analysis',
+      'backlog',
+    ]);
+    await kanban.shutdown();
+    vi.restoreAllMocks();
+  });
+});
@@ -72,6 +72,10 @@ import {
   createWorkflowMachine,
   type WorkflowMachineContext,
 } from '../state-machines/workflow';
+import type {
+  KanbanTaskStore,
+  KanbanTaskTransition,
+} from '../database/kanban-task-store';
 
 import type {
   BottleneckReport,
@@ -170,6 +174,7 @@ export class WorkflowKanban extends TypedEventBase<WorkflowKanbanEvents> {
   private readonly logger: Logger;
   private readonly config: WorkflowKanbanConfig;
   private readonly eventBus?: TypeSafeEventBus;
+  private readonly store?: KanbanTaskStore;
 
   private workflowMachine: ActorRef<any, any>|null = null;
   private machine: ReturnType<typeof createWorkflowMachine>;
@@ -185,13 +190,15 @@ export class WorkflowKanban extends TypedEventBase<WorkflowKanbanEvents> {
 
   constructor(
     config: Partial<WorkflowKanbanConfig> = {},
-    eventBus?: TypeSafeEventBus
+    eventBus?: TypeSafeEventBus,
+    store?: KanbanTaskStore
   ) {
     super();
 
     this.logger = getLogger('WorkflowKanban');
     this.config = { ...createDefaultWorkflowConfig(), ...config };
     this.eventBus = eventBus;
+    this.store = store;
     this.machine = createWorkflowMachine(this.config);
 
     this.logger.info('WorkflowKanban initialized with config:', {
@@ -229,6 +236,17 @@ export class WorkflowKanban extends TypedEventBase<WorkflowKanbanEvents> {
       // Start the machine
       this.workflowMachine.start();
 
+      // Restore the board from the persistent store
+      if (this.store) {
+        await this.store.initialize();
+        const openTasks = await this.store.loadOpenTasks();
+        for (const task of openTasks) {
+          this.taskIndex.set(task.id, task);
+          this.workflowMachine.send({ type: 'TASK_CREATED', task });
+        }
+        this.logger.info(`Restored ${openTasks.length} tasks from store`);
+      }
+
       // Initialize monitoring services
       if (this.config.enableRealTimeMonitoring) {
         this.startRealTimeMonitoring();
@@ -265,6 +283,10 @@ export class WorkflowKanban extends TypedEventBase<WorkflowKanbanEvents> {
       // Clear task index
       this.taskIndex.clear();
 
+      if (this.store) {
+        await this.store.close();
+      }
+
       this.initialized = false;
       this.logger.info('WorkflowKanban shutdown complete');
     } catch (error) {
@@ -319,6 +341,9 @@ export class WorkflowKanban extends TypedEventBase<WorkflowKanbanEvents> {
         metadata: {},
       };
 
+      // Persist before the task becomes visible on the board
+      await this.store?.saveTask(task);
+
       // Add to local index
       this.taskIndex.set(task.id, task);
 
@@ -392,14 +417,6 @@ export class WorkflowKanban extends TypedEventBase<WorkflowKanbanEvents> {
         };
       }
 
-      // Send move event to XState machine
-      this.workflowMachine?.send({
-        type: 'TASK_MOVED',
-        taskId,
-        fromState,
-        toState,
-      });
-
       // Update local index using Immer for safe state mutations
       const updatedTask = ImmutableTaskUtils.updateTask(
         [task],
@@ -421,6 +438,33 @@ export class WorkflowKanban extends TypedEventBase<WorkflowKanbanEvents> {
         }
       )[0];
 
+      // Persist before the machine sees the move, so a failed write leaves
+      // the board unchanged
+      if (this.store) {
+        await this.store.saveTask(updatedTask);
+        try {
+          await this.store.recordTransition({
+            id: `transition-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+            taskId,
+            fromState,
+            toState,
+            reason,
+            timestamp: updatedTask.updatedAt,
+          });
+        } catch (error) {
+          await this.store.saveTask(task);
+          throw error;
+        }
+      }
+
+      // Send move event to XState machine
+      this.workflowMachine?.send({
+        type: 'TASK_MOVED',
+        taskId,
+        fromState,
+        toState,
+      });
+
       this.taskIndex.set(taskId, updatedTask);
 
       // Calculate duration if completing
@@ -563,13 +607,18 @@ export class WorkflowKanban extends TypedEventBase<WorkflowKanbanEvents> {
   // =============================================================================
 
   /**
-   * Get current flow metrics using Immer for safe calculations
+   * Get current flow metrics using Immer for safe calculations.
+   * With a task store and a time range, metrics cover the tasks created or
+   * completed in that window, including those from earlier runs.
    */
-  async getFlowMetrics(): Promise<FlowMetrics|null> {
+  async getFlowMetrics(timeRange?: TimeRange): Promise<FlowMetrics|null> {
     this.ensureInitialized();
 
     // Get current tasks and calculate metrics using Immer utilities
-    const allTasks = Array.from(this.taskIndex.values())();
+    const allTasks =
+      this.store && timeRange
+        ? await this.getHistoricalTasks(timeRange)
+        : Array.from(this.taskIndex.values())();
     const completedTasks = allTasks.filter((t) => t.state ==='done');
     const blockedTasks = allTasks.filter((t) => t.state === 'blocked');
 
@@ -599,17 +648,24 @@ export class WorkflowKanban extends TypedEventBase<WorkflowKanbanEvents> {
   ): Promise<WorkflowStatistics> {
     this.ensureInitialized();
 
-    const allTasks = Array.from(this.taskIndex.values())();
     const range = timeRange||{
       start: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // 30 days ago
       end: new Date(),
     };
 
-    const tasksInRange = allTasks.filter(
-      (t) => t.createdAt >= range.start && t.createdAt <= range.end
-    );
-
-    const completedTasks = tasksInRange.filter((t) => t.state ==='done');
+    let tasksInRange: WorkflowTask[];
+    let completedTasks: WorkflowTask[];
+    if (this.store) {
+      // Throughput counts completions inside the window, wherever they started
+      tasksInRange = await this.store.findTasksCreatedIn(range);
+      completedTasks = await this.store.findTasksCompletedIn(range);
+    } else {
+      const allTasks = Array.from(this.taskIndex.values())();
+      tasksInRange = allTasks.filter(
+        (t) => t.createdAt >= range.start && t.createdAt <= range.end
+      );
+      completedTasks = tasksInRange.filter((t) => t.state ==='done');
+    }
     const blockedTasks = tasksInRange.filter((t) => t.state === 'blocked');
 
     // Calculate averages
@@ -654,6 +710,40 @@ export class WorkflowKanban extends TypedEventBase<WorkflowKanbanEvents> {
     };
   }
 
+  /**
+   * Recorded `task:moved` transitions in a time range (requires a task store)
+   */
+  async getTransitionHistory(
+    timeRange: TimeRange,
+    taskId?: string
+  ): Promise<KanbanTaskTransition[]> {
+    this.ensureInitialized();
+    if (!this.store) return [];
+    return await this.store.findTransitions(timeRange, taskId);
+  }
+
+  /**
+   * Average hours tasks spent in each state before leaving it, over the
+   * transitions recorded in a time range (requires a task store)
+   */
+  async getTimeInState(
+    timeRange: TimeRange
+  ): Promise<Partial<Record<TaskState, number>>> {
+    const transitions = await this.getTransitionHistory(timeRange);
+    const totals = new Map<TaskState, { hours: number; count: number }>();
+
+    for (const transition of transitions) {
+      const total = totals.get(transition.fromState)||{ hours: 0, count: 0 };
+      total.hours += transition.timeInState / (1000 * 60 * 60);
+      total.count++;
+      totals.set(transition.fromState, total);
+    }
+
+    return Object.fromEntries(
+      [...totals].map(([state, total]) => [state, total.hours / total.count])
+    );
+  }
+
   // =============================================================================
   // BOTTLENECK DETECTION API
   // =============================================================================
@@ -827,6 +917,17 @@ export class WorkflowKanban extends TypedEventBase<WorkflowKanbanEvents> {
   // PRIVATE UTILITY METHODS
   // =============================================================================
 
+  private async getHistoricalTasks(range: TimeRange): Promise<WorkflowTask[]> {
+    const tasks = new Map<string, WorkflowTask>();
+    for (const task of await this.store!.findTasksCreatedIn(range)) {
+      tasks.set(task.id, task);
+    }
+    for (const task of await this.store!.findTasksCompletedIn(range)) {
+      tasks.set(task.id, task);
+    }
+    return [...tasks.values()];
+  }
+
   private ensureInitialized(): void {
     if (!this.initialized) {
       throw new Error(
@@ -1015,9 +1116,10 @@ export class WorkflowKanban extends TypedEventBase<WorkflowKanbanEvents> {
  */
 export const createWorkflowKanban = (
   config?: Partial<WorkflowKanbanConfig>,
-  eventBus?: TypeSafeEventBus
+  eventBus?: TypeSafeEventBus,
+  store?: KanbanTaskStore
 ): WorkflowKanban => {
-  return new WorkflowKanban(config, eventBus);
+  return new WorkflowKanban(config, eventBus, store);
 };
 
 /**
@@ -0,0 +1,401 @@
+/**
+ * @fileoverview Kanban Task Store - Persistent WorkflowKanban Board
+ *
+ * Persists `WorkflowTask`s and every state transition through the database
+ * package's `RelationalDao`, so a WorkflowKanban survives restarts and flow
+ * metrics (cycle time, lead time, throughput, time-in-state) can be computed
+ * over any historical window instead of only the current process.
+ *
+ * Tables (created on initialize):
+ * - `kanban_tasks` - latest snapshot of each task
+ * - `kanban_task_transitions` - append-only history of `task:moved`
+ */
+
+import {
+  type DatabaseAdapter,
+  RelationalDao,
+  SQLiteAdapter,
+} from '@claude-zen/database';
+import { getLogger } from '@claude-zen/foundation';
+
+import type { TaskState, TimeRange, WorkflowTask } from '../types/index';
+
+const logger = getLogger('KanbanTaskStore');
+
+const TASKS_TABLE = 'kanban_tasks';
+const TRANSITIONS_TABLE = 'kanban_task_transitions';
+
+/**
+ * A `task:moved` transition to record.
+ */
+export interface NewKanbanTaskTransition {
+  id: string;
+  taskId: string;
+  fromState: TaskState;
+  toState: TaskState;
+  reason?: string;
+  timestamp: Date;
+}
+
+/**
+ * One recorded `task:moved` transition.
+ */
+export interface KanbanTaskTransition extends NewKanbanTaskTransition {
+  /**
+   * Milliseconds the task spent in `fromState`: since its previous
+   * recorded transition, or since it was created for the first one
+   */
+  timeInState: number;
+}
+
+/**
+ * Persistence used by WorkflowKanban. Implementations must be safe to call
+ * for every task mutation.
+ */
+export interface KanbanTaskStore {
+  initialize(): Promise<void>;
+  /** Tasks still on the board (every state except `done`) */
+  loadOpenTasks(): Promise<WorkflowTask[]>;
+  saveTask(task: WorkflowTask): Promise<void>;
+  recordTransition(
+    transition: NewKanbanTaskTransition
+  ): Promise<KanbanTaskTransition>;
+  findTasksCreatedIn(range: TimeRange): Promise<WorkflowTask[]>;
+  findTasksCompletedIn(range: TimeRange): Promise<WorkflowTask[]>;
+  findTransitions(
+    range: TimeRange,
+    taskId?: string
+  ): Promise<KanbanTaskTransition[]>;
+  close(): Promise<void>;
+}
+
+interface KanbanTaskRow {
+  id: string;
+  title: string;
+  description: string | null;
+  state: string;
+  priority: string;
+  assigned_agent: string | null;
+  estimated_effort: number | null;
+  tags_json: string[];
+  dependencies_json: string[];
+  blocking_reason: string | null;
+  metadata: Record<string, unknown>;
+  created_at: Date;
+  updated_at: Date;
+  started_at: Date | null;
+  completed_at: Date | null;
+  blocked_at: Date | null;
+}
+
+interface KanbanTransitionRow {
+  id: string;
+  task_id: string;
+  from_state: string;
+  to_state: string;
+  reason: string | null;
+  transitioned_at: Date;
+  time_in_state: number;
+}
+
+/**
+ * RelationalDao with upserts and range queries. Writes end in `RETURNING`
+ * because the base DAO's INSERT/UPDATE statements return nothing, which
+ * adapters that read rows for every query (SQLite) reject.
+ */
+class ReturningRelationalDao<T extends { id: string }> extends RelationalDao<T> {
+  /**
+   * Insert or replace the row with the entity's id.
+   *
+   * @param entity
+   */
+  async upsert(entity: T): Promise<void> {
+    const row = this.mapEntityToRow(entity);
+    const columns = Object.keys(row);
+    const updates = columns
+      .filter((column) => column !== 'id')
+      .map((column) => `${column} = excluded.${column}`)
+      .join(', ');
+
+    await this.adapter.query(
+      `INSERT INTO ${this.tableName} (${columns.join(', ')}) VALUES (${columns
+        .map(() => '?')
+        .join(', ')}) ON CONFLICT(id) DO UPDATE SET ${updates} RETURNING id`,
+      Object.values(row)
+    );
+  }
+
+  /**
+   * Rows matching a parameterized WHERE clause.
+   *
+   * @param where
+   * @param params
+   * @param orderBy
+   * @param limit
+   */
+  async findWhere(
+    where: string,
+    params: unknown[],
+    orderBy: string,
+    limit?: number
+  ): Promise<T[]> {
+    const result = await this.adapter.query(
+      `SELECT * FROM ${this.tableName} WHERE ${where} ORDER BY ${orderBy}${
+        limit === undefined ? '' : ` LIMIT ${Math.floor(limit)}`
+      }`,
+      params
+    );
+    return (result?.rows ?? []).map((row) => this.mapRowToEntity(row));
+  }
+
+  /**
+   * Rows whose `column` lies in the range, optionally narrowed by equality
+   * criteria, oldest first.
+   *
+   * @param column
+   * @param range
+   * @param criteria
+   */
+  async findInRange(
+    column: string,
+    range: TimeRange,
+    criteria: Record<string, unknown> = {}
+  ): Promise<T[]> {
+    const conditions = [`${column} >= ?`, `${column} <= ?`];
+    const params: unknown[] = [range.start.toISOString(), range.end.toISOString()];
+    for (const [key, value] of Object.entries(criteria)) {
+      conditions.push(`${key} = ?`);
+      params.push(value);
+    }
+    return await this.findWhere(conditions.join(' AND '), params, `${column} ASC`);
+  }
+}
+
+/**
+ * KanbanTaskStore on any relational DatabaseAdapter (SQLite by default).
+ */
+export class RelationalKanbanTaskStore implements KanbanTaskStore {
+  private readonly tasks: ReturningRelationalDao<KanbanTaskRow>;
+  private readonly transitions: ReturningRelationalDao<KanbanTransitionRow>;
+
+  constructor(private readonly adapter: DatabaseAdapter) {
+    this.tasks = new ReturningRelationalDao<KanbanTaskRow>(
+      adapter,
+      logger,
+      TASKS_TABLE,
+      {
+        estimated_effort: { type: 'number' },
+        tags_json: { type: 'json' },
+        dependencies_json: { type: 'json' },
+        metadata: { type: 'json' },
+      }
+    );
+    this.transitions = new ReturningRelationalDao<KanbanTransitionRow>(
+      adapter,
+      logger,
+      TRANSITIONS_TABLE,
+      { time_in_state: { type: 'integer' } }
+    );
+  }
+
+  async initialize(): Promise<void> {
+    await this.adapter.connect();
+    await this.adapter.execute(`
+      CREATE TABLE IF NOT EXISTS ${TASKS_TABLE} (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT,
+        state TEXT NOT NULL,
+        priority TEXT NOT NULL,
+        assigned_agent TEXT,
+        estimated_effort REAL,
+        tags_json TEXT NOT NULL DEFAULT '[]',
+        dependencies_json TEXT NOT NULL DEFAULT '[]',
+        blocking_reason TEXT,
+        metadata TEXT NOT NULL DEFAULT '{}',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        started_at TEXT,
+        completed_at TEXT,
+        blocked_at TEXT
+      )`);
+    await this.adapter.execute(`
+      CREATE TABLE IF NOT EXISTS ${TRANSITIONS_TABLE} (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL,
+        from_state TEXT NOT NULL,
+        to_state TEXT NOT NULL,
+        reason TEXT,
+        transitioned_at TEXT NOT NULL,
+        time_in_state INTEGER NOT NULL
+      )`);
+    await this.adapter.execute(
+      `CREATE INDEX IF NOT EXISTS idx_${TASKS_TABLE}_state ON ${TASKS_TABLE} (state)`
+    );
+    await this.adapter.execute(
+      `CREATE INDEX IF NOT EXISTS idx_${TASKS_TABLE}_completed_at ON ${TASKS_TABLE} (completed_at)`
+    );
+    await this.adapter.execute(
+      `CREATE INDEX IF NOT EXISTS idx_${TRANSITIONS_TABLE}_timeline ON ${TRANSITIONS_TABLE} (transitioned_at, task_id)`
+    );
+    logger.info('Kanban task store ready');
+  }
+
+  async loadOpenTasks(): Promise<WorkflowTask[]> {
+    const rows = await this.tasks.findWhere('state != ?', ['done'], 'created_at ASC');
+    return rows.map((row) => this.toTask(row));
+  }
+
+  async saveTask(task: WorkflowTask): Promise<void> {
+    await this.tasks.upsert(this.toTaskRow(task));
+  }
+
+  async recordTransition(
+    transition: NewKanbanTaskTransition
+  ): Promise<KanbanTaskTransition> {
+    // The task entered fromState at its latest transition, or at creation
+    const [previous] = await this.transitions.findWhere(
+      'task_id = ?',
+      [transition.taskId],
+      'transitioned_at DESC',
+      1
+    );
+    const enteredAt =
+      previous?.transitioned_at ??
+      (await this.tasks.findById(transition.taskId))?.created_at ??
+      transition.timestamp;
+    const timeInState = Math.max(
+      0,
+      transition.timestamp.getTime() - enteredAt.getTime()
+    );
+
+    await this.transitions.upsert({
+      id: transition.id,
+      task_id: transition.taskId,
+      from_state: transition.fromState,
+      to_state: transition.toState,
+      reason: transition.reason ?? null,
+      transitioned_at: transition.timestamp,
+      time_in_state: timeInState,
+    });
+    return { ...transition, timeInState };
+  }
+
+  async findTasksCreatedIn(range: TimeRange): Promise<WorkflowTask[]> {
+    const rows = await this.tasks.findInRange('created_at', range);
+    return rows.map((row) => this.toTask(row));
+  }
+
+  async findTasksCompletedIn(range: TimeRange): Promise<WorkflowTask[]> {
+    const rows = await this.tasks.findInRange('completed_at', range, {
+      state: 'done',
+    });
+    return rows.map((row) => this.toTask(row));
+  }
+
+  async findTransitions(
+    range: TimeRange,
+    taskId?: string
+  ): Promise<KanbanTaskTransition[]> {
+    const rows = await this.transitions.findInRange(
+      'transitioned_at',
+      range,
+      taskId ? { task_id: taskId } : {}
+    );
+    return rows.map((row) => ({
+      id: String(row.id),
+      taskId: String(row.task_id),
+      fromState: toTaskState(row.from_state),
+      toState: toTaskState(row.to_state),
+      reason: row.reason ?? undefined,
+      timestamp: row.transitioned_at,
+      timeInState: Number(row.time_in_state),
+    }));
+  }
+
+  async close(): Promise<void> {
+    await this.adapter.disconnect();
+  }
+
+  private toTaskRow(task: WorkflowTask): KanbanTaskRow {
+    return {
+      id: task.id,
+      title: task.title,
+      description: task.description ?? null,
+      state: task.state,
+      priority: task.priority,
+      assigned_agent: task.assignedAgent ?? null,
+      estimated_effort: task.estimatedEffort ?? null,
+      tags_json: task.tags ?? [],
+      dependencies_json: task.dependencies ?? [],
+      blocking_reason: task.blockingReason ?? null,
+      metadata: task.metadata ?? {},
+      created_at: task.createdAt,
+      updated_at: task.updatedAt,
+      started_at: task.startedAt ?? null,
+      completed_at: task.completedAt ?? null,
+      blocked_at: task.blockedAt ?? null,
+    };
+  }
+
+  private toTask(row: KanbanTaskRow): WorkflowTask {
+    return {
+      id: String(row.id),
+      title: row.title,
+      description: row.description ?? undefined,
+      state: toTaskState(row.state),
+      priority: toTaskPriority(row.priority),
+      assignedAgent: row.assigned_agent ?? undefined,
+      estimatedEffort: row.estimated_effort ?? undefined,
+      tags: row.tags_json ?? [],
+      dependencies: row.dependencies_json ?? [],
+      blockingReason: row.blocking_reason ?? undefined,
+      metadata: row.metadata ?? {},
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      startedAt: row.started_at ?? undefined,
+      completedAt: row.completed_at ?? undefined,
+      blockedAt: row.blocked_at ?? undefined,
+    };
+  }
+}
+
+const TASK_STATES: readonly TaskState[] = [
+  'backlog',
+  'analysis',
+  'development',
+  'testing',
+  'review',
+  'done',
+  'blocked',
+];
+const TASK_PRIORITIES: readonly WorkflowTask['priority'][] = [
+  'critical',
+  'high',
+  'medium',
+  'low',
+];
+
+function toTaskState(value: string): TaskState {
+  const state = TASK_STATES.find((candidate) => candidate === value);
+  if (!state) {
+    throw new Error(`Unknown task state in kanban store: ${value}`);
+  }
+  return state;
+}
+
+function toTaskPriority(value: string): WorkflowTask['priority'] {
+  return TASK_PRIORITIES.find((candidate) => candidate === value) ?? 'medium';
+}
+
+/**
+ * Kanban task store in a SQLite file.
+ *
+ * @param databasePath - e.g. `./data/kanban.db`
+ */
+export const createSQLiteKanbanTaskStore = (
+  databasePath: string
+): RelationalKanbanTaskStore =>
+  new RelationalKanbanTaskStore(
+    new SQLiteAdapter({ type: 'sqlite', database: databasePath })
+  );
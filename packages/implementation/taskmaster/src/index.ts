@@ -117,6 +117,15 @@ export {
   type WorkflowKanbanEvents,
 } from './api/workflow-kanban';
 
+// Persistent task store for boards that survive restarts
+export {
+  createSQLiteKanbanTaskStore,
+  type KanbanTaskStore,
+  type KanbanTaskTransition,
+  type NewKanbanTaskTransition,
+  RelationalKanbanTaskStore,
+} from './database/kanban-task-store';
+
 // Approval gate management
 export { ApprovalGateManager } from './core/approval-gate-manager';
 
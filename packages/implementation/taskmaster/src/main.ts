@@ -96,6 +96,13 @@ export type {
 
 // Re-export main API classes for advanced usage
 export { WorkflowKanban, createWorkflowKanban } from './api/workflow-kanban';
+export {
+  RelationalKanbanTaskStore,
+  createSQLiteKanbanTaskStore,
+  type KanbanTaskStore,
+  type KanbanTaskTransition,
+  type NewKanbanTaskTransition,
+} from './database/kanban-task-store';
 export { ApprovalGateManager } from './core/approval-gate-manager';
 
 // ============================================================================
@@ -23,10 +23,18 @@ export interface WorkflowTask {
   title: string;
   description?: string;
   state: TaskState;
-  priority: number;
-  assignee?: string;
-  createdAt: number;
-  updatedAt: number;
+  priority: 'critical' | 'high' | 'medium' | 'low';
+  assignedAgent?: string;
+  estimatedEffort?: number;
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  blockedAt?: Date;
+  blockingReason?: string;
+  dependencies?: string[];
+  tags?: string[];
+  metadata?: Record<string, unknown>;
 }
 
 export interface FlowMetrics {
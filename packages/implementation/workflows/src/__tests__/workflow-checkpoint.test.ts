@@ -0,0 +1,244 @@
+/**
+ * Workflow Checkpoint Tests.
+ *
+ * Covers the atomic checkpoint store round-trip and resuming interrupted
+ * workflows after a restart, including the pause for steps whose handlers
+ * are registered as non-idempotent after initialize(), and shutting down
+ * mid-step.
+ */
+
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  WorkflowEngine,
+  type StepExecutionMeta,
+  type WorkflowState,
+} from '../engine';
+import { WorkflowCheckpointStore } from '../workflow-checkpoint-store';
+
+/** State of a `charge -> ship` workflow that crashed while charging. */
+const interruptedWorkflow = (): WorkflowState => ({
+  id: 'workflow-crashed',
+  definition: {
+    name: 'order',
+    steps: [
+      { id: 'reserve', type: 'record' },
+      { id: 'charge', type: 'charge' },
+      { id: 'ship', type: 'record' },
+    ],
+  },
+  status: 'running',
+  context: {},
+  currentStep: 1,
+  steps: [
+    { id: 'reserve', type: 'record' },
+    { id: 'charge', type: 'charge' },
+    { id: 'ship', type: 'record' },
+  ],
+  stepResults: { reserve: 'reserved' },
+  inFlightSteps: {
+    charge: {
+      idempotencyKey: 'workflow-crashed:charge',
+      attempt: 1,
+      startedAt: new Date().toISOString(),
+    },
+  },
+  completedSteps: [],
+  startTime: new Date().toISOString(),
+});
+
+describe('WorkflowCheckpointStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'workflow-checkpoints-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('round-trips states with increasing revisions and no temporary files', async () => {
+    const store = new WorkflowCheckpointStore(directory);
+    await store.open();
+    const state = interruptedWorkflow();
+
+    await store.save(state);
+    state.stepResults['charge'] = 'charged';
+    await store.save(state);
+
+    const reopened = new WorkflowCheckpointStore(directory);
+    const [checkpoint] = await reopened.loadAll();
+    expect(checkpoint).toMatchObject({ formatVersion: 1, revision: 2 });
+    expect(checkpoint!.state.stepResults).toEqual({ reserve: 'reserved', charge: 'charged' });
+    expect(readdirSync(directory)).toEqual(['workflow-crashed.json']);
+
+    // Revisions continue from what was on disk
+    await reopened.save(checkpoint!.state);
+    expect((await reopened.load(state.id))!.revision).toBe(3);
+  });
+
+  it('skips unreadable and unknown-format checkpoints', async () => {
+    const store = new WorkflowCheckpointStore(directory);
+    await store.open();
+    await store.save(interruptedWorkflow());
+    writeFileSync(join(directory, 'torn.json'), '{"formatVersion": 1, "rev');
+    writeFileSync(
+      join(directory, 'future.json'),
+      JSON.stringify({ formatVersion: 99, revision: 1, state: { id: 'future' } })
+    );
+
+    const checkpoints = await new WorkflowCheckpointStore(directory).loadAll();
+    expect(checkpoints.map((checkpoint) => checkpoint.state.id)).toEqual(['workflow-crashed']);
+  });
+});
+
+describe('WorkflowEngine resume', () => {
+  let directory: string;
+  let engine: WorkflowEngine;
+  const calls: Array<{ step: string; meta?: StepExecutionMeta }> = [];
+
+  const record = async (_context: unknown, _params: unknown, meta?: StepExecutionMeta) => {
+    calls.push({ step: meta!.stepId, meta });
+    return meta!.stepId;
+  };
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'workflow-resume-'));
+    calls.length = 0;
+
+    const store = new WorkflowCheckpointStore(directory);
+    await store.open();
+    await store.save(interruptedWorkflow());
+
+    engine = new WorkflowEngine({
+      persistWorkflows: true,
+      persistencePath: directory,
+      autoResume: false,
+    });
+    await engine.initialize();
+  });
+
+  afterEach(async () => {
+    await engine.shutdown();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('re-runs an interrupted idempotent step and skips completed ones', async () => {
+    engine.registerStepHandler('record', record);
+    engine.registerStepHandler('charge', record);
+    const completed = new Promise((resolve) => engine.once('workflow-completed', resolve));
+
+    expect(await engine.resumePersistedWorkflows()).toEqual(['workflow-crashed']);
+    await completed;
+
+    expect(calls.map((call) => call.step)).toEqual(['charge', 'ship']);
+    expect(calls[0]!.meta).toMatchObject({
+      idempotencyKey: 'workflow-crashed:charge',
+      resumed: true,
+    });
+    expect(calls[1]!.meta!.resumed).toBe(false);
+
+    await engine.shutdown();
+    const [checkpoint] = await new WorkflowCheckpointStore(directory).loadAll();
+    expect(checkpoint!.state.status).toBe('completed');
+  });
+
+  it('pauses instead of re-running a step registered as non-idempotent after initialize()', async () => {
+    engine.registerStepHandler('record', record);
+    engine.registerStepHandler('charge', record, { idempotent: false });
+    const blocked = new Promise((resolve) =>
+      engine.once('workflow-resume-blocked', (...args) => resolve(args))
+    );
+
+    expect(await engine.resumePersistedWorkflows()).toEqual([]);
+
+    expect(await blocked).toEqual(['workflow-crashed', ['charge']]);
+    expect(calls).toEqual([]);
+    const checkpoint = await new WorkflowCheckpointStore(directory).load('workflow-crashed');
+    expect(checkpoint!.state).toMatchObject({
+      status: 'paused',
+      error: 'Interrupted during non-idempotent step(s): charge',
+    });
+
+    // The operator decides to continue
+    const completed = new Promise((resolve) => engine.once('workflow-completed', resolve));
+    expect(await engine.resumeWorkflow('workflow-crashed')).toEqual({ success: true });
+    await completed;
+    expect(calls.map((call) => call.step)).toEqual(['charge', 'ship']);
+  });
+});
+
+describe('WorkflowEngine shutdown', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'workflow-shutdown-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('lets the running step finish, checkpoints the rest and resumes it on the next start', async () => {
+    const calls: string[] = [];
+    let finishCharge!: () => void;
+    const options = { persistWorkflows: true, persistencePath: directory };
+    const definition = {
+      name: 'order',
+      steps: [
+        { id: 'charge', type: 'charge' },
+        { id: 'ship', type: 'record' },
+      ],
+    };
+
+    const engine = new WorkflowEngine({ ...options, autoResume: false });
+    await engine.initialize();
+    engine.registerStepHandler('charge', async () => {
+      calls.push('charge');
+      await new Promise<void>((resolve) => (finishCharge = resolve));
+      return 'charged';
+    });
+    engine.registerStepHandler('record', async () => {
+      calls.push('ship');
+      return 'shipped';
+    });
+    const charging = new Promise((resolve) => engine.once('step-started', resolve));
+    const { workflowId } = await engine.startWorkflow(definition);
+    await charging;
+
+    // Charging outlasts everything else shutdown() has to do
+    setTimeout(() => finishCharge(), 50);
+    await engine.shutdown();
+
+    expect(calls).toEqual(['charge']);
+    const checkpoint = await new WorkflowCheckpointStore(directory).load(workflowId!);
+    expect(checkpoint!.state).toMatchObject({
+      status: 'running',
+      stepResults: { charge: 'charged' },
+      inFlightSteps: {},
+    });
+    expect(checkpoint!.state.error).toBeUndefined();
+
+    const restarted = new WorkflowEngine({ ...options, autoResume: false });
+    await restarted.initialize();
+    restarted.registerStepHandler('record', async () => {
+      calls.push('ship');
+      return 'shipped';
+    });
+    const completed = new Promise((resolve) => restarted.once('workflow-completed', resolve));
+    expect(await restarted.resumePersistedWorkflows()).toEqual([workflowId]);
+    await completed;
+    await restarted.shutdown();
+
+    expect(calls).toEqual(['charge', 'ship']);
+    expect((await new WorkflowCheckpointStore(directory).load(workflowId!))!.state).toMatchObject({
+      status: 'completed',
+      stepResults: { charge: 'charged', ship: 'shipped' },
+    });
+  });
+});
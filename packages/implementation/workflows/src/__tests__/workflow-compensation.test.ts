@@ -0,0 +1,95 @@
+/**
+ * Workflow Compensation Tests.
+ *
+ * Covers saga-style rollback: compensations run for completed steps in
+ * reverse completion order, a failing compensation does not stop the rest,
+ * and outcomes are recorded on the workflow.
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { WorkflowEngine, type WorkflowStep } from '../engine';
+
+describe('WorkflowEngine compensation', () => {
+  let engine: WorkflowEngine;
+  const log: string[] = [];
+
+  const runUntilFailed = async (steps: WorkflowStep[]) => {
+    const failed = new Promise<void>((resolve) => engine.once('workflow-failed', () => resolve()));
+    const compensated = new Promise<string>((resolve) =>
+      engine.once('workflow-compensated', (_id: string, status: string) => resolve(status))
+    );
+    await engine.startWorkflow({ name: 'saga', steps });
+    await failed;
+    return compensated;
+  };
+
+  beforeEach(() => {
+    log.length = 0;
+    engine = new WorkflowEngine({ retryDelay: 1 });
+    engine.registerStepHandler('do', async (_context, params) => {
+      log.push(`do:${(params as { name: string }).name}`);
+      await new Promise((resolve) => setTimeout(resolve, (params as { delay?: number }).delay ?? 0));
+      return (params as { name: string }).name;
+    });
+    engine.registerStepHandler('undo', async (context, params) => {
+      const { name, fail } = params as { name: string; fail?: boolean };
+      log.push(`undo:${name}`);
+      expect((context['compensating'] as { result: unknown }).result).toBe(name);
+      if (fail) throw new Error(`cannot undo ${name}`);
+    });
+    engine.registerStepHandler('fail', async () => {
+      log.push('fail');
+      throw new Error('payment declined');
+    });
+  });
+
+  afterEach(async () => {
+    await engine.shutdown();
+  });
+
+  const step = (name: string, extra: Partial<WorkflowStep> = {}): WorkflowStep => ({
+    id: name,
+    type: 'do',
+    params: { name },
+    compensate: { type: 'undo', params: { name } },
+    ...extra,
+  });
+
+  it('undoes completed steps in reverse order when a later step fails', async () => {
+    const status = await runUntilFailed([
+      step('reserve'),
+      step('notify', { compensate: undefined }),
+      step('charge'),
+      { id: 'ship', type: 'fail', compensate: { type: 'undo', params: { name: 'ship' } } },
+    ]);
+
+    expect(status).toBe('completed');
+    expect(log).toEqual(['do:reserve', 'do:notify', 'do:charge', 'fail', 'undo:charge', 'undo:reserve']);
+  });
+
+  it('keeps compensating after a compensation fails and reports partial', async () => {
+    const failures: string[] = [];
+    engine.on('compensation-failed', (_id: string, stepId: string) => failures.push(stepId));
+
+    const status = await runUntilFailed([
+      step('reserve'),
+      step('charge', { compensate: { type: 'undo', params: { name: 'charge', fail: true } } }),
+      { id: 'ship', type: 'fail' },
+    ]);
+
+    expect(status).toBe('partial');
+    expect(failures).toEqual(['charge']);
+    expect(log.slice(-2)).toEqual(['undo:charge', 'undo:reserve']);
+  });
+
+  it('follows completion order, not declaration order, in DAG workflows', async () => {
+    await runUntilFailed([
+      step('slow', { dependsOn: [], params: { name: 'slow', delay: 20 } }),
+      step('fast', { dependsOn: [] }),
+      { id: 'ship', type: 'fail', dependsOn: ['slow', 'fast'] },
+    ]);
+
+    expect(log.slice(-2)).toEqual(['undo:slow', 'undo:fast']);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Workflow Definition Loader Tests.
+ *
+ * Covers parsing valid YAML/JSON definitions, line-numbered validation
+ * errors, and reloading definition files when they change on disk.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { WorkflowDefinition } from '../engine';
+import {
+  parseWorkflowDefinition,
+  WorkflowDefinitionError,
+  WorkflowDefinitionLoader,
+} from '../workflow-definition-loader';
+
+const RELEASE_YAML = `name: release
+steps:
+  - id: build
+    type: shell
+    retries: 2
+    output: artifact
+  - id: gate
+    type: condition
+    dependsOn: [build]
+    params:
+      condition: artifact.size < 50000000
+      thenStep: { type: publish }
+`;
+
+const parseError = (source: string, file: string): WorkflowDefinitionError => {
+  try {
+    parseWorkflowDefinition(source, file);
+  } catch (error) {
+    expect(error).toBeInstanceOf(WorkflowDefinitionError);
+    return error as WorkflowDefinitionError;
+  }
+  throw new Error('Expected the definition to be rejected');
+};
+
+describe('parseWorkflowDefinition', () => {
+  it('parses a valid YAML definition and applies schema defaults', () => {
+    const definition = parseWorkflowDefinition(RELEASE_YAML, 'release.yaml');
+
+    expect(definition.name).toBe('release');
+    expect(definition.steps.map((step) => step.id)).toEqual(['build', 'gate']);
+    expect(definition.steps[1]).toMatchObject({
+      dependsOn: ['build'],
+      params: { thenStep: { type: 'publish' } },
+      retries: 0,
+      onError: 'stop',
+    });
+  });
+
+  it('parses JSON definitions through the same parser', () => {
+    const definition = parseWorkflowDefinition(
+      JSON.stringify({ name: 'json-flow', steps: [{ type: 'delay', params: { duration: 5 } }] }),
+      'flow.json'
+    );
+
+    expect(definition.steps[0]?.params).toEqual({ duration: 5 });
+  });
+
+  it('reports schema violations with line and column', () => {
+    const error = parseError(
+      `name: broken
+steps:
+  - id: build
+    type: shell
+    timeout: 5
+`,
+      'broken.yaml'
+    );
+
+    expect(error.file).toBe('broken.yaml');
+    expect(error.issues).toEqual([
+      expect.objectContaining({ path: 'steps.0.timeout', line: 5, column: 14 }),
+    ]);
+    expect(error.message).toMatch(/^broken\.yaml:5:14: .+ \(at steps\.0\.timeout\)$/);
+  });
+
+  it('reports syntax errors, bad expressions and cycles', () => {
+    expect(parseError('name: [unclosed\n', 'syntax.yaml').issues[0]).toMatchObject({
+      path: '',
+      line: expect.any(Number),
+    });
+
+    const expression = parseError(
+      `name: gate
+steps:
+  - type: condition
+    params:
+      condition: "a >"
+`,
+      'gate.yaml'
+    );
+    expect(expression.issues).toEqual([
+      expect.objectContaining({ path: 'steps.0.params.condition', line: 5, column: 18 }),
+    ]);
+
+    const cycle = parseError(
+      `name: loop
+steps:
+  - { id: a, type: delay, dependsOn: [b] }
+  - { id: b, type: delay, dependsOn: [a] }
+`,
+      'loop.yaml'
+    );
+    expect(cycle.issues[0]).toMatchObject({ path: 'steps', line: 3 });
+    expect(cycle.message).toContain('cycle');
+  });
+});
+
+describe('WorkflowDefinitionLoader', () => {
+  let directory: string;
+  let loader: WorkflowDefinitionLoader;
+  const loaded: WorkflowDefinition[] = [];
+  const listener = {
+    onLoaded: vi.fn((definition: WorkflowDefinition) => {
+      loaded.push(definition);
+    }),
+    onRemoved: vi.fn(),
+    onError: vi.fn(),
+  };
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'workflow-definitions-'));
+    loaded.length = 0;
+    vi.clearAllMocks();
+    loader = new WorkflowDefinitionLoader(directory, listener);
+  });
+
+  afterEach(() => {
+    loader.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('loads valid files and reports invalid ones', async () => {
+    writeFileSync(join(directory, 'release.yaml'), RELEASE_YAML);
+    writeFileSync(join(directory, 'broken.json'), '{"name": "broken", "steps": []}');
+    writeFileSync(join(directory, 'notes.txt'), 'not a definition');
+
+    expect(await loader.loadAll()).toEqual(['release']);
+    expect(listener.onError).toHaveBeenCalledOnce();
+    expect(listener.onError.mock.calls[0]![0].message).toMatch(/^broken\.json:1:\d+: /);
+  });
+
+  it('returns nothing when the directory does not exist', async () => {
+    const missing = new WorkflowDefinitionLoader(join(directory, 'missing'), listener);
+    expect(await missing.loadAll()).toEqual([]);
+  });
+
+  it('reloads changed files and unregisters deleted ones', async () => {
+    const file = join(directory, 'release.yaml');
+    writeFileSync(file, RELEASE_YAML);
+    await loader.loadAll();
+    loader.watch();
+
+    writeFileSync(file, RELEASE_YAML.replace('retries: 2', 'retries: 3'));
+    await vi.waitFor(() => expect(loaded).toHaveLength(2), { timeout: 2000 });
+    expect(loaded[1]!.steps[0]!.retries).toBe(3);
+
+    // An invalid edit keeps the last good definition registered
+    writeFileSync(file, 'name: release\nsteps: []\n');
+    await vi.waitFor(() => expect(listener.onError).toHaveBeenCalledOnce(), { timeout: 2000 });
+    expect(listener.onRemoved).not.toHaveBeenCalled();
+
+    rmSync(file);
+    await vi.waitFor(
+      () => expect(listener.onRemoved).toHaveBeenCalledWith('release', 'release.yaml'),
+      { timeout: 2000 }
+    );
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Workflow Step Graph Tests.
+ *
+ * Covers dependency ordering, cycle and unknown-dependency rejection, join
+ * point inputs, and bounded parallel execution in the WorkflowEngine.
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import { WorkflowEngine, type WorkflowDefinition } from '../engine';
+import { buildWorkflowGraph, mergeStepResults } from '../workflow-graph';
+
+const waitForEnd = (engine: WorkflowEngine, workflowId: string) =>
+  new Promise<string>((resolve) => {
+    engine.on('workflow-completed', (id: string) => id === workflowId && resolve('completed'));
+    engine.on('workflow-failed', (id: string) => id === workflowId && resolve('failed'));
+  });
+
+describe('buildWorkflowGraph', () => {
+  it('chains steps sequentially when no step declares dependsOn', () => {
+    const graph = buildWorkflowGraph([{ type: 'a' }, { type: 'b' }, { id: 'last', type: 'c' }]);
+
+    expect(graph.parallel).toBe(false);
+    expect(graph.order).toEqual(['step-0', 'step-1', 'last']);
+    expect(graph.nodes.get('last')!.dependsOn).toEqual(['step-1']);
+  });
+
+  it('orders dependencies before dependents, keeping declaration order', () => {
+    const graph = buildWorkflowGraph([
+      { id: 'report', type: 'x', dependsOn: ['lint', 'test'] },
+      { id: 'test', type: 'x', dependsOn: ['build'] },
+      { id: 'lint', type: 'x', dependsOn: [] },
+      { id: 'build', type: 'x' },
+    ]);
+
+    expect(graph.parallel).toBe(true);
+    expect(graph.order).toEqual(['lint', 'build', 'test', 'report']);
+    expect(graph.nodes.get('build')!.dependents).toEqual(['test']);
+  });
+
+  it('rejects cycles, self-dependencies, unknown steps and duplicate ids', () => {
+    expect(() =>
+      buildWorkflowGraph([
+        { id: 'a', type: 'x', dependsOn: ['c'] },
+        { id: 'b', type: 'x', dependsOn: ['a'] },
+        { id: 'c', type: 'x', dependsOn: ['b'] },
+        { id: 'd', type: 'x' },
+      ])
+    ).toThrow('Workflow steps form a cycle: a, b, c');
+    expect(() => buildWorkflowGraph([{ id: 'a', type: 'x', dependsOn: ['a'] }])).toThrow(
+      "Workflow step 'a' depends on itself"
+    );
+    expect(() => buildWorkflowGraph([{ id: 'a', type: 'x', dependsOn: ['missing'] }])).toThrow(
+      "Workflow step 'a' depends on unknown step 'missing'"
+    );
+    expect(() => buildWorkflowGraph([{ id: 'a', type: 'x' }, { id: 'a', type: 'y' }])).toThrow(
+      'Duplicate workflow step id: a'
+    );
+  });
+});
+
+describe('mergeStepResults', () => {
+  it('shallow-merges object results in dependency order and keys other values by step', () => {
+    expect(
+      mergeStepResults(['a', 'b', 'c'], {
+        a: { shared: 1, fromA: true },
+        b: { shared: 2 },
+        c: [1, 2],
+      })
+    ).toEqual({ shared: 2, fromA: true, c: [1, 2] });
+  });
+});
+
+describe('WorkflowEngine DAG execution', () => {
+  it('runs independent branches in parallel up to maxConcurrency and joins their results', async () => {
+    const engine = new WorkflowEngine({ retryDelay: 1 });
+    const started: string[] = [];
+    let running = 0;
+    let peak = 0;
+    let joinContext: Record<string, unknown> | undefined;
+
+    engine.registerStepHandler('work', async (_context, params) => {
+      const { name } = params as { name: string };
+      started.push(name);
+      peak = Math.max(peak, ++running);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      running--;
+      return { [name]: true };
+    });
+    engine.registerStepHandler('join', async (context) => {
+      joinContext = context;
+      return 'joined';
+    });
+
+    const definition: WorkflowDefinition = {
+      name: 'fan-out',
+      maxConcurrency: 2,
+      steps: [
+        { id: 'fetch', type: 'work', params: { name: 'fetch' }, dependsOn: [] },
+        { id: 'a', type: 'work', params: { name: 'a' }, dependsOn: ['fetch'] },
+        { id: 'b', type: 'work', params: { name: 'b' }, dependsOn: ['fetch'] },
+        { id: 'c', type: 'work', params: { name: 'c' }, dependsOn: ['fetch'] },
+        { id: 'merge', type: 'join', dependsOn: ['a', 'b', 'c'] },
+      ],
+    };
+
+    const { workflowId } = await engine.startWorkflow(definition);
+    expect(await waitForEnd(engine, workflowId!)).toBe('completed');
+
+    expect(started).toEqual(['fetch', 'a', 'b', 'c']);
+    expect(peak).toBe(2);
+    expect(joinContext!['mergedInputs']).toEqual({ a: true, b: true, c: true });
+    expect(Object.keys(joinContext!['stepInputs'] as object)).toEqual(['a', 'b', 'c']);
+    await engine.shutdown();
+  });
+
+  it('rejects a cyclic workflow before running any step', async () => {
+    const engine = new WorkflowEngine();
+    let ran = false;
+    engine.registerStepHandler('work', async () => {
+      ran = true;
+    });
+
+    await expect(
+      engine.startWorkflow({
+        name: 'cyclic',
+        steps: [
+          { id: 'a', type: 'work', dependsOn: ['b'] },
+          { id: 'b', type: 'work', dependsOn: ['a'] },
+        ],
+      })
+    ).rejects.toThrow('Workflow steps form a cycle: a, b');
+    expect(ran).toBe(false);
+    await engine.shutdown();
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Event-Triggered Workflow Tests.
+ *
+ * Covers trigger filters, debouncing, context mapping and late-registered
+ * sources in the trigger manager, and trigger registration through the
+ * WorkflowEngine.
+ */
+
+import { EventEmitter } from 'node:events';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { WorkflowEngine, type WorkflowContext, type WorkflowDefinition } from '../engine';
+import { WorkflowTriggerManager, type WorkflowTrigger } from '../workflow-triggers';
+
+describe('WorkflowTriggerManager', () => {
+  let kanban: EventEmitter;
+  let started: Array<{ trigger: WorkflowTrigger; context: WorkflowContext }>;
+  let manager: WorkflowTriggerManager;
+
+  beforeEach(() => {
+    kanban = new EventEmitter();
+    started = [];
+    manager = new WorkflowTriggerManager(async (trigger, context) => {
+      started.push({ trigger, context });
+    });
+    manager.registerSource('kanban', kanban);
+  });
+
+  afterEach(() => {
+    manager.clear();
+    vi.useRealTimers();
+  });
+
+  it('filters payloads with expressions and maps fields into the context', () => {
+    manager.add({
+      id: 'review',
+      workflow: 'code-review',
+      event: 'task:moved',
+      source: 'kanban',
+      argNames: ['taskId', 'fromState', 'toState'],
+      filter: 'toState == "review"',
+      mapping: { taskId: 'taskId', previousState: 'fromState' },
+      context: { priority: 'normal' },
+    });
+
+    kanban.emit('task:moved', 'task-1', 'development', 'testing');
+    kanban.emit('task:moved', 'task-2', 'development', 'review');
+
+    expect(started).toHaveLength(1);
+    expect(started[0]!.context).toMatchObject({
+      priority: 'normal',
+      taskId: 'task-2',
+      previousState: 'development',
+      trigger: { id: 'review', event: 'task:moved', source: 'kanban' },
+    });
+    expect(manager.list()[0]).toMatchObject({ bound: true, fired: 1 });
+  });
+
+  it('matches object filters by payload path', () => {
+    manager.add({
+      id: 'done',
+      workflow: 'release',
+      event: 'task.completed',
+      source: 'kanban',
+      filter: { 'task.priority': 'high' },
+    });
+
+    kanban.emit('task.completed', { task: { priority: 'low' } });
+    kanban.emit('task.completed', { task: { priority: 'high' } });
+
+    expect(started).toHaveLength(1);
+  });
+
+  it('debounces bursts per key and starts with the latest payload', () => {
+    vi.useFakeTimers();
+    manager.add({
+      id: 'sync',
+      workflow: 'sync',
+      event: 'task:updated',
+      source: 'kanban',
+      debounceMs: 500,
+      debounceKey: 'taskId',
+      mapping: { revision: 'revision' },
+    });
+
+    kanban.emit('task:updated', { taskId: 'a', revision: 1 });
+    vi.advanceTimersByTime(300);
+    kanban.emit('task:updated', { taskId: 'a', revision: 2 });
+    kanban.emit('task:updated', { taskId: 'b', revision: 1 });
+    vi.advanceTimersByTime(499);
+    expect(started).toHaveLength(0);
+
+    vi.advanceTimersByTime(1);
+    expect(started.map(({ context }) => context['revision'])).toEqual([2, 1]);
+  });
+
+  it('binds triggers once their source is registered and honours enabled', () => {
+    const later = new EventEmitter();
+    manager.add({ id: 'late', workflow: 'late', event: 'ping', source: 'later' });
+    expect(manager.list()[0]!.bound).toBe(false);
+
+    manager.registerSource('later', later);
+    later.emit('ping', {});
+    manager.setEnabled('late', false);
+    later.emit('ping', {});
+
+    expect(started).toHaveLength(1);
+    expect(later.listenerCount('ping')).toBe(0);
+  });
+
+  it('rejects filters that do not parse', () => {
+    expect(() =>
+      manager.add({ id: 'bad', workflow: 'x', event: 'ping', filter: 'a >' })
+    ).toThrow(/^Invalid filter for trigger bad/);
+  });
+});
+
+describe('WorkflowEngine triggers', () => {
+  let engine: WorkflowEngine;
+  let kanban: EventEmitter;
+
+  const definition: WorkflowDefinition = {
+    name: 'on-review',
+    steps: [{ type: 'noop' }],
+    triggers: [{ event: 'task:review', source: 'kanban' }],
+  };
+
+  beforeEach(() => {
+    engine = new WorkflowEngine();
+    kanban = new EventEmitter();
+    engine.registerStepHandler('noop', async () => 'ok');
+    engine.registerTriggerSource('kanban', kanban);
+  });
+
+  afterEach(async () => {
+    await engine.shutdown();
+  });
+
+  it('registers triggers once per definition however many instances are created', async () => {
+    await engine.createWorkflow(definition);
+    await engine.createWorkflow(definition);
+
+    expect(engine.getEventTriggers()).toEqual([
+      expect.objectContaining({ id: 'on-review:task:review:0', workflow: 'on-review' }),
+    ]);
+    expect(kanban.listenerCount('task:review')).toBe(1);
+
+    const started = vi.fn();
+    engine.on('triggered-workflow-started', started);
+    kanban.emit('task:review', { taskId: 't-1' });
+
+    await vi.waitFor(() => expect(started).toHaveBeenCalledOnce());
+    expect(started.mock.calls[0]![0]).toBe('on-review');
+  });
+
+  it('replaces and removes triggers with their definition', async () => {
+    await engine.registerWorkflowDefinition(definition.name, definition);
+    await engine.registerWorkflowDefinition(definition.name, {
+      ...definition,
+      triggers: [{ id: 'moved', event: 'task:moved', source: 'kanban' }],
+    });
+
+    expect(engine.getEventTriggers().map((trigger) => trigger.id)).toEqual(['moved']);
+    expect(kanban.listenerCount('task:review')).toBe(0);
+
+    engine.unregisterWorkflowDefinition(definition.name);
+    expect(engine.getEventTriggers()).toEqual([]);
+    expect(kanban.listenerCount('task:moved')).toBe(0);
+  });
+});
@@ -12,7 +12,6 @@
 
 import {
   getLogger,
-  getKVStore,
   getGlobalLLM,
   injectable,
   singleton,
@@ -46,7 +45,6 @@ const logger = getLogger('WorkflowEngine');
  * Replaced custom implementations with reliable, optimized solutions.
  */
 
-import { mkdir } from 'node:fs/promises';
 import { Parser } from 'expr-eval';
 import * as async from 'async';
 import pLimit from 'p-limit';
@@ -54,6 +52,27 @@ import { createMachine, createActor, type ActorRef } from 'xstate';
 // Mermaid will be imported dynamically when needed
 import * as cron from 'node-cron';
 
+import {
+  buildWorkflowGraph,
+  mergeStepResults,
+  resolveStepId,
+  type WorkflowGraph,
+  type WorkflowGraphNode,
+} from './workflow-graph';
+import { WorkflowCheckpointStore } from './workflow-checkpoint-store';
+import {
+  DEFAULT_TRIGGER_SOURCE,
+  WorkflowTriggerManager,
+  type WorkflowTrigger,
+  type WorkflowTriggerDefinition,
+  type WorkflowTriggerSource,
+  type WorkflowTriggerStatus,
+} from './workflow-triggers';
+import {
+  WorkflowDefinitionLoader,
+  type WorkflowDefinitionError,
+} from './workflow-definition-loader';
+
 export interface WorkflowStep {
   id?: string;
   type: string;
@@ -63,6 +82,38 @@ export interface WorkflowStep {
   timeout?: number;
   output?: string;
   onError?: 'stop|continue|skip';
+  /**
+   * Idempotency key handed to the step handler. Defaults to
+   * `<workflowId>:<stepId>`, which stays stable across crash and resume.
+   */
+  idempotencyKey?: string;
+  /**
+   * Ids of steps that must finish first. Declaring it on any step turns the
+   * workflow into a DAG; steps without it then start immediately.
+   */
+  dependsOn?: string[];
+  /**
+   * Step that undoes this one. When a later step fails, compensations of
+   * completed steps run in reverse completion order.
+   */
+  compensate?: WorkflowCompensation;
+}
+
+export interface WorkflowCompensation {
+  type: string;
+  params?: Record<string, unknown>;
+  retries?: number;
+  timeout?: number;
+}
+
+/**
+ * Outcome of one compensation, recorded in `WorkflowState.completedSteps`.
+ */
+export interface CompensationOutcome {
+  /** Id of the forward step being undone */
+  stepId: string;
+  status: 'compensated' | 'failed';
+  error?: string;
 }
 
 export interface WorkflowDefinition {
@@ -70,12 +121,47 @@ export interface WorkflowDefinition {
   steps: WorkflowStep[];
   description?: string;
   version?: string;
+  /** Maximum steps running at once in a DAG workflow */
+  maxConcurrency?: number;
+  /** Events that start this workflow automatically */
+  triggers?: WorkflowTriggerDefinition[];
 }
 
 export interface WorkflowContext {
   [key: string]: unknown;
 }
 
+/**
+ * Per-execution details passed to step handlers.
+ */
+export interface StepExecutionMeta {
+  workflowId: string;
+  stepId: string;
+  /**
+   * Stable across retries and process restarts; handlers with side effects
+   * should use it to detect that they already performed the work.
+   */
+  idempotencyKey: string;
+  attempt: number;
+  /** True when the step was in flight when the previous process stopped */
+  resumed: boolean;
+}
+
+export type StepHandler = (
+  context: WorkflowContext,
+  params: unknown,
+  meta?: StepExecutionMeta
+) => Promise<unknown>;
+
+export interface StepHandlerOptions {
+  /**
+   * Whether re-running an interrupted step is safe (default true). A workflow
+   * whose non-idempotent step was in flight during a crash is left paused
+   * instead of resumed, so an operator can decide.
+   */
+  idempotent?: boolean;
+}
+
 export interface DocumentContent {
   id: string;
   type: string;
@@ -107,13 +193,27 @@ export interface WorkflowState {
   currentStep: number;
   steps: WorkflowStep[];
   stepResults: Record<string, unknown>;
+  /** Steps currently executing (several at once in a DAG workflow) */
+  activeSteps?: string[];
+  /** Steps started but not yet finished, keyed by step id (checkpointed) */
+  inFlightSteps?: Record<
+    string,
+    { idempotencyKey: string; attempt: number; startedAt: string }
+  >;
+  /** Step ids that were in flight when the workflow was rehydrated */
+  interruptedSteps?: string[];
   completedSteps: Array<{
     index: number;
+    stepId?: string;
     step: WorkflowStep;
     result: unknown;
     duration: number;
     timestamp: string;
+    /** Present on entries recording a compensation rather than a forward step */
+    compensation?: CompensationOutcome;
   }>;
+  /** Set once a failed workflow has run its compensations */
+  compensationStatus?: 'completed' | 'partial';
   startTime: string;
   endTime?: string;
   pausedAt?: string;
@@ -128,6 +228,14 @@ export interface WorkflowEngineConfig {
   retryDelay?: number;
   enableVisualization?: boolean;
   enableAdvancedOrchestration?: boolean;
+  /** Default per-workflow step concurrency for DAG workflows */
+  maxStepConcurrency?: number;
+  /** Resume rehydrated `running` workflows after initialize() (default true) */
+  autoResume?: boolean;
+  /** Directory of YAML/JSON workflow definitions to load ('' to disable) */
+  definitionsPath?: string;
+  /** Reload definition files when they change (default true) */
+  watchDefinitions?: boolean;
 }
 
 @injectable()
@@ -137,12 +245,17 @@ export class WorkflowEngine extends TypedEventBase {
   private activeWorkflows = new Map<string, WorkflowState>();
   private workflowMetrics = new Map<string, any>();
   private workflowDefinitions = new Map<string, WorkflowDefinition>();
-  private stepHandlers = new Map<
-    string,
-    (context: WorkflowContext, params: unknown) => Promise<unknown>
-  >();
+  private stepHandlers = new Map<string, StepHandler>();
+  private stepHandlerOptions = new Map<string, StepHandlerOptions>();
   private isInitialized = false;
-  private kvStore: any; // Battle-tested foundation storage
+  private isStopping = false;
+  private executions = new Set<Promise<void>>(); // Awaited on shutdown
+  private pendingRecovery = new Set<string>();
+  private checkpointStore?: WorkflowCheckpointStore; // Crash-safe workflow checkpoints
+  private definitionLoader?: WorkflowDefinitionLoader; // YAML/JSON definitions
+  private eventTriggers = new WorkflowTriggerManager((trigger, context) =>
+    this.startTriggeredWorkflow(trigger, context)
+  ); // Event-triggered workflow starts
   private workflowStateMachines = new Map<string, ActorRef<any, any>>(); // XState state machines
   private scheduledTasks = new Map<string, cron.ScheduledTask>(); // node-cron scheduled tasks
 
@@ -182,34 +295,83 @@ export class WorkflowEngine extends TypedEventBase {
         config.enableAdvancedOrchestration === undefined
           ? true
           : config?.enableAdvancedOrchestration,
+      maxStepConcurrency:
+        config.maxStepConcurrency === undefined
+          ? 4
+          : config?.maxStepConcurrency,
+      autoResume:
+        config.autoResume === undefined ? true : config?.autoResume,
+      definitionsPath:
+        config.definitionsPath === undefined ? '' : config?.definitionsPath,
+      watchDefinitions:
+        config.watchDefinitions === undefined
+          ? true
+          : config?.watchDefinitions,
     };
 
     // Enhanced capabilities
     this.documentManager = documentManager;
     this.memory = memoryFactory;
 
-    // Initialize KV store
-    this.kvStore = getKVStore('workflows');
+    if (this.config.persistWorkflows) {
+      this.checkpointStore = new WorkflowCheckpointStore(
+        this.config.persistencePath
+      );
+    }
   }
 
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
-
-    // Create persistence directory
-    if (this.config.persistWorkflows) {
-      await mkdir(this.config.persistencePath, { recursive: true });
-    }
+    this.isStopping = false;
 
     // Register built-in step handlers
     this.registerBuiltInHandlers();
 
-    // Load persisted workflows
-    if (this.config.persistWorkflows) {
+    // Event triggers listen on the UEL unless they name another source
+    await this.registerDefaultTriggerSource();
+
+    // Rehydrate checkpointed workflows
+    if (this.checkpointStore) {
+      await this.checkpointStore.open();
       await this.loadPersistedWorkflows();
     }
 
+    // Load declarative workflow definitions
+    if (this.config.definitionsPath) {
+      this.definitionLoader = new WorkflowDefinitionLoader(
+        this.config.definitionsPath,
+        {
+          onLoaded: async (definition, file) => {
+            await this.registerWorkflowDefinition(definition.name, definition);
+            this.emit('definition-loaded', definition.name, file);
+          },
+          onRemoved: (name, file) => {
+            this.unregisterWorkflowDefinition(name);
+            this.emit('definition-removed', name, file);
+          },
+          onError: (error: WorkflowDefinitionError) => {
+            this.emit('definition-error', error.file, error.issues);
+          },
+        }
+      );
+      await this.definitionLoader.loadAll();
+      if (this.config.watchDefinitions) {
+        this.definitionLoader.watch();
+      }
+    }
+
     this.isInitialized = true;
     this.emit('initialized', { timestamp: new Date() });
+
+    // Resume on the next tick so handlers registered right after
+    // initialize() are in place before interrupted steps run again
+    if (this.checkpointStore && this.config.autoResume) {
+      setImmediate(() => {
+        this.resumePersistedWorkflows().catch((error) => {
+          logger.error('[WorkflowEngine] Failed to resume workflows:', error);
+        });
+      });
+    }
   }
 
   private createWorkflowStateMachine(workflowId: string) {
@@ -360,21 +522,24 @@ export class WorkflowEngine extends TypedEventBase {
 
   registerStepHandler(
     type: string,
-    handler: (context: WorkflowContext, params: unknown) => Promise<unknown>
+    handler: StepHandler,
+    options: StepHandlerOptions = {}
   ): void {
     this.stepHandlers.set(type, handler);
+    this.stepHandlerOptions.set(type, options);
   }
 
   async executeStep(
     step: WorkflowStep,
-    context: WorkflowContext
+    context: WorkflowContext,
+    meta?: StepExecutionMeta
   ): Promise<unknown> {
     const handler = this.stepHandlers.get(step.type);
     if (!handler) {
       throw new Error(`No handler registered for step type: ${step.type}`);
     }
 
-    return await handler(context, step.params||{});
+    return await handler(context, step.params||{}, meta);
   }
 
   private evaluateCondition(
@@ -440,45 +605,138 @@ export class WorkflowEngine extends TypedEventBase {
     return data;
   }
 
+  /**
+   * Register the UEL as the `uel` trigger source. The event system is
+   * loaded here rather than on import, so the engine still runs when it
+   * cannot be loaded; triggers on `uel` then stay unbound until a source is
+   * registered under that name.
+   */
+  private async registerDefaultTriggerSource(): Promise<void> {
+    try {
+      const { uel } = await import('@claude-zen/event-system');
+      this.eventTriggers.registerSource(DEFAULT_TRIGGER_SOURCE, uel);
+    } catch (error) {
+      logger.warn(
+        `[WorkflowEngine] Event system unavailable, '${DEFAULT_TRIGGER_SOURCE}' triggers stay unbound:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Rehydrate `running` and `paused` workflows from their checkpoints.
+   * Whether an interrupted workflow may run again is decided later, in
+   * resumePersistedWorkflows(), once step handlers are registered.
+   */
   private async loadPersistedWorkflows(): Promise<void> {
     try {
-      // Use foundation storage instead of file system
-      const kvStore = await this.kvStore;
-      const workflowKeys = await kvStore.keys('workflow:*');
-
-      for (const key of workflowKeys) {
-        const workflowData = await kvStore.get(key);
-        if (
-          workflowData &&
-          (workflowData.status === 'running'||workflowData.status ==='paused')
-        ) {
-          this.activeWorkflows.set(workflowData.id, workflowData);
+      const checkpoints = await this.checkpointStore!.loadAll();
+      let rehydrated = 0;
+
+      for (const { state: workflow, revision } of checkpoints) {
+        if (workflow.status !== 'running' && workflow.status !== 'paused') {
+          continue;
+        }
+
+        const interrupted = Object.keys(workflow.inFlightSteps ?? {});
+        workflow.interruptedSteps = interrupted;
+        workflow.inFlightSteps = {};
+        workflow.activeSteps = [];
+
+        const status = workflow.status;
+        this.activeWorkflows.set(workflow.id, workflow);
+        const stateMachine = this.createWorkflowStateMachine(workflow.id);
+        stateMachine.send({ type: 'START' });
+        if (status === 'paused') {
+          stateMachine.send({ type: 'PAUSE' });
         }
+        this.workflowStateMachines.set(workflow.id, stateMachine);
+        if (status === 'running') {
+          this.pendingRecovery.add(workflow.id);
+        }
+        rehydrated++;
+
+        logger.info(
+          `[WorkflowEngine] Rehydrated workflow ${workflow.id} (${workflow.status}, revision ${revision}, ${Object.keys(workflow.stepResults).length}/${workflow.steps.length} steps done)`
+        );
       }
 
       logger.info(
-        `[WorkflowEngine] Loaded ${workflowKeys.length} persisted workflows from storage`
+        `[WorkflowEngine] Rehydrated ${rehydrated} of ${checkpoints.length} checkpointed workflows`
       );
     } catch (error) {
       logger.error(
-        '[WorkflowEngine] Failed to load persisted workflows from storage:',
+        '[WorkflowEngine] Failed to load workflow checkpoints:',
         error
       );
     }
   }
 
+  /**
+   * Continue every rehydrated workflow that is still `running`, from its
+   * last completed step. A workflow interrupted inside a step whose handler
+   * is registered as non-idempotent is paused instead, so an operator can
+   * decide. Called automatically after initialize() unless `autoResume` is
+   * false; call it yourself after registering handlers otherwise.
+   */
+  async resumePersistedWorkflows(): Promise<string[]> {
+    const resumed: string[] = [];
+    for (const workflowId of [...this.pendingRecovery]) {
+      this.pendingRecovery.delete(workflowId);
+      const workflow = this.activeWorkflows.get(workflowId);
+      if (workflow?.status !== 'running') {
+        continue;
+      }
+
+      const unsafe = this.nonIdempotentSteps(
+        workflow,
+        workflow.interruptedSteps ?? []
+      );
+      if (unsafe.length > 0) {
+        workflow.error = `Interrupted during non-idempotent step(s): ${unsafe.join(', ')}`;
+        workflow.pausedAt = DateFormatter.formatISOString();
+        this.workflowStateMachines.get(workflow.id)?.send({ type: 'PAUSE' });
+        workflow.status = 'paused';
+        await this.saveWorkflow(workflow);
+        this.emit('workflow-resume-blocked', workflow.id, unsafe);
+        continue;
+      }
+
+      resumed.push(workflow.id);
+      this.executeWorkflow(workflow).catch((error) => {
+        logger.error(
+          `[WorkflowEngine] Workflow ${workflow.id} failed after recovery:`,
+          error
+        );
+      });
+      this.emit('workflow-recovered', workflow.id);
+    }
+    return resumed;
+  }
+
+  private nonIdempotentSteps(
+    workflow: WorkflowState,
+    stepIds: string[]
+  ): string[] {
+    return stepIds.filter((stepId) => {
+      const step = workflow.steps.find(
+        (candidate, index) => resolveStepId(candidate, index) === stepId
+      );
+      return (
+        step && this.stepHandlerOptions.get(step.type)?.idempotent === false
+      );
+    });
+  }
+
   private async saveWorkflow(workflow: WorkflowState): Promise<void> {
-    if (!this.config.persistWorkflows) return;
+    if (!this.checkpointStore) return;
 
     try {
-      // Use foundation storage with structured key
-      const storageKey = `workflow:${workflow.id}`;
-      const kvStore = await this.kvStore;
-      await kvStore.set(storageKey, workflow);
-      logger.debug(`[WorkflowEngine] Saved workflow ${workflow.id} to storage`);
+      await this.checkpointStore.save(workflow);
+      logger.debug(`[WorkflowEngine] Checkpointed workflow ${workflow.id}`);
     } catch (error) {
       logger.error(
-        `[WorkflowEngine] Failed to save workflow ${workflow.id} to storage:`,
+        `[WorkflowEngine] Failed to checkpoint workflow ${workflow.id}:`,
         error
       );
     }
@@ -491,15 +749,21 @@ export class WorkflowEngine extends TypedEventBase {
     // Enhanced with schema validation for safety
     await new Promise(resolve => setTimeout(resolve, 1));
     
-    // Validate workflow definition using SchemaValidator
-    const validator = new SchemaValidator();
-    const isValid = validator.validate(definition, WorkflowDefinitionSchema);
-    if (!isValid) {
-      logger.warn(`Workflow definition validation failed for ${name}`, validator.getErrors());
+    // Validate workflow definition against the schema
+    const validation = WorkflowDefinitionSchema.safeParse(definition);
+    if (!validation.success) {
+      logger.warn(`Workflow definition validation failed for ${name}`, validation.error.issues);
     }
     
     logger.debug(`Registering workflow definition: ${name}`);
     this.workflowDefinitions.set(name, definition);
+    this.eventTriggers.replaceForWorkflow(name, definition.triggers);
+  }
+
+  unregisterWorkflowDefinition(name: string): boolean {
+    logger.debug(`Unregistering workflow definition: ${name}`);
+    this.eventTriggers.removeForWorkflow(name);
+    return this.workflowDefinitions.delete(name);
   }
 
   async createWorkflow(definition: WorkflowDefinition): Promise<string> {
@@ -507,7 +771,14 @@ export class WorkflowEngine extends TypedEventBase {
 
     // Register the workflow definition with a unique name
     const workflowName = `${definition.name}-${workflowId}`;
-    await this.registerWorkflowDefinition(workflowName, definition);
+    const { triggers, ...instance } = definition;
+    await this.registerWorkflowDefinition(workflowName, instance);
+
+    // Triggers start the definition by name, so they belong to the
+    // definition rather than to each instance created from it
+    if (triggers?.length && !this.workflowDefinitions.has(definition.name)) {
+      await this.registerWorkflowDefinition(definition.name, definition);
+    }
 
     return workflowId;
   }
@@ -517,6 +788,9 @@ export class WorkflowEngine extends TypedEventBase {
     context: WorkflowContext = {}
   ): Promise<{ success: boolean; workflowId?: string; error?: string }> {
     await this.initialize();
+    if (this.isStopping) {
+      throw new Error('WorkflowEngine is shutting down');
+    }
 
     let definition: WorkflowDefinition;
 
@@ -534,6 +808,9 @@ export class WorkflowEngine extends TypedEventBase {
       definition = workflowDefinitionOrName;
     }
 
+    // Reject unknown dependencies and cycles before anything runs
+    buildWorkflowGraph(definition.steps);
+
     // Check concurrent workflow limit
     const activeCount = ArrayProcessor.filter(
       Array.from(this.activeWorkflows.values()),
@@ -577,43 +854,184 @@ export class WorkflowEngine extends TypedEventBase {
   }
 
   async executeWorkflow(workflow: WorkflowState): Promise<void> {
+    const execution = this.runWorkflow(workflow);
+    this.executions.add(execution);
+    try {
+      await execution;
+    } finally {
+      this.executions.delete(execution);
+    }
+  }
+
+  private async runWorkflow(workflow: WorkflowState): Promise<void> {
     try {
       workflow.status = 'running';
       await this.saveWorkflow(workflow);
 
-      for (let i = workflow.currentStep; i < workflow.steps.length; i++) {
-        if (workflow.status !== 'running') {
-          break; // Workflow was paused or cancelled
-        }
-
-        const step = workflow.steps[i];
-        workflow.currentStep = i;
-        if (step) {
-          await this.executeWorkflowStep(workflow, step, i);
-        }
-      }
+      const finished = await this.executeWorkflowGraph(
+        workflow,
+        buildWorkflowGraph(workflow.steps)
+      );
 
-      if (workflow.status === 'running') {
+      // Unfinished and still running means the engine is shutting down;
+      // the checkpoint keeps it resumable
+      if (finished && workflow.status === 'running') {
         workflow.status = 'completed';
         workflow.endTime = DateFormatter.formatISOString();
         this.emit('workflow-completed', workflow.id);
       }
     } catch (error) {
+      if (this.isStopping) {
+        // A step that failed while the engine stops is left in
+        // `inFlightSteps`, so the next start runs it again instead of
+        // compensating now
+        logger.warn(
+          `[WorkflowEngine] Step of workflow ${workflow.id} failed during shutdown; leaving it to resume:`,
+          error
+        );
+        return;
+      }
       workflow.status = 'failed';
       workflow.error = (error as Error).message;
+      await this.compensateWorkflow(workflow);
       workflow.endTime = DateFormatter.formatISOString();
       this.emit('workflow-failed', workflow.id, error);
     } finally {
+      delete workflow.interruptedSteps;
       await this.saveWorkflow(workflow);
     }
   }
 
+  /**
+   * Run every step whose dependencies are satisfied, up to the workflow's
+   * concurrency limit, until all steps are done, one fails, or the workflow
+   * is paused or cancelled, or the engine shuts down. Steps already in
+   * `stepResults` (a resumed workflow) are not run again. The workflow is
+   * checkpointed when a step starts and after it completes.
+   *
+   * @returns Whether every step has completed.
+   */
+  private async executeWorkflowGraph(
+    workflow: WorkflowState,
+    graph: WorkflowGraph
+  ): Promise<boolean> {
+    const limit = graph.parallel
+      ? Math.max(
+          1,
+          workflow.definition.maxConcurrency ?? this.config.maxStepConcurrency
+        )
+      : 1;
+    const done = new Set(
+      graph.order.filter((id) => id in workflow.stepResults)
+    );
+    const running = new Map<string, Promise<void>>();
+    let failed = false;
+    let failure: unknown;
+
+    const isReady = (node: WorkflowGraphNode) =>
+      !done.has(node.id) &&
+      !running.has(node.id) &&
+      node.dependsOn.every((dependency) => done.has(dependency));
+
+    const interrupted = new Set(workflow.interruptedSteps ?? []);
+    workflow.inFlightSteps ??= {};
+
+    while (!failed && workflow.status === 'running' && !this.isStopping) {
+      for (const id of graph.order) {
+        const node = graph.nodes.get(id)!;
+        if (running.size >= limit) break;
+        if (!isReady(node)) continue;
+
+        const meta: StepExecutionMeta = {
+          workflowId: workflow.id,
+          stepId: node.id,
+          idempotencyKey:
+            node.step.idempotencyKey ?? `${workflow.id}:${node.id}`,
+          attempt: 1,
+          resumed: interrupted.has(node.id),
+        };
+        workflow.inFlightSteps[node.id] = {
+          idempotencyKey: meta.idempotencyKey,
+          attempt: meta.attempt,
+          startedAt: DateFormatter.formatISOString(),
+        };
+        await this.saveWorkflow(workflow);
+
+        const execution = this.executeWorkflowStep(
+          workflow,
+          node.step,
+          node.index,
+          node.id,
+          this.createStepContext(workflow, node, graph.parallel),
+          meta
+        )
+          .then(async () => {
+            done.add(node.id);
+            workflow.currentStep = done.size;
+            delete workflow.inFlightSteps?.[node.id];
+            await this.saveWorkflow(workflow);
+          })
+          .catch((error) => {
+            if (!failed) {
+              failed = true;
+              failure = error;
+            }
+          })
+          .finally(() => {
+            running.delete(node.id);
+            workflow.activeSteps = [...running.keys()];
+          });
+
+        running.set(node.id, execution);
+        workflow.activeSteps = [...running.keys()];
+      }
+
+      if (running.size === 0) break;
+      await Promise.race(running.values());
+    }
+
+    // Let in-flight branches settle before reporting the outcome
+    await Promise.allSettled(running.values());
+    if (failed) {
+      throw failure;
+    }
+    return done.size === graph.nodes.size;
+  }
+
+  /**
+   * Context handed to a step. Sequential steps share the workflow context;
+   * DAG steps get a copy carrying their dependencies' results as
+   * `stepInputs` (keyed by step id) and, at join points, `mergedInputs`.
+   */
+  private createStepContext(
+    workflow: WorkflowState,
+    node: WorkflowGraphNode,
+    parallel: boolean
+  ): WorkflowContext {
+    if (!parallel || node.dependsOn.length === 0) {
+      return workflow.context;
+    }
+
+    const stepInputs = Object.fromEntries(
+      node.dependsOn.map((id) => [id, workflow.stepResults[id]])
+    );
+    return {
+      ...workflow.context,
+      stepInputs,
+      ...(node.dependsOn.length > 1 && {
+        mergedInputs: mergeStepResults(node.dependsOn, workflow.stepResults),
+      }),
+    };
+  }
+
   private async executeWorkflowStep(
     workflow: WorkflowState,
     step: WorkflowStep,
-    stepIndex: number
+    stepIndex: number,
+    stepId: string = resolveStepId(step, stepIndex),
+    context: WorkflowContext = workflow.context,
+    meta?: StepExecutionMeta
   ): Promise<void> {
-    const stepId = `step-${stepIndex}`;
     let retries = 0;
     const maxRetries = step.retries !== undefined ? step.retries : 0;
 
@@ -628,7 +1046,15 @@ export class WorkflowEngine extends TypedEventBase {
         });
 
         // Execute step
-        const stepPromise = this.executeStep(step, workflow.context);
+        const inFlight = workflow.inFlightSteps?.[stepId];
+        if (inFlight) {
+          inFlight.attempt = retries + 1;
+        }
+        const stepPromise = this.executeStep(
+          step,
+          context,
+          meta && { ...meta, attempt: retries + 1 }
+        );
         const result = await Promise.race([stepPromise, timeoutPromise]);
 
         // Store result in context if specified
@@ -641,6 +1067,7 @@ export class WorkflowEngine extends TypedEventBase {
 
         workflow.completedSteps.push({
           index: stepIndex,
+          stepId,
           step,
           result,
           duration: 0, // Would calculate actual duration
@@ -677,6 +1104,104 @@ export class WorkflowEngine extends TypedEventBase {
     }
   }
 
+  /**
+   * Undo a failed workflow saga-style: run the `compensate` step of every
+   * completed step, most recently completed first. A failing compensation
+   * is recorded and the remaining ones still run.
+   */
+  private async compensateWorkflow(workflow: WorkflowState): Promise<void> {
+    const compensated = new Set(
+      workflow.completedSteps
+        .filter((entry) => entry.compensation)
+        .map((entry) => entry.compensation!.stepId)
+    );
+    const pending = workflow.completedSteps
+      .filter(
+        (entry) =>
+          !entry.compensation &&
+          entry.step.compensate &&
+          !compensated.has(entry.stepId ?? resolveStepId(entry.step, entry.index))
+      )
+      .reverse();
+    if (pending.length === 0) return;
+
+    this.emit('workflow-compensating', workflow.id, pending.length);
+    let failures = 0;
+
+    for (const entry of pending) {
+      const stepId = entry.stepId ?? resolveStepId(entry.step, entry.index);
+      const compensation = entry.step.compensate!;
+      const step: WorkflowStep = {
+        id: `${stepId}:compensate`,
+        type: compensation.type,
+        name: `Compensate ${entry.step.name ?? stepId}`,
+        params: compensation.params,
+        retries: compensation.retries,
+        timeout: compensation.timeout,
+      };
+      const startedAt = Date.now();
+      let outcome: CompensationOutcome;
+      let result: unknown;
+
+      try {
+        result = await this.runCompensationStep(workflow, step, {
+          ...workflow.context,
+          compensating: { stepId, result: entry.result, error: workflow.error },
+        });
+        outcome = { stepId, status: 'compensated' };
+        this.emit('step-compensated', workflow.id, stepId, result);
+      } catch (error) {
+        failures++;
+        outcome = { stepId, status: 'failed', error: (error as Error).message };
+        logger.error(
+          `[WorkflowEngine] Compensation for step ${stepId} of workflow ${workflow.id} failed:`,
+          error
+        );
+        this.emit('compensation-failed', workflow.id, stepId, error);
+      }
+
+      workflow.completedSteps.push({
+        index: entry.index,
+        stepId,
+        step,
+        result,
+        duration: Date.now() - startedAt,
+        timestamp: DateFormatter.formatISOString(),
+        compensation: outcome,
+      });
+      await this.saveWorkflow(workflow);
+    }
+
+    workflow.compensationStatus = failures > 0 ? 'partial' : 'completed';
+    this.emit('workflow-compensated', workflow.id, workflow.compensationStatus);
+  }
+
+  private async runCompensationStep(
+    workflow: WorkflowState,
+    step: WorkflowStep,
+    context: WorkflowContext
+  ): Promise<unknown> {
+    const maxRetries = step.retries ?? 0;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const timeout = step.timeout||this.config.stepTimeout;
+        return await AsyncUtils.createTimeout(
+          this.executeStep(step, context, {
+            workflowId: workflow.id,
+            stepId: step.id!,
+            idempotencyKey: `${workflow.id}:${step.id}`,
+            attempt,
+            resumed: false,
+          }),
+          timeout
+        );
+      } catch (error) {
+        if (attempt > maxRetries) throw error;
+        await AsyncUtils.createDelay(this.config.retryDelay * attempt);
+      }
+    }
+  }
+
   async getWorkflowStatus(workflowId: string): Promise<unknown> {
     // Enhanced with async validation and foundation event system
     this.emit('workflow-status-requested', { workflowId, timestamp: Date.now() });
@@ -705,6 +1230,7 @@ export class WorkflowEngine extends TypedEventBase {
       id: workflow.id,
       status: workflow.status,
       currentStep: workflow.currentStep,
+      activeSteps: workflow.activeSteps ?? [],
       totalSteps: workflow.steps.length,
       progress:
         workflow.steps.length > 0
@@ -799,23 +1325,14 @@ export class WorkflowEngine extends TypedEventBase {
   }
 
   async getWorkflowHistory(limit: number = 100): Promise<WorkflowState[]> {
-    if (!this.config.persistWorkflows) {
+    if (!this.checkpointStore) {
       return Array.from(this.activeWorkflows.values()).slice(-limit);
     }
 
     try {
-      // Use foundation storage to get workflow history
-      const kvStore = await this.kvStore;
-      const workflowKeys = await kvStore.keys('workflow:*');
-
-      // Load workflows and sort by start time
-      const workflows: WorkflowState[] = [];
-      for (const key of workflowKeys) {
-        const workflow = await kvStore.get(key);
-        if (workflow) {
-          workflows.push(workflow);
-        }
-      }
+      const workflows = (await this.checkpointStore.loadAll()).map(
+        (checkpoint) => checkpoint.state
+      );
 
       // Sort by start time (newest first) and limit
       const sortedWorkflows = workflows
@@ -882,13 +1399,19 @@ export class WorkflowEngine extends TypedEventBase {
     lines.push('    start([Start])');
     lines.push('    end_node([End])');
 
+    const graph = buildWorkflowGraph(workflow.steps);
+    const nodeIds = new Map(
+      [...graph.nodes.values()].map((node) => [node.id, `step${node.index}`])
+    );
+
     workflow.steps.forEach((step, index) => {
       const nodeId = `step${index}`;
+      const graphNode = graph.nodes.get(resolveStepId(step, index))!;
       const label = (step.name||step.type).replace(/[^a-zA-Z0-9\s]/g,''); // Clean label for Mermaid
       const status =
-        index < workflow.currentStep
+        graphNode.id in workflow.stepResults
           ? 'completed'
-          : index === workflow.currentStep
+          : workflow.activeSteps?.includes(graphNode.id)
             ? 'current'
             : 'pending';
 
@@ -916,15 +1439,16 @@ export class WorkflowEngine extends TypedEventBase {
         );
       }
 
-      // Connect steps
-      if (index === 0) {
+      // Connect steps along their dependencies (fan-out / join)
+      if (graphNode.dependsOn.length === 0) {
         lines.push(`    start --> ${nodeId}`);
-      } else {
-        lines.push(`    step${index - 1} --> ${nodeId}`);
+      }
+      for (const dependency of graphNode.dependsOn) {
+        lines.push(`    ${nodeIds.get(dependency)} --> ${nodeId}`);
       }
 
-      // Connect last step to end
-      if (index === workflow.steps.length - 1) {
+      // Connect terminal steps to end
+      if (graphNode.dependents.length === 0) {
         lines.push(`    ${nodeId} --> end_node`);
       }
     });
@@ -1064,6 +1588,84 @@ export class WorkflowEngine extends TypedEventBase {
     return false;
   }
 
+  // ====================================================================
+  // EVENT TRIGGERS
+  // ====================================================================
+
+  /**
+   * Make an event source available to triggers under `name` (the UEL is
+   * registered as `uel`). Triggers waiting for it are bound immediately.
+   *
+   * @example
+   * ```typescript
+   * engine.registerTriggerSource('kanban', workflowKanban);
+   * ```
+   */
+  registerTriggerSource(name: string, source: WorkflowTriggerSource): void {
+    this.eventTriggers.registerSource(name, source);
+  }
+
+  unregisterTriggerSource(name: string): void {
+    this.eventTriggers.unregisterSource(name);
+  }
+
+  /**
+   * Start `workflowName` whenever the trigger's event fires.
+   *
+   * @returns The trigger id.
+   */
+  addEventTrigger(
+    workflowName: string,
+    trigger: WorkflowTriggerDefinition
+  ): string {
+    const id =
+      trigger.id||`trigger-${workflowName}-${SecureIdGenerator.generate(8)}`;
+    this.eventTriggers.add({ ...trigger, id, workflow: workflowName });
+    return id;
+  }
+
+  removeEventTrigger(triggerId: string): boolean {
+    return this.eventTriggers.remove(triggerId);
+  }
+
+  setEventTriggerEnabled(triggerId: string, enabled: boolean): boolean {
+    return this.eventTriggers.setEnabled(triggerId, enabled);
+  }
+
+  getEventTriggers(): WorkflowTriggerStatus[] {
+    return this.eventTriggers.list();
+  }
+
+  private async startTriggeredWorkflow(
+    trigger: WorkflowTrigger,
+    context: WorkflowContext
+  ): Promise<void> {
+    try {
+      logger.info(
+        `[WorkflowEngine] Trigger ${trigger.id} starting workflow: ${trigger.workflow}`
+      );
+      const result = await this.startWorkflow(trigger.workflow, context);
+
+      if (result.success) {
+        this.emit('triggered-workflow-started',
+          trigger.workflow,
+          result.workflowId,
+          trigger.id
+        );
+      } else {
+        logger.error(
+          `[WorkflowEngine] Failed to start triggered workflow ${trigger.workflow}: ${result.error}`
+        );
+      }
+    } catch (error) {
+      logger.error(
+        `[WorkflowEngine] Error in triggered workflow ${trigger.workflow}:`,
+        error
+      );
+      this.emit('triggered-workflow-error', trigger.workflow, error, trigger.id);
+    }
+  }
+
   /**
    * Get all active schedules
    */
@@ -1075,6 +1677,10 @@ export class WorkflowEngine extends TypedEventBase {
   }
 
   async cleanup(): Promise<void> {
+    this.definitionLoader?.close();
+    this.definitionLoader = undefined;
+    this.eventTriggers.clear();
+
     // Clean up scheduled tasks
     for (const [id, task] of this.scheduledTasks) {
       task.destroy();
@@ -1496,13 +2102,35 @@ Format as JSON with keys: structuralSuggestions, performanceSuggestions, reliabi
   async shutdown(): Promise<void> {
     logger.info('Shutting down WorkflowEngine...');
 
-    const activeWorkflowIds = Array.from(this.activeWorkflows.keys())();
-    for (const workflowId of activeWorkflowIds) {
-      try {
-        await this.cancelWorkflow(workflowId);
-      } catch (error) {
-        logger.error(`Error cancelling workflow ${workflowId}:`, error);
+    // Workflows start no further steps from here on; initialize() clears it
+    this.isStopping = true;
+
+    if (!this.checkpointStore) {
+      const activeWorkflowIds = Array.from(this.activeWorkflows.keys());
+      for (const workflowId of activeWorkflowIds) {
+        try {
+          await this.cancelWorkflow(workflowId);
+        } catch (error) {
+          logger.error(`Error cancelling workflow ${workflowId}:`, error);
+        }
+      }
+    }
+
+    // Let steps already running finish while their handlers are still
+    // registered
+    await Promise.allSettled([...this.executions]);
+
+    if (this.checkpointStore) {
+      // Leave running workflows in their checkpoints so the next start
+      // resumes them instead of losing their progress
+      for (const workflow of this.activeWorkflows.values()) {
+        try {
+          await this.saveWorkflow(workflow);
+        } catch (error) {
+          logger.error(`Error checkpointing workflow ${workflow.id}:`, error);
+        }
       }
+      await this.checkpointStore.flush();
     }
 
     await this.cleanup();
@@ -58,6 +58,41 @@
 // =============================================================================
 
 export { WorkflowEngine as default, WorkflowEngine } from './main';
+export {
+  buildWorkflowGraph,
+  mergeStepResults,
+  resolveStepId,
+} from './workflow-graph';
+export type { WorkflowGraph, WorkflowGraphNode } from './workflow-graph';
+
+export {
+  CHECKPOINT_FORMAT_VERSION,
+  WorkflowCheckpointStore,
+} from './workflow-checkpoint-store';
+export type { WorkflowCheckpoint } from './workflow-checkpoint-store';
+
+export {
+  parseWorkflowDefinition,
+  WorkflowDefinitionError,
+  WorkflowDefinitionLoader,
+} from './workflow-definition-loader';
+export type {
+  WorkflowDefinitionIssue,
+  WorkflowDefinitionListener,
+} from './workflow-definition-loader';
+
+export {
+  DEFAULT_TRIGGER_SOURCE,
+  readPayloadPath,
+  WorkflowTriggerManager,
+} from './workflow-triggers';
+export type {
+  WorkflowTrigger,
+  WorkflowTriggerDefinition,
+  WorkflowTriggerSource,
+  WorkflowTriggerStarter,
+  WorkflowTriggerStatus,
+} from './workflow-triggers';
 
 // =============================================================================
 // PROFESSIONAL UTILITIES - Library Integrations
@@ -75,6 +110,7 @@ export {
   // Validation utilities
   SchemaValidator,
   WorkflowStepSchema,
+  WorkflowTriggerSchema,
   WorkflowDefinitionSchema,
   WorkflowContextSchema,
   WorkflowExecutionResultSchema,
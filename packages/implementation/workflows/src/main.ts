@@ -64,8 +64,49 @@ export type {
   WorkflowData,
   WorkflowState,
   WorkflowEngineConfig,
+  StepExecutionMeta,
+  StepHandler,
+  StepHandlerOptions,
+  WorkflowCompensation,
+  CompensationOutcome,
 } from './engine';
 
+export {
+  buildWorkflowGraph,
+  mergeStepResults,
+  resolveStepId,
+} from './workflow-graph';
+export type { WorkflowGraph, WorkflowGraphNode } from './workflow-graph';
+
+export {
+  CHECKPOINT_FORMAT_VERSION,
+  WorkflowCheckpointStore,
+} from './workflow-checkpoint-store';
+export type { WorkflowCheckpoint } from './workflow-checkpoint-store';
+
+export {
+  parseWorkflowDefinition,
+  WorkflowDefinitionError,
+  WorkflowDefinitionLoader,
+} from './workflow-definition-loader';
+export type {
+  WorkflowDefinitionIssue,
+  WorkflowDefinitionListener,
+} from './workflow-definition-loader';
+
+export {
+  DEFAULT_TRIGGER_SOURCE,
+  readPayloadPath,
+  WorkflowTriggerManager,
+} from './workflow-triggers';
+export type {
+  WorkflowTrigger,
+  WorkflowTriggerDefinition,
+  WorkflowTriggerSource,
+  WorkflowTriggerStarter,
+  WorkflowTriggerStatus,
+} from './workflow-triggers';
+
 // =============================================================================
 // PROFESSIONAL SYSTEM ACCESS - Production naming patterns
 // =============================================================================
@@ -1,5 +0,0 @@
-/**
- * @file Comprehensive Workflow Types - Single Source of Truth
- * Unified types for all workflow operations across the system
- */
-export {};
@@ -1,11 +0,0 @@
-/**
- * @fileoverview Collections Utilities Index
- *
- * Professional collection manipulation utilities using lodash-es.
- *
- * @author Claude Code Zen Team
- * @since 1.0.0
- */
-export { ArrayProcessor } from './array-processor';
-export { ObjectProcessor } from './object-processor';
-//# sourceMappingURL=index.js.map
\ No newline at end of file
@@ -1,11 +0,0 @@
-/**
- * @fileoverview Date Utilities Index
- *
- * Professional date handling utilities using date-fns.
- *
- * @author Claude Code Zen Team
- * @since 1.0.0
- */
-export { DateFormatter } from './date-formatter';
-export { DateCalculator } from './date-calculator';
-//# sourceMappingURL=index.d.ts.map
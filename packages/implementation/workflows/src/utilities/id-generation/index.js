@@ -1,10 +0,0 @@
-/**
- * @fileoverview ID Generation Utilities Index
- *
- * Professional ID generation utilities using nanoid.
- *
- * @author Claude Code Zen Team
- * @since 1.0.0
- */
-export { SecureIdGenerator } from './secure-ids';
-//# sourceMappingURL=index.js.map
\ No newline at end of file
@@ -1,35 +0,0 @@
-/**
- * @fileoverview Utilities Index - Professional Library Integrations
- *
- * Professional utility module organization with focused domain separation.
- * Each utility class handles a single responsibility with <100 lines per file.
- *
- * Libraries integrated:
- * - lodash-es: Data manipulation utilities (40M+ weekly downloads)
- * - date-fns: Date calculations and formatting (15M+ weekly downloads)
- * - nanoid: Secure ID generation (10M+ weekly downloads)
- * - zod: Schema validation (10M+ weekly downloads)
- * - rxjs: Reactive programming (15M+ weekly downloads)
- * - immer: Immutable updates (10M+ weekly downloads)
- *
- * @author Claude Code Zen Team
- * @since 1.0.0
- * @version 1.0.0
- */
-export { DateFormatter, DateCalculator } from './date';
-export { ArrayProcessor, ObjectProcessor } from './collections';
-export { SecureIdGenerator } from './id-generation';
-export {
-  SchemaValidator,
-  WorkflowStepSchema,
-  WorkflowDefinitionSchema,
-  WorkflowContextSchema,
-  WorkflowExecutionResultSchema,
-  type WorkflowStep,
-  type WorkflowDefinition,
-  type WorkflowContext,
-  type WorkflowExecutionResult,
-} from './validation';
-export { ObservableUtils, AsyncUtils } from './reactive';
-export { ImmutableOps } from './state';
-//# sourceMappingURL=index.d.ts.map
@@ -30,6 +30,7 @@ export { SecureIdGenerator } from './id-generation';
 export {
   SchemaValidator,
   WorkflowStepSchema,
+  WorkflowTriggerSchema,
   WorkflowDefinitionSchema,
   WorkflowContextSchema,
   WorkflowExecutionResultSchema,
@@ -1,11 +0,0 @@
-/**
- * @fileoverview Reactive Utilities Index
- *
- * Professional reactive programming utilities using RxJS.
- *
- * @author Claude Code Zen Team
- * @since 1.0.0
- */
-export { ObservableUtils } from './observable-utils';
-export { AsyncUtils } from './async-utils';
-//# sourceMappingURL=index.d.ts.map
@@ -1,10 +0,0 @@
-/**
- * @fileoverview State Management Utilities Index
- *
- * Professional state management utilities using Immer.
- *
- * @author Claude Code Zen Team
- * @since 1.0.0
- */
-export { ImmutableOps } from './immutable-ops';
-//# sourceMappingURL=index.d.ts.map
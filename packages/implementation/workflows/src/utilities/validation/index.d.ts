@@ -1,20 +0,0 @@
-/**
- * @fileoverview Validation Utilities Index
- *
- * Professional validation utilities using Zod.
- *
- * @author Claude Code Zen Team
- * @since 1.0.0
- */
-export { SchemaValidator } from './schema-validator';
-export {
-  WorkflowStepSchema,
-  WorkflowDefinitionSchema,
-  WorkflowContextSchema,
-  WorkflowExecutionResultSchema,
-  type WorkflowStep,
-  type WorkflowDefinition,
-  type WorkflowContext,
-  type WorkflowExecutionResult,
-} from './workflow-schemas';
-//# sourceMappingURL=index.d.ts.map
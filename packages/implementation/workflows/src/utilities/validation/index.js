@@ -1,11 +0,0 @@
-/**
- * @fileoverview Validation Utilities Index
- *
- * Professional validation utilities using Zod.
- *
- * @author Claude Code Zen Team
- * @since 1.0.0
- */
-export { SchemaValidator } from './schema-validator';
-export { WorkflowStepSchema, WorkflowDefinitionSchema, WorkflowContextSchema, WorkflowExecutionResultSchema } from './workflow-schemas';
-//# sourceMappingURL=index.js.map
\ No newline at end of file
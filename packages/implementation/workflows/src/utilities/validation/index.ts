@@ -10,6 +10,7 @@
 export { SchemaValidator } from './schema-validator';
 export {
   WorkflowStepSchema,
+  WorkflowTriggerSchema,
   WorkflowDefinitionSchema,
   WorkflowContextSchema,
   WorkflowExecutionResultSchema,
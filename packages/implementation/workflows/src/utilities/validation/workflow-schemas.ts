@@ -14,13 +14,40 @@ import { z } from 'zod';
  * Workflow step validation schema
  */
 export const WorkflowStepSchema = z.object({
+  id: z.string().min(1).optional(),
   type: z.string().min(1, 'Step type is required'),
   name: z.string().optional(),
-  params: z.record(z.unknown()).optional(),
+  params: z.record(z.string(), z.unknown()).optional(),
   retries: z.number().int().min(0).max(10).default(0),
   timeout: z.number().int().min(100).max(300000).optional(),
   output: z.string().optional(),
   onError: z.enum(['stop', 'continue', 'skip']).default('stop'),
+  dependsOn: z.array(z.string().min(1)).optional(),
+  idempotencyKey: z.string().min(1).optional(),
+  compensate: z
+    .object({
+      type: z.string().min(1, 'Compensation type is required'),
+      params: z.record(z.string(), z.unknown()).optional(),
+      retries: z.number().int().min(0).max(10).optional(),
+      timeout: z.number().int().min(100).max(300000).optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Event trigger validation schema
+ */
+export const WorkflowTriggerSchema = z.object({
+  id: z.string().min(1).optional(),
+  event: z.string().min(1, 'Trigger event is required'),
+  source: z.string().min(1).optional(),
+  argNames: z.array(z.string().min(1)).optional(),
+  filter: z.union([z.string().min(1), z.record(z.string(), z.unknown())]).optional(),
+  debounceMs: z.number().int().min(0).max(3600000).optional(),
+  debounceKey: z.string().min(1).optional(),
+  mapping: z.record(z.string(), z.string()).optional(),
+  context: z.record(z.string(), z.unknown()).optional(),
+  enabled: z.boolean().optional(),
 });
 
 /**
@@ -33,13 +60,14 @@ export const WorkflowDefinitionSchema = z.object({
   version: z.string().optional(),
   tags: z.array(z.string()).optional(),
   timeout: z.number().int().min(1000).max(3600000).optional(),
-  maxConcurrency: z.number().int().min(1).max(100).default(1),
+  maxConcurrency: z.number().int().min(1).max(100).optional(),
+  triggers: z.array(WorkflowTriggerSchema).optional(),
 });
 
 /**
  * Workflow context validation schema
  */
-export const WorkflowContextSchema = z.record(z.unknown())();
+export const WorkflowContextSchema = z.record(z.string(), z.unknown());
 
 /**
  * Workflow execution result schema
@@ -62,7 +90,7 @@ export const WorkflowExecutionResultSchema = z.object({
     )
     .optional(),
   context: WorkflowContextSchema.optional(),
-  metadata: z.record(z.unknown()).optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
 });
 
 /**
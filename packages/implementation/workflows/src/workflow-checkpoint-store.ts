@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Workflow Checkpoint Store
+ *
+ * Crash-safe persistence for `WorkflowState`. Each workflow lives in its own
+ * `<directory>/<workflowId>.json` file, wrapped in a versioned envelope:
+ *
+ * ```json
+ * { "formatVersion": 1, "revision": 12, "savedAt": "...", "state": { ... } }
+ * ```
+ *
+ * Writes go to a temporary file that is fsynced and renamed over the
+ * checkpoint, so a crash leaves either the previous or the new revision on
+ * disk, never a torn file. Saves for the same workflow are serialised.
+ */
+
+import { mkdir, open, readdir, readFile, rename, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { getLogger } from '@claude-zen/foundation';
+
+import type { WorkflowState } from './engine';
+
+const logger = getLogger('WorkflowCheckpointStore');
+
+/** Current on-disk envelope format. Bump when `WorkflowState` changes shape. */
+export const CHECKPOINT_FORMAT_VERSION = 1;
+
+export interface WorkflowCheckpoint {
+  formatVersion: number;
+  /** Incremented on every save of the workflow */
+  revision: number;
+  savedAt: string;
+  state: WorkflowState;
+}
+
+const CHECKPOINT_SUFFIX = '.json';
+
+export class WorkflowCheckpointStore {
+  private revisions = new Map<string, number>();
+  private writeChains = new Map<string, Promise<void>>();
+
+  constructor(private readonly directory: string) {}
+
+  async open(): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+  }
+
+  /**
+   * Atomically write the next revision of a workflow's checkpoint.
+   *
+   * @param state
+   */
+  save(state: WorkflowState): Promise<void> {
+    const revision = (this.revisions.get(state.id) ?? 0) + 1;
+    this.revisions.set(state.id, revision);
+
+    // Serialise now so later in-memory mutations don't leak into this revision
+    const checkpoint: WorkflowCheckpoint = {
+      formatVersion: CHECKPOINT_FORMAT_VERSION,
+      revision,
+      savedAt: new Date().toISOString(),
+      state,
+    };
+    const payload = JSON.stringify(checkpoint);
+
+    const previous = this.writeChains.get(state.id) ?? Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(() => this.writeAtomically(this.pathFor(state.id), payload));
+
+    this.writeChains.set(state.id, write);
+    void write.finally(() => {
+      if (this.writeChains.get(state.id) === write) {
+        this.writeChains.delete(state.id);
+      }
+    });
+    return write;
+  }
+
+  async load(workflowId: string): Promise<WorkflowCheckpoint | undefined> {
+    return await this.read(this.pathFor(workflowId));
+  }
+
+  /**
+   * Load every readable checkpoint. Unreadable or unknown-format files are
+   * logged and skipped.
+   */
+  async loadAll(): Promise<WorkflowCheckpoint[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const checkpoints: WorkflowCheckpoint[] = [];
+    for (const file of files) {
+      if (!file.endsWith(CHECKPOINT_SUFFIX)) continue;
+      const checkpoint = await this.read(join(this.directory, file));
+      if (checkpoint) checkpoints.push(checkpoint);
+    }
+    return checkpoints;
+  }
+
+  async remove(workflowId: string): Promise<void> {
+    await this.writeChains.get(workflowId)?.catch(() => undefined);
+    await rm(this.pathFor(workflowId), { force: true });
+    this.revisions.delete(workflowId);
+  }
+
+  /**
+   * Wait for all pending writes (used on shutdown).
+   */
+  async flush(): Promise<void> {
+    await Promise.allSettled(this.writeChains.values());
+  }
+
+  private pathFor(workflowId: string): string {
+    // Workflow ids are generated, but never let one escape the directory
+    const safeId = workflowId.replace(/[^\w.-]/g, '_');
+    return join(this.directory, `${safeId}${CHECKPOINT_SUFFIX}`);
+  }
+
+  private async read(path: string): Promise<WorkflowCheckpoint | undefined> {
+    let raw: string;
+    try {
+      raw = await readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+
+    try {
+      const checkpoint = JSON.parse(raw) as WorkflowCheckpoint;
+      if (checkpoint.formatVersion !== CHECKPOINT_FORMAT_VERSION) {
+        logger.warn(
+          `Skipping checkpoint ${path}: unsupported format version ${checkpoint.formatVersion}`
+        );
+        return undefined;
+      }
+
+      const known = this.revisions.get(checkpoint.state.id) ?? 0;
+      this.revisions.set(checkpoint.state.id, Math.max(known, checkpoint.revision));
+      return checkpoint;
+    } catch (error) {
+      logger.error(`Skipping unreadable checkpoint ${path}:`, error);
+      return undefined;
+    }
+  }
+
+  private async writeAtomically(path: string, payload: string): Promise<void> {
+    const temporary = `${path}.${process.pid}.tmp`;
+    const handle = await open(temporary, 'w');
+    try {
+      await handle.writeFile(payload, 'utf8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await rename(temporary, path);
+  }
+}
@@ -0,0 +1,366 @@
+/**
+ * @fileoverview Declarative Workflow Definitions
+ *
+ * Loads `WorkflowDefinition`s from `.yaml`, `.yml` and `.json` files so
+ * workflows can be authored without writing TypeScript:
+ *
+ * ```yaml
+ * name: release
+ * steps:
+ *   - id: build
+ *     type: shell
+ *     retries: 2
+ *     timeout: 60000
+ *     output: artifact
+ *   - id: gate
+ *     type: condition
+ *     dependsOn: [build]
+ *     params:
+ *       condition: artifact.size < 50000000
+ *       thenStep: { type: publish }
+ * ```
+ *
+ * Files are validated against `WorkflowDefinitionSchema`, condition and
+ * trigger filter expressions are pre-parsed with `expr-eval` and the step
+ * graph is checked for cycles. Every problem is reported as `file:line:column: message`.
+ * JSON files go through the same YAML parser (JSON is valid YAML), so they
+ * get line numbers too.
+ */
+
+import { type FSWatcher, watch } from 'node:fs';
+import { readdir, readFile } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+
+import { getLogger } from '@claude-zen/foundation';
+import { Parser } from 'expr-eval';
+import { LineCounter, parseDocument, type Document } from 'yaml';
+
+import type { WorkflowDefinition } from './engine';
+import { WorkflowDefinitionSchema } from './utilities/validation/workflow-schemas';
+import { buildWorkflowGraph } from './workflow-graph';
+
+const logger = getLogger('WorkflowDefinitionLoader');
+
+const DEFINITION_EXTENSIONS = new Set(['.yaml', '.yml', '.json']);
+const RELOAD_DEBOUNCE_MS = 100;
+
+export interface WorkflowDefinitionIssue {
+  /** Path to the offending value, e.g. `steps.2.timeout` */
+  path: string;
+  message: string;
+  /** 1-based; absent when the position is unknown */
+  line?: number;
+  column?: number;
+}
+
+/**
+ * A definition file that failed to parse or validate. `message` lists every
+ * issue as `file:line:column: message`, one per line.
+ */
+export class WorkflowDefinitionError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly issues: WorkflowDefinitionIssue[]
+  ) {
+    super(
+      issues
+        .map((issue) => {
+          const position = issue.line
+            ? `:${issue.line}:${issue.column ?? 1}`
+            : '';
+          const where = issue.path ? ` (at ${issue.path})` : '';
+          return `${file}${position}: ${issue.message}${where}`;
+        })
+        .join('\n')
+    );
+    this.name = 'WorkflowDefinitionError';
+  }
+}
+
+/**
+ * Parse and validate one workflow definition document.
+ *
+ * @param source - YAML or JSON text.
+ * @param file - Name used in error messages.
+ * @throws {WorkflowDefinitionError} Listing every problem found.
+ */
+export function parseWorkflowDefinition(
+  source: string,
+  file = '<inline>'
+): WorkflowDefinition {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(source, { lineCounter, prettyErrors: false });
+
+  if (document.errors.length > 0) {
+    throw new WorkflowDefinitionError(
+      file,
+      document.errors.map((error) => {
+        const { line, col } = lineCounter.linePos(error.pos[0]);
+        return { path: '', message: error.message, line, column: col };
+      })
+    );
+  }
+
+  const locate = (path: PropertyKey[]): WorkflowDefinitionIssue => {
+    const position = positionOf(document, lineCounter, path);
+    return { path: path.map(String).join('.'), message: '', ...position };
+  };
+
+  const result = WorkflowDefinitionSchema.safeParse(document.toJS());
+  if (!result.success) {
+    throw new WorkflowDefinitionError(
+      file,
+      result.error.issues.map((issue) => ({
+        ...locate(issue.path),
+        message: issue.message,
+      }))
+    );
+  }
+
+  const definition = result.data as unknown as WorkflowDefinition;
+  const issues = [
+    ...conditionIssues(definition.steps, ['steps']),
+    ...triggerFilterIssues(definition),
+  ].map(({ path, message }) => ({ ...locate(path), message }));
+
+  try {
+    buildWorkflowGraph(definition.steps);
+  } catch (error) {
+    issues.push({ ...locate(['steps']), message: (error as Error).message });
+  }
+
+  if (issues.length > 0) {
+    throw new WorkflowDefinitionError(file, issues);
+  }
+  return definition;
+}
+
+/**
+ * Line and column of the node at `path`, falling back to the closest
+ * ancestor that exists (for missing required fields).
+ *
+ * @param document
+ * @param lineCounter
+ * @param path
+ */
+function positionOf(
+  document: Document,
+  lineCounter: LineCounter,
+  path: PropertyKey[]
+): { line?: number; column?: number } {
+  for (let depth = path.length; depth >= 0; depth--) {
+    const node = document.getIn(path.slice(0, depth), true) as
+      | { range?: [number, number, number] }
+      | undefined;
+    if (node?.range) {
+      const { line, col } = lineCounter.linePos(node.range[0]);
+      return { line, column: col };
+    }
+  }
+  return {};
+}
+
+/**
+ * Pre-parse `condition` step expressions, including steps nested in
+ * `thenStep`/`elseStep`, loop `step` and parallel `tasks`.
+ *
+ * @param steps
+ * @param path
+ */
+function conditionIssues(
+  steps: unknown[],
+  path: PropertyKey[]
+): Array<{ path: PropertyKey[]; message: string }> {
+  const issues: Array<{ path: PropertyKey[]; message: string }> = [];
+  const parser = new Parser();
+
+  const visit = (step: unknown, stepPath: PropertyKey[]): void => {
+    if (!step || typeof step !== 'object') return;
+    const { type, params } = step as {
+      type?: unknown;
+      params?: Record<string, unknown>;
+    };
+    if (!params) return;
+
+    if (type === 'condition') {
+      const expressionPath = [...stepPath, 'params', 'condition'];
+      if (typeof params.condition !== 'string') {
+        issues.push({
+          path: expressionPath,
+          message: 'Condition steps need a string `condition` expression',
+        });
+      } else {
+        try {
+          parser.parse(params.condition);
+        } catch (error) {
+          issues.push({
+            path: expressionPath,
+            message: `Invalid condition expression: ${(error as Error).message}`,
+          });
+        }
+      }
+    }
+
+    for (const key of ['thenStep', 'elseStep', 'step']) {
+      visit(params[key], [...stepPath, 'params', key]);
+    }
+    if (Array.isArray(params.tasks)) {
+      params.tasks.forEach((task, index) =>
+        visit(task, [...stepPath, 'params', 'tasks', index])
+      );
+    }
+  };
+
+  steps.forEach((step, index) => visit(step, [...path, index]));
+  return issues;
+}
+
+/**
+ * Pre-parse string trigger filters.
+ *
+ * @param definition
+ */
+function triggerFilterIssues(
+  definition: WorkflowDefinition
+): Array<{ path: PropertyKey[]; message: string }> {
+  const parser = new Parser();
+  const issues: Array<{ path: PropertyKey[]; message: string }> = [];
+
+  definition.triggers?.forEach((trigger, index) => {
+    if (typeof trigger.filter !== 'string') return;
+    try {
+      parser.parse(trigger.filter);
+    } catch (error) {
+      issues.push({
+        path: ['triggers', index, 'filter'],
+        message: `Invalid trigger filter: ${(error as Error).message}`,
+      });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Receives the loader's results; the WorkflowEngine registers and
+ * unregisters definitions through it.
+ */
+export interface WorkflowDefinitionListener {
+  onLoaded(definition: WorkflowDefinition, file: string): void | Promise<void>;
+  onRemoved(name: string, file: string): void | Promise<void>;
+  onError(error: WorkflowDefinitionError): void;
+}
+
+/**
+ * Loads every definition file in a directory and, when watching, reloads a
+ * file whenever it changes. A file that becomes invalid keeps its last good
+ * definition registered until it is fixed.
+ */
+export class WorkflowDefinitionLoader {
+  /** file name -> workflow name it registered */
+  private loadedNames = new Map<string, string>();
+  private reloadTimers = new Map<string, NodeJS.Timeout>();
+  private watcher?: FSWatcher;
+
+  constructor(
+    private readonly directory: string,
+    private readonly listener: WorkflowDefinitionListener
+  ) {}
+
+  /**
+   * Load all definition files.
+   *
+   * @returns Names of the workflows registered.
+   */
+  async loadAll(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        logger.warn(`Workflow definitions directory not found: ${this.directory}`);
+        return [];
+      }
+      throw error;
+    }
+
+    for (const file of files.filter(isDefinitionFile).sort()) {
+      await this.loadFile(file);
+    }
+    return [...this.loadedNames.values()];
+  }
+
+  /**
+   * Start watching the directory for added, changed and removed files.
+   */
+  watch(): void {
+    if (this.watcher) return;
+
+    this.watcher = watch(this.directory, (_event, file) => {
+      if (!file || !isDefinitionFile(file)) return;
+
+      // Editors emit several events per save; reload once they settle
+      clearTimeout(this.reloadTimers.get(file));
+      this.reloadTimers.set(
+        file,
+        setTimeout(() => {
+          this.reloadTimers.delete(file);
+          this.loadFile(file).catch((error) =>
+            logger.error(`Failed to reload workflow definition ${file}:`, error)
+          );
+        }, RELOAD_DEBOUNCE_MS)
+      );
+    });
+    this.watcher.on('error', (error) =>
+      logger.error(`Workflow definition watcher failed for ${this.directory}:`, error)
+    );
+    logger.info(`Watching workflow definitions in ${this.directory}`);
+  }
+
+  close(): void {
+    this.watcher?.close();
+    this.watcher = undefined;
+    for (const timer of this.reloadTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.reloadTimers.clear();
+  }
+
+  private async loadFile(file: string): Promise<void> {
+    let source: string;
+    try {
+      source = await readFile(join(this.directory, file), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+
+      const name = this.loadedNames.get(file);
+      if (name) {
+        this.loadedNames.delete(file);
+        await this.listener.onRemoved(name, file);
+        logger.info(`Removed workflow definition '${name}' (${file} deleted)`);
+      }
+      return;
+    }
+
+    let definition: WorkflowDefinition;
+    try {
+      definition = parseWorkflowDefinition(source, file);
+    } catch (error) {
+      if (!(error instanceof WorkflowDefinitionError)) throw error;
+      logger.error(`Invalid workflow definition:\n${error.message}`);
+      this.listener.onError(error);
+      return;
+    }
+
+    const previousName = this.loadedNames.get(file);
+    if (previousName && previousName !== definition.name) {
+      await this.listener.onRemoved(previousName, file);
+    }
+    this.loadedNames.set(file, definition.name);
+    await this.listener.onLoaded(definition, file);
+    logger.info(`Loaded workflow definition '${definition.name}' from ${file}`);
+  }
+}
+
+function isDefinitionFile(file: string): boolean {
+  return DEFINITION_EXTENSIONS.has(extname(file).toLowerCase());
+}
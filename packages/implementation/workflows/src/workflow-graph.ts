@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Workflow Step Graph
+ *
+ * Turns a workflow's step list into a dependency graph. Steps that declare
+ * `dependsOn` form a DAG: steps whose dependencies are satisfied may run
+ * concurrently, and a step with several dependencies is a join point that
+ * receives their merged results. Workflows without any `dependsOn` keep the
+ * classic sequential behaviour - every step implicitly depends on the one
+ * before it.
+ */
+
+import type { WorkflowStep } from './engine';
+
+export interface WorkflowGraphNode {
+  id: string;
+  index: number;
+  step: WorkflowStep;
+  dependsOn: string[];
+  dependents: string[];
+}
+
+export interface WorkflowGraph {
+  nodes: Map<string, WorkflowGraphNode>;
+  /** Step ids in a valid topological order (declaration order where possible) */
+  order: string[];
+  /** True when any step declares `dependsOn` */
+  parallel: boolean;
+}
+
+/**
+ * Stable identifier for a step: its declared `id` or `step-<index>`.
+ *
+ * @param step
+ * @param index
+ */
+export function resolveStepId(step: WorkflowStep, index: number): string {
+  return step.id || `step-${index}`;
+}
+
+/**
+ * Build and validate the dependency graph for a list of steps.
+ *
+ * @param steps
+ * @throws {Error} On duplicate step ids, unknown dependencies or cycles.
+ */
+export function buildWorkflowGraph(steps: WorkflowStep[]): WorkflowGraph {
+  const parallel = steps.some((step) => step.dependsOn !== undefined);
+  const nodes = new Map<string, WorkflowGraphNode>();
+
+  steps.forEach((step, index) => {
+    const id = resolveStepId(step, index);
+    if (nodes.has(id)) {
+      throw new Error(`Duplicate workflow step id: ${id}`);
+    }
+
+    const previous = index > 0 ? resolveStepId(steps[index - 1]!, index - 1) : undefined;
+    const dependsOn = parallel
+      ? [...new Set(step.dependsOn ?? [])]
+      : previous
+        ? [previous]
+        : [];
+
+    nodes.set(id, { id, index, step, dependsOn, dependents: [] });
+  });
+
+  for (const node of nodes.values()) {
+    for (const dependency of node.dependsOn) {
+      const target = nodes.get(dependency);
+      if (!target) {
+        throw new Error(
+          `Workflow step '${node.id}' depends on unknown step '${dependency}'`
+        );
+      }
+      if (dependency === node.id) {
+        throw new Error(`Workflow step '${node.id}' depends on itself`);
+      }
+      target.dependents.push(node.id);
+    }
+  }
+
+  return { nodes, order: topologicalOrder(nodes), parallel };
+}
+
+/**
+ * Kahn's algorithm, always picking the earliest declared ready step.
+ *
+ * @param nodes
+ */
+function topologicalOrder(nodes: Map<string, WorkflowGraphNode>): string[] {
+  const remaining = new Map(
+    [...nodes.values()].map((node) => [node.id, node.dependsOn.length])
+  );
+  const ready = [...nodes.values()]
+    .filter((node) => node.dependsOn.length === 0)
+    .map((node) => node.id);
+  const order: string[] = [];
+
+  while (ready.length > 0) {
+    ready.sort((a, b) => nodes.get(a)!.index - nodes.get(b)!.index);
+    const id = ready.shift()!;
+    order.push(id);
+
+    for (const dependent of nodes.get(id)!.dependents) {
+      const count = remaining.get(dependent)! - 1;
+      remaining.set(dependent, count);
+      if (count === 0) {
+        ready.push(dependent);
+      }
+    }
+  }
+
+  if (order.length !== nodes.size) {
+    const cyclic = [...nodes.keys()].filter((id) => !order.includes(id));
+    throw new Error(`Workflow steps form a cycle: ${cyclic.join(', ')}`);
+  }
+  return order;
+}
+
+/**
+ * Merge dependency results at a join point. Plain-object results are
+ * shallow-merged in `dependsOn` order (later dependencies win on key
+ * clashes); other values are kept under their step id.
+ *
+ * @param dependencyIds
+ * @param stepResults
+ */
+export function mergeStepResults(
+  dependencyIds: string[],
+  stepResults: Record<string, unknown>
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = {};
+  for (const id of dependencyIds) {
+    const result = stepResults[id];
+    if (result !== null && typeof result === 'object' && !Array.isArray(result)) {
+      Object.assign(merged, result);
+    } else {
+      merged[id] = result;
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,376 @@
+/**
+ * @fileoverview Event-Triggered Workflows
+ *
+ * Starts workflows in response to events, next to the cron schedules in
+ * `WorkflowEngine.scheduleWorkflow`. A trigger listens on a named event
+ * source - the UEL bus by default, or anything with an `on()` method such as
+ * a `WorkflowKanban` - filters the payload, debounces bursts and maps event
+ * fields into the new workflow's context:
+ *
+ * ```yaml
+ * triggers:
+ *   - event: task:moved
+ *     source: kanban
+ *     argNames: [taskId, fromState, toState]
+ *     filter: toState == "review"
+ *     debounceMs: 500
+ *     debounceKey: taskId
+ *     mapping:
+ *       taskId: taskId
+ *       previousState: fromState
+ * ```
+ */
+
+import { getLogger } from '@claude-zen/foundation';
+import { Parser, type Expression, type Value } from 'expr-eval';
+
+import type { WorkflowContext } from './engine';
+
+const logger = getLogger('WorkflowTriggers');
+
+/** Source name used when a trigger does not name one */
+export const DEFAULT_TRIGGER_SOURCE = 'uel';
+
+/**
+ * Anything triggers can listen on: the UEL `EventBus`, a `WorkflowKanban`
+ * or a plain Node `EventEmitter`.
+ */
+export interface WorkflowTriggerSource {
+  on(event: string, listener: (...args: unknown[]) => void): unknown;
+  off?(event: string, listener: (...args: unknown[]) => void): unknown;
+  removeListener?(event: string, listener: (...args: unknown[]) => void): unknown;
+}
+
+export interface WorkflowTriggerDefinition {
+  /** Stable id; generated from workflow and event when omitted */
+  id?: string;
+  /** Event name on the source, e.g. `task.completed` or `task:moved` */
+  event: string;
+  /** Registered source name (default `uel`) */
+  source?: string;
+  /**
+   * Names for positional listener arguments. Single-argument events use the
+   * argument itself as the payload; multi-argument events without names
+   * become `{ args: [...] }`.
+   */
+  argNames?: string[];
+  /**
+   * `expr-eval` expression over the payload fields, or a map of payload
+   * paths to required values.
+   */
+  filter?: string | Record<string, unknown>;
+  /** Start once events stop arriving for this long, with the latest payload */
+  debounceMs?: number;
+  /** Payload path whose value gets its own debounce window, e.g. `taskId` */
+  debounceKey?: string;
+  /** Workflow context key -> dotted payload path */
+  mapping?: Record<string, string>;
+  /** Static context merged under the mapped fields */
+  context?: WorkflowContext;
+  enabled?: boolean;
+}
+
+/**
+ * A trigger bound to the workflow definition it starts.
+ */
+export interface WorkflowTrigger extends WorkflowTriggerDefinition {
+  id: string;
+  workflow: string;
+}
+
+export interface WorkflowTriggerStatus {
+  id: string;
+  workflow: string;
+  event: string;
+  source: string;
+  /** False while the named source has not been registered */
+  bound: boolean;
+  enabled: boolean;
+  fired: number;
+  lastFiredAt?: string;
+}
+
+/**
+ * Starts the workflow for a fired trigger; provided by the WorkflowEngine.
+ */
+export type WorkflowTriggerStarter = (
+  trigger: WorkflowTrigger,
+  context: WorkflowContext
+) => Promise<void>;
+
+interface TriggerBinding {
+  trigger: WorkflowTrigger;
+  filter?: Expression;
+  listener?: (...args: unknown[]) => void;
+  timers: Map<string, NodeJS.Timeout>;
+  fired: number;
+  lastFiredAt?: string;
+}
+
+/**
+ * Read a dotted path (`payload.task.id`, `args.0`) from a payload.
+ *
+ * @param value
+ * @param path
+ */
+export function readPayloadPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const part of path.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+/**
+ * Registry of trigger sources and the triggers listening on them. Triggers
+ * whose source is not registered yet stay unbound until it is.
+ */
+export class WorkflowTriggerManager {
+  private sources = new Map<string, WorkflowTriggerSource>();
+  private bindings = new Map<string, TriggerBinding>();
+  private parser = new Parser();
+
+  constructor(private readonly start: WorkflowTriggerStarter) {}
+
+  registerSource(name: string, source: WorkflowTriggerSource): void {
+    this.unregisterSource(name);
+    this.sources.set(name, source);
+    for (const binding of this.bindings.values()) {
+      if (this.sourceName(binding.trigger) === name) {
+        this.bind(binding);
+      }
+    }
+  }
+
+  unregisterSource(name: string): void {
+    for (const binding of this.bindings.values()) {
+      if (this.sourceName(binding.trigger) === name) {
+        this.unbind(binding);
+      }
+    }
+    this.sources.delete(name);
+  }
+
+  /**
+   * Add or replace a trigger.
+   *
+   * @param trigger
+   * @throws {Error} When the filter expression does not parse.
+   */
+  add(trigger: WorkflowTrigger): void {
+    const filter =
+      typeof trigger.filter === 'string'
+        ? this.parseFilter(trigger.id, trigger.filter)
+        : undefined;
+
+    this.remove(trigger.id);
+    const binding: TriggerBinding = {
+      trigger,
+      filter,
+      timers: new Map(),
+      fired: 0,
+    };
+    this.bindings.set(trigger.id, binding);
+
+    if (trigger.enabled !== false) {
+      this.bind(binding);
+    }
+    logger.info(
+      `Registered trigger ${trigger.id}: ${this.sourceName(trigger)}/${trigger.event} -> ${trigger.workflow}`
+    );
+  }
+
+  remove(triggerId: string): boolean {
+    const binding = this.bindings.get(triggerId);
+    if (!binding) return false;
+
+    this.unbind(binding);
+    this.bindings.delete(triggerId);
+    return true;
+  }
+
+  /**
+   * Replace every trigger belonging to a workflow definition.
+   *
+   * @param workflow
+   * @param triggers
+   */
+  replaceForWorkflow(
+    workflow: string,
+    triggers: WorkflowTriggerDefinition[] = []
+  ): void {
+    this.removeForWorkflow(workflow);
+    triggers.forEach((definition, index) =>
+      this.add({
+        ...definition,
+        workflow,
+        id: definition.id ?? `${workflow}:${definition.event}:${index}`,
+      })
+    );
+  }
+
+  removeForWorkflow(workflow: string): void {
+    for (const binding of [...this.bindings.values()]) {
+      if (binding.trigger.workflow === workflow) {
+        this.remove(binding.trigger.id);
+      }
+    }
+  }
+
+  setEnabled(triggerId: string, enabled: boolean): boolean {
+    const binding = this.bindings.get(triggerId);
+    if (!binding) return false;
+
+    binding.trigger.enabled = enabled;
+    if (enabled) {
+      this.bind(binding);
+    } else {
+      this.unbind(binding);
+    }
+    return true;
+  }
+
+  list(): WorkflowTriggerStatus[] {
+    return [...this.bindings.values()].map((binding) => ({
+      id: binding.trigger.id,
+      workflow: binding.trigger.workflow,
+      event: binding.trigger.event,
+      source: this.sourceName(binding.trigger),
+      bound: binding.listener !== undefined,
+      enabled: binding.trigger.enabled !== false,
+      fired: binding.fired,
+      lastFiredAt: binding.lastFiredAt,
+    }));
+  }
+
+  clear(): void {
+    for (const binding of this.bindings.values()) {
+      this.unbind(binding);
+    }
+    this.bindings.clear();
+    this.sources.clear();
+  }
+
+  private sourceName(trigger: WorkflowTriggerDefinition): string {
+    return trigger.source ?? DEFAULT_TRIGGER_SOURCE;
+  }
+
+  private parseFilter(triggerId: string, filter: string): Expression {
+    try {
+      return this.parser.parse(filter);
+    } catch (error) {
+      throw new Error(
+        `Invalid filter for trigger ${triggerId}: ${(error as Error).message}`
+      );
+    }
+  }
+
+  private bind(binding: TriggerBinding): void {
+    if (binding.listener || binding.trigger.enabled === false) return;
+
+    const source = this.sources.get(this.sourceName(binding.trigger));
+    if (!source) return;
+
+    binding.listener = (...args: unknown[]) => this.handle(binding, args);
+    source.on(binding.trigger.event, binding.listener);
+  }
+
+  private unbind(binding: TriggerBinding): void {
+    for (const timer of binding.timers.values()) {
+      clearTimeout(timer);
+    }
+    binding.timers.clear();
+
+    if (!binding.listener) return;
+    const source = this.sources.get(this.sourceName(binding.trigger));
+    if (source?.off) {
+      source.off(binding.trigger.event, binding.listener);
+    } else {
+      source?.removeListener?.(binding.trigger.event, binding.listener);
+    }
+    binding.listener = undefined;
+  }
+
+  private handle(binding: TriggerBinding, args: unknown[]): void {
+    const { trigger } = binding;
+    const payload = this.toPayload(trigger, args);
+
+    try {
+      if (!this.matches(binding, payload)) return;
+    } catch (error) {
+      logger.warn(`Trigger ${trigger.id} filter failed:`, error);
+      return;
+    }
+
+    if (!trigger.debounceMs) {
+      this.fire(binding, payload);
+      return;
+    }
+
+    // Trailing debounce: restart the window, keep the latest payload
+    const key = trigger.debounceKey
+      ? String(readPayloadPath(payload, trigger.debounceKey))
+      : '';
+    clearTimeout(binding.timers.get(key));
+    binding.timers.set(
+      key,
+      setTimeout(() => {
+        binding.timers.delete(key);
+        this.fire(binding, payload);
+      }, trigger.debounceMs)
+    );
+  }
+
+  private toPayload(trigger: WorkflowTrigger, args: unknown[]): unknown {
+    if (trigger.argNames?.length) {
+      return Object.fromEntries(
+        trigger.argNames.map((name, index) => [name, args[index]])
+      );
+    }
+    return args.length === 1 ? args[0] : { args };
+  }
+
+  private matches(binding: TriggerBinding, payload: unknown): boolean {
+    const { filter } = binding.trigger;
+    if (binding.filter) {
+      return Boolean(
+        binding.filter.evaluate((payload ?? {}) as Value)
+      );
+    }
+    if (filter && typeof filter === 'object') {
+      return Object.entries(filter).every(
+        ([path, expected]) => readPayloadPath(payload, path) === expected
+      );
+    }
+    return true;
+  }
+
+  private fire(binding: TriggerBinding, payload: unknown): void {
+    const { trigger } = binding;
+    const firedAt = new Date().toISOString();
+    binding.fired++;
+    binding.lastFiredAt = firedAt;
+
+    const context: WorkflowContext = { ...trigger.context };
+    for (const [key, path] of Object.entries(trigger.mapping ?? {})) {
+      context[key] = readPayloadPath(payload, path);
+    }
+    context.trigger = {
+      id: trigger.id,
+      event: trigger.event,
+      source: this.sourceName(trigger),
+      firedAt,
+      payload,
+    };
+
+    this.start(trigger, context).catch((error) =>
+      logger.error(
+        `Trigger ${trigger.id} failed to start workflow ${trigger.workflow}:`,
+        error
+      )
+    );
+  }
+}